@@ -20,9 +20,10 @@ import {
     Grid,
     InputAdornment
 } from '@mui/material';
-import { Search } from 'lucide-react';
+import { Search, Eye } from 'lucide-react';
 import { DataFlight, TrackPoint } from './types';
 import { fetchDataFlights, fetchUnifiedTrack } from './api';
+import { useWatchlistMatcher } from './watchlist';
 
 export const DataExplorerPage: React.FC = () => {
     return (
@@ -75,6 +76,7 @@ const FlightsExplorer: React.FC = () => {
     const [startDate, setStartDate] = useState(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 16));
     const [endDate, setEndDate] = useState(new Date().toISOString().slice(0, 16));
     const [flights, setFlights] = useState<DataFlight[]>([]);
+    const matchWatchlist = useWatchlistMatcher();
     const [loading, setLoading] = useState(false);
     const [sortField, setSortField] = useState<keyof DataFlight>('start_time');
     const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
@@ -260,16 +262,22 @@ const FlightsExplorer: React.FC = () => {
                                 </TableRow>
                             </TableHead>
                             <TableBody>
-                                {sortedFlights.map((f) => (
-                                    <TableRow key={f.flight_id} hover>
-                                        <TableCell sx={{ fontFamily: 'monospace' }}>{f.flight_id}</TableCell>
-                                        <TableCell>{f.callsign || '-'}</TableCell>
-                                        <TableCell>{new Date(f.start_time * 1000).toLocaleString()}</TableCell>
-                                        <TableCell>{new Date(f.end_time * 1000).toLocaleString()}</TableCell>
-                                        <TableCell>{f.point_count}</TableCell>
-                                        <TableCell>{f.source}</TableCell>
-                                    </TableRow>
-                                ))}
+                                {sortedFlights.map((f) => {
+                                    const watched = matchWatchlist({ callsign: f.callsign });
+                                    return (
+                                        <TableRow key={f.flight_id} hover sx={watched ? { bgcolor: '#fef3c7' } : undefined}>
+                                            <TableCell sx={{ fontFamily: 'monospace' }}>{f.flight_id}</TableCell>
+                                            <TableCell title={watched ? `Watchlist: ${watched.pattern}${watched.note ? ` (${watched.note})` : ''}` : undefined}>
+                                                {f.callsign || '-'}
+                                                {watched && <Eye size={14} style={{ marginInlineStart: 6, verticalAlign: 'middle', color: '#d97706' }} />}
+                                            </TableCell>
+                                            <TableCell>{new Date(f.start_time * 1000).toLocaleString()}</TableCell>
+                                            <TableCell>{new Date(f.end_time * 1000).toLocaleString()}</TableCell>
+                                            <TableCell>{f.point_count}</TableCell>
+                                            <TableCell>{f.source}</TableCell>
+                                        </TableRow>
+                                    );
+                                })}
                                 {flights.length === 0 && !loading && (
                                     <TableRow>
                                         <TableCell colSpan={6} align="center">No flights found</TableCell>
@@ -1,16 +1,32 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
-import { Sidebar, type SidebarMode } from './components/Sidebar';
-import { MapComponent, type MapComponentHandle, type AIHighlightedPoint, type AIHighlightedSegment, type MLAnomalyPoint } from './components/MapComponent';
+import { Sidebar, trackSourceForMode, type SidebarMode } from './components/Sidebar';
+import { MapComponent, type MapComponentHandle, type AIHighlightedPoint, type AIHighlightedSegment, type MLAnomalyPoint, type PinnedTrackOverlay, type CpaMarker, type AlertAreaOverlay, type AreaDrawRequest } from './components/MapComponent';
 import { AnalysisPanel } from './components/AnalysisPanel';
+import type { ReportPanelHandle } from './components/ReportPanel';
+import { KeyboardShortcutsOverlay } from './components/KeyboardShortcutsOverlay';
+import { NotificationCenter } from './components/NotificationCenter';
+import { AlertRulesModal } from './components/AlertRulesModal';
+import { FlightProfilePanel, type FlightProfilePanelHandle } from './components/FlightProfilePanel';
+import { FlightTimeline, type FlightTimelineHandle } from './components/FlightTimeline';
+import { ProximityCpaPanel, type ProximityEncounter } from './components/ProximityCpaPanel';
+import { PinnedFlightsTray, type PinnedTrackStatus } from './components/PinnedFlightsTray';
 import { SettingsModal } from './components/SettingsModal';
 import { ReasoningChat } from './components/ReasoningChat';
-import { fetchLiveTrack, fetchResearchTrack, fetchUnifiedTrack, fetchFeedbackTrack, fetchTaggedFeedbackTrack, fetchTaggedFlightMetadata, fetchResearchFlightMetadata, type FlightMetadata } from './api';
-import type { AnomalyReport, FlightTrack } from './types';
+import { fetchTrackFromSource, fetchLiveAnomalies, fetchResearchAnomaly, fetchTaggedFlightMetadata, fetchResearchFlightMetadata, getErrorMessage, isAbortError, type FlightMetadata } from './api';
+import type { AnomalyReport, FlightTrack, TrackPoint } from './types';
 import type { ProcessedActions } from './utils/aiActions';
-import { Settings, Bell } from 'lucide-react';
+import { MODEL_LAYERS, findMatchedRule, getAnomalyTimestamps } from './utils/reportSchema';
+import { diagnoseTrack } from './utils/trackDiagnostics';
+import { computeCpa } from './utils/cpa';
+import { dayRange, parseRangeParams, writeRangeParams, type DateRange } from './utils/dateRange';
+import { SELECTED_FLIGHT_URL_PARAM, readFilterParams, writeFilterParams, type SidebarFilters } from './utils/sidebarFilters';
+import { getShortcutAction, getShortcutRule, useShortcutBindings } from './keyboardShortcuts';
+import { Settings, Keyboard } from 'lucide-react';
 import clsx from 'clsx';
-import { ALERT_AUDIO_SRC } from './constants';
+import { isMockModeEnabled } from './mock/mockMode';
+import { ALERT_OPEN_EVENT, getAlertHistory, getAlertReport, useAlertRules, type AlertHistoryEntry, type AlertRule } from './alertRules';
+import { PINNED_URL_PARAM, applyPinnedParam, getPinnedReport, serializePinnedParam, setPinnedReport, usePinnedFlights } from './pinnedFlights';
 import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
 import { useTranslation } from 'react-i18next';
 
@@ -18,25 +34,16 @@ import { useTranslation } from 'react-i18next';
 const getInitialState = () => {
     const params = new URLSearchParams(window.location.search);
     const modeParam = params.get('mode');
-    const dateParam = params.get('date');
     
-    const validModes = ['historical', 'realtime', 'research', 'rules', 'feedback', 'ai-results'];
+    const validModes = ['historical', 'realtime', 'research', 'rules', 'feedback', 'ai-results', 'watchlist'];
     const initialMode = validModes.includes(modeParam || '') ? (modeParam as SidebarMode) : 'historical';
     
-    // Parse date safely
-    let initialDate = new Date();
-    if (dateParam) {
-        const parts = dateParam.split('-');
-        if (parts.length === 3) {
-            initialDate = new Date(
-                parseInt(parts[0]),
-                parseInt(parts[1]) - 1,
-                parseInt(parts[2])
-            );
-        }
-    }
-    
-    return { mode: initialMode, date: initialDate };
+    return {
+        mode: initialMode,
+        dateRange: parseRangeParams(params),
+        filters: readFilterParams(params),
+        flightId: params.get(SELECTED_FLIGHT_URL_PARAM),
+    };
 };
 
 export function DesktopApp() {
@@ -53,15 +60,25 @@ function DesktopAppContent() {
   const initialState = getInitialState();
 
   const [mode, setMode] = useState<SidebarMode>(initialState.mode);
-  const [selectedDate, setSelectedDate] = useState<Date>(initialState.date);
+  const [dateRange, setDateRange] = useState<DateRange>(initialState.dateRange);
   const [selectedAnomaly, setSelectedAnomaly] = useState<AnomalyReport | null>(null);
+  const [sidebarFilters, setSidebarFilters] = useState<SidebarFilters>(initialState.filters);
+  // Flight from a shared link, selected once it shows up in the sidebar list
+  const [pendingFlightId, setPendingFlightId] = useState<string | null>(initialState.flightId);
   const [flightData, setFlightData] = useState<FlightTrack | null>(null);
-  const [secondaryFlightData, setSecondaryFlightData] = useState<FlightTrack | null>(null);
+  // Other aircraft of proximity events, by flight id (null when the fetch failed)
+  const [proximityTracks, setProximityTracks] = useState<Record<string, FlightTrack | null>>({});
+  const [selectedProximityEvent, setSelectedProximityEvent] = useState(0);
   const [, setLoadingTrack] = useState(false);
+  const [trackError, setTrackError] = useState<string | null>(null);
   const [showReport, setShowReport] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   const [flightMetadata, setFlightMetadata] = useState<FlightMetadata | null>(null);
-  const bellAudioRef = useRef<HTMLAudioElement | null>(null);
+  // Alert rule editor; the draft outlives the modal while its area is drawn on the map
+  const [isAlertRulesOpen, setIsAlertRulesOpen] = useState(false);
+  const [alertDraft, setAlertDraft] = useState<AlertRule | null>(null);
+  const [isDrawingAlertArea, setIsDrawingAlertArea] = useState(false);
   
   // AI Highlight State
   const [aiHighlightedPoint, setAiHighlightedPoint] = useState<AIHighlightedPoint | null>(null);
@@ -70,27 +87,88 @@ function DesktopAppContent() {
   // AI Reasoning Panel State
   const [isAIPanelOpen, setIsAIPanelOpen] = useState(true);
   const [aiResultFlights, setAiResultFlights] = useState<AnomalyReport[]>([]);
+  // The sidebar's filtered list, drawn by the map's day overview layer
+  const [dayAnomalies, setDayAnomalies] = useState<AnomalyReport[]>([]);
+  // Flights as the sidebar lists them (sorted, grouped, collapsed groups left out) for j/k navigation
+  const [triageOrder, setTriageOrder] = useState<AnomalyReport[]>([]);
   
   // Map refs
   const mapRef = useRef<MapComponentHandle>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
+  const profileRef = useRef<FlightProfilePanelHandle>(null);
+  const timelineRef = useRef<FlightTimelineHandle>(null);
+  const reportPanelRef = useRef<ReportPanelHandle>(null);
+
+  // Pinned flights overlaid on the map
+  const pinnedFlights = usePinnedFlights();
+  const [pinnedTracks, setPinnedTracks] = useState<Record<string, TrackPoint[]>>({});
+  const [pinnedTrackStatus, setPinnedTrackStatus] = useState<Record<string, PinnedTrackStatus>>({});
+  const [pinnedReportsVersion, setPinnedReportsVersion] = useState(0);
+  const pinnedRequestsRef = useRef(new Set<string>());
+
+  // A shared link replaces the local pinned set
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get(PINNED_URL_PARAM);
+    if (param !== null) applyPinnedParam(param);
+  }, []);
 
   // Sync state to URL
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     params.set('mode', mode);
-    
-    // Format date as YYYY-MM-DD
-    const year = selectedDate.getFullYear();
-    const month = String(selectedDate.getMonth() + 1).padStart(2, '0');
-    const day = String(selectedDate.getDate()).padStart(2, '0');
-    const dateStr = `${year}-${month}-${day}`;
-    
-    params.set('date', dateStr);
+    writeRangeParams(params, dateRange);
+    writeFilterParams(params, mode === 'rules' ? sidebarFilters : { ...sidebarFilters, ruleId: null });
+
+    const flightId = selectedAnomaly?.flight_id ?? pendingFlightId;
+    if (flightId) {
+        params.set(SELECTED_FLIGHT_URL_PARAM, flightId);
+    } else {
+        params.delete(SELECTED_FLIGHT_URL_PARAM);
+    }
+
+    if (pinnedFlights.length > 0) {
+        params.set(PINNED_URL_PARAM, serializePinnedParam(pinnedFlights));
+    } else {
+        params.delete(PINNED_URL_PARAM);
+    }
     
     const newUrl = `${window.location.pathname}?${params.toString()}`;
     window.history.replaceState({}, '', newUrl);
-  }, [mode, selectedDate]);
+  }, [mode, dateRange, sidebarFilters, selectedAnomaly, pendingFlightId, pinnedFlights]);
+
+  // Load tracks (and, for shared links, reports) of newly pinned flights
+  useEffect(() => {
+    pinnedFlights.forEach(pin => {
+        const key = `${pin.flight_id}:${pin.source}`;
+        if (pinnedRequestsRef.current.has(key)) return;
+        pinnedRequestsRef.current.add(key);
+
+        setPinnedTrackStatus(prev => ({ ...prev, [pin.flight_id]: 'loading' }));
+        fetchTrackFromSource(pin.source, pin.flight_id)
+            .then(track => {
+                setPinnedTracks(prev => ({ ...prev, [pin.flight_id]: track.points }));
+                setPinnedTrackStatus(prev => ({ ...prev, [pin.flight_id]: 'ready' }));
+            })
+            .catch(err => {
+                // Allow a retry the next time the pinned set changes
+                pinnedRequestsRef.current.delete(key);
+                console.error("Failed to load pinned track", err);
+                setPinnedTrackStatus(prev => ({ ...prev, [pin.flight_id]: 'error' }));
+            });
+
+        if (!getPinnedReport(pin.flight_id)) {
+            fetchResearchAnomaly(pin.flight_id, { retries: 0 })
+                .then(report => {
+                    if (!report.full_report) return;
+                    setPinnedReport(pin.flight_id, report.full_report);
+                    setPinnedReportsVersion(v => v + 1);
+                })
+                .catch(() => {
+                    // Not every flight has a stored report; the track is still shown
+                });
+        }
+    });
+  }, [pinnedFlights]);
 
   // Auto-switch away from ai-results mode when results are cleared
   useEffect(() => {
@@ -108,61 +186,52 @@ function DesktopAppContent() {
         setAiHighlightedPoint(null);
         setAiHighlightedSegment(null);
         
-        let fetcher: (id: string) => Promise<FlightTrack>;
-        if (mode === 'feedback') {
-            // Try tagged DB first, fall back to old feedback track
-            fetcher = async (id: string) => {
-                try {
-                    return await fetchTaggedFeedbackTrack(id);
-                } catch {
-                    return await fetchFeedbackTrack(id);
-                }
-            };
-        } else if (mode === 'rules' || mode === 'ai-results') {
-            fetcher = fetchUnifiedTrack;
-        } else if (mode === 'research') {
-            fetcher = fetchResearchTrack;
-        } else {
-            fetcher = fetchLiveTrack;
-        }
+        setTrackError(null);
+        const controller = new AbortController();
+        const options = { signal: controller.signal };
+
+        const source = trackSourceForMode(mode);
         
         // Fetch Main Flight
-        fetcher(selectedAnomaly.flight_id)
+        fetchTrackFromSource(source, selectedAnomaly.flight_id, options)
             .then(track => {
                 setFlightData(track);
             })
             .catch(err => {
+                if (isAbortError(err)) return;
                 console.error("Failed to load track", err);
                 setFlightData(null);
+                setTrackError(getErrorMessage(err));
             })
-            .finally(() => setLoadingTrack(false));
+            .finally(() => {
+                if (!controller.signal.aborted) setLoadingTrack(false);
+            });
 
-        // Check for Proximity Alert (Rule ID 4) and fetch secondary flight
-        const layer1 = selectedAnomaly.full_report?.layer_1_rules;
-        const proximityRule = layer1?.report?.matched_rules?.find((r: any) => r.id === 4);
-        
-        if (proximityRule && proximityRule.details?.events?.length > 0) {
-            const otherFlightId = proximityRule.details.events[0].other_flight;
-            if (otherFlightId) {
-                console.log("Found Proximity Alert, fetching secondary flight:", otherFlightId);
-                fetcher(otherFlightId)
-                    .then(track => {
-                        setSecondaryFlightData(track);
-                    })
-                    .catch(err => {
-                        console.error("Failed to load secondary track", err);
-                        setSecondaryFlightData(null);
-                    });
-            } else {
-                setSecondaryFlightData(null);
-            }
-        } else {
-            setSecondaryFlightData(null);
-        }
+        // Check for Proximity Alert (Rule ID 4) and fetch every other aircraft involved
+        const proximityRule = findMatchedRule(selectedAnomaly.full_report, 4);
+        const otherFlightIds = new Set(
+            (proximityRule?.details?.events || []).map(event => event.other_flight).filter((id): id is string => !!id)
+        );
+        setProximityTracks({});
+        setSelectedProximityEvent(0);
+
+        otherFlightIds.forEach(otherFlightId => {
+            fetchTrackFromSource(source, otherFlightId, options)
+                .then(track => {
+                    setProximityTracks(prev => ({ ...prev, [otherFlightId]: track }));
+                })
+                .catch(err => {
+                    if (isAbortError(err)) return;
+                    console.error("Failed to load secondary track", err);
+                    setProximityTracks(prev => ({ ...prev, [otherFlightId]: null }));
+                });
+        });
 
+        return () => controller.abort();
     } else {
         setFlightData(null);
-        setSecondaryFlightData(null);
+        setProximityTracks({});
+        setTrackError(null);
         setShowReport(false);
         setAiHighlightedPoint(null);
         setAiHighlightedSegment(null);
@@ -205,29 +274,67 @@ function DesktopAppContent() {
     }
   }, [selectedAnomaly?.flight_id, mode]);
 
-  useEffect(() => {
-    const audio = new Audio(ALERT_AUDIO_SRC);
-    audio.preload = 'auto';
-    bellAudioRef.current = audio;
+  // Open the flight of a fired alert; older alerts are looked up by id on the day they fired
+  const openAlertFlight = useCallback((entry: AlertHistoryEntry) => {
+    const anomaly = getAlertReport(entry.id) ?? dayAnomalies.find(a => a.flight_id === entry.flightId);
+    if (anomaly) {
+        setSelectedAnomaly(anomaly);
+        return;
+    }
+    const range = dayRange(new Date(entry.anomalyTimestamp * 1000));
+    fetchLiveAnomalies(Math.floor(range.from.getTime() / 1000), Math.floor(range.to.getTime() / 1000))
+        .then(reports => {
+            const report = reports.find(r => r.flight_id === entry.flightId);
+            if (!report) throw new Error(`Flight ${entry.flightId} not found`);
+            setDateRange(range);
+            setMode('historical');
+            setSelectedAnomaly(report);
+        })
+        .catch(error => {
+            console.error('Failed to open alert flight', error);
+            window.alert(t('alerts.flightUnavailable', { flight: entry.callsign || entry.flightId }));
+        });
+  }, [dayAnomalies, t]);
+
+  const openAlertFlightRef = useRef(openAlertFlight);
+  openAlertFlightRef.current = openAlertFlight;
 
-    return () => {
-        audio.pause();
-        bellAudioRef.current = null;
+  // Clicked desktop notifications
+  useEffect(() => {
+    const handleOpen = (e: Event) => {
+        const { entryId } = (e as CustomEvent<{ entryId: string }>).detail;
+        const entry = getAlertHistory().find(h => h.id === entryId);
+        if (entry) openAlertFlightRef.current(entry);
     };
+    window.addEventListener(ALERT_OPEN_EVENT, handleOpen);
+    return () => window.removeEventListener(ALERT_OPEN_EVENT, handleOpen);
   }, []);
 
-  const handleBellClick = () => {
-    const audio = bellAudioRef.current;
-    if (!audio) return;
-
-    try {
-        audio.pause();
-        audio.currentTime = 0;
-        void audio.play();
-    } catch (error) {
-        console.warn('Unable to play bell sound', error);
-    }
-  };
+  const alertRules = useAlertRules();
+
+  // Areas of the other enabled rules, shown while editing alert rules
+  const alertAreas = useMemo((): AlertAreaOverlay[] => {
+    if (!isAlertRulesOpen && !isDrawingAlertArea) return [];
+    return alertRules
+        .filter(rule => rule.enabled && rule.conditions.area && rule.id !== alertDraft?.id)
+        .map(rule => ({ id: rule.id, label: rule.name, color: rule.color, area: rule.conditions.area! }));
+  }, [alertRules, alertDraft?.id, isAlertRulesOpen, isDrawingAlertArea]);
+
+  const alertAreaDraw = useMemo((): AreaDrawRequest | null => {
+    if (!isDrawingAlertArea || !alertDraft) return null;
+    const finish = () => {
+        setIsDrawingAlertArea(false);
+        setIsAlertRulesOpen(true);
+    };
+    return {
+        color: alertDraft.color,
+        onComplete: (area) => {
+            setAlertDraft({ ...alertDraft, conditions: { ...alertDraft.conditions, area } });
+            finish();
+        },
+        onCancel: finish,
+    };
+  }, [isDrawingAlertArea, alertDraft]);
 
     const handleCloseReport = () => {
         setShowReport(false);
@@ -240,6 +347,9 @@ function DesktopAppContent() {
     const handleAIActions = useCallback((actions: ProcessedActions) => {
         setAiHighlightedPoint(actions.highlightedPoint);
         setAiHighlightedSegment(actions.highlightedSegment);
+        if (actions.focusIndex !== null) {
+            timelineRef.current?.setIndex(actions.focusIndex);
+        }
         
         // Handle zoom bounds if specified
         if (actions.zoomBounds && mapRef.current) {
@@ -252,6 +362,26 @@ function DesktopAppContent() {
         }
     }, []);
 
+    // Restore the selected flight of a shared link, unless another was picked first
+    useEffect(() => {
+        if (!pendingFlightId) return;
+        if (selectedAnomaly) {
+            setPendingFlightId(null);
+            return;
+        }
+        const anomaly = dayAnomalies.find(a => a.flight_id === pendingFlightId);
+        if (anomaly) {
+            setSelectedAnomaly(anomaly);
+            setPendingFlightId(null);
+        }
+    }, [pendingFlightId, dayAnomalies, selectedAnomaly]);
+
+    // Day overview markers select a flight the same way as the sidebar list
+    const handleSelectDayAnomaly = useCallback((flightId: string) => {
+        const anomaly = dayAnomalies.find(a => a.flight_id === flightId);
+        if (anomaly) setSelectedAnomaly(anomaly);
+    }, [dayAnomalies]);
+
     // Clear AI highlights
     const handleClearAIHighlights = useCallback(() => {
         setAiHighlightedPoint(null);
@@ -267,57 +397,125 @@ function DesktopAppContent() {
     // Extract anomaly timestamps for visualization
     const anomalyTimestamps = useMemo(() => {
         if (!selectedAnomaly || !selectedAnomaly.full_report || !flightData) return [];
+        return getAnomalyTimestamps(selectedAnomaly.full_report, flightData.points);
+    }, [selectedAnomaly, flightData]);
 
-        const timestamps = new Set<number>();
-        const report = selectedAnomaly.full_report;
-        const points = flightData.points;
-
-        // Check Layer 1: Rule Engine
-        const layer1 = report.layer_1_rules;
-        if (layer1?.report?.matched_rules) {
-            layer1.report.matched_rules.forEach((rule: any) => {
-                // 1. Events Array
-                if (rule.details?.events && Array.isArray(rule.details.events)) {
-                    rule.details.events.forEach((event: any) => {
-                        if (event.timestamp) timestamps.add(event.timestamp);
-                        
-                        // Ranges (e.g. holding pattern)
-                        if (event.start_ts && event.end_ts) {
-                            points.forEach(p => {
-                                if (p.timestamp >= event.start_ts && p.timestamp <= event.end_ts) {
-                                    timestamps.add(p.timestamp);
-                                }
-                            });
-                        }
-                    });
-                }
+    // Visible pinned flights, excluding the one already shown as the selected flight.
+    // pinnedReportsVersion re-runs this when a report for a shared pin arrives.
+    const pinnedOverlays = useMemo((): PinnedTrackOverlay[] => {
+        return pinnedFlights
+            .filter(pin => pin.visible && pinnedTracks[pin.flight_id] && pin.flight_id !== selectedAnomaly?.flight_id)
+            .map(pin => {
+                const points = pinnedTracks[pin.flight_id];
+                const report = pin.showAnomalies ? getPinnedReport(pin.flight_id) : undefined;
+                return {
+                    flightId: pin.flight_id,
+                    label: pin.callsign || pin.flight_id,
+                    color: pin.color,
+                    points,
+                    anomalyTimestamps: report ? getAnomalyTimestamps(report, points) : [],
+                };
+            });
+    }, [pinnedFlights, pinnedTracks, pinnedReportsVersion, selectedAnomaly?.flight_id]);
 
-                // 2. Gaps (Signal Loss)
-                if (rule.details?.gaps && Array.isArray(rule.details.gaps)) {
-                    rule.details.gaps.forEach((gap: any) => {
-                        if (gap.start_ts) timestamps.add(gap.start_ts);
-                        if (gap.end_ts) timestamps.add(gap.end_ts);
-                    });
-                }
-
-                // 3. Special Rule Details (e.g. Return to Field)
-                if (rule.id === 7 && rule.details?.takeoff_ts && rule.details?.landing_ts) {
-                    points.forEach(p => {
-                        if (p.timestamp >= rule.details.takeoff_ts && p.timestamp <= rule.details.landing_ts) {
-                            timestamps.add(p.timestamp);
-                        }
-                    });
-                }
+    const fitTrack = useCallback((points: TrackPoint[] | undefined) => {
+        if (!points || points.length === 0) return;
+        const lats = points.map(p => p.lat);
+        const lons = points.map(p => p.lon);
+        mapRef.current?.fitBounds(Math.max(...lats), Math.min(...lats), Math.max(...lons), Math.min(...lons));
+    }, []);
 
-                // 4. Path Learning (Rule 11) - Off Course Points
-                if (rule.id === 11 && rule.details?.off_course_timestamps && Array.isArray(rule.details.off_course_timestamps)) {
-                    rule.details.off_course_timestamps.forEach((ts: number) => timestamps.add(ts));
-                }
-            });
+    const handleFocusPinned = useCallback((flightId: string) => fitTrack(pinnedTracks[flightId]), [pinnedTracks, fitTrack]);
+
+    // Keyboard triage. Tagging and replay act on the report tab; Space is handled by the replay itself.
+    const shortcutBindings = useShortcutBindings();
+    const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+    handleShortcutRef.current = (e: KeyboardEvent) => {
+        if (isSettingsOpen || isAlertRulesOpen || isDrawingAlertArea || reportPanelRef.current?.isReplayOpen()) return;
+        if (showShortcuts && e.key === 'Escape') {
+            setShowShortcuts(false);
+            return;
+        }
+        const action = getShortcutAction(e, shortcutBindings);
+        if (!action || action === 'playPause' || (showShortcuts && action !== 'showHelp')) return;
+        e.preventDefault();
+
+        const rule = getShortcutRule(action);
+        if (rule) {
+            reportPanelRef.current?.toggleRule(rule.id);
+            return;
         }
+        switch (action) {
+            case 'nextFlight':
+            case 'prevFlight': {
+                const index = triageOrder.findIndex(a => a.flight_id === selectedAnomaly?.flight_id);
+                const next = action === 'nextFlight' ? index + 1 : Math.max(0, index - 1);
+                const target = triageOrder[Math.min(next, triageOrder.length - 1)];
+                if (target && target.flight_id !== selectedAnomaly?.flight_id) setSelectedAnomaly(target);
+                break;
+            }
+            case 'tagAnomaly':
+            case 'tagNormal':
+                reportPanelRef.current?.submitFeedback(action === 'tagAnomaly');
+                break;
+            case 'openReplay':
+                reportPanelRef.current?.openReplay();
+                break;
+            case 'fitTrack':
+                fitTrack(flightData?.points);
+                break;
+            case 'showHelp':
+                setShowShortcuts(open => !open);
+                break;
+        }
+    };
 
-        return Array.from(timestamps);
-    }, [selectedAnomaly, flightData]);
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Proximity events with a known other aircraft, each analysed for its closest approach
+    const proximityEvents = useMemo(
+        () => (findMatchedRule(selectedAnomaly?.full_report, 4)?.details?.events || []).filter(event => event.other_flight),
+        [selectedAnomaly]
+    );
+
+    const proximityEncounters = useMemo((): ProximityEncounter[] => {
+        return proximityEvents.map(event => {
+            const track = proximityTracks[event.other_flight as string];
+            return {
+                label: event.other_callsign || (event.other_flight as string),
+                eventTimestamp: event.timestamp,
+                analysis: flightData && track ? computeCpa(flightData.points, track.points, event.timestamp) : null,
+                loading: track === undefined || !flightData,
+            };
+        });
+    }, [proximityEvents, proximityTracks, flightData]);
+
+    // The selected event's other aircraft is drawn on the map and used for export
+    const selectedOtherFlight = proximityEvents[selectedProximityEvent]?.other_flight;
+    const secondaryFlightData = selectedOtherFlight ? proximityTracks[selectedOtherFlight] ?? null : null;
+
+    const cpaMarkers = useMemo((): CpaMarker[] => {
+        return proximityEncounters.flatMap((encounter, i) => {
+            if (!encounter.analysis) return [];
+            const { cpa } = encounter.analysis;
+            return [{
+                primary: cpa.primary,
+                other: cpa.other,
+                label: `CPA ${encounter.label}: ${cpa.horizontalNm.toFixed(2)} NM / ${Math.round(cpa.verticalFt)} ft`,
+                selected: i === selectedProximityEvent,
+            }];
+        });
+    }, [proximityEncounters, selectedProximityEvent]);
+
+    // Data-quality scan, shown on the map and in the Flight Info tab
+    const trackDiagnostics = useMemo(
+        () => (flightData ? diagnoseTrack(flightData.points) : null),
+        [flightData]
+    );
 
     // Extract ML anomaly points for map visualization
     const mlAnomalyPoints = useMemo((): MLAnomalyPoint[] => {
@@ -326,17 +524,10 @@ function DesktopAppContent() {
         const points: MLAnomalyPoint[] = [];
         const report = selectedAnomaly.full_report;
 
-        const layerMap: Record<string, string> = {
-            'layer_3_deep_dense': 'Deep Dense',
-            'layer_4_deep_cnn': 'Deep CNN',
-            'layer_5_transformer': 'Transformer',
-            'layer_6_hybrid': 'Hybrid'
-        };
-
-        Object.entries(layerMap).forEach(([key, layerName]) => {
+        MODEL_LAYERS.forEach(({ key, name: layerName }) => {
             const layerData = report[key];
             if (layerData?.anomaly_points && layerData.is_anomaly) {
-                layerData.anomaly_points.forEach((pt: any) => {
+                layerData.anomaly_points.forEach(pt => {
                     points.push({
                         lat: pt.lat,
                         lon: pt.lon,
@@ -363,6 +554,11 @@ function DesktopAppContent() {
                 </svg>
             </div>
             <h2 className="text-white text-xl font-bold leading-tight tracking-[-0.015em]">{t('app.title')}</h2>
+            {isMockModeEnabled() && (
+                <span className="px-2 py-0.5 rounded bg-amber-500/20 border border-amber-500/40 text-amber-300 text-xs font-bold" title={t('settings.mockModeHint')}>
+                    {t('app.mockData')}
+                </span>
+            )}
         </div>
         <div className="flex flex-1 justify-end gap-2">
             <Link
@@ -396,17 +592,22 @@ function DesktopAppContent() {
                 AI Classify
             </Link>
             <button
-                onClick={() => setIsSettingsOpen(true)}
+                onClick={() => setShowShortcuts(true)}
                 className="flex h-10 w-10 items-center justify-center rounded-lg bg-surface-highlight text-white/80 hover:text-white transition-colors border border-white/10"
+                title={`${t('shortcuts.title')} (${shortcutBindings.showHelp})`}
             >
-                <Settings className="h-5 w-5" />
+                <Keyboard className="h-5 w-5" />
             </button>
-            <button 
+            <button
+                onClick={() => setIsSettingsOpen(true)}
                 className="flex h-10 w-10 items-center justify-center rounded-lg bg-surface-highlight text-white/80 hover:text-white transition-colors border border-white/10"
-                onClick={handleBellClick}
             >
-                <Bell className="h-5 w-5" />
+                <Settings className="h-5 w-5" />
             </button>
+            <NotificationCenter
+                onOpenFlight={openAlertFlight}
+                onOpenRules={() => setIsAlertRulesOpen(true)}
+            />
             <div className="ms-2 size-10 rounded-full bg-gray-600" />
         </div>
       </header>
@@ -424,31 +625,94 @@ function DesktopAppContent() {
                 selectedAnomalyId={selectedAnomaly?.flight_id} 
                 mode={mode}
                 setMode={setMode}
-                selectedDate={selectedDate}
-                setSelectedDate={setSelectedDate}
+                dateRange={dateRange}
+                setDateRange={setDateRange}
+                filters={sidebarFilters}
+                setFilters={setSidebarFilters}
                 aiResultFlights={aiResultFlights}
+                onFilteredAnomaliesChange={setDayAnomalies}
+                onListedAnomaliesChange={setTriageOrder}
             />
 
             {/* Map Area */}
             <section 
                 ref={mapContainerRef}
                 className={clsx(
-                    "bg-surface rounded-xl relative overflow-hidden border border-white/5 transition-all duration-300",
+                    "bg-surface rounded-xl relative overflow-hidden border border-white/5 transition-all duration-300 flex flex-col",
                     showReport ? "col-span-6" : "col-span-9"
                 )}
             >
-                <MapComponent 
-                    ref={mapRef}
-                    points={flightData?.points || []} 
-                    secondaryPoints={secondaryFlightData?.points}
-                    anomalyTimestamps={anomalyTimestamps}
-                    mlAnomalyPoints={mlAnomalyPoints}
-                    aiHighlightedPoint={aiHighlightedPoint}
-                    aiHighlightedSegment={aiHighlightedSegment}
-                    onClearAIHighlights={handleClearAIHighlights}
-                    currentFlightOrigin={flightMetadata?.origin_airport}
-                    currentFlightDestination={flightMetadata?.destination_airport}
-                />
+                <div className="relative flex-1 min-h-0">
+                    <MapComponent 
+                        ref={mapRef}
+                        points={flightData?.points || []} 
+                        secondaryPoints={secondaryFlightData?.points}
+                        anomalyTimestamps={anomalyTimestamps}
+                        mlAnomalyPoints={mlAnomalyPoints}
+                        aiHighlightedPoint={aiHighlightedPoint}
+                        aiHighlightedSegment={aiHighlightedSegment}
+                        onClearAIHighlights={handleClearAIHighlights}
+                        currentFlightOrigin={flightMetadata?.origin_airport}
+                        currentFlightDestination={flightMetadata?.destination_airport}
+                        onTrackHover={(index) => profileRef.current?.setCursor(index)}
+                        pinnedTracks={pinnedOverlays}
+                        dayAnomalies={dayAnomalies}
+                        onSelectDayAnomaly={handleSelectDayAnomaly}
+                        qualityIssues={trackDiagnostics?.issues}
+                        cpaMarkers={cpaMarkers}
+                        alertAreas={alertAreas}
+                        drawArea={alertAreaDraw}
+                    />
+                    <PinnedFlightsTray
+                        pins={pinnedFlights}
+                        trackStatus={pinnedTrackStatus}
+                        onFocus={handleFocusPinned}
+                    />
+                </div>
+
+                {/* Timeline scrubber - drives the aircraft marker and the profile cursor */}
+                {selectedAnomaly && flightData && (
+                    <FlightTimeline
+                        ref={timelineRef}
+                        points={flightData.points}
+                        report={selectedAnomaly.full_report}
+                        mlAnomalyPoints={mlAnomalyPoints}
+                        onScrub={(index) => {
+                            mapRef.current?.setAircraftPosition(index);
+                            profileRef.current?.setCursor(index);
+                        }}
+                    />
+                )}
+
+                {/* Vertical profile - cursor and range are synced with the map */}
+                {selectedAnomaly && flightData && (
+                    <FlightProfilePanel
+                        ref={profileRef}
+                        points={flightData.points}
+                        anomalyTimestamps={anomalyTimestamps}
+                        mlAnomalyPoints={mlAnomalyPoints}
+                        onHoverIndex={(index) => mapRef.current?.setTrackCursor(index)}
+                        onRangeChange={(range) => mapRef.current?.setTrackRange(range)}
+                    />
+                )}
+
+                {/* Closest approach for proximity events */}
+                {selectedAnomaly && proximityEncounters.length > 0 && (
+                    <ProximityCpaPanel
+                        encounters={proximityEncounters}
+                        selectedIndex={selectedProximityEvent}
+                        onSelect={setSelectedProximityEvent}
+                        onFocus={(lat, lon) => mapRef.current?.flyTo(lat, lon, 11)}
+                    />
+                )}
+
+                {/* Track load error */}
+                {trackError && (
+                    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 max-w-[80%] bg-red-950/90 border border-red-500/40 rounded-lg px-3 py-2 shadow-lg">
+                        <p className="text-xs font-bold text-red-300">{t('app.trackLoadFailed')}</p>
+                        <p className="text-[11px] text-red-200/80 font-mono" dir="ltr">{trackError}</p>
+                    </div>
+                )}
                 
                 {/* Legend Overlay */}
 
@@ -457,8 +721,11 @@ function DesktopAppContent() {
             {/* Analysis Panel (Report + Flight Info) */}
             {showReport && selectedAnomaly && (
                 <AnalysisPanel 
+                    ref={reportPanelRef}
                     anomaly={selectedAnomaly}
                     flightPoints={flightData?.points || []}
+                    secondaryTrack={secondaryFlightData}
+                    trackDiagnostics={trackDiagnostics}
                     onClose={handleCloseReport}
                     onAIActions={handleAIActions}
                     onFlyTo={(lat, lon, zoom) => mapRef.current?.flyTo(lat, lon, zoom)}
@@ -492,6 +759,24 @@ function DesktopAppContent() {
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
       />
+
+      {showShortcuts && <KeyboardShortcutsOverlay onClose={() => setShowShortcuts(false)} />}
+
+      {isAlertRulesOpen && (
+        <AlertRulesModal
+            draft={alertDraft}
+            setDraft={setAlertDraft}
+            onClose={() => {
+                setIsAlertRulesOpen(false);
+                setAlertDraft(null);
+            }}
+            onDrawArea={(rule) => {
+                setAlertDraft(rule);
+                setIsAlertRulesOpen(false);
+                setIsDrawingAlertArea(true);
+            }}
+        />
+      )}
     </div>
   )
 }
@@ -1,6 +1,7 @@
 import { useState, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { MapComponent, type MapComponentHandle } from './components/MapComponent';
+import { TrackFileImport } from './components/TrackFileImport';
 import { 
   fetchResearchTrack, 
   fetchResearchFlightMetadata,
@@ -12,6 +13,8 @@ import {
   type ClassifyFlightResponse 
 } from './api';
 import type { FlightTrack, AnomalyReport } from './types';
+import { getMatchedRules } from './utils/reportSchema';
+import type { TrackFileFormat } from './utils/trackImport';
 import { ArrowLeft, Search, Loader2, Sparkles, CheckCircle2, AlertCircle, MessageSquare } from 'lucide-react';
 
 // Example prompts for users
@@ -35,6 +38,8 @@ export function FlightClassifyPage() {
   const [classificationResult, setClassificationResult] = useState<ClassifyFlightResponse | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [useCustomPrompt, setUseCustomPrompt] = useState(false);
+  // Track loaded from a local file; it has no metadata or stored report
+  const [localSource, setLocalSource] = useState<{ fileName: string; format: TrackFileFormat } | null>(null);
   const mapRef = useRef<MapComponentHandle>(null);
 
   const handleSearch = async () => {
@@ -49,6 +54,7 @@ export function FlightClassifyPage() {
     setMetadata(null);
     setAnomalyReport(null);
     setClassificationResult(null);
+    setLocalSource(null);
 
     try {
       // Fetch track, metadata, and anomaly report in parallel (same as main app)
@@ -69,6 +75,15 @@ export function FlightClassifyPage() {
     }
   };
 
+  const handleLoadLocal = (track: FlightTrack, source: { fileName: string; format: TrackFileFormat }) => {
+    setFlightData(track);
+    setMetadata(null);
+    setAnomalyReport(null);
+    setClassificationResult(null);
+    setError(null);
+    setLocalSource(source);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
@@ -76,7 +91,7 @@ export function FlightClassifyPage() {
   };
 
   const handleClassify = async (promptOverride?: string) => {
-    if (!flightData || !metadata || !anomalyReport) {
+    if (!flightData || (!localSource && (!metadata || !anomalyReport))) {
       setError('Flight data not fully loaded');
       return;
     }
@@ -94,11 +109,12 @@ export function FlightClassifyPage() {
 
     try {
       // Use the timestamp from the anomaly report (same as main app)
+      // Local tracks are classified from the points alone, timed by their first point
       const result = await classifyFlight({
-        flight_id: metadata.flight_id,
+        flight_id: metadata?.flight_id ?? flightData.flight_id,
         flight_data: flightData.points,
-        anomaly_report: anomalyReport.full_report, // Use full_report field
-        flight_time: anomalyReport.timestamp,
+        anomaly_report: anomalyReport?.full_report ?? {}, // Use full_report field
+        flight_time: anomalyReport?.timestamp ?? flightData.points[0]?.timestamp,
         custom_prompt: useCustomPrompt ? finalPrompt : undefined
       });
 
@@ -167,7 +183,10 @@ export function FlightClassifyPage() {
           </div>
 
           {/* Classify Button */}
-          {metadata && flightData && anomalyReport && !classificationResult && (
+          {/* Local File Import */}
+          <TrackFileImport onLoad={handleLoadLocal} />
+
+          {flightData && (localSource || (metadata && anomalyReport)) && !classificationResult && (
             <div className="bg-surface rounded-xl p-4 border border-white/5">
               <h3 className="text-sm font-semibold text-white/80 mb-3">AI Classification</h3>
               
@@ -449,16 +468,16 @@ export function FlightClassifyPage() {
                 <h3 className="text-lg font-semibold text-white">Anomaly Report</h3>
               </div>
               
-              {anomalyReport.full_report.layer_1_rules?.report?.matched_rules?.length > 0 && (
+              {getMatchedRules(anomalyReport.full_report).length > 0 && (
                 <div className="space-y-2">
                   <div className="text-xs font-semibold text-white/60">Triggered Rules</div>
-                  {anomalyReport.full_report.layer_1_rules.report.matched_rules.map((rule: any, idx: number) => (
+                  {getMatchedRules(anomalyReport.full_report).map((rule, idx) => (
                     <div 
                       key={idx} 
                       className="px-3 py-2 bg-red-600/20 text-red-400 rounded border border-red-500/30 text-sm"
                     >
                       <div className="font-semibold">
-                        {rule.name || rule.rule_name || `Rule ${rule.id}`}
+                        {rule.name || `Rule ${rule.id}`}
                       </div>
                       {rule.description && (
                         <div className="text-xs text-red-300/80 mt-1">
@@ -1,9 +1,14 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { MapComponent, type MapComponentHandle } from './components/MapComponent';
-import { fetchResearchTrack, fetchResearchFlightMetadata, fetchAnalyzeFlightFromDB, type FlightMetadata } from './api';
+import { TrackFileImport } from './components/TrackFileImport';
+import { fetchResearchTrack, fetchResearchFlightMetadata, fetchAnalyzeFlightFromDB, analyzeWithAI, getErrorMessage, type FlightMetadata } from './api';
 import type { FlightTrack } from './types';
-import { ArrowLeft, Search, Loader2, Plane, ThumbsUp, ThumbsDown, Copy, Trash2, Activity } from 'lucide-react';
+import type { TrackFileFormat } from './utils/trackImport';
+import { stripDataUrlPrefix } from './utils/screenshot';
+import { renderMarkdown } from './utils/markdown';
+import { diagnoseTrack } from './utils/trackDiagnostics';
+import { ArrowLeft, Search, Loader2, Plane, ThumbsUp, ThumbsDown, Copy, Trash2, Activity, Sparkles, FileUp } from 'lucide-react';
 
 export function FlightViewerPage() {
   const [flightId, setFlightId] = useState('');
@@ -17,8 +22,16 @@ export function FlightViewerPage() {
   const [badFlightIds, setBadFlightIds] = useState<string[]>([]);
   const [copiedGood, setCopiedGood] = useState(false);
   const [copiedBad, setCopiedBad] = useState(false);
+  // Track loaded from a local file rather than the research DB
+  const [localSource, setLocalSource] = useState<{ fileName: string; format: TrackFileFormat } | null>(null);
+  const [aiQuestion, setAiQuestion] = useState('');
+  const [aiAnswer, setAiAnswer] = useState<string | null>(null);
+  const [askingAI, setAskingAI] = useState(false);
   const mapRef = useRef<MapComponentHandle>(null);
 
+  // Data-quality scan so sensor glitches can be told apart before labelling
+  const diagnostics = useMemo(() => (flightData ? diagnoseTrack(flightData.points) : null), [flightData]);
+
   const handleSearch = async () => {
     if (!flightId.trim()) {
       setError('Please enter a flight ID');
@@ -29,6 +42,8 @@ export function FlightViewerPage() {
     setError(null);
     setFlightData(null);
     setMetadata(null);
+    setLocalSource(null);
+    setAiAnswer(null);
 
     try {
       // Fetch track and metadata in parallel
@@ -47,6 +62,40 @@ export function FlightViewerPage() {
     }
   };
 
+  const handleLoadLocal = (track: FlightTrack, source: { fileName: string; format: TrackFileFormat }) => {
+    setFlightData(track);
+    setMetadata(null);
+    setAnalysisResult(null);
+    setAiAnswer(null);
+    setError(null);
+    setLocalSource(source);
+  };
+
+  // Local tracks have no stored report, so the AI sees only the track and the map
+  const handleAskAI = async () => {
+    if (!flightData || !aiQuestion.trim()) return;
+
+    setAskingAI(true);
+    setAiAnswer(null);
+
+    try {
+      const screenshot = await mapRef.current?.captureScreenshot();
+      const result = await analyzeWithAI({
+        screenshot: screenshot ? stripDataUrlPrefix(screenshot) : '',
+        question: aiQuestion.trim(),
+        flight_id: flightData.flight_id,
+        flight_data: flightData.points,
+        anomaly_report: {},
+      });
+      setAiAnswer(result.response);
+    } catch (err) {
+      console.error('AI analysis failed:', err);
+      setAiAnswer(`Analysis failed: ${getErrorMessage(err)}`);
+    } finally {
+      setAskingAI(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
@@ -159,6 +208,36 @@ export function FlightViewerPage() {
             )}
           </div>
 
+          {/* Local File Import */}
+          <TrackFileImport onLoad={handleLoadLocal} />
+
+          {/* AI Analysis for local tracks */}
+          {localSource && flightData && (
+            <div className="bg-surface rounded-xl p-4 border border-white/5">
+              <h3 className="text-sm font-semibold text-white/80 mb-3">Ask AI About This Track</h3>
+              <textarea
+                value={aiQuestion}
+                onChange={(e) => setAiQuestion(e.target.value)}
+                placeholder="e.g. Is there anything unusual about this flight?"
+                rows={3}
+                className="w-full px-3 py-2 bg-surface-highlight border border-white/10 rounded-lg text-sm text-white placeholder:text-white/40 focus:outline-none focus:border-primary resize-none"
+              />
+              <button
+                onClick={handleAskAI}
+                disabled={askingAI || !aiQuestion.trim()}
+                className="mt-2 w-full px-4 py-2 bg-blue-600 hover:bg-blue-600/80 disabled:bg-blue-600/40 disabled:cursor-not-allowed rounded-lg text-white font-medium transition-colors flex items-center justify-center gap-2"
+              >
+                {askingAI ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                {askingAI ? 'Analyzing...' : 'Analyze with AI'}
+              </button>
+              {aiAnswer && (
+                <div className="mt-3 p-3 bg-surface-highlight rounded-lg border border-white/10 text-sm text-white/90">
+                  {renderMarkdown(aiAnswer)}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Good/Bad Buttons */}
           {metadata && (
             <div className="bg-surface rounded-xl p-4 border border-white/5">
@@ -379,6 +458,12 @@ export function FlightViewerPage() {
             <div className="bg-surface rounded-xl p-4 border border-white/5">
               <h3 className="text-lg font-semibold text-white mb-3">Track Information</h3>
               <div className="space-y-2 text-sm">
+                {localSource && (
+                  <div className="flex justify-between gap-2">
+                    <span className="text-white/60 flex items-center gap-1"><FileUp className="h-3.5 w-3.5" /> Source:</span>
+                    <span className="text-white font-medium truncate" title={localSource.fileName}>{localSource.fileName}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-white/60">Total Points:</span>
                   <span className="text-white font-medium">{flightData.points.length}</span>
@@ -399,6 +484,16 @@ export function FlightViewerPage() {
                     </div>
                   </>
                 )}
+                {diagnostics && (
+                  <div className="flex justify-between">
+                    <span className="text-white/60">Data Issues:</span>
+                    <span className={diagnostics.issues.length > 0 ? "text-amber-400 font-medium" : "text-green-400 font-medium"}>
+                      {diagnostics.issues.length > 0
+                        ? `${diagnostics.issues.length} (${Math.round(diagnostics.cleanRatio * 100)}% clean)`
+                        : 'None'}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -413,6 +508,7 @@ export function FlightViewerPage() {
             mlAnomalyPoints={[]}
             currentFlightOrigin={metadata?.origin_airport}
             currentFlightDestination={metadata?.destination_airport}
+            qualityIssues={diagnostics?.issues}
           />
         </div>
 
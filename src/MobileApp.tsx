@@ -4,6 +4,9 @@ import { MapComponent, type MLAnomalyPoint } from './components/MapComponent';
 import { ReportPanel } from './components/ReportPanel';
 import { fetchLiveTrack, fetchResearchTrack, fetchUnifiedTrack, fetchFeedbackTrack } from './api';
 import type { AnomalyReport, FlightTrack } from './types';
+import { MODEL_LAYERS, getMatchedRules } from './utils/reportSchema';
+import { dayRange, type DateRange } from './utils/dateRange';
+import { DEFAULT_SIDEBAR_FILTERS, type SidebarFilters } from './utils/sidebarFilters';
 import { List, Map as MapIcon, FileText, Bot } from 'lucide-react';
 import clsx from 'clsx';
 import { ALERT_AUDIO_SRC } from './constants';
@@ -13,7 +16,8 @@ export function MobileApp() {
     const [selectedAnomaly, setSelectedAnomaly] = useState<AnomalyReport | null>(null);
     const [flightData, setFlightData] = useState<FlightTrack | null>(null);
     const [loadingTrack, setLoadingTrack] = useState(false);
-    const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+    const [dateRange, setDateRange] = useState<DateRange>(() => dayRange(new Date()));
+    const [sidebarFilters, setSidebarFilters] = useState<SidebarFilters>(DEFAULT_SIDEBAR_FILTERS);
     const [activeTab, setActiveTab] = useState<'list' | 'map' | 'report' | 'chat'>('list');
 
     const bellAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -26,7 +30,7 @@ export function MobileApp() {
             
             const fetcher = mode === 'feedback'
                 ? fetchFeedbackTrack
-                : (mode === 'rules' || mode === 'ai-results')
+                : (mode === 'rules' || mode === 'ai-results' || mode === 'watchlist')
                     ? fetchUnifiedTrack
                     : (mode === 'research' ? fetchResearchTrack : fetchLiveTrack);
             
@@ -62,36 +66,33 @@ export function MobileApp() {
         const report = selectedAnomaly.full_report;
         const points = flightData.points;
         // ... (same logic as App.tsx)
-         const layer1 = report.layer_1_rules;
-        if (layer1?.report?.matched_rules) {
-            layer1.report.matched_rules.forEach((rule: any) => {
-                if (rule.details?.events && Array.isArray(rule.details.events)) {
-                    rule.details.events.forEach((event: any) => {
-                        if (event.timestamp) timestamps.add(event.timestamp);
-                        if (event.start_ts && event.end_ts) {
-                            points.forEach(p => {
-                                if (p.timestamp >= event.start_ts && p.timestamp <= event.end_ts) {
-                                    timestamps.add(p.timestamp);
-                                }
-                            });
-                        }
-                    });
-                }
-                if (rule.details?.gaps && Array.isArray(rule.details.gaps)) {
-                    rule.details.gaps.forEach((gap: any) => {
-                        if (gap.start_ts) timestamps.add(gap.start_ts);
-                        if (gap.end_ts) timestamps.add(gap.end_ts);
-                    });
-                }
-                if (rule.id === 7 && rule.details?.takeoff_ts && rule.details?.landing_ts) {
+        getMatchedRules(report).forEach(rule => {
+            const details = rule.details;
+            details?.events?.forEach(event => {
+                if (event.timestamp) timestamps.add(event.timestamp);
+                const { start_ts, end_ts } = event;
+                if (start_ts && end_ts) {
                     points.forEach(p => {
-                        if (p.timestamp >= rule.details.takeoff_ts && p.timestamp <= rule.details.landing_ts) {
+                        if (p.timestamp >= start_ts && p.timestamp <= end_ts) {
                             timestamps.add(p.timestamp);
                         }
                     });
                 }
             });
-        }
+            details?.gaps?.forEach(gap => {
+                if (gap.start_ts) timestamps.add(gap.start_ts);
+                if (gap.end_ts) timestamps.add(gap.end_ts);
+            });
+            const takeoffTs = details?.takeoff_ts;
+            const landingTs = details?.landing_ts;
+            if (rule.id === 7 && takeoffTs && landingTs) {
+                points.forEach(p => {
+                    if (p.timestamp >= takeoffTs && p.timestamp <= landingTs) {
+                        timestamps.add(p.timestamp);
+                    }
+                });
+            }
+        });
         return Array.from(timestamps);
     }, [selectedAnomaly, flightData]);
 
@@ -102,17 +103,10 @@ export function MobileApp() {
         const points: MLAnomalyPoint[] = [];
         const report = selectedAnomaly.full_report;
 
-        const layerMap: Record<string, string> = {
-            'layer_3_deep_dense': 'Deep Dense',
-            'layer_4_deep_cnn': 'Deep CNN',
-            'layer_5_transformer': 'Transformer',
-            'layer_6_hybrid': 'Hybrid'
-        };
-
-        Object.entries(layerMap).forEach(([key, layerName]) => {
+        MODEL_LAYERS.forEach(({ key, name: layerName }) => {
             const layerData = report[key];
             if (layerData?.anomaly_points && layerData.is_anomaly) {
-                layerData.anomaly_points.forEach((pt: any) => {
+                layerData.anomaly_points.forEach(pt => {
                     points.push({
                         lat: pt.lat,
                         lon: pt.lon,
@@ -152,8 +146,10 @@ export function MobileApp() {
                         selectedAnomalyId={selectedAnomaly?.flight_id} 
                         mode={mode}
                         setMode={setMode}
-                        selectedDate={selectedDate}
-                        setSelectedDate={setSelectedDate}
+                        dateRange={dateRange}
+                        setDateRange={setDateRange}
+                        filters={sidebarFilters}
+                        setFilters={setSidebarFilters}
                         className="col-span-12 w-full h-full"
                     />
                 </div>
@@ -2,11 +2,13 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { searchFlightsByPolygon, searchFlightsByWKT, PolygonSearchResult, fetchUnifiedTrack } from './api';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from './basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import MapboxDraw from '@mapbox/mapbox-gl-draw';
 import '@mapbox/mapbox-gl-draw/dist/mapbox-gl-draw.css';
-
-const MAPTILER_API_KEY = 'r7kaQpfNDVZdaVp23F1r';
+import { MAX_PINNED_FLIGHTS, pinFlight, unpinFlight, usePinnedFlights } from './pinnedFlights';
+import { useWatchlistMatcher } from './watchlist';
+import { AirspaceOverlayControl } from './components/AirspaceOverlayControl';
 
 export const PolygonSearchPage: React.FC = () => {
     const navigate = useNavigate();
@@ -23,6 +25,8 @@ export const PolygonSearchPage: React.FC = () => {
     const [endDate, setEndDate] = useState('');
     const [selectedFlight, setSelectedFlight] = useState<string | null>(null);
     const [mapLoaded, setMapLoaded] = useState(false);
+    const pinnedFlights = usePinnedFlights();
+    const matchWatchlist = useWatchlistMatcher();
 
     // Initialize map
     useEffect(() => {
@@ -34,11 +38,12 @@ export const PolygonSearchPage: React.FC = () => {
         try {
             const mapInstance = new maplibregl.Map({
                 container: mapContainer.current,
-                style: `https://api.maptiler.com/maps/darkmatter/style.json?key=${MAPTILER_API_KEY}`,
+                style: getBasemapStyle(),
                 center: [34.8516, 31.0461], // Israel center
                 zoom: 7,
                 attributionControl: false
             });
+            attachBasemap(mapInstance);
 
             map.current = mapInstance;
 
@@ -210,6 +215,15 @@ export const PolygonSearchPage: React.FC = () => {
         }
     };
 
+    // Pinned hits are overlaid on the main map
+    const handleTogglePin = (flight: PolygonSearchResult) => {
+        if (pinnedFlights.some(p => p.flight_id === flight.flight_id)) {
+            unpinFlight(flight.flight_id);
+        } else {
+            pinFlight({ flight_id: flight.flight_id, callsign: flight.callsign || undefined, source: 'unified' });
+        }
+    };
+
     const handleOpenInViewer = (flightId: string) => {
         navigate(`/flight-viewer?flight_id=${flightId}`);
     };
@@ -248,6 +262,13 @@ export const PolygonSearchPage: React.FC = () => {
                 {/* Map Section */}
                 <div className="flex-1 relative" style={{ minHeight: 0 }}>
                     <div ref={mapContainer} className="absolute inset-0" style={{ width: '100%', height: '100%' }} />
+                    {/* Airspace / Reference Overlays - the draw and zoom controls hold the top-right corner */}
+                    <AirspaceOverlayControl
+                        map={mapLoaded ? map.current : null}
+                        beforeLayerId="flight-track-line"
+                        className="absolute top-4 left-4 z-10"
+                        align="left"
+                    />
                 </div>
 
                 {/* Control Panel */}
@@ -356,56 +377,77 @@ export const PolygonSearchPage: React.FC = () => {
                                 </div>
                             ) : (
                                 <div className="space-y-2">
-                                    {searchResults.map((flight) => (
-                                        <div
-                                            key={flight.flight_id}
-                                            className={`p-3 bg-gray-700 rounded border ${
-                                                selectedFlight === flight.flight_id
-                                                    ? 'border-blue-500'
-                                                    : 'border-gray-600'
-                                            } hover:bg-gray-650 transition-colors`}
-                                        >
-                                            <div className="flex items-start justify-between mb-2">
-                                                <div>
-                                                    <div className="font-semibold">
-                                                        {flight.callsign || 'Unknown'}
-                                                    </div>
-                                                    <div className="text-xs text-gray-400">
-                                                        {flight.flight_id}
-                                                    </div>
-                                                </div>
-                                                <div className="text-right text-xs text-gray-400">
-                                                    <div>{flight.points_in_polygon} points</div>
+                                    {searchResults.map((flight) => {
+                                        const watched = matchWatchlist({ callsign: flight.callsign });
+                                        return (
+                                            <div
+                                                key={flight.flight_id}
+                                                className={`p-3 bg-gray-700 rounded border ${
+                                                    selectedFlight === flight.flight_id
+                                                        ? 'border-blue-500'
+                                                        : watched
+                                                            ? 'border-amber-400'
+                                                            : 'border-gray-600'
+                                                } hover:bg-gray-650 transition-colors`}
+                                            >
+                                                <div className="flex items-start justify-between mb-2">
                                                     <div>
-                                                        {formatDuration(
-                                                            flight.first_timestamp,
-                                                            flight.last_timestamp
-                                                        )}
+                                                        <div className="font-semibold flex items-center gap-2">
+                                                            {flight.callsign || 'Unknown'}
+                                                            {watched && (
+                                                                <span
+                                                                    className="px-1.5 py-0.5 rounded bg-amber-400/20 text-amber-300 text-[10px] font-bold"
+                                                                    title={watched.note || undefined}
+                                                                >
+                                                                    Watchlist: {watched.pattern}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                        <div className="text-xs text-gray-400">
+                                                            {flight.flight_id}
+                                                        </div>
+                                                    </div>
+                                                    <div className="text-right text-xs text-gray-400">
+                                                        <div>{flight.points_in_polygon} points</div>
+                                                        <div>
+                                                            {formatDuration(
+                                                                flight.first_timestamp,
+                                                                flight.last_timestamp
+                                                            )}
+                                                        </div>
                                                     </div>
                                                 </div>
-                                            </div>
 
-                                            <div className="text-xs text-gray-400 mb-2">
-                                                <div>Start: {formatTimestamp(flight.first_timestamp)}</div>
-                                                <div>End: {formatTimestamp(flight.last_timestamp)}</div>
-                                            </div>
+                                                <div className="text-xs text-gray-400 mb-2">
+                                                    <div>Start: {formatTimestamp(flight.first_timestamp)}</div>
+                                                    <div>End: {formatTimestamp(flight.last_timestamp)}</div>
+                                                </div>
 
-                                            <div className="flex gap-2">
-                                                <button
-                                                    onClick={() => handleViewFlight(flight.flight_id)}
-                                                    className="flex-1 px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-xs transition-colors"
-                                                >
-                                                    Show on Map
-                                                </button>
-                                                <button
-                                                    onClick={() => handleOpenInViewer(flight.flight_id)}
-                                                    className="flex-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs transition-colors"
-                                                >
-                                                    Open Viewer
-                                                </button>
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => handleViewFlight(flight.flight_id)}
+                                                        className="flex-1 px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-xs transition-colors"
+                                                    >
+                                                        Show on Map
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleOpenInViewer(flight.flight_id)}
+                                                        className="flex-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs transition-colors"
+                                                    >
+                                                        Open Viewer
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleTogglePin(flight)}
+                                                        disabled={!pinnedFlights.some(p => p.flight_id === flight.flight_id) && pinnedFlights.length >= MAX_PINNED_FLIGHTS}
+                                                        className="px-3 py-1 bg-cyan-700 hover:bg-cyan-800 rounded text-xs transition-colors disabled:opacity-40"
+                                                        title="Overlay on the main map"
+                                                    >
+                                                        {pinnedFlights.some(p => p.flight_id === flight.flight_id) ? 'Unpin' : 'Pin'}
+                                                    </button>
+                                                </div>
                                             </div>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
                             )}
                         </div>
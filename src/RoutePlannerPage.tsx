@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from './basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { 
     fetchRouteAirports, 
@@ -51,9 +52,6 @@ import {
     PlayCircle,
 } from 'lucide-react';
 
-// Map style
-const MAP_STYLE = 'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json';
-
 // Route colors
 const ROUTE_COLORS = [
     '#22c55e', // green - best
@@ -234,11 +232,12 @@ export const RoutePlannerPage: React.FC = () => {
 
         map.current = new maplibregl.Map({
             container: mapContainer.current,
-            style: MAP_STYLE,
+            style: getBasemapStyle(),
             center: [35.0, 32.0],
             zoom: 6,
             attributionControl: false,
         });
+        attachBasemap(map.current);
 
         map.current.addControl(new maplibregl.NavigationControl(), 'top-right');
 
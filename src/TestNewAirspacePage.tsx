@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from './basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 type PathEntry = { id: number; centroid: any; member_flights?: string[]; path_length_nm?: number; confidence?: number };
@@ -17,7 +18,6 @@ type LoadedCounts = {
   regions?: number;
 };
 
-const MAPTILER_KEY = 'r7kaQpfNDVZdaVp23F1r';
 const DEFAULT_BASE = typeof window !== 'undefined'
   ? `${window.location.origin}/output/`
   : 'http://localhost:8000/output/';
@@ -48,10 +48,11 @@ export function TestNewAirspacePage() {
 
     map.current = new maplibregl.Map({
       container: mapRef.current,
-      style: `https://api.maptiler.com/maps/darkmatter/style.json?key=${MAPTILER_KEY}`,
+      style: getBasemapStyle(),
       center: [35, 31.5],
       zoom: 6,
     });
+    attachBasemap(map.current);
 
     map.current.addControl(new maplibregl.NavigationControl(), 'top-left');
 
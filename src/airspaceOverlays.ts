@@ -0,0 +1,327 @@
+import { useSyncExternalStore } from 'react';
+import { fetchRouteAirports } from './api';
+import { RULE_AIRPORTS } from './constants';
+import { parseOverlayFile } from './utils/geoParsers';
+
+// ============================================================
+// Airspace reference overlays shared by every flight map
+// ============================================================
+//
+// Built in: country boundaries (from the bundled Natural Earth data) and
+// airport reference points (from the route planner, falling back to the
+// rule-engine airport list).
+//
+// FIRs, TMAs, restricted/danger areas etc. are deployment data listed in
+// /airspace/airspace.json; public/airspace/README.md describes the format. The
+// repo ships illustrative sample layers there.
+//
+// Users can add their own files (drag-and-drop onto a map); those are kept in localStorage.
+
+export type AirspaceKind =
+    | 'boundary' | 'fir' | 'tma' | 'ctr' | 'restricted' | 'danger' | 'prohibited' | 'airports' | 'user';
+
+export interface AirspaceOverlay {
+    id: string;
+    name: string;
+    kind: AirspaceKind;
+    /** Overrides the kind's default colour */
+    color?: string;
+    /** GeoJSON / KML / WKT file for deployment overlays */
+    url?: string;
+    /** Added by the user; data is stored locally */
+    custom?: boolean;
+}
+
+interface UserOverlay extends AirspaceOverlay {
+    data: GeoJSON.FeatureCollection;
+}
+
+interface AirspaceConfigFile {
+    overlays?: AirspaceOverlay[];
+}
+
+export interface AirspaceKindStyle {
+    label: string;
+    color: string;
+    fillOpacity: number;
+    dash?: number[];
+}
+
+export const AIRSPACE_KIND_STYLES: Record<AirspaceKind, AirspaceKindStyle> = {
+    boundary: { label: 'Boundary', color: '#94a3b8', fillOpacity: 0, dash: [2, 2] },
+    fir: { label: 'FIR', color: '#38bdf8', fillOpacity: 0, dash: [6, 3] },
+    tma: { label: 'TMA', color: '#60a5fa', fillOpacity: 0.06 },
+    ctr: { label: 'CTR', color: '#818cf8', fillOpacity: 0.08 },
+    restricted: { label: 'Restricted', color: '#ef4444', fillOpacity: 0.12 },
+    danger: { label: 'Danger', color: '#f97316', fillOpacity: 0.1 },
+    prohibited: { label: 'Prohibited', color: '#dc2626', fillOpacity: 0.2, dash: [4, 2] },
+    airports: { label: 'Airport', color: '#34d399', fillOpacity: 0 },
+    user: { label: 'User layer', color: '#e879f9', fillOpacity: 0.1 },
+};
+
+export const AIRSPACE_CHANGE_EVENT = 'airspace-overlays-change';
+
+const USER_OVERLAYS_STORAGE_KEY = 'app-airspace-user-overlays';
+const VISIBLE_OVERLAYS_STORAGE_KEY = 'app-airspace-visible';
+
+const USER_COLORS = ['#e879f9', '#facc15', '#2dd4bf', '#fb7185', '#a3e635', '#c084fc'];
+
+const assetUrl = (path: string) => new URL(`${import.meta.env.BASE_URL}${path}`, window.location.origin).href;
+
+const WORLD_DATA_URL = assetUrl('basemaps/world-110m.geojson');
+const RUNTIME_CONFIG_URL = assetUrl('airspace/airspace.json');
+
+const BUILT_IN_OVERLAYS: AirspaceOverlay[] = [
+    { id: 'country-boundaries', name: 'Country Boundaries', kind: 'boundary' },
+    { id: 'airports', name: 'Airports', kind: 'airports' },
+];
+
+let runtimeOverlays: AirspaceOverlay[] = [];
+
+// ============================================================
+// Registry
+// ============================================================
+
+const loadUserOverlays = (): UserOverlay[] => {
+    try {
+        const saved = localStorage.getItem(USER_OVERLAYS_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed.filter(o => o?.id && o?.data?.type === 'FeatureCollection') : [];
+    } catch {
+        return [];
+    }
+};
+
+const loadVisibleIds = (): string[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(VISIBLE_OVERLAYS_STORAGE_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export interface AirspaceOverlayState {
+    overlays: AirspaceOverlay[];
+    visibleIds: ReadonlySet<string>;
+}
+
+let snapshot: AirspaceOverlayState | null = null;
+
+const notifyChange = () => {
+    snapshot = null;
+    window.dispatchEvent(new CustomEvent(AIRSPACE_CHANGE_EVENT));
+};
+
+export const getAirspaceState = (): AirspaceOverlayState => {
+    if (!snapshot) {
+        const runtimeIds = new Set(runtimeOverlays.map(o => o.id));
+        const user = loadUserOverlays().map(({ data: _data, ...overlay }) => overlay);
+        snapshot = {
+            overlays: [...BUILT_IN_OVERLAYS.filter(o => !runtimeIds.has(o.id)), ...runtimeOverlays, ...user],
+            visibleIds: new Set(loadVisibleIds()),
+        };
+    }
+    return snapshot;
+};
+
+export const setOverlayVisible = (id: string, visible: boolean) => {
+    const ids = new Set(loadVisibleIds());
+    if (visible) ids.add(id);
+    else ids.delete(id);
+    localStorage.setItem(VISIBLE_OVERLAYS_STORAGE_KEY, JSON.stringify([...ids]));
+    notifyChange();
+};
+
+const saveUserOverlays = (overlays: UserOverlay[]) => {
+    try {
+        localStorage.setItem(USER_OVERLAYS_STORAGE_KEY, JSON.stringify(overlays));
+    } catch {
+        throw new Error('Not enough browser storage for this layer - try a smaller or simplified file');
+    }
+};
+
+/**
+ * Parse a user file and store it as a named overlay. The new overlay is shown immediately.
+ */
+export const addUserOverlay = (fileName: string, text: string): AirspaceOverlay => {
+    const data = parseOverlayFile(fileName, text);
+    if (data.features.length === 0) throw new Error(`No features found in ${fileName}`);
+
+    const existing = loadUserOverlays();
+    const overlay: UserOverlay = {
+        id: `user-${Date.now().toString(36)}`,
+        name: fileName.replace(/\.[^.]+$/, '') || fileName,
+        kind: 'user',
+        color: USER_COLORS[existing.length % USER_COLORS.length],
+        custom: true,
+        data,
+    };
+    saveUserOverlays([...existing, overlay]);
+    dataCache.set(overlay.id, Promise.resolve(data));
+    setOverlayVisible(overlay.id, true);
+    return overlay;
+};
+
+export const updateUserOverlay = (id: string, patch: Pick<Partial<AirspaceOverlay>, 'name' | 'color'>) => {
+    saveUserOverlays(loadUserOverlays().map(o => o.id === id ? { ...o, ...patch } : o));
+    notifyChange();
+};
+
+export const removeUserOverlay = (id: string) => {
+    saveUserOverlays(loadUserOverlays().filter(o => o.id !== id));
+    dataCache.delete(id);
+    setOverlayVisible(id, false);
+};
+
+/**
+ * Fetch deployment overlays from /airspace/airspace.json, if the deployment provides one.
+ */
+export const loadAirspaceConfig = async () => {
+    try {
+        const response = await fetch(RUNTIME_CONFIG_URL);
+        if (!response.ok || !response.headers.get('Content-Type')?.includes('json')) return;
+        const config: AirspaceConfigFile = await response.json();
+        runtimeOverlays = Array.isArray(config.overlays)
+            ? config.overlays.filter(o => o?.id && o?.url && o.kind in AIRSPACE_KIND_STYLES)
+            : [];
+        notifyChange();
+    } catch (error) {
+        console.warn('Failed to load airspace config', error);
+    }
+};
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener(AIRSPACE_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(AIRSPACE_CHANGE_EVENT, onChange);
+};
+
+export const useAirspaceOverlays = (): AirspaceOverlayState => useSyncExternalStore(subscribe, getAirspaceState);
+
+// ============================================================
+// Overlay data
+// ============================================================
+
+const dataCache = new Map<string, Promise<GeoJSON.FeatureCollection>>();
+
+const loadAirports = async (): Promise<GeoJSON.FeatureCollection> => {
+    let airports: { code: string; name: string; lat: number; lon: number; elevation_ft?: number }[] = RULE_AIRPORTS;
+    try {
+        const response = await fetchRouteAirports({ retries: 0 });
+        if (response.airports.length > 0) airports = response.airports;
+    } catch (error) {
+        console.warn('Falling back to the built-in airport list', error);
+    }
+    return {
+        type: 'FeatureCollection',
+        features: airports.map(a => ({
+            type: 'Feature',
+            properties: { name: `${a.code} - ${a.name}`, elevation_ft: a.elevation_ft },
+            geometry: { type: 'Point', coordinates: [a.lon, a.lat] },
+        })),
+    };
+};
+
+const loadBoundaries = async (): Promise<GeoJSON.FeatureCollection> => {
+    const response = await fetch(WORLD_DATA_URL);
+    if (!response.ok) throw new Error('Failed to load boundary data');
+    const world: GeoJSON.FeatureCollection = await response.json();
+    return {
+        type: 'FeatureCollection',
+        features: world.features.filter(f => f.properties?.kind === 'border'),
+    };
+};
+
+const fetchOverlayData = async (overlay: AirspaceOverlay): Promise<GeoJSON.FeatureCollection> => {
+    if (overlay.custom) {
+        const stored = loadUserOverlays().find(o => o.id === overlay.id);
+        if (!stored) throw new Error(`Overlay ${overlay.name} is no longer stored`);
+        return stored.data;
+    }
+    if (overlay.id === 'airports' && !overlay.url) return loadAirports();
+    if (overlay.id === 'country-boundaries' && !overlay.url) return loadBoundaries();
+    if (!overlay.url) throw new Error(`Overlay ${overlay.name} has no data source`);
+
+    const response = await fetch(overlay.url);
+    if (!response.ok) throw new Error(`Failed to load ${overlay.name} (HTTP ${response.status})`);
+    return parseOverlayFile(overlay.url, await response.text());
+};
+
+/**
+ * Features for an overlay, loaded once per session.
+ */
+export const getOverlayData = (overlay: AirspaceOverlay): Promise<GeoJSON.FeatureCollection> => {
+    let cached = dataCache.get(overlay.id);
+    if (!cached) {
+        cached = fetchOverlayData(overlay);
+        // Failed loads are retried the next time the overlay is shown
+        cached.catch(() => dataCache.delete(overlay.id));
+        dataCache.set(overlay.id, cached);
+    }
+    return cached;
+};
+
+// ============================================================
+// Hover info
+// ============================================================
+
+const LOWER_KEYS = ['lower', 'lower_limit', 'lowerLimit', 'floor', 'LOWER', 'lower_alt'];
+const UPPER_KEYS = ['upper', 'upper_limit', 'upperLimit', 'ceiling', 'UPPER', 'upper_alt'];
+const NAME_KEYS = ['name', 'NAME', 'title', 'designator', 'ident'];
+
+const formatLimit = (value: unknown): string | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return value === 0 ? 'SFC' : `${value.toLocaleString()} ft`;
+    if (typeof value === 'string') {
+        // Stringified objects survive MapLibre's property flattening
+        if (value.startsWith('{')) {
+            try {
+                return formatLimit(JSON.parse(value));
+            } catch {
+                return value;
+            }
+        }
+        return value;
+    }
+    if (typeof value === 'object') {
+        // openAIP style: { value, unit, referenceDatum }
+        const { value: v, unit } = value as { value?: number; unit?: number | string };
+        if (typeof v !== 'number') return null;
+        if (unit === 6 || unit === 'FL') return `FL${v}`;
+        return v === 0 ? 'SFC' : `${v.toLocaleString()} ft`;
+    }
+    return null;
+};
+
+const firstOf = (props: Record<string, unknown>, keys: string[]) =>
+    keys.map(k => props[k]).find(v => v !== undefined && v !== null && v !== '');
+
+export interface AirspaceFeatureInfo {
+    name: string;
+    kind: string;
+    limits?: string;
+    details: [string, string][];
+}
+
+/**
+ * Summarise a hovered overlay feature: name, limits and a few remaining properties.
+ */
+export const describeAirspaceFeature = (overlay: AirspaceOverlay, props: Record<string, unknown>): AirspaceFeatureInfo => {
+    const name = String(firstOf(props, NAME_KEYS) ?? overlay.name);
+    const lower = formatLimit(firstOf(props, LOWER_KEYS));
+    const upper = formatLimit(firstOf(props, UPPER_KEYS));
+    const limits = lower || upper ? `${lower ?? '?'} – ${upper ?? '?'}` : undefined;
+
+    const skip = new Set([...NAME_KEYS, ...LOWER_KEYS, ...UPPER_KEYS]);
+    const details = Object.entries(props)
+        .filter(([k, v]) => !skip.has(k) && v !== null && v !== '' && typeof v !== 'object')
+        .slice(0, 4)
+        .map(([k, v]) => [k, String(v)] as [string, string]);
+
+    return {
+        name,
+        kind: overlay.kind === 'user' ? overlay.name : AIRSPACE_KIND_STYLES[overlay.kind].label,
+        limits,
+        details,
+    };
+};
@@ -0,0 +1,329 @@
+import { useSyncExternalStore } from 'react';
+import type { AnomalyReport } from './types';
+import { SOUND_COOLDOWN_MS } from './constants';
+import { getAnomalyLocation, getMatchedRules } from './utils/reportSchema';
+import { playAlertSound, type AlertSound } from './utils/alertSounds';
+import { wildcardToRegExp } from './utils/wildcard';
+
+// ============================================================
+// Realtime alert rules and the history of fired alerts
+// ============================================================
+//
+// Every enabled rule is checked against each anomaly arriving on the live
+// feed. A rule matches when all of its set conditions hold; a rule without
+// conditions matches every anomaly. Matches always go to the alert history,
+// while the sound and desktop popup are limited by the rule's cooldown.
+// Rules and history live in localStorage; the reports behind history entries
+// are kept in memory only.
+
+export interface AlertConditions {
+    /** Matched rule ids (rule engine), any of them */
+    ruleIds: number[];
+    /** Trigger layers (Rules, XGBoost, ...), any of them */
+    layers: string[];
+    minScore: number | null;
+    /** Comma-separated callsign patterns, * matches anything and ? one character (e.g. "ELY*, ISR*") */
+    callsignPattern: string;
+    /** Polygon as [lon, lat] vertices, matched against the anomaly's location */
+    area: [number, number][] | null;
+    emergencySquawk: boolean;
+}
+
+export interface AlertRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    conditions: AlertConditions;
+    sound: AlertSound;
+    /** Show a desktop notification (Notification API) */
+    notify: boolean;
+    color: string;
+    cooldownSeconds: number;
+}
+
+export interface AlertHistoryEntry {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    color: string;
+    flightId: string;
+    callsign?: string;
+    /** Unix seconds of the anomaly */
+    anomalyTimestamp: number;
+    /** Epoch ms when the alert fired */
+    firedAt: number;
+    read: boolean;
+}
+
+export const ALERT_RULES_CHANGE_EVENT = 'alert-rules-change';
+export const ALERT_HISTORY_CHANGE_EVENT = 'alert-history-change';
+/** Dispatched with `{ entryId }` when a desktop notification is clicked */
+export const ALERT_OPEN_EVENT = 'alert-open';
+
+export const MAX_ALERT_HISTORY = 200;
+export const EMERGENCY_SQUAWKS = ['7500', '7600', '7700'];
+
+export const ALERT_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+const ALERT_RULES_STORAGE_KEY = 'app-alert-rules';
+const ALERT_HISTORY_STORAGE_KEY = 'app-alert-history';
+
+export const EMPTY_ALERT_CONDITIONS: AlertConditions = {
+    ruleIds: [],
+    layers: [],
+    minScore: null,
+    callsignPattern: '',
+    area: null,
+    emergencySquawk: false,
+};
+
+// Matches the sound the realtime feed always played before rules existed
+const DEFAULT_ALERT_RULES: AlertRule[] = [{
+    id: 'default',
+    name: 'Any new anomaly',
+    enabled: true,
+    conditions: EMPTY_ALERT_CONDITIONS,
+    sound: 'ring',
+    notify: false,
+    color: ALERT_COLORS[0],
+    cooldownSeconds: SOUND_COOLDOWN_MS / 1000,
+}];
+
+// ------------------------------------------------------------
+// Matching
+// ------------------------------------------------------------
+
+const getScore = (a: AnomalyReport) => a.full_report?.summary?.confidence_score ?? (a.is_anomaly ? 100 : 0);
+
+const getMatchedRuleIds = (a: AnomalyReport): number[] => {
+    const ids = getMatchedRules(a.full_report).map(r => r.id);
+    return ids.length > 0 ? ids : (a.matched_rule_ids ?? '').split(',').map(Number).filter(Number.isInteger);
+};
+
+/** Emergency squawk rule matched, or a squawk code recorded on a rule event */
+export const hasEmergencySquawk = (a: AnomalyReport): boolean =>
+    getMatchedRules(a.full_report).some(rule =>
+        /squawk|emergency/i.test(rule.name ?? '')
+        || (rule.details?.events ?? []).some(event => EMERGENCY_SQUAWKS.includes(String(event.squawk ?? '')))
+    );
+
+const compileCallsignPatterns = (patterns: string): RegExp[] =>
+    patterns.split(',').map(p => p.trim()).filter(Boolean).map(p => wildcardToRegExp(p));
+
+const matchesCallsign = (callsign: string | undefined, patterns: RegExp[]): boolean => {
+    if (patterns.length === 0) return true;
+    return !!callsign && patterns.some(regex => regex.test(callsign.trim()));
+};
+
+/** Ray casting; `polygon` is a list of [lon, lat] vertices */
+export const isPointInPolygon = (lon: number, lat: number, polygon: [number, number][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * `callsignPatterns` are the rule's compiled patterns; pass them when checking
+ * many anomalies so they are compiled once.
+ */
+export const matchesAlertRule = (
+    a: AnomalyReport,
+    rule: AlertRule,
+    callsignPatterns = compileCallsignPatterns(rule.conditions.callsignPattern)
+): boolean => {
+    const c = rule.conditions;
+    if (c.ruleIds.length > 0 && !getMatchedRuleIds(a).some(id => c.ruleIds.includes(id))) return false;
+    if (c.layers.length > 0 && !(a.full_report?.summary?.triggers ?? []).some(t => c.layers.includes(t))) return false;
+    if (c.minScore !== null && getScore(a) < c.minScore) return false;
+    if (!matchesCallsign(a.callsign, callsignPatterns)) return false;
+    if (c.area && c.area.length >= 3) {
+        const location = getAnomalyLocation(a.full_report);
+        if (!location || !isPointInPolygon(location.lon, location.lat, c.area)) return false;
+    }
+    if (c.emergencySquawk && !hasEmergencySquawk(a)) return false;
+    return true;
+};
+
+// ------------------------------------------------------------
+// Rules
+// ------------------------------------------------------------
+
+let cachedRules: AlertRule[] | null = null;
+
+const loadAlertRules = (): AlertRule[] => {
+    try {
+        const saved = localStorage.getItem(ALERT_RULES_STORAGE_KEY);
+        if (!saved) return DEFAULT_ALERT_RULES;
+        const parsed = JSON.parse(saved);
+        return Array.isArray(parsed)
+            ? parsed
+                .filter(r => r && typeof r.id === 'string')
+                .map(r => ({ ...DEFAULT_ALERT_RULES[0], ...r, conditions: { ...EMPTY_ALERT_CONDITIONS, ...r.conditions } }))
+            : DEFAULT_ALERT_RULES;
+    } catch {
+        return DEFAULT_ALERT_RULES;
+    }
+};
+
+const saveAlertRules = (rules: AlertRule[]) => {
+    cachedRules = rules;
+    localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules));
+    window.dispatchEvent(new CustomEvent(ALERT_RULES_CHANGE_EVENT));
+};
+
+export const getAlertRules = (): AlertRule[] => {
+    if (!cachedRules) cachedRules = loadAlertRules();
+    return cachedRules;
+};
+
+export const createAlertRule = (name: string): AlertRule => {
+    const rules = getAlertRules();
+    return {
+        id: `rule-${Date.now().toString(36)}`,
+        name,
+        enabled: true,
+        conditions: EMPTY_ALERT_CONDITIONS,
+        sound: 'chime',
+        notify: false,
+        color: ALERT_COLORS.find(c => !rules.some(r => r.color === c)) ?? ALERT_COLORS[rules.length % ALERT_COLORS.length],
+        cooldownSeconds: 30,
+    };
+};
+
+/** Add a rule, or replace the one with the same id */
+export const saveAlertRule = (rule: AlertRule) => {
+    const rules = getAlertRules();
+    saveAlertRules(rules.some(r => r.id === rule.id) ? rules.map(r => r.id === rule.id ? rule : r) : [...rules, rule]);
+};
+
+export const deleteAlertRule = (id: string) => saveAlertRules(getAlertRules().filter(r => r.id !== id));
+
+/**
+ * Ask for desktop notification permission. Resolves to whether popups can be shown.
+ */
+export const requestAlertNotificationPermission = async (): Promise<boolean> => {
+    if (!('Notification' in window)) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+};
+
+// ------------------------------------------------------------
+// History
+// ------------------------------------------------------------
+
+const alertReports = new Map<string, AnomalyReport>();
+const lastFiredAt = new Map<string, number>();
+let cachedHistory: AlertHistoryEntry[] | null = null;
+
+const loadAlertHistory = (): AlertHistoryEntry[] => {
+    try {
+        const saved = localStorage.getItem(ALERT_HISTORY_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed.filter(e => e && typeof e.id === 'string' && typeof e.flightId === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+const saveAlertHistory = (entries: AlertHistoryEntry[]) => {
+    const history = entries.slice(0, MAX_ALERT_HISTORY);
+    // Reports are only kept for entries still in the history
+    const keptIds = new Set(history.map(e => e.id));
+    alertReports.forEach((_, id) => {
+        if (!keptIds.has(id)) alertReports.delete(id);
+    });
+    cachedHistory = history;
+    localStorage.setItem(ALERT_HISTORY_STORAGE_KEY, JSON.stringify(history));
+    window.dispatchEvent(new CustomEvent(ALERT_HISTORY_CHANGE_EVENT));
+};
+
+/** Newest first */
+export const getAlertHistory = (): AlertHistoryEntry[] => {
+    if (!cachedHistory) cachedHistory = loadAlertHistory();
+    return cachedHistory;
+};
+
+/** The report an alert fired for, if it fired in this session */
+export const getAlertReport = (entryId: string): AnomalyReport | undefined => alertReports.get(entryId);
+
+export const markAlertsRead = () => {
+    const history = getAlertHistory();
+    if (history.some(e => !e.read)) saveAlertHistory(history.map(e => e.read ? e : { ...e, read: true }));
+};
+
+export const clearAlertHistory = () => saveAlertHistory([]);
+
+const showDesktopNotification = (rule: AlertRule, entries: AlertHistoryEntry[]) => {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+    const flights = entries.map(e => e.callsign || e.flightId);
+    const notification = new Notification(rule.name, {
+        body: flights.length > 3 ? `${flights.slice(0, 3).join(', ')} +${flights.length - 3}` : flights.join(', '),
+        tag: rule.id,
+    });
+    notification.onclick = () => {
+        window.focus();
+        window.dispatchEvent(new CustomEvent(ALERT_OPEN_EVENT, { detail: { entryId: entries[0].id } }));
+        notification.close();
+    };
+};
+
+/**
+ * Check newly arrived anomalies against the enabled rules, record the
+ * matches and play each matching rule's sound and popup unless it is cooling down.
+ */
+export const evaluateAlertRules = (anomalies: AnomalyReport[]): AlertHistoryEntry[] => {
+    const now = Date.now();
+    const fired: AlertHistoryEntry[] = [];
+
+    getAlertRules().filter(rule => rule.enabled).forEach(rule => {
+        const callsignPatterns = compileCallsignPatterns(rule.conditions.callsignPattern);
+        const entries = anomalies.filter(a => matchesAlertRule(a, rule, callsignPatterns)).map(a => {
+            const entry: AlertHistoryEntry = {
+                id: `${rule.id}|${a.flight_id}|${a.timestamp}`,
+                ruleId: rule.id,
+                ruleName: rule.name,
+                color: rule.color,
+                flightId: a.flight_id,
+                callsign: a.callsign,
+                anomalyTimestamp: a.timestamp,
+                firedAt: now,
+                read: false,
+            };
+            alertReports.set(entry.id, a);
+            return entry;
+        });
+        if (entries.length === 0) return;
+        fired.push(...entries);
+
+        if (now - (lastFiredAt.get(rule.id) ?? 0) < rule.cooldownSeconds * 1000) return;
+        lastFiredAt.set(rule.id, now);
+        playAlertSound(rule.sound);
+        if (rule.notify) showDesktopNotification(rule, entries);
+    });
+
+    if (fired.length > 0) {
+        const firedIds = new Set(fired.map(e => e.id));
+        const rest = getAlertHistory().filter(e => !firedIds.has(e.id));
+        saveAlertHistory([...fired, ...rest]);
+    }
+    return fired;
+};
+
+const subscribeRules = (onChange: () => void) => {
+    window.addEventListener(ALERT_RULES_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(ALERT_RULES_CHANGE_EVENT, onChange);
+};
+
+const subscribeHistory = (onChange: () => void) => {
+    window.addEventListener(ALERT_HISTORY_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(ALERT_HISTORY_CHANGE_EVENT, onChange);
+};
+
+export const useAlertRules = (): AlertRule[] => useSyncExternalStore(subscribeRules, getAlertRules);
+
+export const useAlertHistory = (): AlertHistoryEntry[] => useSyncExternalStore(subscribeHistory, getAlertHistory);
@@ -7,27 +7,130 @@ import {
     GPSJammingPoint, MilitaryPattern, AirspaceRisk, BusiestAirport
 } from './types';
 import type { AIAction } from './utils/aiActions';
+import { normalizeFullReport } from './utils/reportSchema';
+import { apiFetch, ApiError, isAbortError, readEventStream, type RequestOptions } from './apiClient';
+import { cachedQuery, invalidateQueries, type QueryKey } from './queryCache';
 import type { ChatMessage } from './chatTypes';
 
 const API_BASE = (import.meta.env.VITE_API_URL || '') + '/api';
 
+// AI, re-analysis and dashboard batch endpoints can take well over the default timeout
+const LONG_TIMEOUT_MS = 120_000;
+
+export { ApiError, getErrorMessage, isAbortError, configureApiClient } from './apiClient';
+export type { RequestOptions, ApiErrorKind } from './apiClient';
+export { invalidateQueries } from './queryCache';
+
+// Dashboard batches are served from a pre-computed backend cache and rarely change
+const BATCH_STALE_TIME_MS = 5 * 60_000;
+const METADATA_STALE_TIME_MS = 5 * 60_000;
+
 // ============================================================
 // Helper Functions
 // ============================================================
 
 /**
- * Parse full_report field if it's a JSON string
- * This handles the case where the API returns full_report as a stringified JSON
+ * Parse and validate the full_report field.
+ * The API may return full_report as a stringified JSON, and older pipeline
+ * versions use a different layout - normalizeFullReport handles both and
+ * records any problems in schema_warnings so the UI can surface them.
  */
 const parseAnomalyReport = (anomaly: any): AnomalyReport => {
+    const { report, warnings } = normalizeFullReport(anomaly.full_report);
     return {
         ...anomaly,
-        full_report: typeof anomaly.full_report === 'string' 
-            ? JSON.parse(anomaly.full_report) 
-            : anomaly.full_report
+        full_report: report,
+        schema_warnings: warnings.length > 0 ? warnings : undefined
     };
 };
 
+// Stream payloads may be a bare string or { text | delta | token | detail }
+const readStreamText = (data: string): string => {
+    try {
+        const parsed = JSON.parse(data);
+        if (typeof parsed === 'string') return parsed;
+        return parsed?.text ?? parsed?.delta ?? parsed?.token ?? parsed?.detail ?? '';
+    } catch {
+        return data;
+    }
+};
+
+/**
+ * POST to the `/stream` variant of an AI endpoint and report the accumulated
+ * text after every `token` event. Resolves with the payload of the final
+ * `done` event. Backends without a streaming route (404/405) or that answer
+ * with plain JSON are handled by reporting the whole answer at once.
+ */
+const streamAIRequest = async <T extends { response: string }>(
+    endpoint: string,
+    body: unknown,
+    onText: (text: string) => void,
+    options: RequestOptions | undefined,
+    errorMessage: string
+): Promise<T> => {
+    const init = {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify(body),
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage,
+    };
+
+    let response: Response;
+    try {
+        response = await apiFetch(`${API_BASE}${endpoint}/stream`, init);
+    } catch (error) {
+        if (!(error instanceof ApiError && (error.status === 404 || error.status === 405))) throw error;
+        response = await apiFetch(`${API_BASE}${endpoint}`, init);
+    }
+
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const result: T = await response.json();
+        onText(result.response);
+        return result;
+    }
+
+    let text = '';
+    let result: T | null = null;
+    for await (const event of readEventStream(response)) {
+        if (event.event === 'token' || event.event === 'message') {
+            text += readStreamText(event.data);
+            onText(text);
+        } else if (event.event === 'done') {
+            // The answer has already streamed; a malformed final payload only loses its extras
+            try {
+                result = event.data ? JSON.parse(event.data) : null;
+            } catch (error) {
+                console.warn('Ignoring malformed done event', error);
+            }
+        } else if (event.event === 'error') {
+            throw new Error(`${errorMessage}: ${readStreamText(event.data) || 'stream interrupted'}`);
+        }
+    }
+
+    if (result) return { ...result, response: result.response || text };
+    return { response: text } as T;
+};
+
+/**
+ * Run a request through the shared query cache.
+ * The caller's signal only detaches that caller - the underlying request may be
+ * shared with other readers, so it is started without it.
+ */
+const withQueryCache = <T>(
+    key: QueryKey,
+    options: RequestOptions | undefined,
+    staleTimeMs: number,
+    request: (requestOptions: RequestOptions) => Promise<T>
+): Promise<T> => {
+    const { signal, ...requestOptions } = options ?? {};
+    return cachedQuery(key, () => request(requestOptions), { signal, staleTimeMs });
+};
+
 // ============================================================
 // AI Analyze Types
 // ============================================================
@@ -49,47 +152,60 @@ export interface AIAnalyzeResponse {
     actions: AIAction[];
 }
 
-export const fetchLiveAnomalies = async (startTs: number, endTs: number): Promise<AnomalyReport[]> => {
-    const response = await fetch(`${API_BASE}/live/anomalies?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch anomalies');
-    }
+export const fetchLiveAnomalies = async (startTs: number, endTs: number, options?: RequestOptions): Promise<AnomalyReport[]> => {
+    const response = await apiFetch(`${API_BASE}/live/anomalies?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch anomalies',
+    });
     const data = await response.json();
     return data.map(parseAnomalyReport);
 };
 
-export const fetchLiveTrack = async (flightId: string): Promise<FlightTrack> => {
-    const response = await fetch(`${API_BASE}/live/track/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch track');
-    }
+/**
+ * Open the Server-Sent Events channel for new live anomalies.
+ * Each `anomaly` event carries one AnomalyReport. Passing the id of the last
+ * received event asks the backend to replay everything published after it.
+ */
+export const openLiveAnomalyStream = (lastEventId?: string): EventSource => {
+    const query = lastEventId ? `?last_event_id=${encodeURIComponent(lastEventId)}` : '';
+    return new EventSource(`${API_BASE}/live/stream${query}`);
+};
+
+export const parseLiveAnomalyEvent = (data: string): AnomalyReport => parseAnomalyReport(JSON.parse(data));
+
+export const fetchLiveTrack = async (flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    const response = await apiFetch(`${API_BASE}/live/track/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch track',
+    });
     return response.json();
 };
 
-export const fetchResearchAnomalies = async (startTs: number, endTs: number): Promise<AnomalyReport[]> => {
-    const response = await fetch(`${API_BASE}/research/anomalies?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch research anomalies');
-    }
+export const fetchResearchAnomalies = async (startTs: number, endTs: number, options?: RequestOptions): Promise<AnomalyReport[]> => {
+    const response = await apiFetch(`${API_BASE}/research/anomalies?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch research anomalies',
+    });
     const data = await response.json();
     return data.map(parseAnomalyReport);
 };
 
 // Fetch all flights for dashboard (normal from research + all from feedback_tagged)
-export const fetchDashboardFlights = async (startTs: number, endTs: number): Promise<AnomalyReport[]> => {
-    const response = await fetch(`${API_BASE}/dashboard/flights?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch dashboard flights');
-    }
+export const fetchDashboardFlights = async (startTs: number, endTs: number, options?: RequestOptions): Promise<AnomalyReport[]> => {
+    const response = await apiFetch(`${API_BASE}/dashboard/flights?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch dashboard flights',
+    });
     const data = await response.json();
     return data.map(parseAnomalyReport);
 };
 
-export const fetchAnalyzeFlight = async (flightId: string): Promise<FlightTrack> => {
-    const response = await fetch(`${API_BASE}/analyze/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to analyze flight');
-    }
+export const fetchAnalyzeFlight = async (flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    const response = await apiFetch(`${API_BASE}/analyze/${flightId}`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage: 'Failed to analyze flight',
+    });
     const result = await response.json();
     if (result.track) {
         return result.track;
@@ -97,11 +213,12 @@ export const fetchAnalyzeFlight = async (flightId: string): Promise<FlightTrack>
     throw new Error('Track data missing in analysis result');
 };
 
-export const fetchAnalyzeFlightFromDB = async (flightId: string): Promise<any> => {
-    const response = await fetch(`${API_BASE}/analyze/from-db/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to analyze flight from DB');
-    }
+export const fetchAnalyzeFlightFromDB = async (flightId: string, options?: RequestOptions): Promise<any> => {
+    const response = await apiFetch(`${API_BASE}/analyze/from-db/${flightId}`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage: 'Failed to analyze flight from DB',
+    });
     return response.json();
 };
 
@@ -149,7 +266,7 @@ export const isStandardClassification = (response: ClassifyFlightResponse): resp
     return typeof (response as ClassifyFlightResponseStandard).classification === 'object';
 };
 
-export const classifyFlight = async (request: ClassifyFlightRequest): Promise<ClassifyFlightResponse> => {
+export const classifyFlight = async (request: ClassifyFlightRequest, options?: RequestOptions): Promise<ClassifyFlightResponse> => {
     // Ensure anomaly_report is an object, not a string
     let anomalyReport = request.anomaly_report;
     if (typeof anomalyReport === 'string') {
@@ -160,7 +277,7 @@ export const classifyFlight = async (request: ClassifyFlightRequest): Promise<Cl
         }
     }
     
-    const response = await fetch(`${API_BASE}/ai/classify`, {
+    const response = await apiFetch(`${API_BASE}/ai/classify`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -169,42 +286,39 @@ export const classifyFlight = async (request: ClassifyFlightRequest): Promise<Cl
             ...request,
             anomaly_report: anomalyReport
         }),
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage: 'Failed to classify flight',
     });
-    if (!response.ok) {
-        throw new Error('Failed to classify flight');
-    }
     return response.json();
 };
 
-export const fetchUnifiedTrack = async (flightId: string): Promise<FlightTrack> => {
-    const response = await fetch(`${API_BASE}/track/unified/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch flight track');
-    }
+export const fetchUnifiedTrack = async (flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    const response = await apiFetch(`${API_BASE}/track/unified/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch flight track',
+    });
     return response.json();
 };
 
-export const fetchResearchTrack = async (flightId: string): Promise<FlightTrack> => {
-    const response = await fetch(`${API_BASE}/research/track/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch research track');
-    }
+export const fetchResearchTrack = async (flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    const response = await apiFetch(`${API_BASE}/research/track/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch research track',
+    });
     return response.json();
 };
 
-export const fetchFeedbackTrack = async (flightId: string): Promise<FlightTrack> => {
-    const response = await fetch(`${API_BASE}/feedback/track/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch feedback track');
-    }
+export const fetchFeedbackTrack = async (flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    const response = await apiFetch(`${API_BASE}/feedback/track/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch feedback track',
+    });
     return response.json();
 };
 
-export const fetchLearnedPaths = async (): Promise<any> => {
-    const response = await fetch(`${API_BASE}/paths`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch learned paths');
-    }
+export const fetchLearnedPaths = async (options?: RequestOptions): Promise<any> => {
+    const response = await apiFetch(`${API_BASE}/paths`, { ...options, errorMessage: 'Failed to fetch learned paths' });
     return response.json();
 };
 
@@ -281,7 +395,7 @@ export interface UnionTubesResponse {
     union_tubes: UnionTube[];
 }
 
-export const fetchLearnedLayers = async (origin?: string, destination?: string): Promise<LearnedLayers> => {
+export const fetchLearnedLayers = async (origin?: string, destination?: string, options?: RequestOptions): Promise<LearnedLayers> => {
     const params = new URLSearchParams();
     if (origin) params.append('origin', origin);
     if (destination) params.append('destination', destination);
@@ -290,14 +404,11 @@ export const fetchLearnedLayers = async (origin?: string, destination?: string):
         ? `${API_BASE}/learned-layers?${params.toString()}`
         : `${API_BASE}/learned-layers`;
     
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error('Failed to fetch learned layers');
-    }
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch learned layers' });
     return response.json();
 };
 
-export const fetchUnionTubes = async (origin?: string, destination?: string): Promise<UnionTubesResponse> => {
+export const fetchUnionTubes = async (origin?: string, destination?: string, options?: RequestOptions): Promise<UnionTubesResponse> => {
     const params = new URLSearchParams();
     if (origin) params.append('origin', origin);
     if (destination) params.append('destination', destination);
@@ -306,38 +417,54 @@ export const fetchUnionTubes = async (origin?: string, destination?: string): Pr
         ? `${API_BASE}/union-tubes?${params.toString()}`
         : `${API_BASE}/union-tubes`;
     
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error('Failed to fetch union tubes');
-    }
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch union tubes' });
     return response.json();
 };
 
-export const fetchRules = async (): Promise<{ id: number; name: string; description: string }[]> => {
-    const response = await fetch(`${API_BASE}/rules`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch rules');
-    }
-    return response.json();
+export const fetchRules = async (options?: RequestOptions): Promise<{ id: number; name: string; description: string }[]> => {
+    return withQueryCache(['rules'], options, METADATA_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/rules`, { ...requestOptions, errorMessage: 'Failed to fetch rules' });
+        return response.json();
+    });
 };
 
-export const fetchFlightsByRule = async (ruleId: number, signal?: AbortSignal): Promise<AnomalyReport[]> => {
-    const response = await fetch(`${API_BASE}/rules/${ruleId}/flights`, { signal });
-    if (!response.ok) {
-        throw new Error('Failed to fetch flights by rule');
-    }
+/** Pipeline version entry as served by the backend (times are ISO strings or unix seconds) */
+export interface ModelVersionConfig {
+    id: string;
+    label?: string;
+    deployedFrom: string | number | null;
+    deployedTo: string | number | null;
+    description?: string;
+    layers?: string[];
+}
+
+export const fetchModelVersions = async (options?: RequestOptions): Promise<ModelVersionConfig[]> => {
+    return withQueryCache(['model-versions'], options, METADATA_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/model-versions`, { ...requestOptions, errorMessage: 'Failed to fetch model versions' });
+        const data = await response.json();
+        return Array.isArray(data) ? data : data.versions;
+    });
+};
+
+export const fetchFlightsByRule = async (ruleId: number, options?: RequestOptions): Promise<AnomalyReport[]> => {
+    const response = await apiFetch(`${API_BASE}/rules/${ruleId}/flights`, {
+        ...options,
+        errorMessage: 'Failed to fetch flights by rule',
+    });
     const data = await response.json();
     return data.map(parseAnomalyReport);
 };
 
-export const fetchCallsignFromResearch = async (flightId: string): Promise<string | null> => {
+export const fetchCallsignFromResearch = async (flightId: string, options?: RequestOptions): Promise<string | null> => {
     try {
-        const response = await fetch(`${API_BASE}/research/callsign/${flightId}`);
-        if (!response.ok) return null;
+        const response = await apiFetch(`${API_BASE}/research/callsign/${flightId}`, options);
         const data = await response.json();
         return data?.callsign || null;
     } catch (error) {
-        console.warn('Failed to fetch callsign', error);
+        // A missing callsign is expected for many flights - only log transport problems
+        if (!(error instanceof ApiError && error.kind === 'http')) {
+            console.warn('Failed to fetch callsign', error);
+        }
         return null;
     }
 };
@@ -370,14 +497,14 @@ export interface UpdateFeedbackParams {
     otherDetails?: string;   // Used when ruleId is null
 }
 
-export const submitFeedback = async (params: FeedbackParams): Promise<void> => {
+export const submitFeedback = async (params: FeedbackParams, options?: RequestOptions): Promise<void> => {
     const { flightId, isAnomaly, comments = "", ruleId, ruleIds, otherDetails = "" } = params;
     
     // Support both old (ruleId) and new (ruleIds) format
     // If ruleIds is provided, use it; otherwise convert ruleId to array
     const finalRuleIds = ruleIds ?? (ruleId !== null && ruleId !== undefined ? [ruleId] : undefined);
     
-    const response = await fetch(`${API_BASE}/feedback`, {
+    await apiFetch(`${API_BASE}/feedback`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -390,15 +517,14 @@ export const submitFeedback = async (params: FeedbackParams): Promise<void> => {
             rule_id: ruleId,  // Keep for backward compatibility
             other_details: otherDetails
         }),
+        ...options,
+        errorMessage: 'Failed to submit feedback',
     });
-    
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to submit feedback');
-    }
+    // Tagging moves the flight into feedback_tagged.db
+    invalidateQueries(['metadata', flightId]);
 };
 
-export const fetchFeedbackHistory = async (startTs: number = 0, endTs?: number, limit: number = 100): Promise<AnomalyReport[]> => {
+export const fetchFeedbackHistory = async (startTs: number = 0, endTs?: number, limit: number = 100, options?: RequestOptions): Promise<AnomalyReport[]> => {
     const params = new URLSearchParams({
         start_ts: startTs.toString(),
         limit: limit.toString()
@@ -408,16 +534,16 @@ export const fetchFeedbackHistory = async (startTs: number = 0, endTs?: number,
         params.append('end_ts', endTs.toString());
     }
     
-    const response = await fetch(`${API_BASE}/feedback/history?${params}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch feedback history');
-    }
+    const response = await apiFetch(`${API_BASE}/feedback/history?${params}`, {
+        ...options,
+        errorMessage: 'Failed to fetch feedback history',
+    });
     const data = await response.json();
     return data.map(parseAnomalyReport);
 };
 
 // Fetch from the new feedback_tagged.db (clean database)
-export const fetchTaggedFeedbackHistory = async (startTs: number = 0, endTs?: number, limit: number = 100, includeNormal: boolean = true): Promise<AnomalyReport[]> => {
+export const fetchTaggedFeedbackHistory = async (startTs: number = 0, endTs?: number, limit: number = 100, includeNormal: boolean = true, options?: RequestOptions): Promise<AnomalyReport[]> => {
     const params = new URLSearchParams({
         start_ts: startTs.toString(),
         limit: limit.toString(),
@@ -428,23 +554,45 @@ export const fetchTaggedFeedbackHistory = async (startTs: number = 0, endTs?: nu
         params.append('end_ts', endTs.toString());
     }
     
-    const response = await fetch(`${API_BASE}/feedback/tagged/history?${params}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch tagged feedback history');
-    }
+    const response = await apiFetch(`${API_BASE}/feedback/tagged/history?${params}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged feedback history',
+    });
     const data = await response.json();
     return data.map(parseAnomalyReport);
 };
 
 // Fetch track from feedback_tagged.db
-export const fetchTaggedFeedbackTrack = async (flightId: string): Promise<FlightTrack> => {
-    const response = await fetch(`${API_BASE}/feedback/tagged/track/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch tagged feedback track');
-    }
+export const fetchTaggedFeedbackTrack = async (flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    const response = await apiFetch(`${API_BASE}/feedback/tagged/track/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged feedback track',
+    });
     return response.json();
 };
 
+/** Which backend store a flight track is read from */
+export type TrackSource = 'live' | 'research' | 'unified' | 'feedback';
+
+export const fetchTrackFromSource = async (source: TrackSource, flightId: string, options?: RequestOptions): Promise<FlightTrack> => {
+    switch (source) {
+        case 'feedback':
+            // Try tagged DB first, fall back to old feedback track
+            try {
+                return await fetchTaggedFeedbackTrack(flightId, options);
+            } catch (err) {
+                if (isAbortError(err)) throw err;
+                return await fetchFeedbackTrack(flightId, options);
+            }
+        case 'unified':
+            return fetchUnifiedTrack(flightId, options);
+        case 'research':
+            return fetchResearchTrack(flightId, options);
+        default:
+            return fetchLiveTrack(flightId, options);
+    }
+};
+
 // Flight Metadata type
 export interface FlightMetadata {
     flight_id: string;
@@ -504,36 +652,40 @@ export interface FlightMetadata {
 }
 
 // Fetch flight metadata from feedback_tagged.db
-export const fetchTaggedFlightMetadata = async (flightId: string): Promise<FlightMetadata> => {
-    const response = await fetch(`${API_BASE}/feedback/tagged/metadata/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch flight metadata');
-    }
-    return response.json();
+export const fetchTaggedFlightMetadata = async (flightId: string, options?: RequestOptions): Promise<FlightMetadata> => {
+    return withQueryCache(['metadata', flightId, 'tagged'], options, METADATA_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/feedback/tagged/metadata/${flightId}`, {
+            ...requestOptions,
+            errorMessage: 'Failed to fetch flight metadata',
+        });
+        return response.json();
+    });
 };
 
 // Fetch flight metadata from research.db
-export const fetchResearchFlightMetadata = async (flightId: string): Promise<FlightMetadata> => {
-    const response = await fetch(`${API_BASE}/research/metadata/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch research flight metadata');
-    }
-    return response.json();
+export const fetchResearchFlightMetadata = async (flightId: string, options?: RequestOptions): Promise<FlightMetadata> => {
+    return withQueryCache(['metadata', flightId, 'research'], options, METADATA_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/research/metadata/${flightId}`, {
+            ...requestOptions,
+            errorMessage: 'Failed to fetch research flight metadata',
+        });
+        return response.json();
+    });
 };
 
-export const fetchResearchAnomaly = async (flightId: string): Promise<AnomalyReport> => {
-    const response = await fetch(`${API_BASE}/research/anomaly/${flightId}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch research anomaly report');
-    }
+export const fetchResearchAnomaly = async (flightId: string, options?: RequestOptions): Promise<AnomalyReport> => {
+    const response = await apiFetch(`${API_BASE}/research/anomaly/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch research anomaly report',
+    });
     const data = await response.json();
     return parseAnomalyReport(data);
 };
 
-export const updateFeedback = async (feedbackId: number, params: UpdateFeedbackParams): Promise<void> => {
+export const updateFeedback = async (feedbackId: number, params: UpdateFeedbackParams, options?: RequestOptions): Promise<void> => {
     const { ruleId, comments = "", otherDetails = "" } = params;
     
-    const response = await fetch(`${API_BASE}/feedback/${feedbackId}`, {
+    await apiFetch(`${API_BASE}/feedback/${feedbackId}`, {
         method: 'PUT',
         headers: {
             'Content-Type': 'application/json',
@@ -543,23 +695,20 @@ export const updateFeedback = async (feedbackId: number, params: UpdateFeedbackP
             comments: comments,
             other_details: otherDetails
         }),
+        ...options,
+        errorMessage: 'Failed to update feedback',
     });
-    
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to update feedback');
-    }
+    invalidateQueries(['metadata']);
 };
 
-export const reanalyzeFeedbackFlight = async (flightId: string): Promise<AnomalyReport> => {
-    const response = await fetch(`${API_BASE}/feedback/reanalyze/${flightId}`, {
+export const reanalyzeFeedbackFlight = async (flightId: string, options?: RequestOptions): Promise<AnomalyReport> => {
+    const response = await apiFetch(`${API_BASE}/feedback/reanalyze/${flightId}`, {
         method: 'POST',
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage: 'Failed to re-analyze flight',
     });
-    
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to re-analyze flight');
-    }
+    invalidateQueries(['metadata', flightId]);
     
     const data = await response.json();
     return parseAnomalyReport(data);
@@ -569,11 +718,7 @@ export const reanalyzeFeedbackFlight = async (flightId: string): Promise<Anomaly
 // AI Analyze Endpoint
 // ============================================================
 
-/**
- * Send a screenshot and question to the AI co-pilot for analysis.
- * Returns the AI's response text and optional map actions.
- */
-export const analyzeWithAI = async (request: AIAnalyzeRequest, signal?: AbortSignal): Promise<AIAnalyzeResponse> => {
+const buildAnalyzeBody = (request: AIAnalyzeRequest) => {
     // Ensure anomaly_report is an object, not a string
     // This handles cases where full_report might still be a JSON string
     let anomalyReport = request.anomaly_report;
@@ -584,39 +729,54 @@ export const analyzeWithAI = async (request: AIAnalyzeRequest, signal?: AbortSig
             console.error('Failed to parse anomaly_report string:', e);
         }
     }
-    
-    const response = await fetch(`${API_BASE}/ai/analyze`, {
+
+    return {
+        screenshot: request.screenshot,
+        question: request.question,
+        flight_id: request.flight_id,
+        flight_data: request.flight_data,
+        anomaly_report: anomalyReport,
+        selected_point: request.selected_point,
+        history: request.history || [],
+        length: request.length || 'medium',
+        language: request.language || 'en'
+    };
+};
+
+/**
+ * Send a screenshot and question to the AI co-pilot for analysis.
+ * Returns the AI's response text and optional map actions.
+ */
+export const analyzeWithAI = async (request: AIAnalyzeRequest, options?: RequestOptions): Promise<AIAnalyzeResponse> => {
+    const response = await apiFetch(`${API_BASE}/ai/analyze`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-            screenshot: request.screenshot,
-            question: request.question,
-            flight_id: request.flight_id,
-            flight_data: request.flight_data,
-            anomaly_report: anomalyReport,
-            selected_point: request.selected_point,
-            history: request.history || [],
-            length: request.length || 'medium',
-            language: request.language || 'en'
-        }),
-        signal,
+        body: JSON.stringify(buildAnalyzeBody(request)),
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage: 'AI analysis failed',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'AI analysis failed');
-    }
-    
     return response.json();
 };
 
-export const fetchDataFlights = async (startTs: number, endTs: number): Promise<DataFlight[]> => {
-    const response = await fetch(`${API_BASE}/data/flights?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) {
-        throw new Error('Failed to fetch data flights');
-    }
+/**
+ * Same as analyzeWithAI, but reports the answer text as it is generated.
+ */
+export const streamAnalyzeWithAI = (
+    request: AIAnalyzeRequest,
+    onText: (text: string) => void,
+    options?: RequestOptions
+): Promise<AIAnalyzeResponse> =>
+    streamAIRequest<AIAnalyzeResponse>('/ai/analyze', buildAnalyzeBody(request), onText, options, 'AI analysis failed');
+
+export const fetchDataFlights = async (startTs: number, endTs: number, options?: RequestOptions): Promise<DataFlight[]> => {
+    const response = await apiFetch(`${API_BASE}/data/flights?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch data flights',
+    });
     return response.json();
 };
 
@@ -630,20 +790,7 @@ export interface ReasoningFlightContext {
     anomalyReport?: any;
 }
 
-/**
- * Send a message to the AI reasoning agent.
- * The agent can query the flight database and return either:
- * - A text response (type: 'message')
- * - A list of flights to display (type: 'flights')
- * 
- * Optionally pass flight context for visual analysis with map image.
- */
-export const sendReasoningQuery = async (
-    message: string,
-    history: ChatMessage[],
-    flightContext?: ReasoningFlightContext,
-    signal?: AbortSignal
-): Promise<AIReasoningResponse> => {
+const buildReasoningBody = (message: string, history: ChatMessage[], flightContext?: ReasoningFlightContext) => {
     const body: any = {
         message,
         history: history.map(m => ({ role: m.role, content: m.content }))
@@ -665,70 +812,99 @@ export const sendReasoningQuery = async (
         }
         body.anomaly_report = anomalyReport;
     }
-    
-    const response = await fetch(`${API_BASE}/ai/reasoning`, {
+
+    return body;
+};
+
+/**
+ * Send a message to the AI reasoning agent.
+ * The agent can query the flight database and return either:
+ * - A text response (type: 'message')
+ * - A list of flights to display (type: 'flights')
+ * 
+ * Optionally pass flight context for visual analysis with map image.
+ */
+export const sendReasoningQuery = async (
+    message: string,
+    history: ChatMessage[],
+    flightContext?: ReasoningFlightContext,
+    options?: RequestOptions
+): Promise<AIReasoningResponse> => {
+    const response = await apiFetch(`${API_BASE}/ai/reasoning`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
         },
-        body: JSON.stringify(body),
-        signal,
+        body: JSON.stringify(buildReasoningBody(message, history, flightContext)),
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        errorMessage: 'AI reasoning failed',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'AI reasoning failed');
-    }
-    
     return response.json();
 };
 
+/**
+ * Same as sendReasoningQuery, but reports the answer text as it is generated.
+ * Flight results arrive with the final `done` event.
+ */
+export const streamReasoningQuery = (
+    message: string,
+    history: ChatMessage[],
+    onText: (text: string) => void,
+    flightContext?: ReasoningFlightContext,
+    options?: RequestOptions
+): Promise<AIReasoningResponse> =>
+    streamAIRequest<AIReasoningResponse>('/ai/reasoning', buildReasoningBody(message, history, flightContext), onText, options, 'AI reasoning failed');
+
 // ============================================================
 // Intelligence Dashboard API Functions
 // ============================================================
 
 // Cache Management
-export const clearCache = async (): Promise<{ status: string; cleared_entries: number }> => {
-    const response = await fetch(`${API_BASE}/cache/clear`, { method: 'POST' });
-    if (!response.ok) throw new Error('Failed to clear cache');
+export const clearCache = async (options?: RequestOptions): Promise<{ status: string; cleared_entries: number }> => {
+    const response = await apiFetch(`${API_BASE}/cache/clear`, {
+        method: 'POST',
+        ...options,
+        errorMessage: 'Failed to clear cache',
+    });
+    invalidateQueries(['stats']);
     return response.json();
 };
 
-export const getCacheInfo = async (): Promise<{ total_entries: number; valid_entries: number; expiry_seconds: number }> => {
-    const response = await fetch(`${API_BASE}/cache/info`);
-    if (!response.ok) throw new Error('Failed to get cache info');
+export const getCacheInfo = async (options?: RequestOptions): Promise<{ total_entries: number; valid_entries: number; expiry_seconds: number }> => {
+    const response = await apiFetch(`${API_BASE}/cache/info`, { ...options, errorMessage: 'Failed to get cache info' });
     return response.json();
 };
 
 // Level 1: Statistics
-export const fetchStatsOverview = async (startTs: number, endTs: number, forceRefresh = false): Promise<OverviewStats> => {
+export const fetchStatsOverview = async (startTs: number, endTs: number, forceRefresh = false, options?: RequestOptions): Promise<OverviewStats> => {
     const url = `${API_BASE}/stats/overview?start_ts=${startTs}&end_ts=${endTs}${forceRefresh ? '&force_refresh=true' : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch overview stats');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch overview stats' });
     return response.json();
 };
 
-export const fetchEmergencyCodes = async (startTs: number, endTs: number): Promise<EmergencyCodeStat[]> => {
-    const response = await fetch(`${API_BASE}/stats/safety/emergency-codes?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch emergency codes');
+export const fetchEmergencyCodes = async (startTs: number, endTs: number, options?: RequestOptions): Promise<EmergencyCodeStat[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/emergency-codes?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch emergency codes',
+    });
     return response.json();
 };
 
-export const fetchNearMissEvents = async (startTs: number, endTs: number, severity?: string): Promise<NearMissEvent[]> => {
+export const fetchNearMissEvents = async (startTs: number, endTs: number, severity?: string, options?: RequestOptions): Promise<NearMissEvent[]> => {
     const url = severity 
         ? `${API_BASE}/stats/safety/near-miss?start_ts=${startTs}&end_ts=${endTs}&severity=${severity}`
         : `${API_BASE}/stats/safety/near-miss?start_ts=${startTs}&end_ts=${endTs}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch near-miss events');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch near-miss events' });
     return response.json();
 };
 
-export const fetchGoArounds = async (startTs: number, endTs: number, airport?: string): Promise<GoAroundStat[]> => {
+export const fetchGoArounds = async (startTs: number, endTs: number, airport?: string, options?: RequestOptions): Promise<GoAroundStat[]> => {
     const url = airport 
         ? `${API_BASE}/stats/safety/go-arounds?start_ts=${startTs}&end_ts=${endTs}&airport=${airport}`
         : `${API_BASE}/stats/safety/go-arounds?start_ts=${startTs}&end_ts=${endTs}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch go-arounds');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch go-arounds' });
     return response.json();
 };
 
@@ -739,9 +915,11 @@ export interface GoAroundHourly {
     airports: Record<string, number>;
 }
 
-export const fetchGoAroundsHourly = async (startTs: number, endTs: number): Promise<GoAroundHourly[]> => {
-    const response = await fetch(`${API_BASE}/stats/safety/go-arounds/hourly?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch go-arounds hourly');
+export const fetchGoAroundsHourly = async (startTs: number, endTs: number, options?: RequestOptions): Promise<GoAroundHourly[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/go-arounds/hourly?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch go-arounds hourly',
+    });
     return response.json();
 };
 
@@ -755,9 +933,11 @@ export interface SafetyMonthly {
     affected_flights: number;
 }
 
-export const fetchSafetyMonthly = async (startTs: number, endTs: number): Promise<SafetyMonthly[]> => {
-    const response = await fetch(`${API_BASE}/stats/safety/monthly?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch monthly safety stats');
+export const fetchSafetyMonthly = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SafetyMonthly[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/monthly?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch monthly safety stats',
+    });
     return response.json();
 };
 
@@ -771,9 +951,11 @@ export interface NearMissLocation {
     sample_flight_ids?: string[];  // Up to 5 sample flight IDs from this location
 }
 
-export const fetchNearMissLocations = async (startTs: number, endTs: number, limit = 50): Promise<NearMissLocation[]> => {
-    const response = await fetch(`${API_BASE}/stats/safety/near-miss/locations?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`);
-    if (!response.ok) throw new Error('Failed to fetch near-miss locations');
+export const fetchNearMissLocations = async (startTs: number, endTs: number, limit = 50, options?: RequestOptions): Promise<NearMissLocation[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/near-miss/locations?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`, {
+        ...options,
+        errorMessage: 'Failed to fetch near-miss locations',
+    });
     return response.json();
 };
 
@@ -784,9 +966,11 @@ export interface FlightsMissingInfo {
     total_flights: number;
 }
 
-export const fetchFlightsMissingInfo = async (startTs: number, endTs: number): Promise<FlightsMissingInfo> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/missing-info?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch missing info stats');
+export const fetchFlightsMissingInfo = async (startTs: number, endTs: number, options?: RequestOptions): Promise<FlightsMissingInfo> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/missing-info?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch missing info stats',
+    });
     return response.json();
 };
 
@@ -802,9 +986,11 @@ export interface SafetyByPhase {
     percentages: Record<string, number>;
 }
 
-export const fetchSafetyByPhase = async (startTs: number, endTs: number): Promise<SafetyByPhase> => {
-    const response = await fetch(`${API_BASE}/stats/safety/by-phase?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch safety by phase');
+export const fetchSafetyByPhase = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SafetyByPhase> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/by-phase?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch safety by phase',
+    });
     return response.json();
 };
 
@@ -818,9 +1004,11 @@ export interface DeviationByType {
     flights: string[];
 }
 
-export const fetchDeviationsByType = async (startTs: number, endTs: number): Promise<DeviationByType[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/deviations-by-type?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch deviations by type');
+export const fetchDeviationsByType = async (startTs: number, endTs: number, options?: RequestOptions): Promise<DeviationByType[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/deviations-by-type?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch deviations by type',
+    });
     return response.json();
 };
 
@@ -862,9 +1050,11 @@ export interface EmergencyClusters {
     insights: string[];
 }
 
-export const fetchEmergencyAftermath = async (startTs: number, endTs: number): Promise<EmergencyAftermath[]> => {
-    const response = await fetch(`${API_BASE}/stats/safety/emergency-aftermath?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch emergency aftermath');
+export const fetchEmergencyAftermath = async (startTs: number, endTs: number, options?: RequestOptions): Promise<EmergencyAftermath[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/emergency-aftermath?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch emergency aftermath',
+    });
     return response.json();
 };
 
@@ -881,41 +1071,47 @@ export interface BottleneckZone {
     polygon?: [number, number][]; // [[lon, lat], ...] for polygon rendering
 }
 
-export const fetchBottleneckZones = async (startTs: number, endTs: number, limit = 20): Promise<BottleneckZone[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/bottlenecks?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`);
-    if (!response.ok) throw new Error('Failed to fetch bottleneck zones');
+export const fetchBottleneckZones = async (startTs: number, endTs: number, limit = 20, options?: RequestOptions): Promise<BottleneckZone[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/bottlenecks?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`, {
+        ...options,
+        errorMessage: 'Failed to fetch bottleneck zones',
+    });
     return response.json();
 };
 
-export const fetchFlightsPerDay = async (startTs: number, endTs: number, forceRefresh = false): Promise<FlightPerDay[]> => {
+export const fetchFlightsPerDay = async (startTs: number, endTs: number, forceRefresh = false, options?: RequestOptions): Promise<FlightPerDay[]> => {
     const url = `${API_BASE}/stats/traffic/flights-per-day?start_ts=${startTs}&end_ts=${endTs}${forceRefresh ? '&force_refresh=true' : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch flights per day');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch flights per day' });
     return response.json();
 };
 
-export const fetchBusiestAirports = async (startTs: number, endTs: number, limit = 10, forceRefresh = false): Promise<any[]> => {
+export const fetchBusiestAirports = async (startTs: number, endTs: number, limit = 10, forceRefresh = false, options?: RequestOptions): Promise<any[]> => {
     const url = `${API_BASE}/stats/traffic/busiest-airports?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}${forceRefresh ? '&force_refresh=true' : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch busiest airports');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch busiest airports' });
     return response.json();
 };
 
-export const fetchSignalLoss = async (startTs: number, endTs: number): Promise<SignalLossLocation[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/signal-loss?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch signal loss');
+export const fetchSignalLoss = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SignalLossLocation[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/signal-loss?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch signal loss',
+    });
     return response.json();
 };
 
-export const fetchSignalLossMonthly = async (startTs: number, endTs: number): Promise<SignalLossMonthly[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/signal-loss/monthly?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch monthly signal loss');
+export const fetchSignalLossMonthly = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SignalLossMonthly[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/signal-loss/monthly?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch monthly signal loss',
+    });
     return response.json();
 };
 
-export const fetchSignalLossHourly = async (startTs: number, endTs: number): Promise<SignalLossHourly[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/signal-loss/hourly?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch hourly signal loss');
+export const fetchSignalLossHourly = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SignalLossHourly[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/signal-loss/hourly?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch hourly signal loss',
+    });
     return response.json();
 };
 
@@ -939,10 +1135,9 @@ export interface TaggedOverviewStats {
     avg_severity: number;
 }
 
-export const fetchTaggedStatsOverview = async (startTs: number, endTs: number, forceRefresh = false): Promise<TaggedOverviewStats> => {
+export const fetchTaggedStatsOverview = async (startTs: number, endTs: number, forceRefresh = false, options?: RequestOptions): Promise<TaggedOverviewStats> => {
     const url = `${API_BASE}/stats/tagged/overview?start_ts=${startTs}&end_ts=${endTs}${forceRefresh ? '&force_refresh=true' : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch tagged overview stats');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch tagged overview stats' });
     return response.json();
 };
 
@@ -955,10 +1150,9 @@ export interface TaggedFlightPerDay {
     anomaly_count: number;
 }
 
-export const fetchTaggedFlightsPerDay = async (startTs: number, endTs: number, forceRefresh = false): Promise<TaggedFlightPerDay[]> => {
+export const fetchTaggedFlightsPerDay = async (startTs: number, endTs: number, forceRefresh = false, options?: RequestOptions): Promise<TaggedFlightPerDay[]> => {
     const url = `${API_BASE}/stats/tagged/flights-per-day?start_ts=${startTs}&end_ts=${endTs}${forceRefresh ? '&force_refresh=true' : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch tagged flights per day');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch tagged flights per day' });
     return response.json();
 };
 
@@ -970,9 +1164,11 @@ export interface TaggedAirportStats {
     total: number;
 }
 
-export const fetchTaggedBusiestAirports = async (startTs: number, endTs: number, limit = 10): Promise<TaggedAirportStats[]> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/busiest-airports?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged busiest airports');
+export const fetchTaggedBusiestAirports = async (startTs: number, endTs: number, limit = 10, options?: RequestOptions): Promise<TaggedAirportStats[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/busiest-airports?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged busiest airports',
+    });
     return response.json();
 };
 
@@ -983,9 +1179,11 @@ export interface TaggedSafetyByRule {
     total_events: number;
 }
 
-export const fetchTaggedSafetyByRule = async (startTs: number, endTs: number): Promise<TaggedSafetyByRule> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/safety-by-rule?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged safety by rule');
+export const fetchTaggedSafetyByRule = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TaggedSafetyByRule> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/safety-by-rule?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged safety by rule',
+    });
     return response.json();
 };
 
@@ -997,9 +1195,11 @@ export interface TaggedEmergencyCode {
     flights: string[];
 }
 
-export const fetchTaggedEmergencyCodes = async (startTs: number, endTs: number): Promise<TaggedEmergencyCode[]> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/emergency-codes?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged emergency codes');
+export const fetchTaggedEmergencyCodes = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TaggedEmergencyCode[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/emergency-codes?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged emergency codes',
+    });
     return response.json();
 };
 
@@ -1017,9 +1217,11 @@ export interface TaggedMilitaryStats {
     }>;
 }
 
-export const fetchTaggedMilitaryStats = async (startTs: number, endTs: number): Promise<TaggedMilitaryStats> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/military?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged military stats');
+export const fetchTaggedMilitaryStats = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TaggedMilitaryStats> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/military?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged military stats',
+    });
     return response.json();
 };
 
@@ -1036,9 +1238,11 @@ export interface TaggedSignalLossStats {
     }>;
 }
 
-export const fetchTaggedSignalLossStats = async (startTs: number, endTs: number): Promise<TaggedSignalLossStats> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/signal-loss?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged signal loss stats');
+export const fetchTaggedSignalLossStats = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TaggedSignalLossStats> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/signal-loss?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged signal loss stats',
+    });
     return response.json();
 };
 
@@ -1051,9 +1255,11 @@ export interface TaggedSeverityDistribution {
     max_dense: number;
 }
 
-export const fetchTaggedSeverityDistribution = async (startTs: number, endTs: number): Promise<TaggedSeverityDistribution> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/severity-distribution?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged severity distribution');
+export const fetchTaggedSeverityDistribution = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TaggedSeverityDistribution> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/severity-distribution?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged severity distribution',
+    });
     return response.json();
 };
 
@@ -1068,9 +1274,11 @@ export interface TaggedAirlineStats {
     anomaly_rate: number;
 }
 
-export const fetchTaggedAirlineStats = async (startTs: number, endTs: number, limit = 20): Promise<TaggedAirlineStats[]> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/airlines?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged airline stats');
+export const fetchTaggedAirlineStats = async (startTs: number, endTs: number, limit = 20, options?: RequestOptions): Promise<TaggedAirlineStats[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/airlines?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged airline stats',
+    });
     return response.json();
 };
 
@@ -1086,9 +1294,11 @@ export interface TaggedRouteStats {
     anomaly_rate: number;
 }
 
-export const fetchTaggedRoutesStats = async (startTs: number, endTs: number, limit = 20): Promise<TaggedRouteStats[]> => {
-    const response = await fetch(`${API_BASE}/stats/tagged/routes?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`);
-    if (!response.ok) throw new Error('Failed to fetch tagged routes stats');
+export const fetchTaggedRoutesStats = async (startTs: number, endTs: number, limit = 20, options?: RequestOptions): Promise<TaggedRouteStats[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/tagged/routes?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tagged routes stats',
+    });
     return response.json();
 };
 
@@ -1373,26 +1583,29 @@ export interface IntelligenceBatchResponse {
 export const fetchSafetyBatch = async (
     startTs: number, 
     endTs: number, 
-    include?: string[]
+    include?: string[],
+    options?: RequestOptions
 ): Promise<SafetyBatchResponse> => {
-    const response = await fetch(`${API_BASE}/stats/safety/batch`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            start_ts: Math.floor(startTs),
-            end_ts: Math.floor(endTs),
-            include: include || [
-                'emergency_codes', 'near_miss', 'go_arounds', 'hourly',
-                'monthly', 'locations', 'phase', 'aftermath', 'top_airlines', 'by_country',
-                'emergency_clusters', 'daily_incident_clusters', 'airline_scorecard',
-                'near_miss_clusters'  // Near-miss polygon clusters
-            ]
-        })
-    });
-    if (!response.ok) {
-        throw new Error('Failed to fetch safety batch');
-    }
-    return response.json();
+    return withQueryCache(['stats', 'safety-batch', startTs, endTs, include], options, BATCH_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/stats/safety/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                start_ts: Math.floor(startTs),
+                end_ts: Math.floor(endTs),
+                include: include || [
+                    'emergency_codes', 'near_miss', 'go_arounds', 'hourly',
+                    'monthly', 'locations', 'phase', 'aftermath', 'top_airlines', 'by_country',
+                    'emergency_clusters', 'daily_incident_clusters', 'airline_scorecard',
+                    'near_miss_clusters'  // Near-miss polygon clusters
+                ]
+            }),
+            timeoutMs: LONG_TIMEOUT_MS,
+            ...requestOptions,
+            errorMessage: 'Failed to fetch safety batch',
+        });
+        return response.json();
+    });
 };
 
 /**
@@ -1402,38 +1615,41 @@ export const fetchSafetyBatch = async (
 export const fetchIntelligenceBatch = async (
     startTs: number, 
     endTs: number, 
-    include?: string[]
+    include?: string[],
+    options?: RequestOptions
 ): Promise<IntelligenceBatchResponse> => {
-    const response = await fetch(`${API_BASE}/intel/batch`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            start_ts: Math.floor(startTs),
-            end_ts: Math.floor(endTs),
-            include: include || [
-                'efficiency', 'holding', 'gps_jamming', 'military',
-                'clusters', 'routes', 'activity',
-                // Additional intelligence data
-                'gps_jamming_temporal', 'gps_jamming_clusters', 'gps_jamming_zones', 'route_efficiency', 'signal_loss_zones',
-                // Country-specific military breakdown
-                'military_by_country',
-                // Bilateral proximity detection
-                'bilateral_proximity',
-                // Military by destination (Syria filter)
-                'military_by_destination',
-                // Combined Threat Assessment
-                'threat_assessment',
-                // Jamming Source Triangulation
-                'jamming_triangulation',
-                // Military flights with full tracks for map visualization
-                'military_flights_with_tracks'
-            ]
-        })
-    });
-    if (!response.ok) {
-        throw new Error('Failed to fetch intelligence batch');
-    }
-    return response.json();
+    return withQueryCache(['stats', 'intel-batch', startTs, endTs, include], options, BATCH_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/intel/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                start_ts: Math.floor(startTs),
+                end_ts: Math.floor(endTs),
+                include: include || [
+                    'efficiency', 'holding', 'gps_jamming', 'military',
+                    'clusters', 'routes', 'activity',
+                    // Additional intelligence data
+                    'gps_jamming_temporal', 'gps_jamming_clusters', 'gps_jamming_zones', 'route_efficiency', 'signal_loss_zones',
+                    // Country-specific military breakdown
+                    'military_by_country',
+                    // Bilateral proximity detection
+                    'bilateral_proximity',
+                    // Military by destination (Syria filter)
+                    'military_by_destination',
+                    // Combined Threat Assessment
+                    'threat_assessment',
+                    // Jamming Source Triangulation
+                    'jamming_triangulation',
+                    // Military flights with full tracks for map visualization
+                    'military_flights_with_tracks'
+                ]
+            }),
+            timeoutMs: LONG_TIMEOUT_MS,
+            ...requestOptions,
+            errorMessage: 'Failed to fetch intelligence batch',
+        });
+        return response.json();
+    });
 };
 
 // Overview Batch Response
@@ -1453,24 +1669,26 @@ export interface OverviewBatchResponse {
 export const fetchOverviewBatch = async (
     startTs: number, 
     endTs: number, 
-    include?: string[]
+    include?: string[],
+    options?: RequestOptions
 ): Promise<OverviewBatchResponse> => {
-    const response = await fetch(`${API_BASE}/stats/overview/batch`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            start_ts: Math.floor(startTs),
-            end_ts: Math.floor(endTs),
-            include: include || [
-                'stats', 'flights_per_day', 'gps_jamming', 'military',
-                'airspace_risk', 'monthly_flights'
-            ]
-        })
-    });
-    if (!response.ok) {
-        throw new Error('Failed to fetch overview batch');
-    }
-    return response.json();
+    return withQueryCache(['stats', 'overview-batch', startTs, endTs, include], options, BATCH_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/stats/overview/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                start_ts: Math.floor(startTs),
+                end_ts: Math.floor(endTs),
+                include: include || [
+                    'stats', 'flights_per_day', 'gps_jamming', 'military',
+                    'airspace_risk', 'monthly_flights'
+                ]
+            }),
+            ...requestOptions,
+            errorMessage: 'Failed to fetch overview batch',
+        });
+        return response.json();
+    });
 };
 
 // Traffic Batch Response
@@ -1509,35 +1727,38 @@ export interface TrafficBatchResponse {
 export const fetchTrafficBatch = async (
     startTs: number, 
     endTs: number, 
-    include?: string[]
+    include?: string[],
+    options?: RequestOptions
 ): Promise<TrafficBatchResponse> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/batch`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            start_ts: Math.floor(startTs),
-            end_ts: Math.floor(endTs),
-            include: include || [
-                'flights_per_day', 'airports', 'signal_loss', 'signal_monthly',
-                'signal_hourly', 'signal_loss_clusters', 'peak_hours', 'diversions', 'diversions_monthly',
-                'alternates', 'rtb', 'missing_info', 'deviations', 'bottlenecks',
-                // runway_usage is loaded separately - not in pre-computed cache
-                // Seasonal analysis endpoints
-                'seasonal_year_comparison', 'traffic_safety_correlation', 'special_events_impact',
-                'signal_loss_anomalies', 'diversions_seasonal',
-                // Holding patterns (moved from intelligence tab)
-                'holding_patterns'
-            ]
-        })
-    });
-    if (!response.ok) {
-        throw new Error('Failed to fetch traffic batch');
-    }
-    return response.json();
+    return withQueryCache(['stats', 'traffic-batch', startTs, endTs, include], options, BATCH_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/stats/traffic/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                start_ts: Math.floor(startTs),
+                end_ts: Math.floor(endTs),
+                include: include || [
+                    'flights_per_day', 'airports', 'signal_loss', 'signal_monthly',
+                    'signal_hourly', 'signal_loss_clusters', 'peak_hours', 'diversions', 'diversions_monthly',
+                    'alternates', 'rtb', 'missing_info', 'deviations', 'bottlenecks',
+                    // runway_usage is loaded separately - not in pre-computed cache
+                    // Seasonal analysis endpoints
+                    'seasonal_year_comparison', 'traffic_safety_correlation', 'special_events_impact',
+                    'signal_loss_anomalies', 'diversions_seasonal',
+                    // Holding patterns (moved from intelligence tab)
+                    'holding_patterns'
+                ]
+            }),
+            timeoutMs: LONG_TIMEOUT_MS,
+            ...requestOptions,
+            errorMessage: 'Failed to fetch traffic batch',
+        });
+        return response.json();
+    });
 };
 
 // Level 2: Insights
-export const fetchAirlineEfficiency = async (startTs?: number, endTs?: number, route?: string): Promise<AirlineEfficiency[]> => {
+export const fetchAirlineEfficiency = async (startTs?: number, endTs?: number, route?: string, options?: RequestOptions): Promise<AirlineEfficiency[]> => {
     const params = new URLSearchParams();
     if (startTs) params.append('start_ts', startTs.toString());
     if (endTs) params.append('end_ts', endTs.toString());
@@ -1546,30 +1767,32 @@ export const fetchAirlineEfficiency = async (startTs?: number, endTs?: number, r
     const url = params.toString() 
         ? `${API_BASE}/insights/airline-efficiency?${params.toString()}`
         : `${API_BASE}/insights/airline-efficiency`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch airline efficiency');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch airline efficiency' });
     return response.json();
 };
 
-export const fetchHoldingPatterns = async (startTs: number, endTs: number): Promise<HoldingPatternAnalysis> => {
-    const response = await fetch(`${API_BASE}/insights/holding-patterns?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch holding patterns');
+export const fetchHoldingPatterns = async (startTs: number, endTs: number, options?: RequestOptions): Promise<HoldingPatternAnalysis> => {
+    const response = await apiFetch(`${API_BASE}/insights/holding-patterns?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch holding patterns',
+    });
     return response.json();
 };
 
-export const fetchAlternateAirports = async (airport: string, eventDate?: number): Promise<any[]> => {
+export const fetchAlternateAirports = async (airport: string, eventDate?: number, options?: RequestOptions): Promise<any[]> => {
     const url = eventDate 
         ? `${API_BASE}/insights/alternate-airports?airport=${airport}&event_date=${eventDate}`
         : `${API_BASE}/insights/alternate-airports?airport=${airport}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch alternate airports');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch alternate airports' });
     return response.json();
 };
 
 // Level 3: Intelligence
-export const fetchGPSJamming = async (startTs: number, endTs: number): Promise<GPSJammingPoint[]> => {
-    const response = await fetch(`${API_BASE}/intel/gps-jamming?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch GPS jamming');
+export const fetchGPSJamming = async (startTs: number, endTs: number, options?: RequestOptions): Promise<GPSJammingPoint[]> => {
+    const response = await apiFetch(`${API_BASE}/intel/gps-jamming?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch GPS jamming',
+    });
     return response.json();
 };
 
@@ -1596,18 +1819,19 @@ export interface FlightJammingAnalysis {
     summary: string;
 }
 
-export const fetchFlightJammingAnalysis = async (flightId: string): Promise<FlightJammingAnalysis> => {
-    const response = await fetch(`${API_BASE}/intel/flight-jamming/${flightId}`);
-    if (!response.ok) throw new Error('Failed to fetch flight jamming analysis');
+export const fetchFlightJammingAnalysis = async (flightId: string, options?: RequestOptions): Promise<FlightJammingAnalysis> => {
+    const response = await apiFetch(`${API_BASE}/intel/flight-jamming/${flightId}`, {
+        ...options,
+        errorMessage: 'Failed to fetch flight jamming analysis',
+    });
     return response.json();
 };
 
-export const fetchMilitaryPatterns = async (startTs: number, endTs: number, country?: string, aircraftType?: string): Promise<MilitaryPattern[]> => {
+export const fetchMilitaryPatterns = async (startTs: number, endTs: number, country?: string, aircraftType?: string, options?: RequestOptions): Promise<MilitaryPattern[]> => {
     let url = `${API_BASE}/intel/military-patterns?start_ts=${startTs}&end_ts=${endTs}`;
     if (country) url += `&country=${country}`;
     if (aircraftType) url += `&aircraft_type=${aircraftType}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch military patterns');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch military patterns' });
     return response.json();
 };
 
@@ -1631,63 +1855,83 @@ export interface MilitaryRoutes {
     total_military_flights: number;
 }
 
-export const fetchMilitaryRoutes = async (startTs: number, endTs: number, country?: string): Promise<MilitaryRoutes> => {
+export const fetchMilitaryRoutes = async (startTs: number, endTs: number, country?: string, options?: RequestOptions): Promise<MilitaryRoutes> => {
     let url = `${API_BASE}/intel/military-routes?start_ts=${startTs}&end_ts=${endTs}`;
     if (country) url += `&country=${country}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch military routes');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch military routes' });
     return response.json();
 };
 
 // Level 4: Predictive
-export const fetchAirspaceRisk = async (): Promise<AirspaceRisk> => {
-    const response = await fetch(`${API_BASE}/predict/airspace-risk`);
-    if (!response.ok) throw new Error('Failed to fetch airspace risk');
+export const fetchAirspaceRisk = async (options?: RequestOptions): Promise<AirspaceRisk> => {
+    const response = await apiFetch(`${API_BASE}/predict/airspace-risk`, {
+        ...options,
+        errorMessage: 'Failed to fetch airspace risk',
+    });
     return response.json();
 };
 
-export const predictHostileIntent = async (flightId: string): Promise<any> => {
-    const response = await fetch(`${API_BASE}/predict/hostile-intent/${flightId}`, {
-        method: 'POST',
-    });
-    if (!response.ok) {
-        if (response.status === 404) throw new Error('Flight not found - no track data available');
-        throw new Error('Failed to analyze flight');
+export const predictHostileIntent = async (flightId: string, options?: RequestOptions): Promise<any> => {
+    try {
+        const response = await apiFetch(`${API_BASE}/predict/hostile-intent/${flightId}`, {
+            method: 'POST',
+            ...options,
+            errorMessage: 'Failed to analyze flight',
+        });
+        return response.json();
+    } catch (error) {
+        if (error instanceof ApiError && error.isNotFound) {
+            throw new ApiError({
+                kind: 'http',
+                message: 'Flight not found - no track data available',
+                endpoint: error.endpoint,
+                method: error.method,
+                status: error.status,
+                detail: error.detail,
+            });
+        }
+        throw error;
     }
-    return response.json();
 };
 
-export const predictTrajectory = async (flightId: string, currentPosition: any): Promise<any> => {
-    const response = await fetch(`${API_BASE}/predict/trajectory`, {
+export const predictTrajectory = async (flightId: string, currentPosition: any, options?: RequestOptions): Promise<any> => {
+    const response = await apiFetch(`${API_BASE}/predict/trajectory`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ flight_id: flightId, current_position: currentPosition })
+        body: JSON.stringify({ flight_id: flightId, current_position: currentPosition }),
+        ...options,
+        errorMessage: 'Failed to predict trajectory',
     });
-    if (!response.ok) throw new Error('Failed to predict trajectory');
     return response.json();
 };
 
-export const fetchSafetyForecast = async (hoursAhead = 24): Promise<SafetyForecast> => {
-    const response = await fetch(`${API_BASE}/predict/safety-forecast?hours_ahead=${hoursAhead}`);
-    if (!response.ok) throw new Error('Failed to fetch safety forecast');
+export const fetchSafetyForecast = async (hoursAhead = 24, options?: RequestOptions): Promise<SafetyForecast> => {
+    const response = await apiFetch(`${API_BASE}/predict/safety-forecast?hours_ahead=${hoursAhead}`, {
+        ...options,
+        errorMessage: 'Failed to fetch safety forecast',
+    });
     return response.json();
 };
 
 // Anomaly DNA endpoints
-export const fetchAnomalyDNA = async (flightId: string, lookbackDays = 30): Promise<AnomalyDNA> => {
-    const response = await fetch(`${API_BASE}/intelligence/anomaly-dna/${flightId}?lookback_days=${lookbackDays}`);
-    if (!response.ok) throw new Error('Failed to fetch anomaly DNA');
+export const fetchAnomalyDNA = async (flightId: string, lookbackDays = 30, options?: RequestOptions): Promise<AnomalyDNA> => {
+    const response = await apiFetch(`${API_BASE}/intelligence/anomaly-dna/${flightId}?lookback_days=${lookbackDays}`, {
+        ...options,
+        errorMessage: 'Failed to fetch anomaly DNA',
+    });
     return response.json();
 };
 
-export const fetchPatternClusters = async (startTs: number, endTs: number, minOccurrences = 3): Promise<PatternCluster[]> => {
+export const fetchPatternClusters = async (startTs: number, endTs: number, minOccurrences = 3, options?: RequestOptions): Promise<PatternCluster[]> => {
     const params = new URLSearchParams({
         start_ts: startTs.toString(),
         end_ts: endTs.toString(),
         min_occurrences: minOccurrences.toString()
     });
-    const response = await fetch(`${API_BASE}/intelligence/pattern-clusters?${params}`);
-    if (!response.ok) throw new Error('Failed to fetch pattern clusters');
+    const response = await apiFetch(`${API_BASE}/intelligence/pattern-clusters?${params}`, {
+        ...options,
+        errorMessage: 'Failed to fetch pattern clusters',
+    });
     return response.json();
 };
 
@@ -1723,9 +1967,11 @@ export interface PeakHoursAnalysis {
     };
 }
 
-export const fetchPeakHoursAnalysis = async (startTs: number, endTs: number): Promise<PeakHoursAnalysis> => {
-    const response = await fetch(`${API_BASE}/trends/peak-hours?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch peak hours analysis');
+export const fetchPeakHoursAnalysis = async (startTs: number, endTs: number, options?: RequestOptions): Promise<PeakHoursAnalysis> => {
+    const response = await apiFetch(`${API_BASE}/trends/peak-hours?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch peak hours analysis',
+    });
     return response.json();
 };
 
@@ -1738,9 +1984,11 @@ export interface DiversionStats {
     by_airline: Record<string, number>;
 }
 
-export const fetchDiversionStats = async (startTs: number, endTs: number): Promise<DiversionStats> => {
-    const response = await fetch(`${API_BASE}/stats/diversions?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch diversion stats');
+export const fetchDiversionStats = async (startTs: number, endTs: number, options?: RequestOptions): Promise<DiversionStats> => {
+    const response = await apiFetch(`${API_BASE}/stats/diversions?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch diversion stats',
+    });
     return response.json();
 };
 
@@ -1755,9 +2003,11 @@ export interface AlternateAirport {
     body_type_preference: 'wide_body_preferred' | 'narrow_body_preferred' | 'mixed' | 'unknown';
 }
 
-export const fetchAlternateAirportsData = async (startTs: number, endTs: number): Promise<AlternateAirport[]> => {
-    const response = await fetch(`${API_BASE}/trends/alternate-airports?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch alternate airports');
+export const fetchAlternateAirportsData = async (startTs: number, endTs: number, options?: RequestOptions): Promise<AlternateAirport[]> => {
+    const response = await apiFetch(`${API_BASE}/trends/alternate-airports?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch alternate airports',
+    });
     return response.json();
 };
 
@@ -1770,9 +2020,11 @@ export interface RunwayUsage {
     total: number;
 }
 
-export const fetchRunwayUsage = async (airport: string, startTs: number, endTs: number): Promise<RunwayUsage[]> => {
-    const response = await fetch(`${API_BASE}/stats/runway-usage?airport=${airport}&start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch runway usage');
+export const fetchRunwayUsage = async (airport: string, startTs: number, endTs: number, options?: RequestOptions): Promise<RunwayUsage[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/runway-usage?airport=${airport}&start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch runway usage',
+    });
     return response.json();
 };
 
@@ -1854,21 +2106,27 @@ export interface SpecialEventsImpact {
     events?: SpecialEvent[];
 }
 
-export const fetchSeasonalYearComparison = async (startTs: number, endTs: number): Promise<SeasonalYearComparison> => {
-    const response = await fetch(`${API_BASE}/stats/seasonal/year-comparison?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch seasonal year comparison');
+export const fetchSeasonalYearComparison = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SeasonalYearComparison> => {
+    const response = await apiFetch(`${API_BASE}/stats/seasonal/year-comparison?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch seasonal year comparison',
+    });
     return response.json();
 };
 
-export const fetchTrafficSafetyCorrelation = async (startTs: number, endTs: number): Promise<TrafficSafetyCorrelation> => {
-    const response = await fetch(`${API_BASE}/stats/seasonal/traffic-safety-correlation?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch traffic-safety correlation');
+export const fetchTrafficSafetyCorrelation = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TrafficSafetyCorrelation> => {
+    const response = await apiFetch(`${API_BASE}/stats/seasonal/traffic-safety-correlation?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch traffic-safety correlation',
+    });
     return response.json();
 };
 
-export const fetchSpecialEventsImpact = async (startTs: number, endTs: number): Promise<SpecialEventsImpact> => {
-    const response = await fetch(`${API_BASE}/stats/seasonal/special-events?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch special events impact');
+export const fetchSpecialEventsImpact = async (startTs: number, endTs: number, options?: RequestOptions): Promise<SpecialEventsImpact> => {
+    const response = await apiFetch(`${API_BASE}/stats/seasonal/special-events?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch special events impact',
+    });
     return response.json();
 };
 
@@ -1909,24 +2167,27 @@ export interface RoutesSummary {
 export const fetchRouteEfficiency = async (
     startTs: number, 
     endTs: number, 
-    route?: string
+    route?: string,
+    options?: RequestOptions
 ): Promise<RouteEfficiencyComparison | RoutesSummary> => {
     let url = `${API_BASE}/stats/routes/efficiency?start_ts=${startTs}&end_ts=${endTs}`;
     if (route) {
         url += `&route=${encodeURIComponent(route)}`;
     }
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch route efficiency');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch route efficiency' });
     return response.json();
 };
 
 export const fetchAvailableRoutes = async (
     startTs: number, 
     endTs: number, 
-    minFlights: number = 5
+    minFlights: number = 5,
+    options?: RequestOptions
 ): Promise<string[]> => {
-    const response = await fetch(`${API_BASE}/stats/routes/available?start_ts=${startTs}&end_ts=${endTs}&min_flights=${minFlights}`);
-    if (!response.ok) throw new Error('Failed to fetch available routes');
+    const response = await apiFetch(`${API_BASE}/stats/routes/available?start_ts=${startTs}&end_ts=${endTs}&min_flights=${minFlights}`, {
+        ...options,
+        errorMessage: 'Failed to fetch available routes',
+    });
     return response.json();
 };
 
@@ -1973,15 +2234,19 @@ export interface AirportWeatherData {
     hourly_distribution: Array<{ hour: number; count: number }>;
 }
 
-export const fetchWeatherImpact = async (startTs: number, endTs: number): Promise<WeatherImpactAnalysis> => {
-    const response = await fetch(`${API_BASE}/stats/weather/impact?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch weather impact analysis');
+export const fetchWeatherImpact = async (startTs: number, endTs: number, options?: RequestOptions): Promise<WeatherImpactAnalysis> => {
+    const response = await apiFetch(`${API_BASE}/stats/weather/impact?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch weather impact analysis',
+    });
     return response.json();
 };
 
-export const fetchAirportWeather = async (airport: string, startTs: number, endTs: number): Promise<AirportWeatherData> => {
-    const response = await fetch(`${API_BASE}/stats/weather/airport/${airport}?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch airport weather data');
+export const fetchAirportWeather = async (airport: string, startTs: number, endTs: number, options?: RequestOptions): Promise<AirportWeatherData> => {
+    const response = await apiFetch(`${API_BASE}/stats/weather/airport/${airport}?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch airport weather data',
+    });
     return response.json();
 };
 
@@ -1998,27 +2263,32 @@ export interface TrajectoryPrediction {
     prediction_confidence: number;
 }
 
-export const fetchTrajectoryPrediction = async (flightId: string): Promise<TrajectoryPrediction> => {
-    const response = await fetch(`${API_BASE}/predict/trajectory/${flightId}`, {
-        method: 'POST'
+export const fetchTrajectoryPrediction = async (flightId: string, options?: RequestOptions): Promise<TrajectoryPrediction> => {
+    const response = await apiFetch(`${API_BASE}/predict/trajectory/${flightId}`, {
+        method: 'POST',
+        ...options,
+        errorMessage: 'Failed to fetch trajectory prediction',
     });
-    if (!response.ok) throw new Error('Failed to fetch trajectory prediction');
     return response.json();
 };
 
 // Anomaly DNA (enhanced v2)
 // Uses smart matching: time-of-day ±2hr buffer, rule-based or attribute-based matching
-export const fetchAnomalyDNAEnhanced = async (flightId: string, lookbackDays = 30): Promise<AnomalyDNA> => {
+export const fetchAnomalyDNAEnhanced = async (flightId: string, lookbackDays = 30, options?: RequestOptions): Promise<AnomalyDNA> => {
     // Use the v2 endpoint with enhanced matching algorithm
-    const response = await fetch(`${API_BASE}/intelligence/anomaly-dna-v2/${flightId}?lookback_days=${lookbackDays}`);
-    if (!response.ok) throw new Error('Failed to fetch anomaly DNA');
+    const response = await apiFetch(`${API_BASE}/intelligence/anomaly-dna-v2/${flightId}?lookback_days=${lookbackDays}`, {
+        ...options,
+        errorMessage: 'Failed to fetch anomaly DNA',
+    });
     return response.json();
 };
 
 // Anomaly DNA (legacy v1) - for backwards compatibility
-export const fetchAnomalyDNALegacy = async (flightId: string, lookbackDays = 30): Promise<AnomalyDNA> => {
-    const response = await fetch(`${API_BASE}/intelligence/anomaly-dna/${flightId}?lookback_days=${lookbackDays}`);
-    if (!response.ok) throw new Error('Failed to fetch anomaly DNA');
+export const fetchAnomalyDNALegacy = async (flightId: string, lookbackDays = 30, options?: RequestOptions): Promise<AnomalyDNA> => {
+    const response = await apiFetch(`${API_BASE}/intelligence/anomaly-dna/${flightId}?lookback_days=${lookbackDays}`, {
+        ...options,
+        errorMessage: 'Failed to fetch anomaly DNA',
+    });
     return response.json();
 };
 
@@ -2032,9 +2302,11 @@ export interface DiversionMonthly {
     affected_flights: number;
 }
 
-export const fetchDiversionsMonthly = async (startTs: number, endTs: number): Promise<DiversionMonthly[]> => {
-    const response = await fetch(`${API_BASE}/stats/diversions/monthly?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch monthly diversions');
+export const fetchDiversionsMonthly = async (startTs: number, endTs: number, options?: RequestOptions): Promise<DiversionMonthly[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/diversions/monthly?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch monthly diversions',
+    });
     return response.json();
 };
 
@@ -2049,9 +2321,11 @@ export interface RTBEvent {
     max_outbound_nm?: number;  // How far the aircraft traveled before returning
 }
 
-export const fetchRTBEvents = async (startTs: number, endTs: number, maxDurationMin = 30): Promise<RTBEvent[]> => {
-    const response = await fetch(`${API_BASE}/stats/rtb-events?start_ts=${startTs}&end_ts=${endTs}&max_duration_min=${maxDurationMin}`);
-    if (!response.ok) throw new Error('Failed to fetch RTB events');
+export const fetchRTBEvents = async (startTs: number, endTs: number, maxDurationMin = 30, options?: RequestOptions): Promise<RTBEvent[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/rtb-events?start_ts=${startTs}&end_ts=${endTs}&max_duration_min=${maxDurationMin}`, {
+        ...options,
+        errorMessage: 'Failed to fetch RTB events',
+    });
     return response.json();
 };
 
@@ -2085,9 +2359,11 @@ export interface AirlineActivityTrends {
     };
 }
 
-export const fetchAirlineActivityTrends = async (startTs: number, endTs: number, lookbackDays = 30): Promise<AirlineActivityTrends> => {
-    const response = await fetch(`${API_BASE}/trends/airline-activity?start_ts=${startTs}&end_ts=${endTs}&lookback_days=${lookbackDays}`);
-    if (!response.ok) throw new Error('Failed to fetch airline activity trends');
+export const fetchAirlineActivityTrends = async (startTs: number, endTs: number, lookbackDays = 30, options?: RequestOptions): Promise<AirlineActivityTrends> => {
+    const response = await apiFetch(`${API_BASE}/trends/airline-activity?start_ts=${startTs}&end_ts=${endTs}&lookback_days=${lookbackDays}`, {
+        ...options,
+        errorMessage: 'Failed to fetch airline activity trends',
+    });
     return response.json();
 };
 
@@ -2117,9 +2393,11 @@ export interface IntelligenceDashboardHelpPayload {
     }>;
 }
 
-export const fetchIntelligenceDashboardHelp = async (): Promise<IntelligenceDashboardHelpPayload> => {
-    const response = await fetch(`${API_BASE}/intelligence/help`);
-    if (!response.ok) throw new Error('Failed to fetch dashboard help');
+export const fetchIntelligenceDashboardHelp = async (options?: RequestOptions): Promise<IntelligenceDashboardHelpPayload> => {
+    const response = await apiFetch(`${API_BASE}/intelligence/help`, {
+        ...options,
+        errorMessage: 'Failed to fetch dashboard help',
+    });
     return response.json();
 };
 
@@ -2135,9 +2413,11 @@ export interface TopAirlineEmergency {
     emergency_rate: number;
 }
 
-export const fetchTopAirlineEmergencies = async (startTs: number, endTs: number, limit = 10): Promise<TopAirlineEmergency[]> => {
-    const response = await fetch(`${API_BASE}/stats/safety/top-airline-emergencies?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`);
-    if (!response.ok) throw new Error('Failed to fetch top airline emergencies');
+export const fetchTopAirlineEmergencies = async (startTs: number, endTs: number, limit = 10, options?: RequestOptions): Promise<TopAirlineEmergency[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/safety/top-airline-emergencies?start_ts=${startTs}&end_ts=${endTs}&limit=${limit}`, {
+        ...options,
+        errorMessage: 'Failed to fetch top airline emergencies',
+    });
     return response.json();
 };
 
@@ -2149,9 +2429,11 @@ export interface AirportHourlyTraffic {
     total: number;
 }
 
-export const fetchAirportHourlyTraffic = async (airport: string, startTs: number, endTs: number): Promise<AirportHourlyTraffic[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/airport-hourly/${airport}?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch airport hourly traffic');
+export const fetchAirportHourlyTraffic = async (airport: string, startTs: number, endTs: number, options?: RequestOptions): Promise<AirportHourlyTraffic[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/airport-hourly/${airport}?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch airport hourly traffic',
+    });
     return response.json();
 };
 
@@ -2164,9 +2446,11 @@ export interface MonthlyFlightStats {
     avg_duration_hours: number;
 }
 
-export const fetchFlightsPerMonth = async (startTs: number, endTs: number): Promise<MonthlyFlightStats[]> => {
-    const response = await fetch(`${API_BASE}/stats/traffic/flights-per-month?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch flights per month');
+export const fetchFlightsPerMonth = async (startTs: number, endTs: number, options?: RequestOptions): Promise<MonthlyFlightStats[]> => {
+    const response = await apiFetch(`${API_BASE}/stats/traffic/flights-per-month?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch flights per month',
+    });
     return response.json();
 };
 
@@ -2183,12 +2467,11 @@ export interface NearMissByCountry {
     }>;
 }
 
-export const fetchNearMissByCountry = async (startTs: number, endTs: number, country?: string): Promise<NearMissByCountry> => {
+export const fetchNearMissByCountry = async (startTs: number, endTs: number, country?: string, options?: RequestOptions): Promise<NearMissByCountry> => {
     const url = country 
         ? `${API_BASE}/stats/safety/near-miss/by-country?start_ts=${startTs}&end_ts=${endTs}&country=${country}`
         : `${API_BASE}/stats/safety/near-miss/by-country?start_ts=${startTs}&end_ts=${endTs}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch near-miss by country');
+    const response = await apiFetch(url, { ...options, errorMessage: 'Failed to fetch near-miss by country' });
     return response.json();
 };
 
@@ -2256,9 +2539,11 @@ export interface RoutePathResponse {
 /**
  * Get list of available airports for route planning.
  */
-export const fetchRouteAirports = async (): Promise<RouteAirportsResponse> => {
-    const response = await fetch(`${API_BASE}/route/airports`);
-    if (!response.ok) throw new Error('Failed to fetch airports');
+export const fetchRouteAirports = async (options?: RequestOptions): Promise<RouteAirportsResponse> => {
+    const response = await apiFetch(`${API_BASE}/route/airports`, {
+        ...options,
+        errorMessage: 'Failed to fetch airports',
+    });
     return response.json();
 };
 
@@ -2266,27 +2551,26 @@ export const fetchRouteAirports = async (): Promise<RouteAirportsResponse> => {
  * Plan routes from multiple origins to a destination.
  * Uses learned path library to find and score routes.
  */
-export const planRoute = async (origins: string[], destination: string): Promise<RoutePlanResponse> => {
-    const response = await fetch(`${API_BASE}/route/plan`, {
+export const planRoute = async (origins: string[], destination: string, options?: RequestOptions): Promise<RoutePlanResponse> => {
+    const response = await apiFetch(`${API_BASE}/route/plan`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ origins, destination })
+        body: JSON.stringify({ origins, destination }),
+        ...options,
+        errorMessage: 'Failed to plan route',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to plan route');
-    }
-    
     return response.json();
 };
 
 /**
  * Get detailed path geometry for a specific path ID.
  */
-export const fetchRoutePath = async (pathId: string): Promise<RoutePathResponse> => {
-    const response = await fetch(`${API_BASE}/route/path/${encodeURIComponent(pathId)}`);
-    if (!response.ok) throw new Error('Failed to fetch path details');
+export const fetchRoutePath = async (pathId: string, options?: RequestOptions): Promise<RoutePathResponse> => {
+    const response = await apiFetch(`${API_BASE}/route/path/${encodeURIComponent(pathId)}`, {
+        ...options,
+        errorMessage: 'Failed to fetch path details',
+    });
     return response.json();
 };
 
@@ -2536,9 +2820,11 @@ export interface StrikePlanResponse {
 /**
  * Get available aircraft profiles (Fighter Jet vs Civil Aircraft).
  */
-export const fetchAircraftProfiles = async (): Promise<{ profiles: Record<string, AircraftProfile> }> => {
-    const response = await fetch(`${API_BASE}/route/profiles`);
-    if (!response.ok) throw new Error('Failed to fetch aircraft profiles');
+export const fetchAircraftProfiles = async (options?: RequestOptions): Promise<{ profiles: Record<string, AircraftProfile> }> => {
+    const response = await apiFetch(`${API_BASE}/route/profiles`, {
+        ...options,
+        errorMessage: 'Failed to fetch aircraft profiles',
+    });
     return response.json();
 };
 
@@ -2555,9 +2841,10 @@ export const planAdvancedRoute = async (
         speed_kts?: number;
         check_conflicts?: boolean;
         tactical_zones?: TacticalZoneRequest[];
-    } = {}
+    } = {},
+    requestOptions?: RequestOptions
 ): Promise<AdvancedRoutePlanResponse> => {
-    const response = await fetch(`${API_BASE}/route/plan-advanced`, {
+    const response = await apiFetch(`${API_BASE}/route/plan-advanced`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -2569,14 +2856,11 @@ export const planAdvancedRoute = async (
             tactical_zones: options.tactical_zones || [],
             speed_kts: options.speed_kts,
             check_conflicts: options.check_conflicts ?? true,
-        })
+        }),
+        ...requestOptions,
+        errorMessage: 'Failed to plan advanced route',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to plan advanced route');
-    }
-    
     return response.json();
 };
 
@@ -2592,9 +2876,10 @@ export const planStrikeRoute = async (
         aircraft_type?: 'fighter' | 'civil';
         tactical_zones?: TacticalZoneRequest[];
         return_to_base?: boolean;
-    } = {}
+    } = {},
+    requestOptions?: RequestOptions
 ): Promise<StrikePlanResponse> => {
-    const response = await fetch(`${API_BASE}/route/plan-strike`, {
+    const response = await apiFetch(`${API_BASE}/route/plan-strike`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -2604,34 +2889,34 @@ export const planStrikeRoute = async (
             aircraft_type: options.aircraft_type || 'fighter',
             tactical_zones: options.tactical_zones || [],
             return_to_base: options.return_to_base ?? true,
-        })
+        }),
+        ...requestOptions,
+        errorMessage: 'Failed to plan strike route',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to plan strike route');
-    }
-    
     return response.json();
 };
 
 /**
  * Get current traffic in the airspace (cached data).
  */
-export const fetchRouteTraffic = async (): Promise<TrafficResponse> => {
-    const response = await fetch(`${API_BASE}/route/traffic`);
-    if (!response.ok) throw new Error('Failed to fetch traffic');
+export const fetchRouteTraffic = async (options?: RequestOptions): Promise<TrafficResponse> => {
+    const response = await apiFetch(`${API_BASE}/route/traffic`, {
+        ...options,
+        errorMessage: 'Failed to fetch traffic',
+    });
     return response.json();
 };
 
 /**
  * Refresh traffic data from FR24 API.
  */
-export const refreshRouteTraffic = async (): Promise<TrafficResponse> => {
-    const response = await fetch(`${API_BASE}/route/traffic/refresh`, {
-        method: 'POST'
+export const refreshRouteTraffic = async (options?: RequestOptions): Promise<TrafficResponse> => {
+    const response = await apiFetch(`${API_BASE}/route/traffic/refresh`, {
+        method: 'POST',
+        ...options,
+        errorMessage: 'Failed to refresh traffic',
     });
-    if (!response.ok) throw new Error('Failed to refresh traffic');
     return response.json();
 };
 
@@ -2643,30 +2928,29 @@ export const addSimulatedAircraft = async (
     path: Array<{ lat: number; lon: number }>,
     speed_kts: number,
     altitude_ft: number,
-    callsign?: string
+    callsign?: string,
+    options?: RequestOptions
 ): Promise<{ aircraft: TrafficAircraft; message: string }> => {
-    const response = await fetch(`${API_BASE}/route/traffic/simulated`, {
+    const response = await apiFetch(`${API_BASE}/route/traffic/simulated`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ flight_id, path, speed_kts, altitude_ft, callsign })
+        body: JSON.stringify({ flight_id, path, speed_kts, altitude_ft, callsign }),
+        ...options,
+        errorMessage: 'Failed to add simulated aircraft',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to add simulated aircraft');
-    }
-    
     return response.json();
 };
 
 /**
  * Clear all simulated aircraft from the traffic.
  */
-export const clearSimulatedAircraft = async (): Promise<{ message: string }> => {
-    const response = await fetch(`${API_BASE}/route/traffic/simulated`, {
-        method: 'DELETE'
+export const clearSimulatedAircraft = async (options?: RequestOptions): Promise<{ message: string }> => {
+    const response = await apiFetch(`${API_BASE}/route/traffic/simulated`, {
+        method: 'DELETE',
+        ...options,
+        errorMessage: 'Failed to clear simulated aircraft',
     });
-    if (!response.ok) throw new Error('Failed to clear simulated aircraft');
     return response.json();
 };
 
@@ -2675,19 +2959,17 @@ export const clearSimulatedAircraft = async (): Promise<{ message: string }> =>
  */
 export const checkRouteConflicts = async (
     path: Array<{ lat: number; lon: number; alt?: number; time_offset_min?: number }>,
-    aircraft_type: 'fighter' | 'civil' = 'civil'
+    aircraft_type: 'fighter' | 'civil' = 'civil',
+    options?: RequestOptions
 ): Promise<ConflictCheckResponse> => {
-    const response = await fetch(`${API_BASE}/route/conflicts`, {
+    const response = await apiFetch(`${API_BASE}/route/conflicts`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path, aircraft_type })
+        body: JSON.stringify({ path, aircraft_type }),
+        ...options,
+        errorMessage: 'Failed to check conflicts',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to check conflicts');
-    }
-    
     return response.json();
 };
 
@@ -2696,10 +2978,13 @@ export const checkRouteConflicts = async (
  */
 export const predictAircraftPosition = async (
     flight_id: string,
-    minutes_ahead: number = 30
+    minutes_ahead: number = 30,
+    options?: RequestOptions
 ): Promise<PredictionResponse> => {
-    const response = await fetch(`${API_BASE}/route/traffic/predict/${encodeURIComponent(flight_id)}?minutes_ahead=${minutes_ahead}`);
-    if (!response.ok) throw new Error('Failed to predict aircraft position');
+    const response = await apiFetch(`${API_BASE}/route/traffic/predict/${encodeURIComponent(flight_id)}?minutes_ahead=${minutes_ahead}`, {
+        ...options,
+        errorMessage: 'Failed to predict aircraft position',
+    });
     return response.json();
 };
 
@@ -2761,35 +3046,32 @@ export interface FlightImportResponse {
 export const searchFlightsByCallsign = async (
     callsign: string,
     startTs: number,
-    endTs: number
+    endTs: number,
+    options?: RequestOptions
 ): Promise<FlightSearchResponse> => {
-    const response = await fetch(`${API_BASE}/import/search`, {
+    const response = await apiFetch(`${API_BASE}/import/search`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
             callsign,
             start_ts: Math.floor(startTs),
             end_ts: Math.floor(endTs)
-        })
+        }),
+        ...options,
+        errorMessage: 'Failed to search flights',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to search flights');
-    }
-    
     return response.json();
 };
 
 /**
  * Fetch tracks for a flight from FR24 (for preview before import).
  */
-export const fetchImportFlightTracks = async (flightId: string): Promise<FlightTracksResponse> => {
-    const response = await fetch(`${API_BASE}/import/tracks/${encodeURIComponent(flightId)}`);
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to fetch flight tracks');
-    }
+export const fetchImportFlightTracks = async (flightId: string, options?: RequestOptions): Promise<FlightTracksResponse> => {
+    const response = await apiFetch(`${API_BASE}/import/tracks/${encodeURIComponent(flightId)}`, {
+        ...options,
+        errorMessage: 'Failed to fetch flight tracks',
+    });
     return response.json();
 };
 
@@ -2801,9 +3083,10 @@ export const importFlightToFeedback = async (
     ruleIds: number[],
     comments: string = '',
     isAnomaly: boolean = true,
-    runPipeline: boolean = true
+    runPipeline: boolean = true,
+    options?: RequestOptions
 ): Promise<FlightImportResponse> => {
-    const response = await fetch(`${API_BASE}/import/save`, {
+    const response = await apiFetch(`${API_BASE}/import/save`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -2812,14 +3095,11 @@ export const importFlightToFeedback = async (
             comments,
             is_anomaly: isAnomaly,
             run_pipeline: runPipeline
-        })
+        }),
+        ...options,
+        errorMessage: 'Failed to import flight',
     });
     
-    if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Failed to import flight');
-    }
-    
     return response.json();
 };
 
@@ -2847,12 +3127,13 @@ export interface SignalLossAnomalyResponse {
 export const fetchSignalLossAnomalies = async (
     startTs: number, 
     endTs: number, 
-    lookbackDays: number = 30
+    lookbackDays: number = 30,
+    options?: RequestOptions
 ): Promise<SignalLossAnomalyResponse> => {
-    const response = await fetch(
-        `${API_BASE}/stats/signal-loss/anomalies?start_ts=${startTs}&end_ts=${endTs}&lookback_days=${lookbackDays}`
-    );
-    if (!response.ok) throw new Error('Failed to fetch signal loss anomalies');
+    const response = await apiFetch(`${API_BASE}/stats/signal-loss/anomalies?start_ts=${startTs}&end_ts=${endTs}&lookback_days=${lookbackDays}`, {
+        ...options,
+        errorMessage: 'Failed to fetch signal loss anomalies',
+    });
     return response.json();
 };
 
@@ -2865,9 +3146,11 @@ export interface GPSJammingTemporal {
     total_events: number;
 }
 
-export const fetchGPSJammingTemporal = async (startTs: number, endTs: number): Promise<GPSJammingTemporal> => {
-    const response = await fetch(`${API_BASE}/stats/gps-jamming/temporal?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch GPS jamming temporal data');
+export const fetchGPSJammingTemporal = async (startTs: number, endTs: number, options?: RequestOptions): Promise<GPSJammingTemporal> => {
+    const response = await apiFetch(`${API_BASE}/stats/gps-jamming/temporal?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch GPS jamming temporal data',
+    });
     return response.json();
 };
 
@@ -3039,7 +3322,8 @@ export const fetchGPSJammingClusters = async (
     startTs: number, 
     endTs: number,
     clusterThresholdNm: number = 50,
-    minPoints: number = 3
+    minPoints: number = 3,
+    options?: RequestOptions
 ): Promise<GPSJammingClustersResponse> => {
     const params = new URLSearchParams({
         start_ts: startTs.toString(),
@@ -3047,8 +3331,10 @@ export const fetchGPSJammingClusters = async (
         cluster_threshold_nm: clusterThresholdNm.toString(),
         min_points: minPoints.toString()
     });
-    const response = await fetch(`${API_BASE}/stats/gps-jamming/clusters?${params}`);
-    if (!response.ok) throw new Error('Failed to fetch GPS jamming clusters');
+    const response = await apiFetch(`${API_BASE}/stats/gps-jamming/clusters?${params}`, {
+        ...options,
+        errorMessage: 'Failed to fetch GPS jamming clusters',
+    });
     return response.json();
 };
 
@@ -3102,15 +3388,18 @@ export interface CombinedSignalMapResponse {
 export const fetchCombinedSignalMap = async (
     startTs: number,
     endTs: number,
-    limit: number = 50
+    limit: number = 50,
+    options?: RequestOptions
 ): Promise<CombinedSignalMapResponse> => {
     const params = new URLSearchParams({
         start_ts: startTs.toString(),
         end_ts: endTs.toString(),
         limit: limit.toString()
     });
-    const response = await fetch(`${API_BASE}/intel/combined-signal-map?${params}`);
-    if (!response.ok) throw new Error('Failed to fetch combined signal map');
+    const response = await apiFetch(`${API_BASE}/intel/combined-signal-map?${params}`, {
+        ...options,
+        errorMessage: 'Failed to fetch combined signal map',
+    });
     return response.json();
 };
 
@@ -3125,9 +3414,11 @@ export interface DiversionsSeasonal {
     insights: string[];
 }
 
-export const fetchDiversionsSeasonal = async (startTs: number, endTs: number): Promise<DiversionsSeasonal> => {
-    const response = await fetch(`${API_BASE}/stats/diversions/seasonal?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch diversions seasonal data');
+export const fetchDiversionsSeasonal = async (startTs: number, endTs: number, options?: RequestOptions): Promise<DiversionsSeasonal> => {
+    const response = await apiFetch(`${API_BASE}/stats/diversions/seasonal?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch diversions seasonal data',
+    });
     return response.json();
 };
 
@@ -3151,9 +3442,11 @@ export interface DailyIncidentClusters {
     insights: string[];
 }
 
-export const fetchDailyIncidentClusters = async (startTs: number, endTs: number): Promise<DailyIncidentClusters> => {
-    const response = await fetch(`${API_BASE}/stats/incidents/daily-clusters?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch daily incident clusters');
+export const fetchDailyIncidentClusters = async (startTs: number, endTs: number, options?: RequestOptions): Promise<DailyIncidentClusters> => {
+    const response = await apiFetch(`${API_BASE}/stats/incidents/daily-clusters?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch daily incident clusters',
+    });
     return response.json();
 };
 
@@ -3213,9 +3506,11 @@ export interface OperationalTempoResponse {
     total_flights: number;
 }
 
-export const fetchOperationalTempo = async (startTs: number, endTs: number): Promise<OperationalTempoResponse> => {
-    const response = await fetch(`${API_BASE}/intel/operational-tempo?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch operational tempo');
+export const fetchOperationalTempo = async (startTs: number, endTs: number, options?: RequestOptions): Promise<OperationalTempoResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/operational-tempo?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch operational tempo',
+    });
     return response.json();
 };
 
@@ -3241,9 +3536,11 @@ export interface TankerActivityResponse {
     alerts: Array<{ type: string; severity: string; message: string; area?: string }>;
 }
 
-export const fetchTankerActivity = async (startTs: number, endTs: number): Promise<TankerActivityResponse> => {
-    const response = await fetch(`${API_BASE}/intel/tanker-activity?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch tanker activity');
+export const fetchTankerActivity = async (startTs: number, endTs: number, options?: RequestOptions): Promise<TankerActivityResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/tanker-activity?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch tanker activity',
+    });
     return response.json();
 };
 
@@ -3270,9 +3567,11 @@ export interface NightOperationsResponse {
     alerts: Array<{ type: string; severity: string; message: string }>;
 }
 
-export const fetchNightOperations = async (startTs: number, endTs: number): Promise<NightOperationsResponse> => {
-    const response = await fetch(`${API_BASE}/intel/night-operations?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch night operations');
+export const fetchNightOperations = async (startTs: number, endTs: number, options?: RequestOptions): Promise<NightOperationsResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/night-operations?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch night operations',
+    });
     return response.json();
 };
 
@@ -3307,9 +3606,11 @@ export interface ISRPatternsResponse {
     alerts: Array<{ type: string; severity: string; message: string }>;
 }
 
-export const fetchISRPatterns = async (startTs: number, endTs: number): Promise<ISRPatternsResponse> => {
-    const response = await fetch(`${API_BASE}/intel/isr-patterns?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch ISR patterns');
+export const fetchISRPatterns = async (startTs: number, endTs: number, options?: RequestOptions): Promise<ISRPatternsResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/isr-patterns?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch ISR patterns',
+    });
     return response.json();
 };
 
@@ -3333,9 +3634,11 @@ export interface AirspaceDenialResponse {
     alerts: Array<{ type: string; severity: string; message: string }>;
 }
 
-export const fetchAirspaceDenialZones = async (startTs: number, endTs: number): Promise<AirspaceDenialResponse> => {
-    const response = await fetch(`${API_BASE}/intel/airspace-denial?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch airspace denial zones');
+export const fetchAirspaceDenialZones = async (startTs: number, endTs: number, options?: RequestOptions): Promise<AirspaceDenialResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/airspace-denial?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch airspace denial zones',
+    });
     return response.json();
 };
 
@@ -3361,9 +3664,11 @@ export interface BorderCrossingsResponse {
     alerts: Array<{ type: string; severity: string; message: string }>;
 }
 
-export const fetchBorderCrossings = async (startTs: number, endTs: number): Promise<BorderCrossingsResponse> => {
-    const response = await fetch(`${API_BASE}/intel/border-crossings?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch border crossings');
+export const fetchBorderCrossings = async (startTs: number, endTs: number, options?: RequestOptions): Promise<BorderCrossingsResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/border-crossings?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch border crossings',
+    });
     return response.json();
 };
 
@@ -3403,9 +3708,11 @@ export interface EWCorrelationResponse {
     alerts: Array<{ type: string; severity: string; message: string }>;
 }
 
-export const fetchEWCorrelation = async (startTs: number, endTs: number): Promise<EWCorrelationResponse> => {
-    const response = await fetch(`${API_BASE}/intel/ew-correlation?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch EW correlation');
+export const fetchEWCorrelation = async (startTs: number, endTs: number, options?: RequestOptions): Promise<EWCorrelationResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/ew-correlation?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch EW correlation',
+    });
     return response.json();
 };
 
@@ -3441,9 +3748,11 @@ export interface MissionReadinessResponse {
     };
 }
 
-export const fetchMissionReadiness = async (startTs: number, endTs: number): Promise<MissionReadinessResponse> => {
-    const response = await fetch(`${API_BASE}/intel/mission-readiness?start_ts=${startTs}&end_ts=${endTs}`);
-    if (!response.ok) throw new Error('Failed to fetch mission readiness');
+export const fetchMissionReadiness = async (startTs: number, endTs: number, options?: RequestOptions): Promise<MissionReadinessResponse> => {
+    const response = await apiFetch(`${API_BASE}/intel/mission-readiness?start_ts=${startTs}&end_ts=${endTs}`, {
+        ...options,
+        errorMessage: 'Failed to fetch mission readiness',
+    });
     return response.json();
 };
 
@@ -3469,24 +3778,26 @@ export interface MilitaryBatchResponse {
 export const fetchMilitaryBatch = async (
     startTs: number,
     endTs: number,
-    include?: string[]
+    include?: string[],
+    options?: RequestOptions
 ): Promise<MilitaryBatchResponse> => {
-    const response = await fetch(`${API_BASE}/intel/military/batch`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-            start_ts: Math.floor(startTs),
-            end_ts: Math.floor(endTs),
-            include: include || [
-                'operational_tempo', 'tanker_activity', 'night_operations', 'isr_patterns',
-                'airspace_denial', 'border_crossings', 'ew_correlation', 'mission_readiness'
-            ]
-        })
-    });
-    if (!response.ok) {
-        throw new Error('Failed to fetch military batch');
-    }
-    return response.json();
+    return withQueryCache(['stats', 'military-batch', startTs, endTs, include], options, BATCH_STALE_TIME_MS, async (requestOptions) => {
+        const response = await apiFetch(`${API_BASE}/intel/military/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                start_ts: Math.floor(startTs),
+                end_ts: Math.floor(endTs),
+                include: include || [
+                    'operational_tempo', 'tanker_activity', 'night_operations', 'isr_patterns',
+                    'airspace_denial', 'border_crossings', 'ew_correlation', 'mission_readiness'
+                ]
+            }),
+            ...requestOptions,
+            errorMessage: 'Failed to fetch military batch',
+        });
+        return response.json();
+    });
 };
 
 // ============================================================
@@ -3515,20 +3826,20 @@ export interface PolygonSearchResponse {
 export const searchFlightsByPolygon = async (
     polygon: number[][],
     startTs?: number,
-    endTs?: number
+    endTs?: number,
+    options?: RequestOptions
 ): Promise<PolygonSearchResponse> => {
-    const response = await fetch(`${API_BASE}/research/polygon-search`, {
+    const response = await apiFetch(`${API_BASE}/research/polygon-search`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
             polygon,
             start_ts: startTs,
             end_ts: endTs
-        })
+        }),
+        ...options,
+        errorMessage: 'Failed to search flights by polygon',
     });
-    if (!response.ok) {
-        throw new Error('Failed to search flights by polygon');
-    }
     return response.json();
 };
 
@@ -3541,19 +3852,19 @@ export const searchFlightsByPolygon = async (
 export const searchFlightsByWKT = async (
     wkt: string,
     startTs?: number,
-    endTs?: number
+    endTs?: number,
+    options?: RequestOptions
 ): Promise<PolygonSearchResponse> => {
-    const response = await fetch(`${API_BASE}/research/wkt-search`, {
+    const response = await apiFetch(`${API_BASE}/research/wkt-search`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
             wkt,
             start_ts: startTs,
             end_ts: endTs
-        })
+        }),
+        ...options,
+        errorMessage: 'Failed to search flights by WKT',
     });
-    if (!response.ok) {
-        throw new Error('Failed to search flights by WKT');
-    }
     return response.json();
 };
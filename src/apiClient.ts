@@ -0,0 +1,333 @@
+import { isFixtureRecordingEnabled, isMockModeEnabled } from './mock/mockMode';
+import { recordResponse } from './mock/fixtureRecorder';
+
+// ============================================================
+// Shared HTTP request layer used by every endpoint in api.ts
+// ============================================================
+
+export type ApiErrorKind = 'http' | 'timeout' | 'network';
+
+/**
+ * Error thrown for any failed API request.
+ * Keeps the HTTP status, the endpoint and the backend's `detail` message
+ * so callers can tell "not found" apart from "server down".
+ */
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status: number | null;
+    readonly endpoint: string;
+    readonly method: string;
+    readonly detail?: string;
+
+    constructor(params: {
+        kind: ApiErrorKind;
+        message: string;
+        endpoint: string;
+        method: string;
+        status?: number | null;
+        detail?: string;
+    }) {
+        super(params.message);
+        this.name = 'ApiError';
+        this.kind = params.kind;
+        this.status = params.status ?? null;
+        this.endpoint = params.endpoint;
+        this.method = params.method;
+        this.detail = params.detail;
+    }
+
+    get isNotFound(): boolean {
+        return this.status === 404;
+    }
+
+    /** Human readable description, e.g. "Backend returned 404 — Flight not found in research DB" */
+    describe(): string {
+        if (this.kind === 'timeout') return `Request to ${this.endpoint} timed out`;
+        if (this.kind === 'network') return `Could not reach backend (${this.endpoint})`;
+        return `Backend returned ${this.status} — ${this.detail || this.message}`;
+    }
+}
+
+/**
+ * Per-call options accepted by every function in api.ts
+ */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    /** Abort the request if no response arrives within this time (0 disables) */
+    timeoutMs?: number;
+    /** Number of retries on network errors, timeouts and 408/429/5xx responses */
+    retries?: number;
+}
+
+export interface ApiClientConfig {
+    timeoutMs: number;
+    /** Default retries for idempotent (GET/HEAD) requests. Other methods never retry unless asked to. */
+    retries: number;
+    retryDelayMs: number;
+    maxRetryDelayMs: number;
+}
+
+const DEFAULT_CONFIG: ApiClientConfig = {
+    timeoutMs: 30_000,
+    retries: 2,
+    retryDelayMs: 500,
+    maxRetryDelayMs: 8_000,
+};
+
+let clientConfig: ApiClientConfig = { ...DEFAULT_CONFIG };
+
+export const configureApiClient = (overrides: Partial<ApiClientConfig>) => {
+    clientConfig = { ...clientConfig, ...overrides };
+};
+
+export const getApiClientConfig = (): ApiClientConfig => ({ ...clientConfig });
+
+export interface ApiFetchInit extends Omit<RequestInit, 'signal'>, RequestOptions {
+    /** Message used when the backend does not provide a detail */
+    errorMessage?: string;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const getEndpoint = (url: string): string => {
+    try {
+        return new URL(url, window.location.origin).pathname;
+    } catch {
+        return url.split('?')[0];
+    }
+};
+
+const createAbortError = (signal?: AbortSignal): unknown =>
+    signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * Extract the backend's error detail. FastAPI returns { detail: string } for
+ * HTTPException and { detail: [{ msg }] } for validation errors.
+ */
+const readErrorDetail = async (response: Response): Promise<string | undefined> => {
+    const text = await response.text().catch(() => '');
+    if (!text) return undefined;
+    try {
+        const data = JSON.parse(text);
+        if (typeof data?.detail === 'string') return data.detail;
+        if (Array.isArray(data?.detail)) {
+            return data.detail.map((d: { msg?: string }) => d?.msg).filter(Boolean).join('; ') || undefined;
+        }
+        if (typeof data?.error === 'string') return data.error;
+        if (typeof data?.message === 'string') return data.message;
+        return undefined;
+    } catch {
+        // Plain-text error bodies (proxies, gateways) - keep them short
+        return text.length <= 200 ? text : undefined;
+    }
+};
+
+const getRetryDelay = (attempt: number, response?: Response): number => {
+    const retryAfter = response?.headers.get('Retry-After');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) return Math.min(seconds * 1000, clientConfig.maxRetryDelayMs);
+    }
+    const backoff = clientConfig.retryDelayMs * 2 ** attempt;
+    const jitter = Math.random() * clientConfig.retryDelayMs;
+    return Math.min(backoff + jitter, clientConfig.maxRetryDelayMs);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError(signal));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError(signal));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Run a single fetch attempt with a timeout, linked to the caller's signal.
+ * Resolves with the response (ok or not); rejects with ApiError on timeout or
+ * network failure and with the original AbortError if the caller aborted.
+ */
+const fetchOnce = async (url: string, init: RequestInit, options: RequestOptions, method: string): Promise<Response> => {
+    const { signal, timeoutMs = clientConfig.timeoutMs } = options;
+    if (signal?.aborted) throw createAbortError(signal);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timer = timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs)
+        : undefined;
+
+    try {
+        // Mock mode answers from fixtures; loaded lazily so normal builds never fetch them
+        const send = isMockModeEnabled() ? (await import('./mock/mockBackend')).mockFetch : fetch;
+        return await send(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (timedOut) {
+            throw new ApiError({
+                kind: 'timeout',
+                message: `Request timed out after ${Math.round(timeoutMs / 1000)}s`,
+                endpoint: getEndpoint(url),
+                method,
+            });
+        }
+        if (signal?.aborted) throw error;
+        throw new ApiError({
+            kind: 'network',
+            message: error instanceof Error ? error.message : 'Network error',
+            endpoint: getEndpoint(url),
+            method,
+        });
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * fetch() wrapper used by all endpoints.
+ * Returns the response only when it is ok; otherwise throws an ApiError.
+ * Idempotent requests are retried with exponential backoff.
+ */
+export const apiFetch = async (url: string, init: ApiFetchInit = {}): Promise<Response> => {
+    const { signal, timeoutMs, retries, errorMessage, ...requestInit } = init;
+    const method = (requestInit.method || 'GET').toUpperCase();
+    const maxRetries = retries ?? (IDEMPOTENT_METHODS.includes(method) ? clientConfig.retries : 0);
+
+    for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+            response = await fetchOnce(url, requestInit, { signal, timeoutMs }, method);
+        } catch (error) {
+            if (error instanceof ApiError && attempt < maxRetries) {
+                await wait(getRetryDelay(attempt), signal);
+                continue;
+            }
+            throw error;
+        }
+
+        if (response.ok) {
+            if (isFixtureRecordingEnabled() && !isMockModeEnabled()) {
+                void recordResponse(url, method, response);
+            }
+            return response;
+        }
+
+        if (attempt < maxRetries && isRetryableStatus(response.status)) {
+            await wait(getRetryDelay(attempt, response), signal);
+            continue;
+        }
+
+        const detail = await readErrorDetail(response);
+        throw new ApiError({
+            kind: 'http',
+            message: detail || errorMessage || `Request failed with status ${response.status}`,
+            endpoint: getEndpoint(url),
+            method,
+            status: response.status,
+            detail,
+        });
+    }
+};
+
+/**
+ * Message suitable for showing in the UI for any error thrown by api.ts
+ */
+export const getErrorMessage = (error: unknown, fallback = 'Request failed'): string => {
+    if (error instanceof ApiError) return error.describe();
+    if (error instanceof Error && error.message) return error.message;
+    return fallback;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+    (error as { name?: string } | null)?.name === 'AbortError';
+
+/**
+ * One message from a text/event-stream body
+ */
+export interface ServerSentEvent {
+    event: string;
+    data: string;
+    id?: string;
+}
+
+/**
+ * Parse a text/event-stream response incrementally, yielding each event as
+ * soon as its terminating blank line arrives. Used for streamed AI answers,
+ * which are POST requests and therefore cannot use EventSource.
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<ServerSentEvent> {
+    const reader = response.body?.getReader();
+    if (!reader) return;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event = 'message';
+    let data: string[] = [];
+    let id: string | undefined;
+
+    const takeEvent = (): ServerSentEvent | null => {
+        const message = data.length > 0 ? { event, data: data.join('\n'), id } : null;
+        event = 'message';
+        data = [];
+        return message;
+    };
+
+    try {
+        for (;;) {
+            const { value, done } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).replace(/\r$/, '');
+                buffer = buffer.slice(newline + 1);
+
+                if (line === '') {
+                    const message = takeEvent();
+                    if (message) yield message;
+                    continue;
+                }
+                if (line.startsWith(':')) continue; // keep-alive comment
+
+                const colon = line.indexOf(':');
+                const field = colon >= 0 ? line.slice(0, colon) : line;
+                const fieldValue = colon >= 0 ? line.slice(colon + 1).replace(/^ /, '') : '';
+                if (field === 'event') event = fieldValue;
+                else if (field === 'data') data.push(fieldValue);
+                else if (field === 'id') id = fieldValue;
+            }
+
+            if (done) {
+                const message = takeEvent();
+                if (message) yield message;
+                return;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
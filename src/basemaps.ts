@@ -0,0 +1,317 @@
+import maplibregl, { type StyleSpecification } from 'maplibre-gl';
+import { Protocol } from 'pmtiles';
+
+// ============================================================
+// Basemap registry shared by every map in the app
+// ============================================================
+//
+// A basemap is one of:
+//   - style:   a MapLibre style JSON URL (remote, or a local file that may use pmtiles:// sources)
+//   - raster:  XYZ tile templates, or a TileJSON URL (e.g. an MBTiles file behind a local tile server)
+//   - pmtiles: a raster PMTiles archive, e.g. /basemaps/region.pmtiles served from public/
+//   - offline: the bundled coastlines & borders style, which needs no network at all
+//
+// Deployments can add basemaps without a rebuild by serving /basemaps/basemaps.json:
+//   { "default": "local-tiles", "basemaps": [{ "id": "local-tiles", "name": "...", "source": { ... } }] }
+// Users can add their own from Settings.
+//
+// Env: VITE_MAPTILER_KEY enables the MapTiler basemaps, VITE_DEFAULT_BASEMAP picks
+// the default id and VITE_MAP_GLYPHS_URL points label fonts at a local server.
+
+export type BasemapSource =
+    | { type: 'style'; url: string }
+    | { type: 'raster'; tiles?: string[]; url?: string; tileSize?: number; maxzoom?: number; attribution?: string }
+    | { type: 'pmtiles'; url: string; tileSize?: number; attribution?: string }
+    | { type: 'offline' };
+
+export interface BasemapDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    source: BasemapSource;
+    /** Added by the user in Settings */
+    custom?: boolean;
+}
+
+interface BasemapConfigFile {
+    default?: string;
+    basemaps?: BasemapDefinition[];
+}
+
+export const BASEMAP_STORAGE_KEY = 'app-basemap';
+export const CUSTOM_BASEMAPS_STORAGE_KEY = 'app-custom-basemaps';
+export const BASEMAP_CHANGE_EVENT = 'basemap-change';
+export const OFFLINE_BASEMAP_ID = 'offline';
+
+const MAPTILER_KEY: string | undefined = import.meta.env.VITE_MAPTILER_KEY;
+const GLYPHS_URL: string = import.meta.env.VITE_MAP_GLYPHS_URL || 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf';
+
+const assetUrl = (path: string) => new URL(`${import.meta.env.BASE_URL}${path}`, window.location.origin).href;
+
+// Natural Earth 1:110m land and country borders (public domain)
+const OFFLINE_DATA_URL = assetUrl('basemaps/world-110m.geojson');
+const RUNTIME_CONFIG_URL = assetUrl('basemaps/basemaps.json');
+
+// Lets style JSONs and raster basemaps reference pmtiles:// archives
+maplibregl.addProtocol('pmtiles', new Protocol().tile);
+
+const BUILT_IN_BASEMAPS: BasemapDefinition[] = [
+    {
+        id: OFFLINE_BASEMAP_ID,
+        name: 'Offline',
+        description: 'Coastlines and borders, no network required',
+        source: { type: 'offline' },
+    },
+    ...(MAPTILER_KEY ? [
+        {
+            id: 'maptiler-darkmatter',
+            name: 'MapTiler Dark Matter',
+            description: 'Vector dark basemap (MapTiler)',
+            source: { type: 'style', url: `https://api.maptiler.com/maps/darkmatter/style.json?key=${MAPTILER_KEY}` },
+        },
+        {
+            id: 'maptiler-dataviz-dark',
+            name: 'MapTiler Dataviz Dark',
+            description: 'Muted basemap for data overlays (MapTiler)',
+            source: { type: 'style', url: `https://api.maptiler.com/maps/dataviz-dark/style.json?key=${MAPTILER_KEY}` },
+        },
+    ] satisfies BasemapDefinition[] : []),
+    {
+        id: 'carto-dark-matter',
+        name: 'CARTO Dark Matter',
+        description: 'Vector dark basemap (CARTO)',
+        source: { type: 'style', url: 'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json' },
+    },
+    {
+        id: 'carto-dark-raster',
+        name: 'CARTO Dark (raster)',
+        description: 'Raster XYZ tiles (CARTO)',
+        source: {
+            type: 'raster',
+            tiles: ['https://basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png'],
+            tileSize: 256,
+            attribution: '© OpenStreetMap contributors © CARTO',
+        },
+    },
+];
+
+let runtimeBasemaps: BasemapDefinition[] = [];
+let runtimeDefaultId: string | undefined;
+
+// ============================================================
+// Registry
+// ============================================================
+
+const loadCustomBasemaps = (): BasemapDefinition[] => {
+    try {
+        const saved = localStorage.getItem(CUSTOM_BASEMAPS_STORAGE_KEY);
+        return saved ? (JSON.parse(saved) as BasemapDefinition[]).map(b => ({ ...b, custom: true })) : [];
+    } catch (error) {
+        console.warn('Ignoring invalid custom basemaps', error);
+        return [];
+    }
+};
+
+const notifyChange = () => window.dispatchEvent(new CustomEvent(BASEMAP_CHANGE_EVENT));
+
+export const getBasemaps = (): BasemapDefinition[] => {
+    const all = [...BUILT_IN_BASEMAPS, ...runtimeBasemaps, ...loadCustomBasemaps()];
+    // Later entries (runtime config, user) replace built-ins with the same id
+    return Array.from(new Map(all.map(b => [b.id, b])).values());
+};
+
+const getDefaultBasemapId = (): string =>
+    runtimeDefaultId
+    || import.meta.env.VITE_DEFAULT_BASEMAP
+    || (MAPTILER_KEY ? 'maptiler-darkmatter' : 'carto-dark-matter');
+
+export const getSelectedBasemap = (): BasemapDefinition => {
+    const basemaps = getBasemaps();
+    const savedId = localStorage.getItem(BASEMAP_STORAGE_KEY);
+    return basemaps.find(b => b.id === savedId)
+        || basemaps.find(b => b.id === getDefaultBasemapId())
+        || basemaps[0];
+};
+
+export const setSelectedBasemap = (id: string) => {
+    localStorage.setItem(BASEMAP_STORAGE_KEY, id);
+    notifyChange();
+};
+
+export const saveCustomBasemap = (basemap: Omit<BasemapDefinition, 'custom'>) => {
+    const others = loadCustomBasemaps().filter(b => b.id !== basemap.id);
+    localStorage.setItem(CUSTOM_BASEMAPS_STORAGE_KEY, JSON.stringify([...others, basemap]));
+    notifyChange();
+};
+
+export const removeCustomBasemap = (id: string) => {
+    localStorage.setItem(CUSTOM_BASEMAPS_STORAGE_KEY, JSON.stringify(loadCustomBasemaps().filter(b => b.id !== id)));
+    if (localStorage.getItem(BASEMAP_STORAGE_KEY) === id) localStorage.removeItem(BASEMAP_STORAGE_KEY);
+    notifyChange();
+};
+
+/**
+ * Load /basemaps/basemaps.json if the deployment provides one. Missing or
+ * invalid files are ignored so the built-in basemaps keep working.
+ */
+export const loadBasemapConfig = async () => {
+    try {
+        const response = await fetch(RUNTIME_CONFIG_URL);
+        if (!response.ok || !response.headers.get('Content-Type')?.includes('json')) return;
+        const config: BasemapConfigFile = await response.json();
+        const previous = JSON.stringify(getSelectedBasemap());
+        runtimeBasemaps = Array.isArray(config.basemaps) ? config.basemaps : [];
+        runtimeDefaultId = config.default;
+        if (JSON.stringify(getSelectedBasemap()) !== previous) notifyChange();
+    } catch (error) {
+        console.warn('Failed to load basemap config', error);
+    }
+};
+
+// ============================================================
+// Styles
+// ============================================================
+
+const buildOfflineStyle = (): StyleSpecification => ({
+    version: 8,
+    name: 'Offline',
+    glyphs: GLYPHS_URL,
+    sources: {
+        'offline-world': { type: 'geojson', data: OFFLINE_DATA_URL },
+    },
+    layers: [
+        { id: 'offline-background', type: 'background', paint: { 'background-color': '#0b1017' } },
+        {
+            id: 'offline-land',
+            type: 'fill',
+            source: 'offline-world',
+            filter: ['==', ['get', 'kind'], 'land'],
+            paint: { 'fill-color': '#1b212b' },
+        },
+        {
+            id: 'offline-coastline',
+            type: 'line',
+            source: 'offline-world',
+            filter: ['==', ['get', 'kind'], 'land'],
+            paint: { 'line-color': '#3d4a5c', 'line-width': 0.8 },
+        },
+        {
+            id: 'offline-borders',
+            type: 'line',
+            source: 'offline-world',
+            filter: ['==', ['get', 'kind'], 'border'],
+            paint: { 'line-color': '#5a6678', 'line-width': 0.6, 'line-dasharray': [3, 2] },
+        },
+    ],
+});
+
+const buildRasterStyle = (id: string, source: Extract<BasemapSource, { type: 'raster' | 'pmtiles' }>): StyleSpecification => ({
+    version: 8,
+    glyphs: GLYPHS_URL,
+    sources: {
+        [id]: {
+            type: 'raster',
+            tileSize: source.tileSize ?? 256,
+            attribution: source.attribution,
+            ...(source.type === 'pmtiles'
+                ? { url: `pmtiles://${new URL(source.url, window.location.origin).href}` }
+                : source.tiles ? { tiles: source.tiles, maxzoom: source.maxzoom } : { url: source.url }),
+        },
+    },
+    layers: [{ id: `${id}-layer`, type: 'raster', source: id }],
+});
+
+export const getBasemapStyle = (basemap: BasemapDefinition = getSelectedBasemap()): StyleSpecification | string => {
+    const { source } = basemap;
+    switch (source.type) {
+        case 'style':
+            return source.url;
+        case 'raster':
+        case 'pmtiles':
+            return buildRasterStyle(`basemap-${basemap.id}`, source);
+        case 'offline':
+            return buildOfflineStyle();
+    }
+};
+
+// ============================================================
+// Map binding
+// ============================================================
+
+/**
+ * Keep a map in sync with the selected basemap.
+ * Sources and layers the map added on top of the basemap survive style
+ * switches. If the basemap cannot be reached the map falls back to the
+ * offline style. Unsubscribes automatically when the map is removed.
+ */
+export const attachBasemap = (map: maplibregl.Map) => {
+    // Ids that belong to the current basemap style rather than to the app
+    let basemapIds = { sources: new Set<string>(), layers: new Set<string>() };
+    let usingFallback = false;
+    let currentBasemap = JSON.stringify(getSelectedBasemap());
+    // Once a basemap tile has loaded, later tile errors are treated as gaps, not an outage
+    let basemapReachable = false;
+
+    const rememberBasemapIds = (style: StyleSpecification) => {
+        basemapIds = {
+            sources: new Set(Object.keys(style.sources)),
+            layers: new Set(style.layers.map(layer => layer.id)),
+        };
+    };
+
+    map.once('style.load', () => rememberBasemapIds(map.getStyle()));
+
+    const applyStyle = (style: StyleSpecification | string) => {
+        map.setStyle(style, {
+            diff: false,
+            transformStyle: (previous, next) => {
+                if (!previous) {
+                    rememberBasemapIds(next);
+                    return next;
+                }
+                const appSources = Object.fromEntries(
+                    Object.entries(previous.sources).filter(([id]) => !basemapIds.sources.has(id))
+                );
+                const appLayers = previous.layers.filter(layer => !basemapIds.layers.has(layer.id));
+                rememberBasemapIds(next);
+                return {
+                    ...next,
+                    glyphs: next.glyphs ?? previous.glyphs ?? GLYPHS_URL,
+                    sources: { ...next.sources, ...appSources },
+                    layers: [...next.layers, ...appLayers],
+                };
+            },
+        });
+    };
+
+    const handleChange = () => {
+        // Adding or removing other basemaps does not affect this map
+        const selected = JSON.stringify(getSelectedBasemap());
+        if (selected === currentBasemap) return;
+        currentBasemap = selected;
+        usingFallback = false;
+        basemapReachable = false;
+        applyStyle(getBasemapStyle());
+    };
+
+    const handleError = (event: { sourceId?: string; error?: Error }) => {
+        if (usingFallback || getSelectedBasemap().source.type === 'offline') return;
+        // Style JSON failed to load, or the basemap's own tiles are unreachable
+        const basemapFailed = !map.isStyleLoaded() || (event.sourceId !== undefined && basemapIds.sources.has(event.sourceId));
+        if (!basemapFailed || basemapReachable) return;
+        console.warn('Basemap unavailable, switching to offline basemap', event.error);
+        usingFallback = true;
+        applyStyle(buildOfflineStyle());
+    };
+
+    const handleData = (event: maplibregl.MapDataEvent) => {
+        if (event.dataType === 'source' && 'tile' in event && event.tile && 'sourceId' in event && basemapIds.sources.has(event.sourceId as string)) {
+            basemapReachable = true;
+        }
+    };
+
+    window.addEventListener(BASEMAP_CHANGE_EVENT, handleChange);
+    map.on('error', handleError);
+    map.on('data', handleData);
+    map.once('remove', () => window.removeEventListener(BASEMAP_CHANGE_EVENT, handleChange));
+};
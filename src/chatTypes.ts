@@ -1,5 +1,6 @@
 export interface ChatMessage {
     role: 'user' | 'assistant' | 'system';
     content: string;
+    /** Set on assistant messages that were received as a token stream */
+    streamState?: 'streaming' | 'complete';
 }
-
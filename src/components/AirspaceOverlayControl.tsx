@@ -0,0 +1,357 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import maplibregl from 'maplibre-gl';
+import { Layers, Upload, Trash2, Loader2 } from 'lucide-react';
+import clsx from 'clsx';
+import {
+    AIRSPACE_KIND_STYLES, addUserOverlay, describeAirspaceFeature, getOverlayData, removeUserOverlay,
+    setOverlayVisible, updateUserOverlay, useAirspaceOverlays, type AirspaceOverlay
+} from '../airspaceOverlays';
+
+// Used on pages without a LanguageProvider (replay, polygon search), so text is English only
+
+interface AirspaceOverlayControlProps {
+    map: maplibregl.Map | null;
+    /** Overlays are drawn below this layer (e.g. the flight track) when it exists */
+    beforeLayerId?: string;
+    /** Positions the toggle button; must create a positioning context for the dropdown */
+    className?: string;
+    /** Which edge of the button the dropdown lines up with */
+    align?: 'left' | 'right';
+}
+
+const LAYER_PREFIX = 'airspace-';
+const ACCEPTED_FILES = '.geojson,.json,.kml,.wkt,.txt';
+
+const layerIds = (id: string) => ({
+    source: `${LAYER_PREFIX}${id}`,
+    fill: `${LAYER_PREFIX}${id}-fill`,
+    line: `${LAYER_PREFIX}${id}-line`,
+    point: `${LAYER_PREFIX}${id}-point`,
+});
+
+const overlayColor = (overlay: AirspaceOverlay) => overlay.color || AIRSPACE_KIND_STYLES[overlay.kind].color;
+
+const addOverlayLayers = (map: maplibregl.Map, overlay: AirspaceOverlay, data: GeoJSON.FeatureCollection, beforeLayerId?: string) => {
+    const ids = layerIds(overlay.id);
+    if (map.getSource(ids.source)) return;
+    const style = AIRSPACE_KIND_STYLES[overlay.kind];
+    const color = overlayColor(overlay);
+    const before = beforeLayerId && map.getLayer(beforeLayerId) ? beforeLayerId : undefined;
+
+    map.addSource(ids.source, { type: 'geojson', data });
+    map.addLayer({
+        id: ids.fill,
+        type: 'fill',
+        source: ids.source,
+        filter: ['match', ['geometry-type'], ['Polygon', 'MultiPolygon'], true, false],
+        paint: { 'fill-color': color, 'fill-opacity': style.fillOpacity },
+    }, before);
+    map.addLayer({
+        id: ids.line,
+        type: 'line',
+        source: ids.source,
+        filter: ['match', ['geometry-type'], ['Point', 'MultiPoint'], false, true],
+        paint: {
+            'line-color': color,
+            'line-width': overlay.kind === 'boundary' ? 1 : 1.5,
+            'line-opacity': 0.8,
+            ...(style.dash ? { 'line-dasharray': style.dash } : {}),
+        },
+    }, before);
+    map.addLayer({
+        id: ids.point,
+        type: 'circle',
+        source: ids.source,
+        filter: ['match', ['geometry-type'], ['Point', 'MultiPoint'], true, false],
+        paint: {
+            'circle-radius': 4,
+            'circle-color': color,
+            'circle-stroke-width': 1,
+            'circle-stroke-color': '#0f172a',
+        },
+    }, before);
+};
+
+const removeOverlayLayers = (map: maplibregl.Map, id: string) => {
+    const ids = layerIds(id);
+    [ids.point, ids.line, ids.fill].forEach(layer => {
+        if (map.getLayer(layer)) map.removeLayer(layer);
+    });
+    if (map.getSource(ids.source)) map.removeSource(ids.source);
+};
+
+// Built with DOM nodes so property values from user files are never parsed as HTML
+const buildPopupContent = (overlay: AirspaceOverlay, props: Record<string, unknown>): HTMLElement => {
+    const info = describeAirspaceFeature(overlay, props);
+    const root = document.createElement('div');
+    root.className = 'text-gray-900 p-1 text-xs font-sans';
+
+    const title = document.createElement('div');
+    title.className = 'font-bold';
+    title.style.color = overlayColor(overlay);
+    title.textContent = info.name;
+    root.appendChild(title);
+
+    const kind = document.createElement('div');
+    kind.className = 'text-gray-500';
+    kind.textContent = info.kind;
+    root.appendChild(kind);
+
+    if (info.limits) {
+        const limits = document.createElement('div');
+        limits.className = 'font-semibold';
+        limits.textContent = info.limits;
+        root.appendChild(limits);
+    }
+    info.details.forEach(([key, value]) => {
+        const row = document.createElement('div');
+        row.textContent = `${key}: ${value}`;
+        root.appendChild(row);
+    });
+    return root;
+};
+
+export const AirspaceOverlayControl: React.FC<AirspaceOverlayControlProps> = ({ map, beforeLayerId, className, align = 'right' }) => {
+    const { overlays, visibleIds } = useAirspaceOverlays();
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    const [dragging, setDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const addedRef = useRef<Set<string>>(new Set());
+    const overlaysRef = useRef(overlays);
+    overlaysRef.current = overlays;
+
+    const importFiles = async (files: FileList | File[]) => {
+        setError(null);
+        for (const file of Array.from(files)) {
+            try {
+                addUserOverlay(file.name, await file.text());
+            } catch (err) {
+                setError(`${file.name}: ${err instanceof Error ? err.message : 'Could not read file'}`);
+            }
+        }
+    };
+
+    // Sync map layers with the registry
+    useEffect(() => {
+        if (!map) return;
+        let cancelled = false;
+
+        // Removed user overlays
+        addedRef.current.forEach(id => {
+            if (overlays.some(o => o.id === id)) return;
+            removeOverlayLayers(map, id);
+            addedRef.current.delete(id);
+        });
+
+        overlays.forEach(overlay => {
+            const ids = layerIds(overlay.id);
+            const visible = visibleIds.has(overlay.id);
+
+            if (map.getSource(ids.source)) {
+                const color = overlayColor(overlay);
+                map.setPaintProperty(ids.fill, 'fill-color', color);
+                map.setPaintProperty(ids.line, 'line-color', color);
+                map.setPaintProperty(ids.point, 'circle-color', color);
+                [ids.fill, ids.line, ids.point].forEach(layer =>
+                    map.setLayoutProperty(layer, 'visibility', visible ? 'visible' : 'none')
+                );
+                return;
+            }
+            if (!visible) return;
+
+            setLoading(prev => new Set(prev).add(overlay.id));
+            getOverlayData(overlay)
+                .then(data => {
+                    if (cancelled || !map.getStyle()) return;
+                    addOverlayLayers(map, overlay, data, beforeLayerId);
+                    addedRef.current.add(overlay.id);
+                })
+                .catch(err => {
+                    console.error(`Failed to load overlay ${overlay.id}`, err);
+                    if (!cancelled) setError(err instanceof Error ? err.message : `Failed to load ${overlay.name}`);
+                })
+                .finally(() => {
+                    setLoading(prev => {
+                        const next = new Set(prev);
+                        next.delete(overlay.id);
+                        return next;
+                    });
+                });
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [map, overlays, visibleIds, beforeLayerId]);
+
+    // Hover info, only when an overlay is the topmost feature so track popups keep priority
+    useEffect(() => {
+        if (!map) return;
+        const popup = new maplibregl.Popup({ closeButton: false, closeOnClick: false });
+
+        const handleMove = (e: maplibregl.MapMouseEvent) => {
+            const [top] = map.queryRenderedFeatures(e.point);
+            const layerId = top?.layer.id;
+            if (!layerId?.startsWith(LAYER_PREFIX)) {
+                popup.remove();
+                return;
+            }
+            const overlay = overlaysRef.current.find(o => layerId.startsWith(`${LAYER_PREFIX}${o.id}-`));
+            if (!overlay) return;
+            popup.setLngLat(e.lngLat)
+                .setDOMContent(buildPopupContent(overlay, top.properties ?? {}))
+                .addTo(map);
+        };
+        const handleOut = () => popup.remove();
+
+        map.on('mousemove', handleMove);
+        map.on('mouseout', handleOut);
+        return () => {
+            map.off('mousemove', handleMove);
+            map.off('mouseout', handleOut);
+            popup.remove();
+        };
+    }, [map]);
+
+    // Drag-and-drop files onto the map
+    useEffect(() => {
+        if (!map) return;
+        const container = map.getContainer();
+        const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files');
+
+        const handleDragOver = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            e.preventDefault();
+            setDragging(true);
+        };
+        const handleDragLeave = (e: DragEvent) => {
+            if (!container.contains(e.relatedTarget as Node | null)) setDragging(false);
+        };
+        const handleDrop = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            e.preventDefault();
+            setDragging(false);
+            if (e.dataTransfer?.files.length) {
+                void importFiles(e.dataTransfer.files);
+                setOpen(true);
+            }
+        };
+
+        container.addEventListener('dragover', handleDragOver);
+        container.addEventListener('dragleave', handleDragLeave);
+        container.addEventListener('drop', handleDrop);
+        return () => {
+            container.removeEventListener('dragover', handleDragOver);
+            container.removeEventListener('dragleave', handleDragLeave);
+            container.removeEventListener('drop', handleDrop);
+        };
+    }, [map]);
+
+    // Layers are owned by the map; drop them if the control unmounts first
+    useEffect(() => {
+        if (!map) return;
+        const added = addedRef.current;
+        return () => {
+            if (!map.getStyle()) return;
+            added.forEach(id => removeOverlayLayers(map, id));
+            added.clear();
+        };
+    }, [map]);
+
+    const visibleCount = overlays.filter(o => visibleIds.has(o.id)).length;
+
+    return (
+        <div className={className ?? "relative"}>
+            <button
+                onClick={() => setOpen(!open)}
+                className={clsx(
+                    "px-3 py-2 rounded shadow text-xs font-medium opacity-90 transition-colors flex items-center gap-1.5 w-full",
+                    visibleCount > 0 ? 'bg-sky-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                )}
+                title="Airspace and reference layers"
+            >
+                <Layers className="w-3.5 h-3.5" />
+                <span>Airspace</span>
+                {visibleCount > 0 && (
+                    <span className="bg-white/20 px-1.5 py-0.5 rounded text-[10px]">{visibleCount}</span>
+                )}
+            </button>
+
+            {open && (
+                <div className={clsx("absolute mt-1 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-50 text-xs", align === 'right' ? "right-0" : "left-0")}>
+                    <div className="max-h-72 overflow-y-auto p-1.5 space-y-0.5">
+                        {overlays.map(overlay => (
+                            <div key={overlay.id} className="flex items-center gap-2 px-1.5 py-1 rounded hover:bg-white/5">
+                                <input
+                                    type="checkbox"
+                                    checked={visibleIds.has(overlay.id)}
+                                    onChange={(e) => setOverlayVisible(overlay.id, e.target.checked)}
+                                    className="accent-sky-500"
+                                />
+                                {overlay.custom ? (
+                                    <input
+                                        type="color"
+                                        value={overlayColor(overlay)}
+                                        onChange={(e) => updateUserOverlay(overlay.id, { color: e.target.value })}
+                                        className="h-3.5 w-3.5 shrink-0 cursor-pointer rounded border-none bg-transparent p-0"
+                                        title="Layer colour"
+                                    />
+                                ) : (
+                                    <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ background: overlayColor(overlay) }} />
+                                )}
+                                <div className="min-w-0 flex-1">
+                                    <div className="truncate text-white">{overlay.name}</div>
+                                    <div className="text-[10px] text-white/40">{AIRSPACE_KIND_STYLES[overlay.kind].label}</div>
+                                </div>
+                                {loading.has(overlay.id) && <Loader2 className="w-3.5 h-3.5 animate-spin text-white/50" />}
+                                {overlay.custom && (
+                                    <button
+                                        onClick={() => removeUserOverlay(overlay.id)}
+                                        className="p-0.5 rounded text-white/40 hover:text-red-400"
+                                        title="Remove layer"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="border-t border-gray-700 p-2 space-y-1.5">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="w-full px-2 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 flex items-center justify-center gap-1.5"
+                        >
+                            <Upload className="w-3.5 h-3.5" />
+                            Add GeoJSON / KML / WKT
+                        </button>
+                        <div className="text-[10px] text-white/40 text-center">or drop files onto the map</div>
+                        {error && <div className="text-[10px] text-red-400 break-words">{error}</div>}
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={ACCEPTED_FILES}
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            if (e.target.files) void importFiles(e.target.files);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            )}
+
+            {dragging && map && createPortal(
+                <div className="absolute inset-0 z-40 flex items-center justify-center bg-sky-900/30 border-2 border-dashed border-sky-400 pointer-events-none">
+                    <div className="px-4 py-2 rounded-lg bg-gray-900/90 text-sm text-white">
+                        Drop GeoJSON, KML or WKT to add a layer
+                    </div>
+                </div>,
+                map.getContainer()
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import { X, Plus, Trash2, Volume2, MapPin, Bell } from 'lucide-react';
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { fetchRules } from '../api';
+import {
+    ALERT_COLORS,
+    createAlertRule,
+    deleteAlertRule,
+    requestAlertNotificationPermission,
+    saveAlertRule,
+    useAlertRules,
+    type AlertConditions,
+    type AlertRule,
+} from '../alertRules';
+import { ALERT_SOUNDS, playAlertSound, type AlertSound } from '../utils/alertSounds';
+import { useLanguage } from '../contexts/LanguageContext';
+
+const ALERT_LAYERS = ['Rules', 'XGBoost', 'DeepDense', 'DeepCNN', 'Transformer', 'Hybrid'];
+
+interface AlertRulesModalProps {
+    /** Rule being edited; kept by the parent so it survives drawing its area on the map */
+    draft: AlertRule | null;
+    setDraft: (rule: AlertRule | null) => void;
+    onClose: () => void;
+    onDrawArea: (rule: AlertRule) => void;
+}
+
+const toggleValue = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+export const AlertRulesModal: React.FC<AlertRulesModalProps> = ({ draft, setDraft, onClose, onDrawArea }) => {
+    const { t } = useTranslation();
+    const { isHebrew } = useLanguage();
+    const rules = useAlertRules();
+    const [engineRules, setEngineRules] = useState<{ id: number; name: string }[]>([]);
+    const [notifyDenied, setNotifyDenied] = useState(false);
+
+    useEffect(() => {
+        fetchRules()
+            .then(setEngineRules)
+            .catch(error => console.warn('Failed to load rules for alert conditions', error));
+    }, []);
+
+    // Start on the first rule
+    useEffect(() => {
+        if (!draft && rules.length > 0) setDraft(rules[0]);
+    }, [draft, rules, setDraft]);
+
+    const update = (patch: Partial<AlertRule>) => draft && setDraft({ ...draft, ...patch });
+    const updateConditions = (patch: Partial<AlertConditions>) =>
+        draft && setDraft({ ...draft, conditions: { ...draft.conditions, ...patch } });
+
+    const saved = draft ? rules.find(r => r.id === draft.id) : undefined;
+    const isDirty = !!draft && JSON.stringify(saved) !== JSON.stringify(draft);
+
+    const handleNotifyChange = async (notify: boolean) => {
+        update({ notify });
+        if (!notify) return;
+        const granted = await requestAlertNotificationPermission();
+        setNotifyDenied(!granted);
+    };
+
+    const handleAdd = () => {
+        const rule = createAlertRule(t('alerts.newRule'));
+        saveAlertRule(rule);
+        setDraft(rule);
+    };
+
+    const handleDelete = () => {
+        if (!draft) return;
+        deleteAlertRule(draft.id);
+        setDraft(rules.find(r => r.id !== draft.id) ?? null);
+    };
+
+    const chipClass = (active: boolean) => clsx(
+        "px-2 py-0.5 rounded-full border text-[11px] transition-colors",
+        active ? "bg-primary/20 border-primary text-white" : "border-white/10 text-white/60 hover:text-white hover:border-white/30"
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div
+                className="bg-surface border border-white/10 rounded-xl w-[760px] max-h-[88vh] shadow-2xl flex flex-col overflow-hidden"
+                dir={isHebrew ? 'rtl' : 'ltr'}
+            >
+                <div className="flex justify-between items-center px-6 py-4 border-b border-white/10">
+                    <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+                        <Bell className="size-5 text-primary" />
+                        {t('alerts.rulesTitle')}
+                    </h2>
+                    <button onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+                        <X className="size-5" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Rule list */}
+                    <div className="w-52 shrink-0 border-e border-white/10 p-3 flex flex-col gap-1 overflow-y-auto">
+                        {rules.map(rule => (
+                            <button
+                                key={rule.id}
+                                onClick={() => setDraft(rule)}
+                                className={clsx(
+                                    "flex items-center gap-2 px-2 py-1.5 rounded-md text-sm text-start transition-colors",
+                                    draft?.id === rule.id ? "bg-white/10 text-white" : "text-white/70 hover:bg-white/5",
+                                    !rule.enabled && "opacity-50"
+                                )}
+                            >
+                                <span className="size-2.5 rounded-full shrink-0" style={{ backgroundColor: rule.color }} />
+                                <span className="truncate">{rule.name}</span>
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleAdd}
+                            className="mt-1 flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs text-primary hover:bg-primary/10"
+                        >
+                            <Plus className="size-3.5" />
+                            {t('alerts.addRule')}
+                        </button>
+                    </div>
+
+                    {/* Editor */}
+                    {draft ? (
+                        <div className="flex-1 p-5 space-y-4 overflow-y-auto text-sm">
+                            <div className="flex items-center gap-3">
+                                <input
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={(e) => update({ name: e.target.value })}
+                                    className="flex-1 bg-background-dark border border-white/10 rounded-md px-2 py-1.5 text-white focus:outline-none focus:border-primary"
+                                />
+                                <label className="flex items-center gap-1.5 text-xs text-white/70 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.enabled}
+                                        onChange={(e) => update({ enabled: e.target.checked })}
+                                        className="accent-primary"
+                                    />
+                                    {t('alerts.enabled')}
+                                </label>
+                            </div>
+
+                            {/* Conditions */}
+                            <div className="space-y-3 rounded-lg border border-white/10 p-3">
+                                <p className="text-xs font-semibold text-white/50 uppercase tracking-wider">{t('alerts.conditions')}</p>
+                                <p className="text-[11px] text-white/40">{t('alerts.conditionsHint')}</p>
+
+                                <div className="space-y-1">
+                                    <span className="text-xs text-white/70">{t('alerts.matchedRules')}</span>
+                                    <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+                                        {engineRules.map(rule => (
+                                            <button
+                                                key={rule.id}
+                                                onClick={() => updateConditions({ ruleIds: toggleValue(draft.conditions.ruleIds, rule.id) })}
+                                                className={chipClass(draft.conditions.ruleIds.includes(rule.id))}
+                                            >
+                                                {rule.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="space-y-1">
+                                    <span className="text-xs text-white/70">{t('alerts.layers')}</span>
+                                    <div className="flex flex-wrap gap-1">
+                                        {ALERT_LAYERS.map(layer => (
+                                            <button
+                                                key={layer}
+                                                onClick={() => updateConditions({ layers: toggleValue(draft.conditions.layers, layer) })}
+                                                className={chipClass(draft.conditions.layers.includes(layer))}
+                                            >
+                                                {layer}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3">
+                                    <label className="space-y-1">
+                                        <span className="text-xs text-white/70">{t('alerts.minScore')}</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={100}
+                                            value={draft.conditions.minScore ?? ''}
+                                            onChange={(e) => updateConditions({
+                                                minScore: e.target.value === '' ? null : Math.min(100, Math.max(0, Number(e.target.value))),
+                                            })}
+                                            placeholder={t('alerts.any')}
+                                            className="w-full bg-background-dark border border-white/10 rounded-md px-2 py-1.5 text-white focus:outline-none focus:border-primary"
+                                        />
+                                    </label>
+                                    <label className="space-y-1">
+                                        <span className="text-xs text-white/70">{t('alerts.callsign')}</span>
+                                        <input
+                                            type="text"
+                                            value={draft.conditions.callsignPattern}
+                                            onChange={(e) => updateConditions({ callsignPattern: e.target.value })}
+                                            placeholder="ELY*, ISR*"
+                                            dir="ltr"
+                                            className="w-full bg-background-dark border border-white/10 rounded-md px-2 py-1.5 text-white font-mono focus:outline-none focus:border-primary"
+                                        />
+                                    </label>
+                                </div>
+
+                                <div className="flex items-center gap-2 text-xs">
+                                    <MapPin className="size-3.5 text-white/50" />
+                                    <span className="text-white/70">
+                                        {draft.conditions.area
+                                            ? t('alerts.areaSet', { count: draft.conditions.area.length })
+                                            : t('alerts.noArea')}
+                                    </span>
+                                    <button
+                                        onClick={() => onDrawArea(draft)}
+                                        className="ms-auto px-2 py-1 rounded bg-white/5 text-white/80 hover:bg-white/10"
+                                    >
+                                        {draft.conditions.area ? t('alerts.redrawArea') : t('alerts.drawArea')}
+                                    </button>
+                                    {draft.conditions.area && (
+                                        <button
+                                            onClick={() => updateConditions({ area: null })}
+                                            className="px-2 py-1 rounded bg-white/5 text-red-300 hover:bg-red-500/10"
+                                        >
+                                            {t('alerts.clearArea')}
+                                        </button>
+                                    )}
+                                </div>
+
+                                <label className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.conditions.emergencySquawk}
+                                        onChange={(e) => updateConditions({ emergencySquawk: e.target.checked })}
+                                        className="accent-primary"
+                                    />
+                                    {t('alerts.emergencySquawk')}
+                                </label>
+                            </div>
+
+                            {/* Notification */}
+                            <div className="space-y-3 rounded-lg border border-white/10 p-3">
+                                <p className="text-xs font-semibold text-white/50 uppercase tracking-wider">{t('alerts.notification')}</p>
+
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs text-white/70 w-24">{t('alerts.color')}</span>
+                                    {ALERT_COLORS.map(color => (
+                                        <button
+                                            key={color}
+                                            onClick={() => update({ color })}
+                                            className={clsx("size-5 rounded-full border-2", draft.color === color ? "border-white" : "border-transparent")}
+                                            style={{ backgroundColor: color }}
+                                        />
+                                    ))}
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs text-white/70 w-24">{t('alerts.sound')}</span>
+                                    <select
+                                        value={draft.sound}
+                                        onChange={(e) => update({ sound: e.target.value as AlertSound })}
+                                        className="bg-background-dark border border-white/10 rounded-md px-2 py-1 text-white text-xs focus:outline-none focus:border-primary"
+                                    >
+                                        {ALERT_SOUNDS.map(sound => (
+                                            <option key={sound} value={sound}>{t(`alerts.sounds.${sound}`)}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => playAlertSound(draft.sound)}
+                                        disabled={draft.sound === 'none'}
+                                        className="p-1 rounded text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-30"
+                                        title={t('alerts.testSound')}
+                                    >
+                                        <Volume2 className="size-4" />
+                                    </button>
+                                </div>
+
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs text-white/70 w-24">{t('alerts.cooldown')}</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={draft.cooldownSeconds}
+                                        onChange={(e) => update({ cooldownSeconds: Math.max(0, Number(e.target.value) || 0) })}
+                                        className="w-20 bg-background-dark border border-white/10 rounded-md px-2 py-1 text-white text-xs focus:outline-none focus:border-primary"
+                                    />
+                                    <span className="text-xs text-white/40">{t('alerts.seconds')}</span>
+                                </div>
+
+                                <label className="flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.notify}
+                                        onChange={(e) => void handleNotifyChange(e.target.checked)}
+                                        className="accent-primary"
+                                    />
+                                    {t('alerts.desktopNotification')}
+                                </label>
+                                {draft.notify && notifyDenied && (
+                                    <p className="text-[11px] text-amber-300">{t('alerts.notificationsBlocked')}</p>
+                                )}
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={handleDelete}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-red-300 hover:bg-red-500/10"
+                                >
+                                    <Trash2 className="size-3.5" />
+                                    {t('alerts.deleteRule')}
+                                </button>
+                                {isDirty && saved && (
+                                    <button
+                                        onClick={() => setDraft(saved)}
+                                        className="ms-auto px-3 py-1.5 rounded-lg text-xs text-white/70 hover:bg-white/10"
+                                    >
+                                        {t('alerts.discard')}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => saveAlertRule({ ...draft, name: draft.name.trim() || t('alerts.newRule') })}
+                                    disabled={!isDirty}
+                                    className={clsx(
+                                        "px-4 py-1.5 rounded-lg bg-primary text-background-dark text-xs font-bold hover:bg-primary/90 disabled:opacity-40",
+                                        !(isDirty && saved) && "ms-auto"
+                                    )}
+                                >
+                                    {t('alerts.save')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex-1 flex items-center justify-center text-sm text-white/50">
+                            {t('alerts.noRules')}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
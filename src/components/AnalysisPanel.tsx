@@ -1,13 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { X, FileText, Loader2, Info, Plane, MapPin, Gauge, Calendar } from 'lucide-react';
-import type { AnomalyReport, TrackPoint } from '../types';
-import { fetchTaggedFlightMetadata, fetchResearchFlightMetadata, type FlightMetadata } from '../api';
+import React, { useState, useEffect, forwardRef } from 'react';
+import { X, FileText, Loader2, Info, Plane, MapPin, Gauge, Calendar, ChevronDown, ShieldCheck, Eye } from 'lucide-react';
+import type { AnomalyReport, FlightTrack, TrackPoint } from '../types';
+import { fetchTaggedFlightMetadata, fetchResearchFlightMetadata, getErrorMessage, isAbortError, type FlightMetadata } from '../api';
 import type { ProcessedActions } from '../utils/aiActions';
+import { TRACK_ISSUE_KINDS, type TrackDiagnostics, type TrackIssueKind } from '../utils/trackDiagnostics';
 import clsx from 'clsx';
+import { useWatchlistMatcher } from '../watchlist';
 import { useLanguage } from '../contexts/LanguageContext';
 
 // Import the original ReportPanel content component
-import { ReportPanel } from './ReportPanel';
+import { ReportPanel, type ReportPanelHandle } from './ReportPanel';
 
 // ============================================================
 // Types
@@ -16,13 +18,101 @@ import { ReportPanel } from './ReportPanel';
 interface AnalysisPanelProps {
     anomaly: AnomalyReport | null;
     flightPoints: TrackPoint[];
+    /** Other aircraft of a proximity alert */
+    secondaryTrack?: FlightTrack | null;
+    /** Data-quality scan of flightPoints */
+    trackDiagnostics?: TrackDiagnostics | null;
     onClose: () => void;
     onAIActions: (actions: ProcessedActions) => void;
     onFlyTo?: (lat: number, lon: number, zoom?: number) => void;
     className?: string;
-    mode?: 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results';
+    mode?: 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results' | 'watchlist';
 }
 
+// ============================================================
+// Track Diagnostics Section
+// ============================================================
+
+const ISSUE_LABELS_HE: Record<TrackIssueKind, string> = {
+    gap: "פער זמן",
+    teleport: "קפיצת מיקום",
+    alt_spike: "קפיצת גובה",
+    alt_freeze: "גובה קפוא",
+    duplicate_ts: "חותמת זמן כפולה",
+    out_of_order: "נקודה לא בסדר",
+    heading_mismatch: "אי-התאמת כיוון",
+};
+
+// Longest list shown under an expanded issue kind
+const MAX_LISTED_ISSUES = 50;
+
+interface TrackDiagnosticsSectionProps {
+    diagnostics: TrackDiagnostics;
+    isHebrew: boolean;
+    onFlyTo?: (lat: number, lon: number, zoom?: number) => void;
+}
+
+const TrackDiagnosticsSection: React.FC<TrackDiagnosticsSectionProps> = ({ diagnostics, isHebrew, onFlyTo }) => {
+    const [expanded, setExpanded] = useState<TrackIssueKind | null>(null);
+    const total = diagnostics.issues.length;
+    const clean = Math.round(diagnostics.cleanRatio * 100);
+
+    return (
+        <div className="mb-6">
+            <h4 className="text-xs font-bold text-white/40 uppercase tracking-wider mb-3 flex items-center gap-2">
+                {isHebrew ? "אבחון איכות מסלול" : "Track Diagnostics"}
+                <span className={clsx(
+                    "ms-auto px-2 py-0.5 rounded normal-case tracking-normal font-medium",
+                    total === 0 ? "bg-green-500/20 text-green-400" : clean >= 95 ? "bg-yellow-500/20 text-yellow-400" : "bg-red-500/20 text-red-400"
+                )}>
+                    {isHebrew ? `${clean}% נקודות תקינות` : `${clean}% clean points`}
+                </span>
+            </h4>
+            <div className="bg-white/5 rounded-lg px-4">
+                {total === 0 ? (
+                    <div className="flex items-center gap-2 py-2 text-sm text-green-400">
+                        <ShieldCheck className="size-4" />
+                        {isHebrew ? "לא נמצאו בעיות נתונים" : "No data problems found"}
+                    </div>
+                ) : TRACK_ISSUE_KINDS.filter(kind => diagnostics.counts[kind.id] > 0).map(kind => {
+                    const issues = diagnostics.issues.filter(issue => issue.kind === kind.id);
+                    const isOpen = expanded === kind.id;
+                    return (
+                        <div key={kind.id} className="border-b border-white/5 last:border-0">
+                            <button
+                                onClick={() => setExpanded(isOpen ? null : kind.id)}
+                                className="w-full flex items-center gap-2 py-2 text-sm text-white/60 hover:text-white"
+                            >
+                                <span className="size-2.5 rounded-full border-2 shrink-0" style={{ borderColor: kind.color }} />
+                                <span>{isHebrew ? ISSUE_LABELS_HE[kind.id] : kind.label}</span>
+                                <span className="ms-auto text-white font-medium">{diagnostics.counts[kind.id]}</span>
+                                <ChevronDown className={clsx("size-3.5 transition-transform", !isOpen && "-rotate-90 rtl:rotate-90")} />
+                            </button>
+                            {isOpen && (
+                                <div className="pb-2 space-y-0.5" dir="ltr">
+                                    {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                                        <button
+                                            key={i}
+                                            onClick={() => onFlyTo?.(issue.lat, issue.lon, 12)}
+                                            className="w-full flex items-center gap-2 px-2 py-1 rounded text-xs hover:bg-white/5 text-left"
+                                        >
+                                            <span className="font-mono text-white/50">{new Date(issue.timestamp * 1000).toLocaleTimeString()}</span>
+                                            <span className="text-white/80 truncate">{issue.detail}</span>
+                                        </button>
+                                    ))}
+                                    {issues.length > MAX_LISTED_ISSUES && (
+                                        <div className="px-2 text-[10px] text-white/40">+{issues.length - MAX_LISTED_ISSUES}</div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
 // ============================================================
 // Flight Metadata Panel Component
 // ============================================================
@@ -30,10 +120,21 @@ interface AnalysisPanelProps {
 interface FlightMetadataPanelProps {
     metadata: FlightMetadata | null;
     loading: boolean;
+    error?: string | null;
     isHebrew: boolean;
+    diagnostics?: TrackDiagnostics | null;
+    onFlyTo?: (lat: number, lon: number, zoom?: number) => void;
 }
 
-const FlightMetadataPanel: React.FC<FlightMetadataPanelProps> = ({ metadata, loading, isHebrew }) => {
+const FlightMetadataPanel: React.FC<FlightMetadataPanelProps> = ({ metadata, loading, error, isHebrew, diagnostics, onFlyTo }) => {
+    // Metadata carries the registration, which flight lists usually lack
+    const matchWatchlist = useWatchlistMatcher();
+    const watched = metadata ? matchWatchlist({
+        callsign: metadata.callsign,
+        flightNumber: metadata.flight_number,
+        registration: metadata.aircraft_registration,
+    }) : undefined;
+
     if (loading) {
         return (
             <div className="flex items-center justify-center h-full">
@@ -42,13 +143,21 @@ const FlightMetadataPanel: React.FC<FlightMetadataPanelProps> = ({ metadata, loa
         );
     }
 
+    const diagnosticsSection = diagnostics && (
+        <TrackDiagnosticsSection diagnostics={diagnostics} isHebrew={isHebrew} onFlyTo={onFlyTo} />
+    );
+
     if (!metadata) {
         return (
             <div className="flex flex-col items-center justify-center h-full text-white/40 p-8">
+                {diagnosticsSection && <div className="w-full">{diagnosticsSection}</div>}
                 <Info className="size-12 mb-4" />
                 <p className="text-center">
                     {isHebrew ? "אין מידע זמין עבור טיסה זו" : "No metadata available for this flight"}
                 </p>
+                {error && (
+                    <p className="text-center text-xs text-red-400/80 mt-2 font-mono" dir="ltr">{error}</p>
+                )}
             </div>
         );
     }
@@ -91,6 +200,9 @@ const FlightMetadataPanel: React.FC<FlightMetadataPanelProps> = ({ metadata, loa
 
     return (
         <div className="h-full overflow-y-auto p-4 space-y-2">
+            {/* Client-side data-quality scan of the loaded track */}
+            {diagnosticsSection}
+
             {/* Flight Identity */}
             <Section title={isHebrew ? "זיהוי טיסה" : "Flight Identity"}>
                 <MetadataRow label={isHebrew ? "מזהה טיסה" : "Flight ID"} value={metadata.flight_id} />
@@ -100,6 +212,17 @@ const FlightMetadataPanel: React.FC<FlightMetadataPanelProps> = ({ metadata, loa
                 <MetadataRow label={isHebrew ? "סוג מטוס" : "Aircraft Type"} value={metadata.aircraft_type} />
                 <MetadataRow label={isHebrew ? "דגם" : "Model"} value={metadata.aircraft_model} />
                 <MetadataRow label={isHebrew ? "רישום" : "Registration"} value={metadata.aircraft_registration} />
+                {watched && (
+                    <MetadataRow
+                        label={isHebrew ? "רשימת מעקב" : "Watchlist"}
+                        icon={<Eye className="size-3" />}
+                        value={
+                            <span className="px-2 py-0.5 bg-amber-500/20 text-amber-300 rounded text-xs" title={watched.note || undefined}>
+                                {watched.pattern}
+                            </span>
+                        }
+                    />
+                )}
                 {metadata.is_military && (
                     <MetadataRow 
                         label={isHebrew ? "צבאי" : "Military"} 
@@ -191,56 +314,73 @@ const FlightMetadataPanel: React.FC<FlightMetadataPanelProps> = ({ metadata, loa
 // Main Component
 // ============================================================
 
-export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ 
+// The handle reaches the report tab's tagging controls (null on the Flight Info tab)
+export const AnalysisPanel = forwardRef<ReportPanelHandle, AnalysisPanelProps>(({ 
     anomaly,
-    flightPoints: _flightPoints,
+    flightPoints,
+    secondaryTrack,
+    trackDiagnostics,
     onClose,
     onAIActions: _onAIActions,
     onFlyTo,
     className,
     mode = 'historical' 
-}) => {
+}, ref) => {
     const [activeTab, setActiveTab] = useState<'report' | 'metadata'>('report');
     const [metadata, setMetadata] = useState<FlightMetadata | null>(null);
     const [loadingMetadata, setLoadingMetadata] = useState(false);
+    const [metadataError, setMetadataError] = useState<string | null>(null);
     const { isHebrew } = useLanguage();
 
     // Fetch metadata when anomaly changes - use appropriate endpoint based on mode
     useEffect(() => {
+        setMetadataError(null);
         if (anomaly?.flight_id) {
             setLoadingMetadata(true);
+            const controller = new AbortController();
+            const options = { signal: controller.signal };
             
             // Choose the appropriate fetch function based on mode
             const fetchMetadata = async () => {
                 // For research mode, try research endpoint first
                 if (mode === 'research') {
                     try {
-                        const data = await fetchResearchFlightMetadata(anomaly.flight_id);
+                        const data = await fetchResearchFlightMetadata(anomaly.flight_id, options);
                         return data;
-                    } catch {
+                    } catch (error) {
+                        if (isAbortError(error)) throw error;
                         // Fall back to tagged metadata if research fails
-                        return await fetchTaggedFlightMetadata(anomaly.flight_id);
+                        return await fetchTaggedFlightMetadata(anomaly.flight_id, options);
                     }
                 }
                 
                 // For feedback mode, use tagged endpoint
                 if (mode === 'feedback') {
-                    return await fetchTaggedFlightMetadata(anomaly.flight_id);
+                    return await fetchTaggedFlightMetadata(anomaly.flight_id, options);
                 }
                 
                 // For other modes (historical, realtime, rules, ai-results),
                 // try tagged first, then research as fallback
                 try {
-                    return await fetchTaggedFlightMetadata(anomaly.flight_id);
-                } catch {
-                    return await fetchResearchFlightMetadata(anomaly.flight_id);
+                    return await fetchTaggedFlightMetadata(anomaly.flight_id, options);
+                } catch (error) {
+                    if (isAbortError(error)) throw error;
+                    return await fetchResearchFlightMetadata(anomaly.flight_id, options);
                 }
             };
             
             fetchMetadata()
                 .then(data => setMetadata(data))
-                .catch(() => setMetadata(null))
-                .finally(() => setLoadingMetadata(false));
+                .catch(error => {
+                    if (isAbortError(error)) return;
+                    setMetadata(null);
+                    setMetadataError(getErrorMessage(error));
+                })
+                .finally(() => {
+                    if (!controller.signal.aborted) setLoadingMetadata(false);
+                });
+
+            return () => controller.abort();
         } else {
             setMetadata(null);
         }
@@ -308,31 +448,38 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
             <div className="flex-1 overflow-hidden">
                 {activeTab === 'report' ? (
                     // Report Tab - Use existing ReportPanel content
-                    <ReportPanelContent anomaly={anomaly} onClose={onClose} mode={mode} onFlyTo={onFlyTo} />
+                    <ReportPanelContent ref={ref} anomaly={anomaly} onClose={onClose} mode={mode} onFlyTo={onFlyTo} flightPoints={flightPoints} secondaryTrack={secondaryTrack} />
                 ) : (
                     // Flight Metadata Tab
-                    <FlightMetadataPanel metadata={metadata} loading={loadingMetadata} isHebrew={isHebrew} />
+                    <FlightMetadataPanel metadata={metadata} loading={loadingMetadata} error={metadataError} isHebrew={isHebrew} diagnostics={trackDiagnostics} onFlyTo={onFlyTo} />
                 )}
             </div>
         </aside>
     );
-};
+});
+
+AnalysisPanel.displayName = 'AnalysisPanel';
 
 // ============================================================
 // Report Panel Content (extracted from ReportPanel for embedding)
 // ============================================================
 
-const ReportPanelContent: React.FC<{ anomaly: AnomalyReport; onClose: () => void; mode?: 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results'; onFlyTo?: (lat: number, lon: number, zoom?: number) => void }> = ({ anomaly, onClose, mode, onFlyTo }) => {
+const ReportPanelContent = forwardRef<ReportPanelHandle, { anomaly: AnomalyReport; onClose: () => void; mode?: 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results' | 'watchlist'; onFlyTo?: (lat: number, lon: number, zoom?: number) => void; flightPoints: TrackPoint[]; secondaryTrack?: FlightTrack | null }>(({ anomaly, onClose, mode, onFlyTo, flightPoints, secondaryTrack }, ref) => {
     // This wraps the ReportPanel but removes its outer container for embedding
     return (
         <div className="h-full overflow-y-auto">
             <ReportPanel 
+                ref={ref}
                 anomaly={anomaly} 
                 onClose={onClose} 
                 className="!col-span-full !rounded-none !border-0 !animate-none"
                 mode={mode}
                 onFlyTo={onFlyTo}
+                flightPoints={flightPoints}
+                secondaryTrack={secondaryTrack}
             />
         </div>
     );
-};
+});
+
+ReportPanelContent.displayName = 'ReportPanelContent';
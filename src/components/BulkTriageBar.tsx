@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, RotateCcw, X } from 'lucide-react';
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { submitFeedback, getErrorMessage, isAbortError } from '../api';
+import type { AnomalyReport } from '../types';
+import { TAGGING_RULES } from '../utils/taggingRules';
+import { useLanguage } from '../contexts/LanguageContext';
+
+// Feedback requests in flight at once
+const BULK_CONCURRENCY = 3;
+
+interface BulkFeedback {
+    isAnomaly: boolean;
+    ruleIds: number[];
+    comments: string;
+}
+
+type FlightStatus = { state: 'pending' | 'submitting' | 'done' } | { state: 'failed'; error: string };
+
+interface BulkTriageBarProps {
+    selected: AnomalyReport[];
+    onClearSelection: () => void;
+    /** Called once per run with the flights whose feedback was saved, also when the run was aborted */
+    onSubmitted: (flightIds: string[], isAnomaly: boolean) => void;
+    /** Unmounting aborts a run, so the parent keeps the bar mounted while this is true */
+    onRunningChange: (running: boolean) => void;
+}
+
+export const BulkTriageBar: React.FC<BulkTriageBarProps> = ({ selected, onClearSelection, onSubmitted, onRunningChange }) => {
+    const { t } = useTranslation();
+    const { isHebrew } = useLanguage();
+    const [isAnomaly, setIsAnomaly] = useState(true);
+    const [ruleIds, setRuleIds] = useState<ReadonlySet<number>>(new Set());
+    const [comment, setComment] = useState('');
+    const [ruleError, setRuleError] = useState(false);
+    const [running, setRunning] = useState(false);
+    const [statuses, setStatuses] = useState<Record<string, FlightStatus>>({});
+    // Retries resend what the failed flights were submitted with
+    const lastFeedbackRef = useRef<BulkFeedback | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    useEffect(() => {
+        onRunningChange(running);
+        return () => onRunningChange(false);
+    }, [running, onRunningChange]);
+
+    const toggleRule = (id: number) => {
+        setRuleError(false);
+        setRuleIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const run = async (flightIds: string[], feedback: BulkFeedback) => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        lastFeedbackRef.current = feedback;
+        setRunning(true);
+        setStatuses(prev => {
+            const next = { ...prev };
+            flightIds.forEach(id => { next[id] = { state: 'pending' }; });
+            return next;
+        });
+
+        const succeeded: string[] = [];
+        const queue = [...flightIds];
+        const worker = async () => {
+            for (let flightId = queue.shift(); flightId && !controller.signal.aborted; flightId = queue.shift()) {
+                const id = flightId;
+                setStatuses(prev => ({ ...prev, [id]: { state: 'submitting' } }));
+                try {
+                    await submitFeedback({
+                        flightId: id,
+                        isAnomaly: feedback.isAnomaly,
+                        comments: feedback.comments,
+                        ruleIds: feedback.isAnomaly ? feedback.ruleIds : undefined,
+                    }, { signal: controller.signal });
+                    succeeded.push(id);
+                    setStatuses(prev => ({ ...prev, [id]: { state: 'done' } }));
+                } catch (error) {
+                    if (isAbortError(error)) return;
+                    setStatuses(prev => ({ ...prev, [id]: { state: 'failed', error: getErrorMessage(error) } }));
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, flightIds.length) }, worker));
+        // Flights saved before an abort still get their new label in the list
+        if (succeeded.length > 0) onSubmitted(succeeded, feedback.isAnomaly);
+        if (controller.signal.aborted) return;
+        setRunning(false);
+    };
+
+    const handleSubmit = () => {
+        if (isAnomaly && ruleIds.size === 0) {
+            setRuleError(true);
+            return;
+        }
+        setStatuses({});
+        void run(
+            Array.from(new Set(selected.map(a => a.flight_id))),
+            { isAnomaly, ruleIds: Array.from(ruleIds), comments: comment.trim() }
+        );
+    };
+
+    const failed = Object.entries(statuses).flatMap(([flightId, status]) =>
+        status.state === 'failed' ? [{ flightId, error: status.error }] : []);
+
+    const handleRetry = () => {
+        if (lastFeedbackRef.current) void run(failed.map(f => f.flightId), lastFeedbackRef.current);
+    };
+
+    const total = Object.keys(statuses).length;
+    const finished = Object.values(statuses).filter(s => s.state === 'done' || s.state === 'failed').length;
+    const callsigns = new Map(selected.map(a => [a.flight_id, a.callsign]));
+
+    return (
+        <div className="flex flex-col gap-2 p-3 rounded-lg bg-surface-highlight border border-primary/40 text-xs">
+            <div className="flex items-center gap-2">
+                <span className="font-bold text-white">{t('sidebar.bulk.selected', { count: selected.length })}</span>
+                <button
+                    onClick={onClearSelection}
+                    disabled={running}
+                    className="ms-auto p-1 rounded text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30"
+                    title={t('sidebar.bulk.clear')}
+                >
+                    <X className="size-3.5" />
+                </button>
+            </div>
+
+            <div className="flex gap-1 bg-background-dark rounded-md p-0.5">
+                <button
+                    onClick={() => setIsAnomaly(true)}
+                    className={clsx(
+                        "flex-1 flex items-center justify-center gap-1.5 py-1 rounded font-medium transition-colors",
+                        isAnomaly ? "bg-red-500/20 text-red-300" : "text-white/50 hover:text-white"
+                    )}
+                >
+                    <AlertTriangle className="size-3.5" />
+                    {t('sidebar.bulk.anomaly')}
+                </button>
+                <button
+                    onClick={() => setIsAnomaly(false)}
+                    className={clsx(
+                        "flex-1 flex items-center justify-center gap-1.5 py-1 rounded font-medium transition-colors",
+                        !isAnomaly ? "bg-green-500/20 text-green-300" : "text-white/50 hover:text-white"
+                    )}
+                >
+                    <CheckCircle className="size-3.5" />
+                    {t('sidebar.bulk.normal')}
+                </button>
+            </div>
+
+            {isAnomaly && (
+                <div className="flex flex-col gap-1">
+                    <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+                        {TAGGING_RULES.map(rule => (
+                            <button
+                                key={rule.id}
+                                onClick={() => toggleRule(rule.id)}
+                                title={rule.description}
+                                className={clsx(
+                                    "px-2 py-0.5 rounded-full border text-[11px] transition-colors",
+                                    ruleIds.has(rule.id)
+                                        ? "bg-primary/20 border-primary text-white"
+                                        : "border-white/10 text-white/60 hover:text-white hover:border-white/30"
+                                )}
+                            >
+                                {isHebrew ? rule.nameHe : rule.name}
+                            </button>
+                        ))}
+                    </div>
+                    {ruleError && <p className="text-red-400">{t('sidebar.bulk.ruleRequired')}</p>}
+                </div>
+            )}
+
+            <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder={t('sidebar.bulk.comment')}
+                className="bg-background-dark border border-white/10 rounded-md px-2 py-1.5 text-white placeholder-white/30 focus:outline-none focus:border-primary"
+            />
+
+            <button
+                onClick={handleSubmit}
+                disabled={running || selected.length === 0}
+                className="flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-primary text-background-dark font-bold hover:bg-primary/90 disabled:opacity-50"
+            >
+                {running && <Loader2 className="size-3.5 animate-spin" />}
+                {t('sidebar.bulk.submit', { count: selected.length })}
+            </button>
+
+            {total > 0 && (
+                <div className="flex flex-col gap-1">
+                    <div className="flex justify-between text-white/60">
+                        <span>{t('sidebar.bulk.progress', { done: finished, total })}</span>
+                        {failed.length > 0 && <span className="text-red-400">{t('sidebar.bulk.failed', { count: failed.length })}</span>}
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                        <div
+                            className={clsx("h-full transition-all", failed.length > 0 ? "bg-yellow-500" : "bg-primary")}
+                            style={{ width: `${(finished / total) * 100}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {!running && failed.length > 0 && (
+                <div className="flex flex-col gap-1">
+                    <ul className="max-h-24 overflow-y-auto flex flex-col gap-0.5">
+                        {failed.map(({ flightId, error }) => (
+                            <li key={flightId} className="flex gap-2 text-red-300" title={error}>
+                                <span className="font-mono shrink-0">{callsigns.get(flightId) || flightId}</span>
+                                <span className="truncate text-red-300/70">{error}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <button
+                        onClick={handleRetry}
+                        className="flex items-center justify-center gap-1.5 py-1 rounded-md border border-red-500/40 text-red-300 hover:bg-red-500/10"
+                    >
+                        <RotateCcw className="size-3.5" />
+                        {t('sidebar.bulk.retry', { count: failed.length })}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import maplibregl from 'maplibre-gl';
+import { Flame, X } from 'lucide-react';
+import clsx from 'clsx';
+import type { AnomalyReport } from '../types';
+import {
+    DAY_OVERVIEW_TRIGGERS, buildDayOverviewData, loadDayOverviewEnabled, saveDayOverviewEnabled,
+    type DayOverviewFeatureProps
+} from '../utils/dayOverview';
+
+interface DayOverviewControlProps {
+    map: maplibregl.Map | null;
+    /** The anomalies currently listed in the sidebar (already filtered) */
+    anomalies: AnomalyReport[];
+    onSelectFlight: (flightId: string) => void;
+    /** Layers are drawn below this layer (e.g. the flight track) when it exists */
+    beforeLayerId?: string;
+}
+
+const HEAT_SOURCE = 'day-overview-heat';
+const CLUSTER_SOURCE = 'day-overview';
+const HEATMAP_LAYER = 'day-overview-heatmap';
+const CLUSTER_LAYER = 'day-overview-clusters';
+const COUNT_LAYER = 'day-overview-count';
+const POINT_LAYER = 'day-overview-points';
+
+// Heatmap below this zoom, clusters and markers from CLUSTER_MIN_ZOOM; the two cross-fade in between
+const HEATMAP_MAX_ZOOM = 9;
+const CLUSTER_MIN_ZOOM = 7;
+const CLUSTER_LIST_LIMIT = 100;
+
+const EMPTY_DATA: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+const triggerColorExpression = (): maplibregl.ExpressionSpecification => [
+    'case',
+    ...DAY_OVERVIEW_TRIGGERS.flatMap(t => [['==', ['get', 'trigger'], t.id], t.color]),
+    '#9ca3af',
+] as maplibregl.ExpressionSpecification;
+
+// Clusters take the colour of the trigger with the most members
+const dominantTriggerColorExpression = (): maplibregl.ExpressionSpecification => [
+    'case',
+    ...DAY_OVERVIEW_TRIGGERS.flatMap(t => [
+        ['all', ...DAY_OVERVIEW_TRIGGERS.filter(o => o.id !== t.id).map(o => ['>=', ['get', t.id], ['get', o.id]])],
+        t.color,
+    ]),
+    '#9ca3af',
+] as maplibregl.ExpressionSpecification;
+
+const addDayOverviewLayers = (map: maplibregl.Map, beforeLayerId?: string) => {
+    if (map.getSource(CLUSTER_SOURCE)) return;
+    const before = beforeLayerId && map.getLayer(beforeLayerId) ? beforeLayerId : undefined;
+
+    map.addSource(HEAT_SOURCE, { type: 'geojson', data: EMPTY_DATA });
+    map.addSource(CLUSTER_SOURCE, {
+        type: 'geojson',
+        data: EMPTY_DATA,
+        cluster: true,
+        clusterRadius: 40,
+        clusterMaxZoom: 12,
+        // Per-trigger member counts, used to colour each cluster
+        clusterProperties: Object.fromEntries(DAY_OVERVIEW_TRIGGERS.map(t => [
+            t.id, ['+', ['case', ['==', ['get', 'trigger'], t.id], 1, 0]],
+        ])),
+    });
+
+    map.addLayer({
+        id: HEATMAP_LAYER,
+        type: 'heatmap',
+        source: HEAT_SOURCE,
+        maxzoom: HEATMAP_MAX_ZOOM,
+        paint: {
+            'heatmap-weight': ['interpolate', ['linear'], ['get', 'score'], 0, 0.2, 100, 1],
+            'heatmap-intensity': ['interpolate', ['linear'], ['zoom'], 4, 1, HEATMAP_MAX_ZOOM, 3],
+            'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 4, 12, HEATMAP_MAX_ZOOM, 30],
+            'heatmap-color': [
+                'interpolate', ['linear'], ['heatmap-density'],
+                0, 'rgba(0, 0, 0, 0)',
+                0.2, '#3b82f6',
+                0.4, '#22c55e',
+                0.6, '#eab308',
+                0.8, '#f97316',
+                1, '#ef4444',
+            ],
+            'heatmap-opacity': ['interpolate', ['linear'], ['zoom'], CLUSTER_MIN_ZOOM, 0.8, HEATMAP_MAX_ZOOM, 0],
+        },
+    }, before);
+
+    map.addLayer({
+        id: CLUSTER_LAYER,
+        type: 'circle',
+        source: CLUSTER_SOURCE,
+        minzoom: CLUSTER_MIN_ZOOM,
+        filter: ['has', 'point_count'],
+        paint: {
+            'circle-color': dominantTriggerColorExpression(),
+            'circle-radius': ['step', ['get', 'point_count'], 12, 5, 16, 20, 22],
+            'circle-opacity': 0.85,
+            'circle-stroke-width': 2,
+            'circle-stroke-color': '#0f172a',
+        },
+    }, before);
+
+    map.addLayer({
+        id: COUNT_LAYER,
+        type: 'symbol',
+        source: CLUSTER_SOURCE,
+        minzoom: CLUSTER_MIN_ZOOM,
+        filter: ['has', 'point_count'],
+        layout: {
+            'text-field': ['get', 'point_count_abbreviated'],
+            'text-size': 11,
+            'text-allow-overlap': true,
+        },
+        paint: {
+            'text-color': '#ffffff',
+            'text-halo-color': '#000000',
+            'text-halo-width': 1,
+        },
+    }, before);
+
+    map.addLayer({
+        id: POINT_LAYER,
+        type: 'circle',
+        source: CLUSTER_SOURCE,
+        minzoom: CLUSTER_MIN_ZOOM,
+        filter: ['!', ['has', 'point_count']],
+        paint: {
+            'circle-color': triggerColorExpression(),
+            'circle-radius': 6,
+            'circle-stroke-width': 2,
+            'circle-stroke-color': '#ffffff',
+        },
+    }, before);
+};
+
+const removeDayOverviewLayers = (map: maplibregl.Map) => {
+    [POINT_LAYER, COUNT_LAYER, CLUSTER_LAYER, HEATMAP_LAYER].forEach(layer => {
+        if (map.getLayer(layer)) map.removeLayer(layer);
+    });
+    [CLUSTER_SOURCE, HEAT_SOURCE].forEach(source => {
+        if (map.getSource(source)) map.removeSource(source);
+    });
+};
+
+// Built with DOM nodes so callsigns are never parsed as HTML
+const buildPopupContent = (props: DayOverviewFeatureProps): HTMLElement => {
+    const trigger = DAY_OVERVIEW_TRIGGERS.find(t => t.id === props.trigger);
+    const root = document.createElement('div');
+    root.className = 'text-gray-900 p-1 text-xs font-sans';
+
+    const title = document.createElement('div');
+    title.className = 'font-bold';
+    title.textContent = props.callsign || props.flight_id;
+    root.appendChild(title);
+
+    const detail = document.createElement('div');
+    detail.style.color = trigger?.color ?? '#6b7280';
+    detail.textContent = `${trigger?.label ?? props.trigger} · score ${Math.round(props.score)}`;
+    root.appendChild(detail);
+    return root;
+};
+
+export const DayOverviewControl: React.FC<DayOverviewControlProps> = ({ map, anomalies, onSelectFlight, beforeLayerId }) => {
+    const [enabled, setEnabled] = useState(loadDayOverviewEnabled);
+    const [cluster, setCluster] = useState<{ id: number; center: [number, number]; flights: DayOverviewFeatureProps[]; total: number } | null>(null);
+    // Map event handlers are bound once, so they read the latest callback from a ref
+    const onSelectFlightRef = useRef(onSelectFlight);
+    onSelectFlightRef.current = onSelectFlight;
+
+    const { data, unlocated } = useMemo(() => buildDayOverviewData(anomalies), [anomalies]);
+
+    const triggerCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        data.features.forEach(f => counts.set(f.properties.trigger, (counts.get(f.properties.trigger) ?? 0) + 1));
+        return counts;
+    }, [data]);
+
+    const toggle = () => {
+        const next = !enabled;
+        setEnabled(next);
+        saveDayOverviewEnabled(next);
+        if (!next) setCluster(null);
+    };
+
+    // Add or remove the layers
+    useEffect(() => {
+        if (!map) return;
+        if (enabled) addDayOverviewLayers(map, beforeLayerId);
+        else removeDayOverviewLayers(map);
+    }, [map, enabled, beforeLayerId]);
+
+    // Push the latest anomalies into both sources
+    useEffect(() => {
+        if (!map || !enabled) return;
+        (map.getSource(HEAT_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData(data);
+        (map.getSource(CLUSTER_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData(data);
+        setCluster(null);
+    }, [map, enabled, data]);
+
+    // Cluster and marker interaction
+    useEffect(() => {
+        if (!map || !enabled) return;
+        const popup = new maplibregl.Popup({ closeButton: false, closeOnClick: false });
+
+        const handleClusterClick = (e: maplibregl.MapLayerMouseEvent) => {
+            const feature = e.features?.[0];
+            const clusterId = feature?.properties?.cluster_id as number | undefined;
+            const total = feature?.properties?.point_count as number | undefined;
+            const source = map.getSource(CLUSTER_SOURCE) as maplibregl.GeoJSONSource | undefined;
+            if (clusterId === undefined || !source || feature?.geometry.type !== 'Point') return;
+            const center = feature.geometry.coordinates as [number, number];
+            source.getClusterLeaves(clusterId, CLUSTER_LIST_LIMIT, 0)
+                .then(leaves => {
+                    const flights = leaves
+                        .map(leaf => leaf.properties as DayOverviewFeatureProps)
+                        .sort((a, b) => b.score - a.score);
+                    setCluster({ id: clusterId, center, flights, total: total ?? flights.length });
+                })
+                .catch(err => console.error('Failed to read cluster members', err));
+        };
+        const handlePointClick = (e: maplibregl.MapLayerMouseEvent) => {
+            const props = e.features?.[0]?.properties as DayOverviewFeatureProps | undefined;
+            if (props) onSelectFlightRef.current(props.flight_id);
+        };
+        const handlePointEnter = (e: maplibregl.MapLayerMouseEvent) => {
+            const props = e.features?.[0]?.properties as DayOverviewFeatureProps | undefined;
+            map.getCanvas().style.cursor = 'pointer';
+            if (!props) return;
+            popup.setLngLat(e.lngLat).setDOMContent(buildPopupContent(props)).addTo(map);
+        };
+        const handleClusterEnter = () => {
+            map.getCanvas().style.cursor = 'pointer';
+        };
+        const handleLeave = () => {
+            map.getCanvas().style.cursor = '';
+            popup.remove();
+        };
+
+        map.on('click', CLUSTER_LAYER, handleClusterClick);
+        map.on('click', POINT_LAYER, handlePointClick);
+        map.on('mouseenter', CLUSTER_LAYER, handleClusterEnter);
+        map.on('mouseenter', POINT_LAYER, handlePointEnter);
+        map.on('mouseleave', CLUSTER_LAYER, handleLeave);
+        map.on('mouseleave', POINT_LAYER, handleLeave);
+        return () => {
+            map.off('click', CLUSTER_LAYER, handleClusterClick);
+            map.off('click', POINT_LAYER, handlePointClick);
+            map.off('mouseenter', CLUSTER_LAYER, handleClusterEnter);
+            map.off('mouseenter', POINT_LAYER, handlePointEnter);
+            map.off('mouseleave', CLUSTER_LAYER, handleLeave);
+            map.off('mouseleave', POINT_LAYER, handleLeave);
+            popup.remove();
+        };
+    }, [map, enabled]);
+
+    // Layers are owned by the map; drop them if the control unmounts first
+    useEffect(() => {
+        if (!map) return;
+        return () => {
+            if (map.getStyle()) removeDayOverviewLayers(map);
+        };
+    }, [map]);
+
+    const zoomToCluster = () => {
+        if (!map || !cluster) return;
+        const source = map.getSource(CLUSTER_SOURCE) as maplibregl.GeoJSONSource | undefined;
+        if (!source) return;
+        source.getClusterExpansionZoom(cluster.id)
+            .then(zoom => map.easeTo({ center: cluster.center, zoom }))
+            .catch(err => console.error('Failed to expand cluster', err));
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={toggle}
+                className={clsx(
+                    "px-3 py-2 rounded shadow text-xs font-medium opacity-90 transition-colors flex items-center gap-1.5 w-full",
+                    enabled ? 'bg-orange-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                )}
+                title="Show every listed anomaly of the day: heatmap when zoomed out, clusters when zoomed in"
+            >
+                <Flame className="w-3.5 h-3.5" />
+                <span>Day Overview</span>
+                {enabled && (
+                    <span className="bg-white/20 px-1.5 py-0.5 rounded text-[10px]">{data.features.length}</span>
+                )}
+            </button>
+
+            {/* Trigger legend */}
+            {enabled && (
+                <div className="mt-1 bg-gray-900/90 border border-gray-700 rounded-lg shadow-xl px-2 py-1.5 text-[10px] space-y-0.5">
+                    {DAY_OVERVIEW_TRIGGERS.filter(t => triggerCounts.has(t.id)).map(t => (
+                        <div key={t.id} className="flex items-center gap-1.5 text-gray-300">
+                            <span className="h-2 w-2 rounded-full shrink-0" style={{ background: t.color }} />
+                            <span className="flex-1">{t.label}</span>
+                            <span className="font-mono text-gray-400">{triggerCounts.get(t.id)}</span>
+                        </div>
+                    ))}
+                    {data.features.length === 0 && <div className="text-gray-500">No anomalies to show</div>}
+                    {unlocated > 0 && (
+                        <div className="text-gray-500" title="These reports carry no coordinates">
+                            {unlocated} without position
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Flights in the clicked cluster */}
+            {cluster && (
+                <div className="absolute right-full top-0 mr-2 w-64 bg-gray-900 border border-gray-700 rounded-lg shadow-xl z-50 text-xs">
+                    <div className="flex items-center justify-between px-2 py-1.5 border-b border-gray-700">
+                        <span className="font-semibold text-gray-300">
+                            {cluster.total} flight{cluster.total !== 1 ? 's' : ''}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button onClick={zoomToCluster} className="px-1.5 py-0.5 rounded text-sky-400 hover:bg-white/5">
+                                Zoom in
+                            </button>
+                            <button onClick={() => setCluster(null)} className="p-0.5 rounded text-gray-400 hover:text-white" title="Close">
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto p-1">
+                        {cluster.flights.map(flight => {
+                            const trigger = DAY_OVERVIEW_TRIGGERS.find(t => t.id === flight.trigger);
+                            return (
+                                <button
+                                    key={flight.flight_id}
+                                    onClick={() => {
+                                        onSelectFlight(flight.flight_id);
+                                        setCluster(null);
+                                    }}
+                                    className="w-full flex items-center gap-2 px-1.5 py-1 rounded hover:bg-white/5 text-left"
+                                >
+                                    <span className="h-2 w-2 rounded-full shrink-0" style={{ background: trigger?.color }} />
+                                    <span className="flex-1 truncate text-white">{flight.callsign || flight.flight_id}</span>
+                                    <span className="text-[10px] text-gray-400">{trigger?.label}</span>
+                                    <span className="font-mono text-gray-300">{Math.round(flight.score)}</span>
+                                </button>
+                            );
+                        })}
+                        {cluster.total > cluster.flights.length && (
+                            <div className="px-1.5 py-1 text-[10px] text-gray-500">
+                                Showing the first {cluster.flights.length}; zoom in to see the rest
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
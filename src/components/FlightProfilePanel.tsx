@@ -0,0 +1,301 @@
+import { useState, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { ChevronDown, ChevronUp, LineChart as LineChartIcon, X } from 'lucide-react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine, ReferenceDot } from 'recharts';
+import clsx from 'clsx';
+import type { TrackPoint } from '../types';
+import type { AIHighlightedSegment, MLAnomalyPoint } from './MapComponent';
+import { useLanguage } from '../contexts/LanguageContext';
+import { nearestPointIndex, verticalRate } from '../utils/trackMetrics';
+
+// ============================================================
+// Vertical profile (altitude / ground speed / vertical rate)
+// ============================================================
+
+interface FlightProfilePanelProps {
+    points: TrackPoint[];
+    anomalyTimestamps?: number[];
+    mlAnomalyPoints?: MLAnomalyPoint[];
+    /** Track point index under the chart cursor, null when the pointer leaves */
+    onHoverIndex?: (index: number | null) => void;
+    /** Range dragged on the chart, null when cleared */
+    onRangeChange?: (range: AIHighlightedSegment | null) => void;
+}
+
+export interface FlightProfilePanelHandle {
+    /** Move the chart cursor to a track point (e.g. when hovering the map) */
+    setCursor: (index: number | null) => void;
+}
+
+interface ProfileDatum {
+    index: number;
+    timestamp: number;
+    alt: number;
+    speed: number | null;
+    vrate: number | null;
+    anomalyAlt: number | null;
+}
+
+type Series = 'speed' | 'vrate';
+
+const COLORS = {
+    alt: '#3b82f6',
+    speed: '#10b981',
+    vrate: '#a855f7',
+    anomaly: '#ef4444',
+    ml: '#f59e0b',
+    cursor: '#fbbf24',
+    range: '#22d3ee',
+};
+
+const formatTime = (ts: number) =>
+    new Date(ts * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const FlightProfilePanel = forwardRef<FlightProfilePanelHandle, FlightProfilePanelProps>(({
+    points,
+    anomalyTimestamps = [],
+    mlAnomalyPoints = [],
+    onHoverIndex,
+    onRangeChange,
+}, ref) => {
+    const { isHebrew } = useLanguage();
+    const [collapsed, setCollapsed] = useState(false);
+    const [visibleSeries, setVisibleSeries] = useState<Record<Series, boolean>>({ speed: true, vrate: true });
+    const [cursorIndex, setCursorIndex] = useState<number | null>(null);
+    const [dragStart, setDragStart] = useState<number | null>(null);
+    const [dragEnd, setDragEnd] = useState<number | null>(null);
+    const [range, setRange] = useState<AIHighlightedSegment | null>(null);
+    const [trackedPoints, setTrackedPoints] = useState(points);
+
+    // A new track invalidates the cursor and any selected range
+    if (trackedPoints !== points) {
+        setTrackedPoints(points);
+        setCursorIndex(null);
+        setDragStart(null);
+        setDragEnd(null);
+        setRange(null);
+    }
+
+    useImperativeHandle(ref, () => ({
+        setCursor: (index: number | null) => setCursorIndex(index),
+    }), []);
+
+    const data = useMemo((): ProfileDatum[] => {
+        const anomalySet = new Set(anomalyTimestamps);
+        return points.map((p, i) => ({
+            index: i,
+            timestamp: p.timestamp,
+            alt: p.alt,
+            speed: p.gspeed ?? null,
+            vrate: verticalRate(points, i),
+            anomalyAlt: anomalySet.has(p.timestamp) ? p.alt : null,
+        }));
+    }, [points, anomalyTimestamps]);
+
+    // ML points carry their own timestamps; snap them onto the track
+    const mlMarkers = useMemo(() => {
+        if (points.length === 0) return [];
+        return mlAnomalyPoints.map(pt => {
+            const p = points[nearestPointIndex(points, pt.timestamp)];
+            return { ...pt, x: p.timestamp, y: p.alt };
+        });
+    }, [points, mlAnomalyPoints]);
+
+    const hasSpeed = useMemo(() => data.some(d => d.speed !== null), [data]);
+
+    if (points.length < 2) return null;
+
+    const finishDrag = () => {
+        if (dragStart !== null && dragEnd !== null && dragStart !== dragEnd) {
+            const next = {
+                startIndex: Math.min(dragStart, dragEnd),
+                endIndex: Math.max(dragStart, dragEnd),
+            };
+            setRange(next);
+            onRangeChange?.(next);
+        }
+        setDragStart(null);
+        setDragEnd(null);
+    };
+
+    const clearRange = () => {
+        setRange(null);
+        onRangeChange?.(null);
+    };
+
+    const toggleSeries = (series: Series) =>
+        setVisibleSeries(prev => ({ ...prev, [series]: !prev[series] }));
+
+    const seriesLabels: Record<'alt' | Series, string> = {
+        alt: isHebrew ? "גובה (רגל)" : "Altitude (ft)",
+        speed: isHebrew ? "מהירות קרקע (קשר)" : "Ground speed (kts)",
+        vrate: isHebrew ? "קצב אנכי (רגל/דקה)" : "Vertical rate (ft/min)",
+    };
+
+    const cursorPoint = cursorIndex !== null ? data[cursorIndex] : undefined;
+    const selection = dragStart !== null && dragEnd !== null
+        ? { startIndex: Math.min(dragStart, dragEnd), endIndex: Math.max(dragStart, dragEnd) }
+        : range;
+
+    return (
+        <div className="shrink-0 border-t border-white/10 bg-surface">
+            <div className="flex items-center gap-2 px-3 py-1.5">
+                <button
+                    onClick={() => setCollapsed(!collapsed)}
+                    className="flex items-center gap-2 text-xs font-bold text-white/80 hover:text-white"
+                >
+                    <LineChartIcon className="h-4 w-4 text-primary" />
+                    {isHebrew ? "פרופיל אנכי" : "Vertical Profile"}
+                    {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+
+                {!collapsed && (
+                    <div className="flex items-center gap-1.5 ms-auto text-[11px]">
+                        <span className="flex items-center gap-1 px-2 py-0.5 rounded text-white/70">
+                            <span className="h-2 w-2 rounded-full" style={{ background: COLORS.alt }} />
+                            {seriesLabels.alt}
+                        </span>
+                        {(['speed', 'vrate'] as Series[]).map(series => (
+                            <button
+                                key={series}
+                                onClick={() => toggleSeries(series)}
+                                disabled={series === 'speed' && !hasSpeed}
+                                className={clsx(
+                                    "flex items-center gap-1 px-2 py-0.5 rounded border transition-colors disabled:opacity-30",
+                                    visibleSeries[series]
+                                        ? "border-white/20 text-white/80 bg-white/5"
+                                        : "border-transparent text-white/40 hover:text-white/70"
+                                )}
+                            >
+                                <span className="h-2 w-2 rounded-full" style={{ background: COLORS[series] }} />
+                                {seriesLabels[series]}
+                            </button>
+                        ))}
+                        <span className="flex items-center gap-1 px-2 py-0.5 text-white/70">
+                            <span className="h-2 w-2 rounded-full" style={{ background: COLORS.anomaly }} />
+                            {isHebrew ? "חריגה" : "Anomaly"}
+                        </span>
+                        {mlMarkers.length > 0 && (
+                            <span className="flex items-center gap-1 px-2 py-0.5 text-white/70">
+                                <span className="h-2 w-2 rounded-full" style={{ background: COLORS.ml }} />
+                                ML
+                            </span>
+                        )}
+                        {range && (
+                            <button
+                                onClick={clearRange}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded border border-cyan-500/40 text-cyan-300 hover:bg-cyan-500/10"
+                                title={isHebrew ? "נקה טווח" : "Clear range"}
+                            >
+                                <span dir="ltr">{formatTime(data[range.startIndex].timestamp)}–{formatTime(data[range.endIndex].timestamp)}</span>
+                                <X className="h-3 w-3" />
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {!collapsed && (
+                <div className="h-44 px-1 pb-2 select-none" dir="ltr">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart
+                            data={data}
+                            margin={{ top: 5, right: 10, bottom: 0, left: 0 }}
+                            onMouseDown={(state: { activeTooltipIndex?: number } | null) => {
+                                if (state?.activeTooltipIndex === undefined) return;
+                                setDragStart(state.activeTooltipIndex);
+                                setDragEnd(state.activeTooltipIndex);
+                            }}
+                            onMouseMove={(state: { activeTooltipIndex?: number } | null) => {
+                                const index = state?.activeTooltipIndex;
+                                if (index === undefined) return;
+                                setCursorIndex(null);
+                                onHoverIndex?.(index);
+                                if (dragStart !== null) setDragEnd(index);
+                            }}
+                            onMouseUp={finishDrag}
+                            onMouseLeave={() => {
+                                onHoverIndex?.(null);
+                                finishDrag();
+                            }}
+                        >
+                            <CartesianGrid strokeDasharray="3 3" stroke="#ffffff15" />
+                            <XAxis
+                                dataKey="timestamp"
+                                type="number"
+                                domain={['dataMin', 'dataMax']}
+                                tickFormatter={formatTime}
+                                stroke="#ffffff60"
+                                tick={{ fontSize: 10 }}
+                            />
+                            <YAxis yAxisId="alt" stroke={COLORS.alt} tick={{ fontSize: 10 }} width={48} />
+                            <YAxis yAxisId="speed" orientation="right" stroke={COLORS.speed} tick={{ fontSize: 10 }} width={36} hide={!visibleSeries.speed || !hasSpeed} />
+                            <YAxis yAxisId="vrate" orientation="right" hide />
+                            <Tooltip
+                                contentStyle={{
+                                    backgroundColor: '#1a1a1a',
+                                    border: '1px solid #ffffff20',
+                                    borderRadius: '8px',
+                                    fontSize: 11
+                                }}
+                                labelFormatter={(ts: number) => new Date(ts * 1000).toLocaleTimeString()}
+                                formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+                            />
+
+                            {selection && (
+                                <ReferenceArea
+                                    yAxisId="alt"
+                                    x1={data[selection.startIndex].timestamp}
+                                    x2={data[selection.endIndex].timestamp}
+                                    fill={COLORS.range}
+                                    fillOpacity={0.15}
+                                    stroke={COLORS.range}
+                                    strokeOpacity={0.5}
+                                />
+                            )}
+                            {visibleSeries.vrate && (
+                                <ReferenceLine yAxisId="vrate" y={0} stroke={COLORS.vrate} strokeOpacity={0.3} />
+                            )}
+
+                            <Line yAxisId="alt" dataKey="alt" name={seriesLabels.alt} stroke={COLORS.alt} strokeWidth={2} dot={false} isAnimationActive={false} />
+                            {visibleSeries.speed && hasSpeed && (
+                                <Line yAxisId="speed" dataKey="speed" name={seriesLabels.speed} stroke={COLORS.speed} strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+                            )}
+                            {visibleSeries.vrate && (
+                                <Line yAxisId="vrate" dataKey="vrate" name={seriesLabels.vrate} stroke={COLORS.vrate} strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                            )}
+                            {/* Rule anomaly markers - dots only, nulls are skipped */}
+                            <Line
+                                yAxisId="alt"
+                                dataKey="anomalyAlt"
+                                stroke="none"
+                                dot={{ r: 2.5, fill: COLORS.anomaly, stroke: COLORS.anomaly }}
+                                activeDot={false}
+                                legendType="none"
+                                tooltipType="none"
+                                isAnimationActive={false}
+                            />
+
+                            {mlMarkers.map((m, i) => (
+                                <ReferenceDot
+                                    key={`${m.layer}-${m.timestamp}-${i}`}
+                                    yAxisId="alt"
+                                    x={m.x}
+                                    y={m.y}
+                                    r={5}
+                                    fill={COLORS.ml}
+                                    stroke="#ffffff"
+                                />
+                            ))}
+
+                            {cursorPoint && (
+                                <ReferenceLine yAxisId="alt" x={cursorPoint.timestamp} stroke={COLORS.cursor} strokeWidth={1.5} />
+                            )}
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+        </div>
+    );
+});
+
+FlightProfilePanel.displayName = 'FlightProfilePanel';
@@ -0,0 +1,266 @@
+import { useState, useMemo, useRef, useImperativeHandle, forwardRef } from 'react';
+import { Clock } from 'lucide-react';
+import type { FullReport, TrackPoint } from '../types';
+import type { MLAnomalyPoint } from './MapComponent';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getMatchedRules } from '../utils/reportSchema';
+import { nearestPointIndex } from '../utils/trackMetrics';
+import { GAP_THRESHOLD_S } from '../utils/trackColoring';
+
+// ============================================================
+// Timeline scrubber for the selected flight
+// ============================================================
+
+interface FlightTimelineProps {
+    points: TrackPoint[];
+    report?: FullReport;
+    mlAnomalyPoints?: MLAnomalyPoint[];
+    /** Track point index under the scrubber, null when the track changes */
+    onScrub?: (index: number | null) => void;
+}
+
+export interface FlightTimelineHandle {
+    /** Move the scrubber to a track point (e.g. an AI focus_time action) */
+    setIndex: (index: number | null) => void;
+}
+
+interface TimelineSpan {
+    start: number;
+    end: number;
+    label: string;
+}
+
+interface TimelineTick {
+    timestamp: number;
+    label: string;
+}
+
+const COLORS = {
+    rule: '#ef4444',
+    gap: '#6b7280',
+    ml: '#f59e0b',
+    cursor: '#fbbf24',
+};
+
+const formatTime = (ts: number) =>
+    new Date(ts * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatElapsed = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    return h > 0 ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m ${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+};
+
+/**
+ * Rule events as ticks (single timestamps) and spans (ranges), plus signal-loss
+ * gaps from the rule engine and from the track's own sampling.
+ */
+const buildTimelineMarks = (report: FullReport | undefined, points: TrackPoint[]) => {
+    const ruleTicks: TimelineTick[] = [];
+    const ruleSpans: TimelineSpan[] = [];
+    const gaps: TimelineSpan[] = [];
+
+    getMatchedRules(report).forEach(rule => {
+        const name = rule.name || `Rule ${rule.id}`;
+        const details = rule.details;
+
+        details?.events?.forEach(event => {
+            if (event.start_ts && event.end_ts) ruleSpans.push({ start: event.start_ts, end: event.end_ts, label: name });
+            else if (event.timestamp) ruleTicks.push({ timestamp: event.timestamp, label: name });
+        });
+        details?.gaps?.forEach(gap => {
+            if (gap.start_ts && gap.end_ts) gaps.push({ start: gap.start_ts, end: gap.end_ts, label: name });
+        });
+        if (rule.id === 7 && details?.takeoff_ts && details?.landing_ts) {
+            ruleSpans.push({ start: details.takeoff_ts, end: details.landing_ts, label: name });
+        }
+        if (rule.id === 11) {
+            details?.off_course_timestamps?.forEach(ts => ruleTicks.push({ timestamp: ts, label: name }));
+        }
+    });
+
+    for (let i = 1; i < points.length; i++) {
+        const dt = points[i].timestamp - points[i - 1].timestamp;
+        if (dt >= GAP_THRESHOLD_S) {
+            gaps.push({ start: points[i - 1].timestamp, end: points[i].timestamp, label: `${Math.round(dt)}s` });
+        }
+    }
+
+    return { ruleTicks, ruleSpans, gaps };
+};
+
+export const FlightTimeline = forwardRef<FlightTimelineHandle, FlightTimelineProps>(({
+    points,
+    report,
+    mlAnomalyPoints = [],
+    onScrub,
+}, ref) => {
+    const { isHebrew } = useLanguage();
+    const [index, setIndex] = useState<number | null>(null);
+    const [trackedPoints, setTrackedPoints] = useState(points);
+    const barRef = useRef<HTMLDivElement>(null);
+    const draggingRef = useRef(false);
+    // The handle is created once, so it reads the latest callback from a ref
+    const onScrubRef = useRef(onScrub);
+    onScrubRef.current = onScrub;
+
+    // A new track resets the scrubber
+    if (trackedPoints !== points) {
+        setTrackedPoints(points);
+        setIndex(null);
+    }
+
+    const scrubTo = (next: number | null) => {
+        setIndex(next);
+        onScrubRef.current?.(next);
+    };
+
+    useImperativeHandle(ref, () => ({
+        setIndex: (next: number | null) => scrubTo(next),
+    }), []);
+
+    const marks = useMemo(() => buildTimelineMarks(report, points), [report, points]);
+
+    if (points.length < 2) return null;
+
+    const start = points[0].timestamp;
+    const end = points[points.length - 1].timestamp;
+    const duration = Math.max(1, end - start);
+    const toPercent = (ts: number) => `${Math.min(100, Math.max(0, ((ts - start) / duration) * 100))}%`;
+    const toWidth = (a: number, b: number) => `${Math.max(0.3, (Math.min(b, end) - Math.max(a, start)) / duration * 100)}%`;
+
+    const scrubToClientX = (clientX: number) => {
+        const rect = barRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return;
+        const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+        scrubTo(nearestPointIndex(points, start + fraction * duration));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = e.shiftKey ? 10 : 1;
+        const current = index ?? 0;
+        if (e.key === 'ArrowRight') scrubTo(Math.min(points.length - 1, current + step));
+        else if (e.key === 'ArrowLeft') scrubTo(Math.max(0, current - step));
+        else if (e.key === 'Home') scrubTo(0);
+        else if (e.key === 'End') scrubTo(points.length - 1);
+        else return;
+        e.preventDefault();
+    };
+
+    const current = index !== null ? points[index] : undefined;
+
+    return (
+        <div className="shrink-0 border-t border-white/10 bg-surface px-3 py-1.5 select-none">
+            <div className="flex items-center gap-3 text-[11px]">
+                <span className="flex items-center gap-1.5 font-bold text-white/80 shrink-0">
+                    <Clock className="h-4 w-4 text-primary" />
+                    {isHebrew ? "ציר זמן" : "Timeline"}
+                </span>
+                <span className="font-mono text-white/50 shrink-0" dir="ltr">{formatTime(start)}</span>
+
+                <div
+                    ref={barRef}
+                    role="slider"
+                    tabIndex={0}
+                    aria-label={isHebrew ? "ציר זמן הטיסה" : "Flight timeline"}
+                    aria-valuemin={start}
+                    aria-valuemax={end}
+                    aria-valuenow={current?.timestamp ?? start}
+                    aria-valuetext={current ? formatTime(current.timestamp) : undefined}
+                    dir="ltr"
+                    className="relative flex-1 h-7 cursor-pointer focus:outline-none focus-visible:ring-1 focus-visible:ring-primary rounded"
+                    onPointerDown={(e) => {
+                        draggingRef.current = true;
+                        e.currentTarget.setPointerCapture(e.pointerId);
+                        scrubToClientX(e.clientX);
+                    }}
+                    onPointerMove={(e) => {
+                        if (draggingRef.current) scrubToClientX(e.clientX);
+                    }}
+                    onPointerUp={(e) => {
+                        draggingRef.current = false;
+                        e.currentTarget.releasePointerCapture(e.pointerId);
+                    }}
+                    onKeyDown={handleKeyDown}
+                >
+                    {/* Track */}
+                    <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 rounded bg-white/10" />
+
+                    {/* Signal loss */}
+                    {marks.gaps.map((gap, i) => (
+                        <div
+                            key={`gap-${i}`}
+                            className="absolute top-1/2 -translate-y-1/2 h-2 opacity-70"
+                            style={{
+                                left: toPercent(gap.start),
+                                width: toWidth(gap.start, gap.end),
+                                background: `repeating-linear-gradient(45deg, ${COLORS.gap}, ${COLORS.gap} 2px, transparent 2px, transparent 4px)`,
+                            }}
+                            title={`${isHebrew ? "אובדן אות" : "Signal loss"}: ${formatTime(gap.start)}–${formatTime(gap.end)} (${gap.label})`}
+                        />
+                    ))}
+
+                    {/* Rule event ranges and ticks */}
+                    {marks.ruleSpans.map((span, i) => (
+                        <div
+                            key={`span-${i}`}
+                            className="absolute top-1/2 -translate-y-1/2 h-2 rounded-sm opacity-50"
+                            style={{ left: toPercent(span.start), width: toWidth(span.start, span.end), background: COLORS.rule }}
+                            title={`${span.label}: ${formatTime(span.start)}–${formatTime(span.end)}`}
+                        />
+                    ))}
+                    {marks.ruleTicks.map((tick, i) => (
+                        <div
+                            key={`tick-${i}`}
+                            className="absolute top-0.5 bottom-0.5 w-0.5 -translate-x-1/2 rounded"
+                            style={{ left: toPercent(tick.timestamp), background: COLORS.rule }}
+                            title={`${tick.label}: ${formatTime(tick.timestamp)}`}
+                        />
+                    ))}
+
+                    {/* ML anomaly points */}
+                    {mlAnomalyPoints.map((pt, i) => (
+                        <div
+                            key={`ml-${i}`}
+                            className="absolute top-0 h-1.5 w-1.5 -translate-x-1/2 rounded-full"
+                            style={{ left: toPercent(pt.timestamp), background: COLORS.ml }}
+                            title={`${pt.layer}: ${formatTime(pt.timestamp)} (${pt.point_score.toFixed(3)})`}
+                        />
+                    ))}
+
+                    {/* Scrubber */}
+                    {current && (
+                        <div
+                            className="absolute inset-y-0 -translate-x-1/2 pointer-events-none flex flex-col items-center"
+                            style={{ left: toPercent(current.timestamp) }}
+                        >
+                            <div className="w-0.5 flex-1" style={{ background: COLORS.cursor }} />
+                            <div className="absolute top-1/2 -translate-y-1/2 h-3.5 w-3.5 rounded-full border-2 border-white" style={{ background: COLORS.cursor }} />
+                        </div>
+                    )}
+                </div>
+
+                <span className="font-mono text-white/50 shrink-0" dir="ltr">{formatTime(end)}</span>
+
+                {/* Current position */}
+                <div className="flex items-center gap-2 shrink-0 font-mono text-white/80 min-w-[220px]" dir="ltr">
+                    {current ? (
+                        <>
+                            <span className="text-amber-300">{formatTime(current.timestamp)}</span>
+                            <span className="text-white/40">+{formatElapsed(current.timestamp - start)}</span>
+                            <span>{Math.round(current.alt)} ft</span>
+                            {typeof current.gspeed === 'number' && <span>{Math.round(current.gspeed)} kts</span>}
+                            {typeof current.track === 'number' && <span>{Math.round(current.track)}°</span>}
+                        </>
+                    ) : (
+                        <span className="font-sans text-white/40">
+                            {isHebrew ? "גרור כדי לנוע לאורך הטיסה" : "Drag to move along the flight"}
+                        </span>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+});
+
+FlightTimeline.displayName = 'FlightTimeline';
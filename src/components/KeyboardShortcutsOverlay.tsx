@@ -0,0 +1,71 @@
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useLanguage } from '../contexts/LanguageContext';
+import { SHORTCUT_GROUPS, getShortcutRule, useShortcutBindings, type ShortcutAction } from '../keyboardShortcuts';
+
+interface KeyboardShortcutsOverlayProps {
+    onClose: () => void;
+}
+
+/** Label of a shortcut action; rule actions are named after their tagging rule */
+export const useShortcutLabel = () => {
+    const { t } = useTranslation();
+    const { isHebrew } = useLanguage();
+    return (action: ShortcutAction) => {
+        const rule = getShortcutRule(action);
+        return rule
+            ? t('shortcuts.actions.rule', { name: isHebrew ? rule.nameHe : rule.name })
+            : t(`shortcuts.actions.${action}`);
+    };
+};
+
+export const KeyboardShortcutsOverlay: React.FC<KeyboardShortcutsOverlayProps> = ({ onClose }) => {
+    const { t } = useTranslation();
+    const bindings = useShortcutBindings();
+    const getLabel = useShortcutLabel();
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+        >
+            <div
+                className="bg-surface border border-white/10 rounded-xl p-6 w-[560px] max-h-[85vh] overflow-y-auto shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+                        <Keyboard className="size-5 text-primary" />
+                        {t('shortcuts.title')}
+                    </h2>
+                    <button onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+                        <X className="size-5" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-x-6 gap-y-4">
+                    {SHORTCUT_GROUPS.map(group => (
+                        <div key={group.id} className={group.id === 'tagging' ? "row-span-2" : undefined}>
+                            <h3 className="text-xs font-semibold text-white/50 uppercase tracking-wider mb-2">
+                                {t(`shortcuts.groups.${group.id}`)}
+                            </h3>
+                            <ul className="space-y-1.5">
+                                {group.actions.map(action => (
+                                    <li key={action} className="flex items-center justify-between gap-3 text-sm text-white/80">
+                                        <span className="truncate">{getLabel(action)}</span>
+                                        <kbd className="shrink-0 min-w-[1.75rem] text-center px-1.5 py-0.5 rounded border border-white/20 bg-white/5 font-mono text-xs text-white">
+                                            {bindings[action]}
+                                        </kbd>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+
+                <p className="mt-5 text-xs text-white/40">{t('shortcuts.hint')}</p>
+            </div>
+        </div>
+    );
+};
@@ -1,8 +1,13 @@
 import { useEffect, useRef, useState, useImperativeHandle, forwardRef, useMemo } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import type { TrackPoint } from '../types';
+import type { AnomalyReport, TrackPoint } from '../types';
 import { fetchLearnedLayers, type LearnedLayers, fetchUnionTubes, type UnionTubesResponse } from '../api';
+import { AirspaceOverlayControl } from './AirspaceOverlayControl';
+import { DayOverviewControl } from './DayOverviewControl';
+import { TRACK_ISSUE_KINDS, type TrackIssue } from '../utils/trackDiagnostics';
+import { TRACK_COLOR_MODES, GAP_THRESHOLD_S, buildTrackColoring, loadTrackColorMode, saveTrackColorMode, type TrackColorMode } from '../utils/trackColoring';
 
 // Fix for Hebrew text rendering (RTL)
 try {
@@ -44,6 +49,40 @@ export interface MLAnomalyPoint {
     layer: string;  // e.g., 'Deep Dense', 'CNN', 'Transformer', 'Hybrid'
 }
 
+// Pinned flight drawn alongside the selected one
+export interface PinnedTrackOverlay {
+    flightId: string;
+    label: string;
+    color: string;
+    points: TrackPoint[];
+    /** Empty when anomaly markers are switched off for this flight */
+    anomalyTimestamps: number[];
+}
+
+// Both aircraft positions at a proximity event's closest point of approach
+export interface CpaMarker {
+    primary: { lat: number; lon: number };
+    other: { lat: number; lon: number };
+    label: string;
+    /** The event currently shown in the CPA panel */
+    selected?: boolean;
+}
+
+// Area condition of an alert rule, as [lon, lat] vertices
+export interface AlertAreaOverlay {
+    id: string;
+    label: string;
+    color: string;
+    area: [number, number][];
+}
+
+// Request to draw a polygon on the map (alert rule areas)
+export interface AreaDrawRequest {
+    color: string;
+    onComplete: (area: [number, number][]) => void;
+    onCancel: () => void;
+}
+
 interface MapComponentProps {
   points: TrackPoint[];
   secondaryPoints?: TrackPoint[];
@@ -54,6 +93,20 @@ interface MapComponentProps {
   onClearAIHighlights?: () => void;
   currentFlightOrigin?: string;
   currentFlightDestination?: string;
+  /** Called with the index of the hovered track point, null when the pointer leaves the track */
+  onTrackHover?: (index: number | null) => void;
+  pinnedTracks?: PinnedTrackOverlay[];
+  /** Anomalies of the selected day for the day overview layer (shown only with onSelectDayAnomaly) */
+  dayAnomalies?: AnomalyReport[];
+  onSelectDayAnomaly?: (flightId: string) => void;
+  /** Data-quality problems found in the primary track */
+  qualityIssues?: TrackIssue[];
+  /** Closest-approach links for the proximity events */
+  cpaMarkers?: CpaMarker[];
+  /** Alert rule areas, outlined in their rule's colour */
+  alertAreas?: AlertAreaOverlay[];
+  /** While set, clicks on the map draw a polygon instead */
+  drawArea?: AreaDrawRequest | null;
 }
 
 export interface MapComponentHandle {
@@ -64,8 +117,23 @@ export interface MapComponentHandle {
     highlightSegment: (startIndex: number, endIndex: number) => void;
     clearHighlights: () => void;
     captureScreenshot: () => Promise<string | null>;
+    /** Show the profile cursor at a track point index (null hides it) */
+    setTrackCursor: (index: number | null) => void;
+    /** Highlight a range of track points without moving the camera (null clears it) */
+    setTrackRange: (range: AIHighlightedSegment | null) => void;
+    /** Place the timeline's aircraft marker at a track point index (null removes it) */
+    setAircraftPosition: (index: number | null) => void;
 }
 
+// Feature labels can come from shared links, so they are escaped before going into popup HTML
+const escapeHtml = (value: unknown) =>
+    String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
 // ============================================================
 // Haversine distance calculation (returns km)
 // ============================================================
@@ -81,26 +149,54 @@ const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: numbe
     return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 };
 
+// Aircraft icon for the timeline marker, pointing north before rotation
+const AIRCRAFT_ICON_SVG = `
+  <svg width="26" height="26" viewBox="0 0 24 24" style="filter: drop-shadow(0 0 2px rgba(0,0,0,0.8))">
+    <path d="M12 2c.8 0 1.3.9 1.3 2v5.2l7.7 4.6v2l-7.7-2.4v4.8l2.2 1.7V21L12 20l-3.5 1v-1.1l2.2-1.7v-4.8L3 15.8v-2l7.7-4.6V4c0-1.1.5-2 1.3-2z" fill="#fbbf24" stroke="#ffffff" stroke-width="1"/>
+  </svg>
+`;
+
+// Stable defaults so optional layers do not rebuild their data on every render
+const EMPTY_POINTS: TrackPoint[] = [];
+const EMPTY_TIMESTAMPS: number[] = [];
+const EMPTY_ML_POINTS: MLAnomalyPoint[] = [];
+const EMPTY_PINNED_TRACKS: PinnedTrackOverlay[] = [];
+const EMPTY_DAY_ANOMALIES: AnomalyReport[] = [];
+const EMPTY_QUALITY_ISSUES: TrackIssue[] = [];
+const EMPTY_CPA_MARKERS: CpaMarker[] = [];
+const EMPTY_ALERT_AREAS: AlertAreaOverlay[] = [];
+
 // ============================================================
 // Component Implementation
 // ============================================================
 
 export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({ 
     points, 
-    secondaryPoints = [], 
-    anomalyTimestamps = [],
-    mlAnomalyPoints = [],
+    secondaryPoints = EMPTY_POINTS, 
+    anomalyTimestamps = EMPTY_TIMESTAMPS,
+    mlAnomalyPoints = EMPTY_ML_POINTS,
     aiHighlightedPoint,
     aiHighlightedSegment,
     onClearAIHighlights,
     currentFlightOrigin,
-    currentFlightDestination
+    currentFlightDestination,
+    onTrackHover,
+    pinnedTracks = EMPTY_PINNED_TRACKS,
+    dayAnomalies = EMPTY_DAY_ANOMALIES,
+    onSelectDayAnomaly,
+    qualityIssues = EMPTY_QUALITY_ISSUES,
+    cpaMarkers = EMPTY_CPA_MARKERS,
+    alertAreas = EMPTY_ALERT_AREAS,
+    drawArea = null
 }, ref) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const aiMarkerRef = useRef<maplibregl.Marker | null>(null);
   const mlMarkersRef = useRef<maplibregl.Marker[]>([]);
-  const apiKey = 'r7kaQpfNDVZdaVp23F1r';
+  const aircraftMarkerRef = useRef<{ marker: maplibregl.Marker; icon: HTMLElement; label: HTMLElement } | null>(null);
+  // Map event handlers are bound once on load, so they read the latest callback from a ref
+  const onTrackHoverRef = useRef(onTrackHover);
+  onTrackHoverRef.current = onTrackHover;
 
   const [learnedLayers, setLearnedLayers] = useState<LearnedLayers | null>(null);
   const [unionTubes, setUnionTubes] = useState<UnionTubesResponse | null>(null);
@@ -111,6 +207,8 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
   const [showTubes, setShowTubes] = useState(false);
   const [showUnionTubes, setShowUnionTubes] = useState(false);
   const [showMLPoints, setShowMLPoints] = useState(true);
+  const [showQualityIssues, setShowQualityIssues] = useState(true);
+  const [trackColorMode, setTrackColorMode] = useState<TrackColorMode>(loadTrackColorMode);
   const [selectedPathCluster, setSelectedPathCluster] = useState<string>('all');
   const [showPathSelector, setShowPathSelector] = useState(false);
   const [selectedTubeCluster, setSelectedTubeCluster] = useState<string>('all');
@@ -132,6 +230,18 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
   const measureMarkersRef = useRef<maplibregl.Marker[]>([]);
   const measureActiveRef = useRef(false);
 
+  // Alert area drawing - corners as [lng, lat]
+  const [draftArea, setDraftArea] = useState<[number, number][]>([]);
+  const draftAreaRef = useRef(draftArea);
+  draftAreaRef.current = draftArea;
+  const drawAreaRef = useRef(drawArea);
+  drawAreaRef.current = drawArea;
+
+  const trackColoring = useMemo(
+    () => buildTrackColoring(trackColorMode, points, secondaryPoints, { anomalyTimestamps, mlAnomalyPoints }),
+    [trackColorMode, points, secondaryPoints, anomalyTimestamps, mlAnomalyPoints]
+  );
+
   // Calculate total valid paths (backend already filters these)
   const totalValidPaths = useMemo(() => {
     if (!learnedLayers?.paths) return 0;
@@ -465,6 +575,74 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
                 source.setData({ type: 'FeatureCollection', features: [] });
             }
         }
+    },
+
+    setTrackCursor: (index: number | null) => {
+        const source = map.current?.getSource('track-cursor') as maplibregl.GeoJSONSource | undefined;
+        if (!source) return;
+
+        const p = index !== null ? points[index] : undefined;
+        source.setData({
+            type: 'FeatureCollection',
+            features: p ? [{
+                type: 'Feature',
+                properties: {},
+                geometry: { type: 'Point', coordinates: [p.lon, p.lat] }
+            }] : []
+        });
+    },
+
+    setTrackRange: (range: AIHighlightedSegment | null) => {
+        const source = map.current?.getSource('track-range') as maplibregl.GeoJSONSource | undefined;
+        if (!source) return;
+
+        const segmentPoints = range ? points.slice(Math.max(0, range.startIndex), range.endIndex + 1) : [];
+        source.setData({
+            type: 'FeatureCollection',
+            features: segmentPoints.length > 1 ? [{
+                type: 'Feature',
+                properties: {},
+                geometry: {
+                    type: 'LineString',
+                    coordinates: segmentPoints.map(p => [p.lon, p.lat])
+                }
+            }] : []
+        });
+    },
+
+    setAircraftPosition: (index: number | null) => {
+        const p = index !== null ? points[index] : undefined;
+        if (!map.current || !p) {
+            aircraftMarkerRef.current?.marker.remove();
+            aircraftMarkerRef.current = null;
+            return;
+        }
+
+        if (!aircraftMarkerRef.current) {
+            const el = document.createElement('div');
+            el.className = 'relative pointer-events-none';
+            const icon = document.createElement('div');
+            icon.innerHTML = AIRCRAFT_ICON_SVG;
+            const label = document.createElement('div');
+            label.className = 'absolute left-1/2 top-full mt-1 -translate-x-1/2 whitespace-nowrap rounded bg-black/75 px-1.5 py-0.5 text-[10px] font-mono text-white';
+            el.append(icon, label);
+            const marker = new maplibregl.Marker({ element: el }).setLngLat([p.lon, p.lat]).addTo(map.current);
+            aircraftMarkerRef.current = { marker, icon, label };
+        }
+
+        const { marker, icon, label } = aircraftMarkerRef.current;
+        marker.setLngLat([p.lon, p.lat]);
+        icon.style.transform = `rotate(${p.track ?? 0}deg)`;
+        label.textContent = [
+            `${Math.round(p.alt)} ft`,
+            typeof p.gspeed === 'number' ? `${Math.round(p.gspeed)} kts` : null,
+            typeof p.track === 'number' ? `${Math.round(p.track)}°` : null,
+        ].filter(Boolean).join(' · ');
+
+        // Follow the aircraft once it leaves the visible area
+        if (!map.current.getBounds().contains([p.lon, p.lat])) {
+            map.current.panTo([p.lon, p.lat], { duration: 300 });
+        }
     }
   }), [points]);
 
@@ -499,12 +677,13 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: `https://api.maptiler.com/maps/darkmatter/style.json?key=${apiKey}`,
+      style: getBasemapStyle(),
       center: [34.8516, 31.0461], // Israel center
       zoom: 6,
       // @ts-expect-error - preserveDrawingBuffer is a valid WebGL option for screenshot capture
       preserveDrawingBuffer: true
     });
+    attachBasemap(map.current);
 
     map.current.on('load', () => {
       if (!map.current) return;
@@ -531,6 +710,44 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
         },
       });
 
+      // Pinned flights (below the selected flight)
+      map.current.addSource('pinned-tracks', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'pinned-tracks-line',
+        type: 'line',
+        source: 'pinned-tracks',
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round'
+        },
+        paint: {
+          'line-color': ['get', 'color'],
+          'line-width': 3,
+          'line-opacity': 0.85
+        }
+      }, 'route-line');
+
+      map.current.addSource('pinned-anomalies', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'pinned-anomalies-points',
+        type: 'circle',
+        source: 'pinned-anomalies',
+        paint: {
+          'circle-radius': 4,
+          'circle-color': '#ef4444',
+          'circle-stroke-width': 2,
+          'circle-stroke-color': ['get', 'color']
+        }
+      }, 'route-line');
+
       // Secondary Route (Proximity)
       map.current.addSource('secondary-route', {
         type: 'geojson',
@@ -546,7 +763,8 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
           'line-cap': 'round'
         },
         paint: {
-          'line-color': '#fb923c', // Orange-400
+          // Per-segment colour when a track colouring mode applies, otherwise Orange-400
+          'line-color': ['coalesce', ['get', 'color'], '#fb923c'],
           'line-width': 3,
           'line-dasharray': [2, 2]
         },
@@ -628,6 +846,93 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
         }
       }, 'ai-highlight-segment-line'); // Insert below the main line
 
+      // Vertical profile range + cursor (driven by FlightProfilePanel)
+      map.current.addSource('track-range', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'track-range-line',
+        type: 'line',
+        source: 'track-range',
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round'
+        },
+        paint: {
+          'line-color': '#22d3ee', // Cyan-400
+          'line-width': 7,
+          'line-opacity': 0.7
+        }
+      }, 'route-points');
+
+      map.current.addSource('track-cursor', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'track-cursor-point',
+        type: 'circle',
+        source: 'track-cursor',
+        paint: {
+          'circle-radius': 7,
+          'circle-color': '#fbbf24',
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+
+      // Data-quality issues - rings so they don't hide anomaly markers
+      map.current.addSource('quality-issues', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'quality-issues-points',
+        type: 'circle',
+        source: 'quality-issues',
+        paint: {
+          'circle-radius': 9,
+          'circle-color': 'rgba(0, 0, 0, 0)',
+          'circle-stroke-width': 2.5,
+          'circle-stroke-color': ['get', 'color']
+        }
+      }, 'track-cursor-point');
+
+      // Closest point of approach - a link between both aircraft positions
+      map.current.addSource('cpa-links', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'cpa-links-line',
+        type: 'line',
+        source: 'cpa-links',
+        filter: ['==', ['geometry-type'], 'LineString'],
+        paint: {
+          'line-color': '#f43f5e',
+          'line-width': ['case', ['get', 'selected'], 3, 1.5],
+          'line-dasharray': [2, 1]
+        }
+      }, 'track-cursor-point');
+
+      map.current.addLayer({
+        id: 'cpa-links-points',
+        type: 'circle',
+        source: 'cpa-links',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': ['case', ['get', 'selected'], 7, 5],
+          'circle-color': ['match', ['get', 'role'], 'other', '#fb923c', '#f43f5e'],
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff'
+        }
+      }, 'track-cursor-point');
+
       // Range Measurement Line Layer
       map.current.addSource('measure-line', {
         type: 'geojson',
@@ -649,6 +954,73 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
         }
       });
 
+      // Alert rule areas and the polygon being drawn
+      map.current.addSource('alert-areas', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'alert-areas-fill',
+        type: 'fill',
+        source: 'alert-areas',
+        paint: {
+          'fill-color': ['get', 'color'],
+          'fill-opacity': 0.08
+        }
+      });
+
+      map.current.addLayer({
+        id: 'alert-areas-line',
+        type: 'line',
+        source: 'alert-areas',
+        paint: {
+          'line-color': ['get', 'color'],
+          'line-width': 1.5,
+          'line-dasharray': [2, 2]
+        }
+      });
+
+      map.current.addSource('alert-area-draft', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'alert-area-draft-fill',
+        type: 'fill',
+        source: 'alert-area-draft',
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: {
+          'fill-color': ['get', 'color'],
+          'fill-opacity': 0.2
+        }
+      });
+
+      map.current.addLayer({
+        id: 'alert-area-draft-line',
+        type: 'line',
+        source: 'alert-area-draft',
+        filter: ['!=', ['geometry-type'], 'Point'],
+        paint: {
+          'line-color': ['get', 'color'],
+          'line-width': 2
+        }
+      });
+
+      map.current.addLayer({
+        id: 'alert-area-draft-points',
+        type: 'circle',
+        source: 'alert-area-draft',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 4,
+          'circle-color': ['get', 'color'],
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+
       const popup = new maplibregl.Popup({
         closeButton: false,
         closeOnClick: false
@@ -686,9 +1058,57 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
 
       map.current.on('mouseenter', 'route-points', showPopup);
       map.current.on('mouseleave', 'route-points', hidePopup);
+
+      // Report the hovered track point so the profile chart can follow
+      map.current.on('mousemove', 'route-points', (e) => {
+        const index = e.features?.[0]?.properties?.index;
+        if (typeof index === 'number') onTrackHoverRef.current?.(index);
+      });
+      map.current.on('mouseleave', 'route-points', () => onTrackHoverRef.current?.(null));
       
       map.current.on('mouseenter', 'secondary-route-points', showPopup);
       map.current.on('mouseleave', 'secondary-route-points', hidePopup);
+
+      // Pinned flights only carry a label
+      map.current.on('mouseenter', 'pinned-tracks-line', (e) => {
+        if (!map.current) return;
+        map.current.getCanvas().style.cursor = 'pointer';
+        const props = e.features?.[0]?.properties;
+        if (!props) return;
+        popup.setLngLat(e.lngLat)
+            .setHTML(`
+                <div class="text-gray-900 p-1 text-xs font-sans font-bold" style="color: ${escapeHtml(props.color)}">${escapeHtml(props.label)}</div>
+            `)
+            .addTo(map.current);
+      });
+      map.current.on('mouseleave', 'pinned-tracks-line', hidePopup);
+
+      map.current.on('mouseenter', 'quality-issues-points', (e) => {
+        if (!map.current) return;
+        map.current.getCanvas().style.cursor = 'pointer';
+        const props = e.features?.[0]?.properties;
+        if (!props) return;
+        popup.setLngLat(e.lngLat)
+            .setHTML(`
+                <div class="text-gray-900 p-1 text-xs font-sans">
+                    <div class="font-bold" style="color: ${escapeHtml(props.color)}">${escapeHtml(props.label)}</div>
+                    <div>${new Date(props.timestamp * 1000).toLocaleTimeString()} · ${escapeHtml(props.detail)}</div>
+                </div>
+            `)
+            .addTo(map.current);
+      });
+      map.current.on('mouseleave', 'quality-issues-points', hidePopup);
+
+      map.current.on('mouseenter', 'cpa-links-points', (e) => {
+        if (!map.current) return;
+        map.current.getCanvas().style.cursor = 'pointer';
+        const props = e.features?.[0]?.properties;
+        if (!props) return;
+        popup.setLngLat(e.lngLat)
+            .setHTML(`<div class="text-gray-900 p-1 text-xs font-sans font-bold">${escapeHtml(props.label)}</div>`)
+            .addTo(map.current);
+      });
+      map.current.on('mouseleave', 'cpa-links-points', hidePopup);
       
       // Mark map as loaded
       setMapLoaded(true);
@@ -1351,9 +1771,9 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
         return;
     }
 
-    const source = map.current.getSource('route') as maplibregl.GeoJSONSource;
     const pointsSource = map.current.getSource('points') as maplibregl.GeoJSONSource;
-    const secondarySource = map.current.getSource('secondary-route') as maplibregl.GeoJSONSource;
+    const trackCursorSource = map.current.getSource('track-cursor') as maplibregl.GeoJSONSource;
+    const trackRangeSource = map.current.getSource('track-range') as maplibregl.GeoJSONSource;
     const secondaryPointsSource = map.current.getSource('secondary-points') as maplibregl.GeoJSONSource;
     
     // Reset markers (but preserve AI marker)
@@ -1367,23 +1787,17 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
     }
     markersToRemove.forEach(m => m.remove());
 
+    // Profile cursor/range refer to indices of the previous track
+    trackCursorSource?.setData({ type: 'FeatureCollection', features: [] });
+    trackRangeSource?.setData({ type: 'FeatureCollection', features: [] });
+
     if (points.length === 0) {
-        source.setData({
-            type: 'FeatureCollection',
-            features: []
-        });
         if (pointsSource) {
             pointsSource.setData({
                 type: 'FeatureCollection',
                 features: []
             });
         }
-        if (secondarySource) {
-            secondarySource.setData({
-                type: 'FeatureCollection',
-                features: []
-            });
-        }
         if (secondaryPointsSource) {
             secondaryPointsSource.setData({
                 type: 'FeatureCollection',
@@ -1393,50 +1807,29 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
         return;
     }
 
-    // Update Secondary Track
-    if (secondarySource) {
+    // Update Secondary Track points
+    if (secondaryPointsSource) {
         if (secondaryPoints && secondaryPoints.length > 0) {
-            secondarySource.setData({
+            secondaryPointsSource.setData({
                 type: 'FeatureCollection',
-                features: [{
+                features: secondaryPoints.map(p => ({
                     type: 'Feature',
-                    properties: {},
+                    properties: {
+                        timestamp: p.timestamp,
+                        alt: p.alt,
+                        track: p.track ?? 0
+                    },
                     geometry: {
-                        type: 'LineString',
-                        coordinates: secondaryPoints.map(p => [p.lon, p.lat])
+                        type: 'Point',
+                        coordinates: [p.lon, p.lat]
                     }
-                }] as any
+                })) as any
             });
-
-            if (secondaryPointsSource) {
-                 secondaryPointsSource.setData({
-                    type: 'FeatureCollection',
-                    features: secondaryPoints.map(p => ({
-                        type: 'Feature',
-                        properties: {
-                            timestamp: p.timestamp,
-                            alt: p.alt,
-                            track: p.track ?? 0
-                        },
-                        geometry: {
-                            type: 'Point',
-                            coordinates: [p.lon, p.lat]
-                        }
-                    })) as any
-                });
-            }
-
         } else {
-            secondarySource.setData({
+            secondaryPointsSource.setData({
                 type: 'FeatureCollection',
                 features: []
             });
-            if (secondaryPointsSource) {
-                secondaryPointsSource.setData({
-                    type: 'FeatureCollection',
-                    features: []
-                });
-            }
         }
     }
 
@@ -1460,46 +1853,16 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
         .setPopup(new maplibregl.Popup().setHTML("End"))
         .addTo(map.current);
 
-    // Create segments
-    const features: any[] = [];
-    
     // Create a Set for O(1) lookup
     const anomalySet = new Set(anomalyTimestamps);
 
-    for (let i = 0; i < points.length - 1; i++) {
-        const p1 = points[i];
-        const p2 = points[i+1];
-        
-        // Check if this segment involves an anomaly
-        // We consider the segment anomalous if either point is anomalous
-        const isAnomaly = anomalySet.has(p1.timestamp) || anomalySet.has(p2.timestamp);
-        
-        features.push({
-            type: 'Feature',
-            properties: {
-                color: isAnomaly ? '#ef4444' : '#3b82f6' // Red if anomaly, Blue otherwise
-            },
-            geometry: {
-                type: 'LineString',
-                coordinates: [
-                    [p1.lon, p1.lat],
-                    [p2.lon, p2.lat]
-                ]
-            }
-        });
-    }
-
-    source.setData({
-        type: 'FeatureCollection',
-        features: features
-    });
-
     if (pointsSource) {
-        const pointFeatures = points.map(p => {
+        const pointFeatures = points.map((p, index) => {
             const isAnomaly = anomalySet.has(p.timestamp);
             return {
                 type: 'Feature',
                 properties: {
+                    index,
                     color: isAnomaly ? '#ef4444' : '#3b82f6',
                     timestamp: p.timestamp,
                     alt: p.alt,
@@ -1520,6 +1883,243 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
 
   }, [points, secondaryPoints, anomalyTimestamps]);
 
+  // The aircraft marker belongs to the previous track's timeline
+  useEffect(() => {
+    aircraftMarkerRef.current?.marker.remove();
+    aircraftMarkerRef.current = null;
+  }, [points]);
+
+  // Data-quality issue markers
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('quality-issues') as maplibregl.GeoJSONSource | undefined;
+    if (!source) return;
+
+    source.setData({
+        type: 'FeatureCollection',
+        features: showQualityIssues ? qualityIssues.map(issue => {
+            const kind = TRACK_ISSUE_KINDS.find(k => k.id === issue.kind);
+            return {
+                type: 'Feature' as const,
+                properties: { label: kind?.label ?? issue.kind, color: kind?.color ?? '#9ca3af', timestamp: issue.timestamp, detail: issue.detail },
+                geometry: { type: 'Point' as const, coordinates: [issue.lon, issue.lat] }
+            };
+        }) : []
+    });
+  }, [qualityIssues, showQualityIssues, mapLoaded]);
+
+  // Closest point of approach links
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('cpa-links') as maplibregl.GeoJSONSource | undefined;
+    if (!source) return;
+
+    source.setData({
+        type: 'FeatureCollection',
+        features: cpaMarkers.flatMap(m => {
+            const selected = !!m.selected;
+            return [
+                {
+                    type: 'Feature' as const,
+                    properties: { label: m.label, selected },
+                    geometry: { type: 'LineString' as const, coordinates: [[m.primary.lon, m.primary.lat], [m.other.lon, m.other.lat]] }
+                },
+                {
+                    type: 'Feature' as const,
+                    properties: { label: m.label, selected, role: 'primary' },
+                    geometry: { type: 'Point' as const, coordinates: [m.primary.lon, m.primary.lat] }
+                },
+                {
+                    type: 'Feature' as const,
+                    properties: { label: m.label, selected, role: 'other' },
+                    geometry: { type: 'Point' as const, coordinates: [m.other.lon, m.other.lat] }
+                }
+            ];
+        })
+    });
+  }, [cpaMarkers, mapLoaded]);
+
+  // Alert rule areas
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('alert-areas') as maplibregl.GeoJSONSource | undefined;
+    if (!source) return;
+
+    source.setData({
+        type: 'FeatureCollection',
+        features: alertAreas.filter(a => a.area.length >= 3).map(a => ({
+            type: 'Feature' as const,
+            properties: { id: a.id, label: a.label, color: a.color },
+            geometry: { type: 'Polygon' as const, coordinates: [[...a.area, a.area[0]]] }
+        }))
+    });
+  }, [alertAreas, mapLoaded]);
+
+  // Polygon being drawn: filled once it has three corners
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('alert-area-draft') as maplibregl.GeoJSONSource | undefined;
+    if (!source) return;
+
+    const color = drawArea?.color ?? '#fbbf24';
+    const features: GeoJSON.Feature[] = draftArea.map(corner => ({
+        type: 'Feature',
+        properties: { color },
+        geometry: { type: 'Point', coordinates: corner }
+    }));
+    if (draftArea.length >= 3) {
+        features.push({
+            type: 'Feature',
+            properties: { color },
+            geometry: { type: 'Polygon', coordinates: [[...draftArea, draftArea[0]]] }
+        });
+    } else if (draftArea.length === 2) {
+        features.push({
+            type: 'Feature',
+            properties: { color },
+            geometry: { type: 'LineString', coordinates: draftArea }
+        });
+    }
+    source.setData({ type: 'FeatureCollection', features });
+  }, [draftArea, drawArea?.color, mapLoaded]);
+
+  const finishDrawArea = () => {
+    // A double-click also lands two clicks on the same spot
+    const corners = draftAreaRef.current.filter((c, i, all) => i === 0 || c[0] !== all[i - 1][0] || c[1] !== all[i - 1][1]);
+    if (corners.length >= 3) drawAreaRef.current?.onComplete(corners);
+  };
+
+  // Area drawing mode: click adds a corner, double-click or Enter finishes,
+  // Backspace removes the last corner, Escape cancels
+  const isDrawingArea = !!drawArea;
+  useEffect(() => {
+    if (!map.current || !mapLoaded || !isDrawingArea) return;
+    const m = map.current;
+    setDraftArea([]);
+    m.getCanvas().style.cursor = 'crosshair';
+    m.doubleClickZoom.disable();
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      setDraftArea(prev => [...prev, [e.lngLat.lng, e.lngLat.lat]]);
+    };
+    const handleDblClick = (e: maplibregl.MapMouseEvent) => {
+      e.preventDefault();
+      finishDrawArea();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') finishDrawArea();
+      else if (e.key === 'Escape') drawAreaRef.current?.onCancel();
+      else if (e.key === 'Backspace') setDraftArea(prev => prev.slice(0, -1));
+      else return;
+      e.preventDefault();
+    };
+
+    m.on('click', handleClick);
+    m.on('dblclick', handleDblClick);
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      m.off('click', handleClick);
+      m.off('dblclick', handleDblClick);
+      document.removeEventListener('keydown', handleKeyDown);
+      m.getCanvas().style.cursor = '';
+      m.doubleClickZoom.enable();
+      setDraftArea([]);
+    };
+  }, [isDrawingArea, mapLoaded]);
+
+  // Pinned flight overlays
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    const tracksSource = map.current.getSource('pinned-tracks') as maplibregl.GeoJSONSource;
+    const anomaliesSource = map.current.getSource('pinned-anomalies') as maplibregl.GeoJSONSource;
+    if (!tracksSource || !anomaliesSource) return;
+
+    tracksSource.setData({
+        type: 'FeatureCollection',
+        features: pinnedTracks.filter(t => t.points.length > 1).map(t => ({
+            type: 'Feature',
+            properties: { flightId: t.flightId, label: t.label, color: t.color },
+            geometry: {
+                type: 'LineString',
+                coordinates: t.points.map(p => [p.lon, p.lat])
+            }
+        }))
+    });
+
+    anomaliesSource.setData({
+        type: 'FeatureCollection',
+        features: pinnedTracks.flatMap(t => {
+            const anomalySet = new Set(t.anomalyTimestamps);
+            return t.points
+                .filter(p => anomalySet.has(p.timestamp))
+                .map(p => ({
+                    type: 'Feature' as const,
+                    properties: { color: t.color },
+                    geometry: { type: 'Point' as const, coordinates: [p.lon, p.lat] }
+                }));
+        })
+    });
+  }, [pinnedTracks, mapLoaded]);
+
+  // Track lines - one feature per segment, coloured by the selected mode
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    const source = map.current.getSource('route') as maplibregl.GeoJSONSource;
+    const secondarySource = map.current.getSource('secondary-route') as maplibregl.GeoJSONSource;
+
+    const toSegments = (track: TrackPoint[], colors: string[]): GeoJSON.Feature<GeoJSON.LineString>[] => track.slice(0, -1).map((p1, i) => {
+        const p2 = track[i + 1];
+        return {
+            type: 'Feature',
+            properties: { color: colors[i] },
+            geometry: {
+                type: 'LineString',
+                coordinates: [
+                    [p1.lon, p1.lat],
+                    [p2.lon, p2.lat]
+                ]
+            }
+        };
+    });
+
+    source?.setData({
+        type: 'FeatureCollection',
+        features: toSegments(points, trackColoring.primary)
+    });
+
+    if (secondarySource) {
+        let secondaryFeatures: GeoJSON.Feature<GeoJSON.LineString>[] = [];
+        if (secondaryPoints.length > 0) {
+            secondaryFeatures = trackColoring.secondary
+                ? toSegments(secondaryPoints, trackColoring.secondary)
+                : [{
+                    type: 'Feature',
+                    properties: {},
+                    geometry: {
+                        type: 'LineString',
+                        coordinates: secondaryPoints.map(p => [p.lon, p.lat])
+                    }
+                }];
+        }
+        secondarySource.setData({
+            type: 'FeatureCollection',
+            features: secondaryFeatures
+        });
+    }
+  }, [points, secondaryPoints, trackColoring, mapLoaded]);
+
+  const handleTrackColorModeChange = (mode: TrackColorMode) => {
+    setTrackColorMode(mode);
+    saveTrackColorMode(mode);
+  };
+
+  const trackLegend = trackColoring.legend;
+  const formatLegendValue = (value: number) =>
+    Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : value.toFixed(value % 1 === 0 ? 0 : 2);
+
   return (
     <div className="relative w-full h-full" id="map-root">
         <div ref={mapContainer} className="w-full h-full" />
@@ -1961,6 +2561,28 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
                     </div>
                 )}
             </div>
+            {/* Track Colouring Mode */}
+            <select
+                value={trackColorMode}
+                onChange={(e) => handleTrackColorModeChange(e.target.value as TrackColorMode)}
+                className="px-3 py-2 rounded shadow text-xs font-medium opacity-90 bg-gray-800 text-gray-300 hover:bg-gray-700 border-none focus:outline-none focus:ring-1 focus:ring-blue-500 cursor-pointer"
+                title="Colour the flight track by"
+            >
+                {TRACK_COLOR_MODES.map(m => (
+                    <option key={m.id} value={m.id}>Track: {m.label}</option>
+                ))}
+            </select>
+            {/* Airspace / Reference Overlays */}
+            <AirspaceOverlayControl map={mapLoaded ? map.current : null} beforeLayerId="pinned-tracks-line" />
+            {/* Day Overview (all listed anomalies of the day) */}
+            {onSelectDayAnomaly && (
+                <DayOverviewControl
+                    map={mapLoaded ? map.current : null}
+                    anomalies={dayAnomalies}
+                    onSelectFlight={onSelectDayAnomaly}
+                    beforeLayerId="pinned-tracks-line"
+                />
+            )}
             {mlAnomalyPoints && mlAnomalyPoints.length > 0 && (
                 <button 
                     onClick={() => setShowMLPoints(!showMLPoints)}
@@ -1971,6 +2593,18 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
                     {showMLPoints ? "Hide ML Points" : "Show ML Points"}
                 </button>
             )}
+            {qualityIssues.length > 0 && (
+                <button
+                    onClick={() => setShowQualityIssues(!showQualityIssues)}
+                    className={`px-3 py-2 rounded shadow text-xs font-medium opacity-90 transition-colors flex items-center gap-1 ${
+                        showQualityIssues ? 'bg-cyan-700 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                    title="Data-quality problems in the track (gaps, jumps, altitude glitches...)"
+                >
+                    <span>{showQualityIssues ? "Hide Data Issues" : "Show Data Issues"}</span>
+                    <span className="bg-white/20 px-1.5 py-0.5 rounded text-[10px]">{qualityIssues.length}</span>
+                </button>
+            )}
             {/* Range Measurement Tool */}
             <div className="flex gap-1">
                 <button
@@ -2070,6 +2704,26 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
             </div>
         )}
         
+        {/* Track Colour Legend */}
+        {trackLegend && points.length > 1 && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-gray-900/90 border border-gray-700 rounded-lg shadow-xl px-3 py-2 w-64 backdrop-blur-sm">
+                <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                    <span className="font-semibold uppercase tracking-wide">
+                        {TRACK_COLOR_MODES.find(m => m.id === trackLegend.mode)?.label}
+                    </span>
+                    <span>{trackLegend.unit}</span>
+                </div>
+                <div className="h-2 rounded" style={{ background: trackLegend.gradient }} />
+                <div className="flex justify-between text-[10px] font-mono text-gray-300 mt-1">
+                    <span>{formatLegendValue(trackLegend.min)}</span>
+                    <span>{formatLegendValue((trackLegend.min + trackLegend.max) / 2)}</span>
+                    <span>
+                        {trackLegend.mode === 'gaps' ? `≥${GAP_THRESHOLD_S} signal loss` : formatLegendValue(trackLegend.max)}
+                    </span>
+                </div>
+            </div>
+        )}
+
         {/* Range Measurement Summary Panel */}
         {measureDistances.length > 0 && (
             <div className="absolute bottom-4 right-4 z-10 bg-gray-900/95 border border-yellow-500/30 rounded-lg shadow-xl p-3 min-w-[220px] backdrop-blur-sm">
@@ -2113,6 +2767,32 @@ export const MapComponent = forwardRef<MapComponentHandle, MapComponentProps>(({
             </div>
         )}
 
+        {/* Alert area drawing */}
+        {drawArea && (
+            <div
+                className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-gray-900/95 border rounded-lg px-3 py-2 shadow-xl text-xs text-white"
+                style={{ borderColor: drawArea.color }}
+            >
+                <span className="text-gray-300">
+                    Click to add corners &bull; Double-click or Enter to finish &bull; Backspace to undo &bull; Esc to cancel
+                </span>
+                <span className="font-mono text-gray-400">{draftArea.length} pts</span>
+                <button
+                    onClick={finishDrawArea}
+                    disabled={draftArea.length < 3}
+                    className="px-2 py-1 rounded bg-green-600 hover:bg-green-500 font-medium disabled:opacity-40"
+                >
+                    Finish
+                </button>
+                <button
+                    onClick={drawArea.onCancel}
+                    className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 font-medium"
+                >
+                    Cancel
+                </button>
+            </div>
+        )}
+
         {/* CSS for AI Highlight Marker Animation */}
         <style>{`
             .ai-highlight-marker {
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { 
     X, Play, Pause, SkipBack, SkipForward, 
@@ -95,12 +96,6 @@ const MISSILE_MAX_RANGE_NM = 30;
 const MISSILE_HIT_RADIUS_NM = 0.5;
 const NAV_CONSTANT = 4; // Proportional Navigation constant (N)
 
-// ============================================================
-// Constants
-// ============================================================
-
-const MAP_STYLE = 'https://api.maptiler.com/maps/darkmatter/style.json?key=r7kaQpfNDVZdaVp23F1r';
-
 // ============================================================
 // Helpers
 // ============================================================
@@ -471,11 +466,12 @@ export const MissionSimulationModal: React.FC<MissionSimulationModalProps> = ({
         }
         map.current = new maplibregl.Map({
             container: mapContainerRef.current,
-            style: MAP_STYLE,
+            style: getBasemapStyle(),
             center: [origin.lon, origin.lat],
             zoom: 7,
             attributionControl: false,
         });
+        attachBasemap(map.current);
 
         map.current.on('load', () => {
             // Add routes source
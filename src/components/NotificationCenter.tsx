@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, SlidersHorizontal } from 'lucide-react';
+import clsx from 'clsx';
+import { useTranslation } from 'react-i18next';
+import { clearAlertHistory, markAlertsRead, useAlertHistory, type AlertHistoryEntry } from '../alertRules';
+
+interface NotificationCenterProps {
+    onOpenFlight: (entry: AlertHistoryEntry) => void;
+    onOpenRules: () => void;
+}
+
+/** Header bell with the history of fired alerts */
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ onOpenFlight, onOpenRules }) => {
+    const { t } = useTranslation();
+    const history = useAlertHistory();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const unread = history.filter(entry => !entry.read).length;
+
+    const close = () => {
+        setIsOpen(false);
+        markAlertsRead();
+    };
+
+    // Close when clicking outside; entries seen while open count as read
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) close();
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                className="relative flex h-10 w-10 items-center justify-center rounded-lg bg-surface-highlight text-white/80 hover:text-white transition-colors border border-white/10"
+                onClick={() => (isOpen ? close() : setIsOpen(true))}
+                title={t('alerts.title')}
+            >
+                <Bell className="h-5 w-5" />
+                {unread > 0 && (
+                    <span className="absolute -top-1 -end-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-[10px] font-bold text-white flex items-center justify-center">
+                        {unread > 99 ? '99+' : unread}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="absolute end-0 top-12 z-50 w-80 bg-surface border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                    <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+                        <span className="text-sm font-bold text-white">{t('alerts.title')}</span>
+                        <button
+                            onClick={() => {
+                                close();
+                                onOpenRules();
+                            }}
+                            className="flex items-center gap-1 text-xs text-primary hover:text-primary/80"
+                        >
+                            <SlidersHorizontal className="size-3.5" />
+                            {t('alerts.rulesTitle')}
+                        </button>
+                    </div>
+
+                    <div className="max-h-96 overflow-y-auto">
+                        {history.length === 0 ? (
+                            <p className="px-3 py-6 text-center text-xs text-white/40">{t('alerts.empty')}</p>
+                        ) : history.map(entry => (
+                            <button
+                                key={entry.id}
+                                onClick={() => {
+                                    close();
+                                    onOpenFlight(entry);
+                                }}
+                                className={clsx(
+                                    "w-full flex items-start gap-2 px-3 py-2 text-start border-b border-white/5 hover:bg-white/5 transition-colors",
+                                    !entry.read && "bg-primary/5"
+                                )}
+                            >
+                                <span className="mt-1.5 size-2 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
+                                <span className="flex-1 min-w-0">
+                                    <span className="flex items-center justify-between gap-2">
+                                        <span className={clsx("text-sm truncate", entry.read ? "text-white/70" : "text-white font-semibold")}>
+                                            {entry.callsign || entry.flightId}
+                                        </span>
+                                        <span className="text-[10px] text-white/40 shrink-0">
+                                            {new Date(entry.firedAt).toLocaleTimeString()}
+                                        </span>
+                                    </span>
+                                    <span className="block text-xs text-white/50 truncate">{entry.ruleName}</span>
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+
+                    {history.length > 0 && (
+                        <div className="flex items-center justify-between px-3 py-2 border-t border-white/10 text-xs">
+                            <button
+                                onClick={markAlertsRead}
+                                disabled={unread === 0}
+                                className="text-white/60 hover:text-white disabled:opacity-40"
+                            >
+                                {t('alerts.markAllRead')}
+                            </button>
+                            <button onClick={clearAlertHistory} className="text-red-300 hover:text-red-200">
+                                {t('alerts.clear')}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
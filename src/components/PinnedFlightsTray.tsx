@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Pin, Eye, EyeOff, AlertTriangle, X, Link2, Check, ChevronDown, ChevronUp, Loader2, Crosshair } from 'lucide-react';
+import clsx from 'clsx';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+    MAX_PINNED_FLIGHTS, clearPinnedFlights, unpinFlight, updatePinnedFlight, type PinnedFlight
+} from '../pinnedFlights';
+
+export type PinnedTrackStatus = 'loading' | 'ready' | 'error';
+
+interface PinnedFlightsTrayProps {
+    pins: PinnedFlight[];
+    trackStatus: Record<string, PinnedTrackStatus>;
+    onFocus: (flightId: string) => void;
+}
+
+export const PinnedFlightsTray: React.FC<PinnedFlightsTrayProps> = ({ pins, trackStatus, onFocus }) => {
+    const { isHebrew } = useLanguage();
+    const [collapsed, setCollapsed] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    if (pins.length === 0) return null;
+
+    // The pinned set is already mirrored into the URL
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error('Failed to copy link', err);
+        }
+    };
+
+    // Sits below the map's Clear AI Highlight button
+    return (
+        <div className="absolute top-16 left-4 z-10 w-64 bg-gray-900/95 border border-gray-700 rounded-lg shadow-xl backdrop-blur-sm text-xs">
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700">
+                <button
+                    onClick={() => setCollapsed(!collapsed)}
+                    className="flex items-center gap-1.5 font-semibold text-white/90 hover:text-white"
+                >
+                    <Pin className="w-3.5 h-3.5 text-cyan-400" />
+                    {isHebrew ? "טיסות מוצמדות" : "Pinned Flights"}
+                    <span className="text-white/50 font-normal">{pins.length}/{MAX_PINNED_FLIGHTS}</span>
+                    {collapsed ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                </button>
+                <div className="ms-auto flex items-center gap-1">
+                    <button
+                        onClick={handleCopyLink}
+                        className="p-1 rounded text-white/60 hover:text-white hover:bg-white/10"
+                        title={isHebrew ? "העתק קישור לתצוגה" : "Copy link to this view"}
+                    >
+                        {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Link2 className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                        onClick={clearPinnedFlights}
+                        className="px-1.5 py-0.5 rounded text-red-400 hover:bg-red-900/30"
+                    >
+                        {isHebrew ? "נקה" : "Clear"}
+                    </button>
+                </div>
+            </div>
+
+            {!collapsed && (
+                <div className="max-h-60 overflow-y-auto p-1.5 space-y-0.5">
+                    {pins.map(pin => {
+                        const status = trackStatus[pin.flight_id];
+                        return (
+                            <div
+                                key={pin.flight_id}
+                                className={clsx(
+                                    "flex items-center gap-2 px-1.5 py-1 rounded hover:bg-white/5",
+                                    !pin.visible && "opacity-50"
+                                )}
+                            >
+                                <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ background: pin.color }} />
+                                <div className="min-w-0 flex-1">
+                                    <div className="truncate font-medium text-white">{pin.callsign || pin.flight_id}</div>
+                                    {pin.callsign && <div className="truncate text-[10px] text-white/40">{pin.flight_id}</div>}
+                                </div>
+                                {status === 'loading' && <Loader2 className="w-3.5 h-3.5 animate-spin text-white/50" />}
+                                {status === 'error' && (
+                                    <span className="text-[10px] text-red-400" title={isHebrew ? "טעינת המסלול נכשלה" : "Failed to load track"}>!</span>
+                                )}
+                                <button
+                                    onClick={() => onFocus(pin.flight_id)}
+                                    disabled={status !== 'ready'}
+                                    className="p-0.5 rounded text-white/50 hover:text-white disabled:opacity-30"
+                                    title={isHebrew ? "התמקד בטיסה" : "Zoom to flight"}
+                                >
+                                    <Crosshair className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                    onClick={() => updatePinnedFlight(pin.flight_id, { showAnomalies: !pin.showAnomalies })}
+                                    className={clsx("p-0.5 rounded", pin.showAnomalies ? "text-red-400" : "text-white/30 hover:text-white/60")}
+                                    title={isHebrew ? "סמני חריגות" : "Anomaly markers"}
+                                >
+                                    <AlertTriangle className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                    onClick={() => updatePinnedFlight(pin.flight_id, { visible: !pin.visible })}
+                                    className="p-0.5 rounded text-white/60 hover:text-white"
+                                    title={pin.visible ? (isHebrew ? "הסתר" : "Hide") : (isHebrew ? "הצג" : "Show")}
+                                >
+                                    {pin.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                                </button>
+                                <button
+                                    onClick={() => unpinFlight(pin.flight_id)}
+                                    className="p-0.5 rounded text-white/40 hover:text-red-400"
+                                    title={isHebrew ? "בטל הצמדה" : "Unpin"}
+                                >
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
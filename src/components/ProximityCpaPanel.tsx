@@ -0,0 +1,205 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronUp, Crosshair, Loader2 } from 'lucide-react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts';
+import clsx from 'clsx';
+import { useLanguage } from '../contexts/LanguageContext';
+import { CPA_HORIZONTAL_NM, CPA_VERTICAL_FT, type CpaAnalysis } from '../utils/cpa';
+
+// ============================================================
+// Closest point of approach for proximity (rule 4) events
+// ============================================================
+
+export interface ProximityEncounter {
+    /** Other aircraft, callsign when known */
+    label: string;
+    /** Timestamp reported by the rule engine */
+    eventTimestamp?: number;
+    /** Null when the other track is missing or never overlaps */
+    analysis: CpaAnalysis | null;
+    loading: boolean;
+}
+
+interface ProximityCpaPanelProps {
+    encounters: ProximityEncounter[];
+    selectedIndex: number;
+    onSelect: (index: number) => void;
+    /** Centre the map on a position (the CPA) */
+    onFocus?: (lat: number, lon: number) => void;
+}
+
+const COLORS = {
+    horizontal: '#f43f5e',
+    vertical: '#38bdf8',
+    cpa: '#fbbf24',
+    loss: '#ef4444',
+};
+
+const formatTime = (ts: number) =>
+    new Date(ts * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatDuration = (seconds: number) =>
+    seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`;
+
+export const ProximityCpaPanel: React.FC<ProximityCpaPanelProps> = ({ encounters, selectedIndex, onSelect, onFocus }) => {
+    const { isHebrew } = useLanguage();
+    const [collapsed, setCollapsed] = useState(false);
+
+    const encounter = encounters[selectedIndex];
+    const analysis = encounter?.analysis ?? null;
+
+    // Spans where both minima are infringed, shaded on the chart
+    const lossSpans = useMemo(() => {
+        if (!analysis) return [];
+        const spans: { start: number; end: number }[] = [];
+        let open: { start: number; end: number } | null = null;
+        analysis.samples.forEach(s => {
+            const loss = s.horizontalNm < CPA_HORIZONTAL_NM && s.verticalFt < CPA_VERTICAL_FT;
+            if (loss && !open) {
+                open = { start: s.timestamp, end: s.timestamp };
+                spans.push(open);
+            } else if (loss && open) {
+                open.end = s.timestamp;
+            } else {
+                open = null;
+            }
+        });
+        return spans;
+    }, [analysis]);
+
+    if (encounters.length === 0) return null;
+
+    const labels = {
+        horizontal: isHebrew ? "מרחק אופקי (NM)" : "Horizontal (NM)",
+        vertical: isHebrew ? "הפרש גובה (רגל)" : "Vertical (ft)",
+    };
+
+    return (
+        <div className="shrink-0 border-t border-white/10 bg-surface">
+            <div className="flex items-center gap-2 px-3 py-1.5">
+                <button
+                    onClick={() => setCollapsed(!collapsed)}
+                    className="flex items-center gap-2 text-xs font-bold text-white/80 hover:text-white shrink-0"
+                >
+                    <Crosshair className="h-4 w-4 text-rose-400" />
+                    {isHebrew ? "נקודת קרבה מרבית" : "Closest Approach"}
+                    {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+
+                {/* One tab per proximity event */}
+                <div className="flex items-center gap-1 overflow-x-auto text-[11px]">
+                    {encounters.map((e, i) => (
+                        <button
+                            key={i}
+                            onClick={() => onSelect(i)}
+                            className={clsx(
+                                "flex items-center gap-1 px-2 py-0.5 rounded border whitespace-nowrap transition-colors",
+                                i === selectedIndex
+                                    ? "border-rose-500/50 bg-rose-500/10 text-rose-200"
+                                    : "border-transparent text-white/50 hover:text-white/80"
+                            )}
+                        >
+                            {e.loading && <Loader2 className="h-3 w-3 animate-spin" />}
+                            <span className="font-mono">{e.label}</span>
+                            {e.eventTimestamp && <span className="text-white/40" dir="ltr">{formatTime(e.eventTimestamp)}</span>}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!collapsed && encounter && (
+                analysis ? (
+                    <div className="px-3 pb-2">
+                        {/* CPA summary */}
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-white/60 mb-1" dir="ltr">
+                            <button
+                                onClick={() => onFocus?.(
+                                    (analysis.cpa.primary.lat + analysis.cpa.other.lat) / 2,
+                                    (analysis.cpa.primary.lon + analysis.cpa.other.lon) / 2
+                                )}
+                                className="text-amber-300 hover:underline font-mono"
+                                title={isHebrew ? "הצג במפה" : "Show on map"}
+                            >
+                                CPA {formatTime(analysis.cpa.timestamp)}
+                            </button>
+                            <span>
+                                {isHebrew ? "אופקי" : "Horizontal"}{' '}
+                                <span className={clsx("font-mono font-bold", analysis.cpa.horizontalNm < CPA_HORIZONTAL_NM ? "text-red-400" : "text-white")}>
+                                    {analysis.cpa.horizontalNm.toFixed(2)} NM
+                                </span>
+                            </span>
+                            <span>
+                                {isHebrew ? "אנכי" : "Vertical"}{' '}
+                                <span className={clsx("font-mono font-bold", analysis.cpa.verticalFt < CPA_VERTICAL_FT ? "text-red-400" : "text-white")}>
+                                    {Math.round(analysis.cpa.verticalFt).toLocaleString()} ft
+                                </span>
+                            </span>
+                            <span>
+                                {isHebrew ? "אובדן הפרדה" : "Loss of separation"}{' '}
+                                <span className={clsx("font-mono font-bold", analysis.lossOfSeparationS > 0 ? "text-red-400" : "text-white")}>
+                                    {formatDuration(analysis.lossOfSeparationS)}
+                                </span>
+                            </span>
+                            <span title={isHebrew ? "זמן מתחת לכל סף בנפרד" : "Time below each minimum on its own"}>
+                                &lt;{CPA_HORIZONTAL_NM} NM <span className="font-mono text-white">{formatDuration(analysis.belowHorizontalS)}</span>
+                                {' · '}&lt;{CPA_VERTICAL_FT} ft <span className="font-mono text-white">{formatDuration(analysis.belowVerticalS)}</span>
+                            </span>
+                            {analysis.closureRateKts !== null && (
+                                <span>
+                                    {isHebrew ? "קצב התקרבות" : "Closure"}{' '}
+                                    <span className="font-mono font-bold text-white">{Math.round(analysis.closureRateKts)} kts</span>
+                                </span>
+                            )}
+                        </div>
+
+                        <div className="h-36 select-none" dir="ltr">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ComposedChart data={analysis.samples} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#ffffff15" />
+                                    <XAxis
+                                        dataKey="timestamp"
+                                        type="number"
+                                        domain={['dataMin', 'dataMax']}
+                                        tickFormatter={formatTime}
+                                        stroke="#ffffff60"
+                                        tick={{ fontSize: 10 }}
+                                    />
+                                    <YAxis yAxisId="h" stroke={COLORS.horizontal} tick={{ fontSize: 10 }} width={40} />
+                                    <YAxis yAxisId="v" orientation="right" stroke={COLORS.vertical} tick={{ fontSize: 10 }} width={48} />
+                                    <Tooltip
+                                        contentStyle={{
+                                            backgroundColor: '#1a1a1a',
+                                            border: '1px solid #ffffff20',
+                                            borderRadius: '8px',
+                                            fontSize: 11
+                                        }}
+                                        labelFormatter={(ts: number) => new Date(ts * 1000).toLocaleTimeString()}
+                                        formatter={(value: number, name: string) => [
+                                            name === labels.horizontal ? value.toFixed(2) : Math.round(value).toLocaleString(),
+                                            name,
+                                        ]}
+                                    />
+
+                                    {lossSpans.map((span, i) => (
+                                        <ReferenceArea key={i} yAxisId="h" x1={span.start} x2={span.end} fill={COLORS.loss} fillOpacity={0.15} />
+                                    ))}
+                                    <ReferenceLine yAxisId="h" y={CPA_HORIZONTAL_NM} stroke={COLORS.horizontal} strokeDasharray="4 3" strokeOpacity={0.6} />
+                                    <ReferenceLine yAxisId="v" y={CPA_VERTICAL_FT} stroke={COLORS.vertical} strokeDasharray="4 3" strokeOpacity={0.6} />
+                                    <ReferenceLine yAxisId="h" x={analysis.cpa.timestamp} stroke={COLORS.cpa} strokeWidth={1.5} />
+
+                                    <Line yAxisId="h" dataKey="horizontalNm" name={labels.horizontal} stroke={COLORS.horizontal} strokeWidth={2} dot={false} isAnimationActive={false} />
+                                    <Line yAxisId="v" dataKey="verticalFt" name={labels.vertical} stroke={COLORS.vertical} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                                </ComposedChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="px-3 pb-3 text-xs text-white/40">
+                        {encounter.loading
+                            ? (isHebrew ? "טוען את מסלול הטיסה השנייה..." : "Loading the other aircraft's track...")
+                            : (isHebrew ? "אין חפיפה בזמן בין המסלולים" : "No time overlap between the two tracks")}
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
@@ -3,11 +3,11 @@ import { Send, User, ChevronRight, ChevronLeft, Trash2, Plane, Bot, MonitorUp, M
 import clsx from 'clsx';
 import type { ChatMessage } from '../chatTypes';
 import type { AnomalyReport, TrackPoint, AIReasoningResponse } from '../types';
-import { sendReasoningQuery, analyzeWithAI } from '../api';
+import { streamReasoningQuery, streamAnalyzeWithAI, getErrorMessage } from '../api';
 import { TypewriterMarkdown } from '../utils/markdown';
 import { useLanguage } from '../contexts/LanguageContext';
 import { stripDataUrlPrefix } from '../utils/screenshot';
-import { parseActionsFromResponse, stripActionsFromText, processActions, type ProcessedActions } from '../utils/aiActions';
+import { parseActionsFromResponse, stripActionsFromText, processActions, type AIAction, type ProcessedActions } from '../utils/aiActions';
 
 interface ReasoningChatProps {
     isOpen: boolean;
@@ -242,6 +242,69 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
     // Send Message
     // ============================================================
 
+    // Show the answer as it streams in; the bubble is created on the first token
+    const updateStreamingMessage = (content: string) => {
+        setMessages(prev => {
+            const last = prev[prev.length - 1];
+            if (last?.streamState !== 'streaming') {
+                return [...prev, { role: 'assistant', content, streamState: 'streaming' }];
+            }
+            return [...prev.slice(0, -1), { ...last, content }];
+        });
+    };
+
+    // Replace the streaming bubble with the final text (or drop it if there is none)
+    const finishStreamingMessage = (content: string | null) => {
+        setMessages(prev => {
+            const last = prev[prev.length - 1];
+            const rest = last?.streamState === 'streaming' ? prev.slice(0, -1) : prev;
+            return content ? [...rest, { role: 'assistant', content, streamState: 'complete' }] : rest;
+        });
+    };
+
+    const applyAIActions = (actions: AIAction[]) => {
+        if (actions.length === 0 || !onAIActions || !selectedFlight?.points) return;
+
+        const processedActions = processActions(actions, selectedFlight.points);
+        
+        // Auto-calculate zoom bounds if we have highlights but no explicit zoom
+        if (!processedActions.zoomBounds) {
+            const points = selectedFlight.points;
+            
+            if (processedActions.highlightedSegment) {
+                // Calculate bbox from segment points
+                const { startIndex, endIndex } = processedActions.highlightedSegment;
+                const start = Math.max(0, startIndex);
+                const end = Math.min(points.length - 1, endIndex);
+                const segmentPoints = points.slice(start, end + 1);
+                
+                if (segmentPoints.length > 0) {
+                    const lats = segmentPoints.map(p => p.lat);
+                    const lons = segmentPoints.map(p => p.lon);
+                    const padding = 0.01; // ~1km padding
+                    processedActions.zoomBounds = {
+                        north: Math.max(...lats) + padding,
+                        south: Math.min(...lats) - padding,
+                        east: Math.max(...lons) + padding,
+                        west: Math.min(...lons) - padding
+                    };
+                }
+            } else if (processedActions.highlightedPoint || processedActions.focusIndex !== null) {
+                // Calculate bbox around the single point
+                const { lat, lon } = processedActions.highlightedPoint ?? points[processedActions.focusIndex!];
+                const padding = 0.02; // ~2km padding for single point
+                processedActions.zoomBounds = {
+                    north: lat + padding,
+                    south: lat - padding,
+                    east: lon + padding,
+                    west: lon - padding
+                };
+            }
+        }
+        
+        onAIActions(processedActions);
+    };
+
     const handleSend = async (e?: React.FormEvent) => {
         if (e) e.preventDefault();
         if (!input.trim() || loading) return;
@@ -261,13 +324,19 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
         abortControllerRef.current = new AbortController();
         const signal = abortControllerRef.current.signal;
 
+        // Last text shown in the streaming bubble, kept if the request fails midway
+        let partialContent = '';
+
         try {
             if (chatMode === 'current' && selectedFlight) {
                 // Use the flight analyst API (same as AnalysisPanel)
                 const historyToSend = messages
                     .map(m => ({ role: m.role, content: m.content }));
 
-                const response = await analyzeWithAI({
+                // Map actions are applied as soon as each complete JSON block has arrived
+                let appliedActionCount = 0;
+
+                const response = await streamAnalyzeWithAI({
                     screenshot: screenshotToSend ? stripDataUrlPrefix(screenshotToSend) : '',
                     question: input,
                     flight_id: selectedFlight.flightId,
@@ -276,7 +345,15 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
                     history: historyToSend,
                     length: responseLength,
                     language: analystLanguage
-                }, signal);
+                }, (text) => {
+                    const streamedActions = parseActionsFromResponse(text);
+                    if (streamedActions.length > appliedActionCount) {
+                        appliedActionCount = streamedActions.length;
+                        applyAIActions(streamedActions);
+                    }
+                    partialContent = stripActionsFromText(text);
+                    updateStreamingMessage(partialContent);
+                }, { signal });
 
                 const actions = response.actions || parseActionsFromResponse(response.response);
                 const cleanedText = actions.length > 0 
@@ -284,51 +361,11 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
                     : response.response;
 
                 // Process and apply AI actions to highlight the map
-                if (actions.length > 0 && onAIActions && selectedFlight?.points) {
-                    const processedActions = processActions(actions, selectedFlight.points);
-                    
-                    // Auto-calculate zoom bounds if we have highlights but no explicit zoom
-                    if (!processedActions.zoomBounds) {
-                        const points = selectedFlight.points;
-                        
-                        if (processedActions.highlightedSegment) {
-                            // Calculate bbox from segment points
-                            const { startIndex, endIndex } = processedActions.highlightedSegment;
-                            const start = Math.max(0, startIndex);
-                            const end = Math.min(points.length - 1, endIndex);
-                            const segmentPoints = points.slice(start, end + 1);
-                            
-                            if (segmentPoints.length > 0) {
-                                const lats = segmentPoints.map(p => p.lat);
-                                const lons = segmentPoints.map(p => p.lon);
-                                const padding = 0.01; // ~1km padding
-                                processedActions.zoomBounds = {
-                                    north: Math.max(...lats) + padding,
-                                    south: Math.min(...lats) - padding,
-                                    east: Math.max(...lons) + padding,
-                                    west: Math.min(...lons) - padding
-                                };
-                            }
-                        } else if (processedActions.highlightedPoint) {
-                            // Calculate bbox around the single point
-                            const { lat, lon } = processedActions.highlightedPoint;
-                            const padding = 0.02; // ~2km padding for single point
-                            processedActions.zoomBounds = {
-                                north: lat + padding,
-                                south: lat - padding,
-                                east: lon + padding,
-                                west: lon - padding
-                            };
-                        }
-                    }
-                    
-                    onAIActions(processedActions);
+                if (actions.length > appliedActionCount) {
+                    applyAIActions(actions);
                 }
 
-                setMessages(prev => [...prev, {
-                    role: 'assistant',
-                    content: cleanedText
-                }]);
+                finishStreamingMessage(cleanedText);
 
             } else {
                 // Use the general reasoning API
@@ -338,29 +375,31 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
                     anomalyReport: selectedFlight.report
                 } : undefined;
 
-                const response: AIReasoningResponse = await sendReasoningQuery(
+                const response: AIReasoningResponse = await streamReasoningQuery(
                     input,
                     messages.filter(m => m.role !== 'system'),
+                    (text) => {
+                        partialContent = text;
+                        updateStreamingMessage(text);
+                    },
                     flightContext,
-                    signal
+                    { signal }
                 );
 
                 if (response.type === 'flights' && response.flights && response.flights.length > 0) {
                     onFlightsReceived(response.flights);
                     
-                    setMessages(prev => [...prev, {
-                        role: 'assistant',
-                        content: `${response.response}\n\n✨ ${isHebrewAnalyst ? `נמצאו ${response.flights?.length} טיסות - בדוק את לשונית **תוצאות AI** בסרגל הצד.` : `Found ${response.flights?.length} flight(s) - check the **AI Results** tab in the sidebar to view them.`}`
-                    }]);
+                    finishStreamingMessage(
+                        `${response.response}\n\n✨ ${isHebrewAnalyst ? `נמצאו ${response.flights?.length} טיסות - בדוק את לשונית **תוצאות AI** בסרגל הצד.` : `Found ${response.flights?.length} flight(s) - check the **AI Results** tab in the sidebar to view them.`}`
+                    );
                 } else {
-                    setMessages(prev => [...prev, {
-                        role: 'assistant',
-                        content: response.response
-                    }]);
+                    finishStreamingMessage(response.response);
                 }
             }
 
         } catch (err: any) {
+            finishStreamingMessage(partialContent || null);
+
             // Don't show error message if request was cancelled
             if (err.name === 'AbortError') {
                 setMessages(prev => [...prev, {
@@ -370,7 +409,7 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
             } else {
                 setMessages(prev => [...prev, {
                     role: 'assistant',
-                    content: `${isHebrewAnalyst ? 'מצטער, נתקלתי בשגיאה:' : 'Sorry, I encountered an error:'} ${err.message}`
+                    content: `${isHebrewAnalyst ? 'מצטער, נתקלתי בשגיאה:' : 'Sorry, I encountered an error:'} ${getErrorMessage(err)}`
                 }]);
             }
         } finally {
@@ -626,7 +665,8 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
                             {msg.role === 'assistant' ? (
                                 <TypewriterMarkdown 
                                     text={msg.content} 
-                                    shouldAnimate={i === messages.length - 1} 
+                                    shouldAnimate={i === messages.length - 1 && !msg.streamState} 
+                                    isStreaming={msg.streamState === 'streaming'}
                                 />
                             ) : (
                                 msg.content
@@ -635,7 +675,7 @@ export const ReasoningChat: React.FC<ReasoningChatProps> = ({
                     </div>
                 ))}
 
-                {loading && (
+                {loading && messages[messages.length - 1]?.streamState !== 'streaming' && (
                     <div className={clsx(
                         "flex gap-3 items-start",
                         // Loading indicator is for assistant, so same positioning as assistant messages
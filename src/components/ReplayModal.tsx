@@ -1,10 +1,14 @@
 import React, { useEffect, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { X, Play, Pause, SkipBack, SkipForward, AlertTriangle, MapPin, Wrench, Check } from 'lucide-react';
 import { fetchUnifiedTrack } from '../api';
 import type { TrackPoint } from '../types';
 import clsx from 'clsx';
+import { RULE_AIRPORTS } from '../constants';
+import { AirspaceOverlayControl } from './AirspaceOverlayControl';
+import { getShortcutAction, useShortcutBindings } from '../keyboardShortcuts';
 
 export interface ReplayEvent {
     timestamp: number;
@@ -33,27 +37,6 @@ type TelemetryData =
 
 const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6'];
 
-// Airports list from rule_config.json
-const AIRPORTS = [
-    { code: "LLBG", name: "Ben Gurion Intl", lat: 32.011389, lon: 34.886667, elevation_ft: 135 },
-    { code: "LLER", name: "Ramon Intl", lat: 29.723704, lon: 35.01145, elevation_ft: 648 },
-    { code: "LLHA", name: "Haifa", lat: 32.809444, lon: 35.043056, elevation_ft: 28 },
-    { code: "LLBS", name: "Beersheba", lat: 31.287, lon: 34.723, elevation_ft: 886 },
-    { code: "LLOV", name: "Ovda", lat: 29.940, lon: 34.935, elevation_ft: 1492 },
-    { code: "LLNV", name: "Nevatim AFB", lat: 31.207, lon: 35.012, elevation_ft: 1312 },
-    { code: "LLMG", name: "Megiddo", lat: 32.597, lon: 35.228, elevation_ft: 217 },
-    { code: "LLHZ", name: "Herzliya", lat: 32.186, lon: 34.835, elevation_ft: 121 },
-    { code: "LCRA", name: "RAF Akrotiri", lat: 34.5900, lon: 32.9870, elevation_ft: 76 },
-    { code: "OLBA", name: "Beirut Rafic Hariri Intl", lat: 33.820889, lon: 35.488389, elevation_ft: 89 },
-    { code: "OLKA", name: "Rayak Air Base", lat: 33.850, lon: 35.987, elevation_ft: 2953 },
-    { code: "OJAI", name: "Queen Alia Intl (Amman)", lat: 31.722556, lon: 35.993214, elevation_ft: 2395 },
-    { code: "OJAM", name: "Amman Civil Airport (Marka)", lat: 31.9697, lon: 35.9917, elevation_ft: 2555 },
-    { code: "OJAQ", name: "King Hussein Intl (Aqaba)", lat: 29.611, lon: 35.018, elevation_ft: 170 },
-    { code: "OJMF", name: "Mafraq", lat: 32.356, lon: 36.259, elevation_ft: 2240 },
-    { code: "HEGR", name: "El Gora Airport", lat: 31.0686, lon: 34.1296, elevation_ft: 295 },
-    { code: "OSDI", name: "Damascus Intl", lat: 33.411, lon: 36.516, elevation_ft: 2020 }
-];
-
 // Loading overlay component
 const LoadingOverlay = () => (
     <div className="absolute inset-0 z-[100] bg-black/90 flex items-center justify-center backdrop-blur-sm">
@@ -232,10 +215,11 @@ export const ReplayModal: React.FC<ReplayModalProps> = ({ mainFlightId, secondar
 
         map.current = new maplibregl.Map({
             container: mapContainer.current,
-            style: 'https://api.maptiler.com/maps/darkmatter/style.json?key=r7kaQpfNDVZdaVp23F1r',
+            style: getBasemapStyle(),
             center: [0, 0],
             zoom: 2,
         });
+        attachBasemap(map.current);
 
         popupRef.current = new maplibregl.Popup({
             closeButton: false,
@@ -444,6 +428,18 @@ export const ReplayModal: React.FC<ReplayModalProps> = ({ mainFlightId, secondar
         };
     }, [isPlaying, speed, maxTime]);
 
+    // Play/pause shortcut (Space unless rebound in settings)
+    const shortcutBindings = useShortcutBindings();
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (getShortcutAction(e, shortcutBindings) !== 'playPause') return;
+            e.preventDefault();
+            setIsPlaying(playing => !playing);
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [shortcutBindings]);
+
     // Update Map Data based on Current Time
     useEffect(() => {
         if (!map.current || !map.current.isStyleLoaded()) return;
@@ -552,7 +548,7 @@ export const ReplayModal: React.FC<ReplayModalProps> = ({ mainFlightId, secondar
 
         let nearest: { code: string; name: string; dist: number } | null = null;
         
-        for (const airport of AIRPORTS) {
+        for (const airport of RULE_AIRPORTS) {
             const dist = getDistanceNM(lat, lon, airport.lat, airport.lon);
             if (!nearest || dist < nearest.dist) {
                 nearest = { code: airport.code, name: airport.name, dist };
@@ -734,6 +730,13 @@ export const ReplayModal: React.FC<ReplayModalProps> = ({ mainFlightId, secondar
 
                         {/* Map */}
                         <div ref={mapContainer} className="w-full h-full bg-gray-900" />
+
+                        {/* Airspace / Reference Overlays - below the modal's header buttons */}
+                        <AirspaceOverlayControl
+                            map={mapReady ? map.current : null}
+                            beforeLayerId={flights[0] ? `layer-${flights[0].id}-ghost` : undefined}
+                            className="absolute top-16 right-4 z-20"
+                        />
                     </div>
                 </div>
 
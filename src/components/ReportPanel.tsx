@@ -1,52 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { X, AlertTriangle, CheckCircle, PlayCircle, Radio, Plane, Navigation, MapPin, RotateCcw, Compass, ShieldAlert, Wifi, RefreshCw, Loader2, ExternalLink, ChevronDown, Skull, CircleDot, Target, GraduationCap, Shield, Eye, Satellite, Gauge, UserX, Clock, WifiOff, Building2 } from 'lucide-react';
-import type { AnomalyReport } from '../types';
+import React, { useState, useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
+import { X, AlertTriangle, CheckCircle, PlayCircle, Radio, Plane, Navigation, MapPin, RotateCcw, Compass, ShieldAlert, Wifi, RefreshCw, Loader2, ExternalLink, ChevronDown, Skull, CircleDot, Target, GraduationCap, Shield, Eye, Satellite, Gauge, UserX, Clock, WifiOff, Building2, Download } from 'lucide-react';
+import type { AnomalyReport, FlightTrack, TrackPoint } from '../types';
 import { submitFeedback, fetchCallsignFromResearch, reanalyzeFeedbackFlight } from '../api';
 import clsx from 'clsx';
 import { ReplayModal, ReplayEvent } from './ReplayModal';
 import { useLanguage } from '../contexts/LanguageContext';
-
-// Available rules type
-interface Rule {
-    id: number;
-    name: string;
-    nameHe: string;
-    description: string;
-    category: 'emergency' | 'flight_ops' | 'technical' | 'military' | 'other';
-    color: string;
-}
-
-// Hardcoded tagging rules list
-const TAGGING_RULES: Rule[] = [
-    // Emergency & Safety (Red)
-    { id: 1, name: 'Emergency Squawks', nameHe: 'קודי חירום', description: 'Aircraft transmitting emergency squawk codes (7500, 7600, 7700)', category: 'emergency', color: 'red' },
-    { id: 2, name: 'Crash', nameHe: 'התרסקות', description: 'Aircraft crash or suspected crash event', category: 'emergency', color: 'red' },
-    { id: 3, name: 'Proximity Alert', nameHe: 'התראת קרבה', description: 'Dangerous proximity between aircraft', category: 'emergency', color: 'red' },
-    
-    // Flight Operations (Blue)
-    { id: 4, name: 'Holding Pattern', nameHe: 'דפוס המתנה', description: 'Aircraft in holding pattern', category: 'flight_ops', color: 'blue' },
-    { id: 5, name: 'Go Around', nameHe: 'גו-אראונד', description: 'Aborted landing and go-around maneuver', category: 'flight_ops', color: 'blue' },
-    { id: 6, name: 'Return to Land', nameHe: 'חזרה לנחיתה', description: 'Aircraft returning to departure airport', category: 'flight_ops', color: 'blue' },
-    { id: 7, name: 'Unplanned Landing', nameHe: 'נחיתה לא מתוכננת', description: 'Landing at unplanned airport', category: 'flight_ops', color: 'blue' },
-    
-    // Technical (Purple)
-    { id: 8, name: 'Signal Loss', nameHe: 'אובדן אות', description: 'Loss of ADS-B signal', category: 'technical', color: 'purple' },
-    { id: 9, name: 'Off Course', nameHe: 'סטייה ממסלול', description: 'Significant deviation from expected flight path', category: 'technical', color: 'purple' },
-    { id: 18, name: 'GPS Jamming', nameHe: 'שיבוש GPS', description: 'GPS jamming indicators detected (altitude oscillation, spoofed values, MLAT-only)', category: 'technical', color: 'purple' },
-    
-    // Military (Green)
-    { id: 10, name: 'Military Flight', nameHe: 'טיסה צבאית', description: 'Identified military aircraft', category: 'military', color: 'green' },
-    { id: 11, name: 'Operational Military Flight', nameHe: 'טיסה צבאית מבצעית', description: 'Military aircraft on operational mission', category: 'military', color: 'green' },
-    { id: 12, name: 'Suspicious Behavior', nameHe: 'התנהגות חשודה', description: 'Unusual or suspicious flight behavior', category: 'military', color: 'green' },
-    { id: 13, name: 'Flight Academy', nameHe: 'בית ספר לטיסה', description: 'Training flight from flight school', category: 'military', color: 'green' },
-    { id: 14, name: 'Circular Surveillance', nameHe: 'טיסה מעגלית חשודה', description: 'Non-commercial off-route circular flight pattern', category: 'military', color: 'green' },
-    { id: 15, name: 'Distance Trend Diversion', nameHe: 'הסטה מיעד', description: 'Consistent distancing from planned destination', category: 'flight_ops', color: 'blue' },
-    { id: 16, name: 'Performance Mismatch', nameHe: 'אי-התאמת ביצועים', description: 'Turn rate exceeds physical limits for declared aircraft type', category: 'military', color: 'green' },
-    { id: 17, name: 'Identity Spoofing', nameHe: 'התחזות זהות', description: 'Speed/climb rate exceeds physical envelope of declared aircraft', category: 'military', color: 'green' },
-    { id: 19, name: 'Endurance Breach', nameHe: 'חריגת סיבולת זמן', description: 'Flight duration exceeds 120% of aircraft type max endurance', category: 'military', color: 'green' },
-    { id: 20, name: 'Signal Dropout', nameHe: 'ניתוק אות טקטי', description: 'Suspicious in-flight signal discontinuity with stable conditions', category: 'technical', color: 'purple' },
-    { id: 21, name: 'Military Airport Usage', nameHe: 'שימוש בשדה צבאי', description: 'Commercial aircraft at military-only airport', category: 'military', color: 'green' },
-];
+import { getMatchedRules, findMatchedRule } from '../utils/reportSchema';
+import { TRACK_EXPORT_FORMATS, downloadTrackExport, type TrackExportFormat } from '../utils/trackExport';
+import { TAGGING_RULES } from '../utils/taggingRules';
 
 // Rule icon mapping
 const getRuleIcon = (ruleId: number) => {
@@ -80,8 +41,20 @@ interface ReportPanelProps {
     anomaly: AnomalyReport | null;
     onClose: () => void;
     className?: string;
-    mode?: 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results';
+    mode?: 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results' | 'watchlist';
     onFlyTo?: (lat: number, lon: number, zoom?: number) => void;
+    /** Loaded track of the flight, enables the export actions */
+    flightPoints?: TrackPoint[];
+    /** Other aircraft of a proximity alert, included in exports */
+    secondaryTrack?: FlightTrack | null;
+}
+
+/** Triage actions driven by the main page's keyboard shortcuts */
+export interface ReportPanelHandle {
+    toggleRule: (ruleId: number) => void;
+    submitFeedback: (isAnomaly: boolean) => void;
+    openReplay: () => void;
+    isReplayOpen: () => boolean;
 }
 
 // Layer color mapping for ML models
@@ -355,7 +328,7 @@ const LayerCard: React.FC<{ title: string; data: any; type: 'rules' | 'model'; r
     );
 };
 
-export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, className, mode, onFlyTo }) => {
+export const ReportPanel = forwardRef<ReportPanelHandle, ReportPanelProps>(({ anomaly, onClose, className, mode, onFlyTo, flightPoints, secondaryTrack }, ref) => {
     const [feedbackStatus, setFeedbackStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
     const [comment, setComment] = useState('');
     const [copied, setCopied] = useState(false);
@@ -418,8 +391,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
 
         // Find missing callsigns for proximity rules
         const checkAndFetchCallsigns = async () => {
-            const rules = localAnomaly.full_report?.matched_rules || 
-                          localAnomaly.full_report?.layer_1_rules?.report?.matched_rules || [];
+            const rules = getMatchedRules(localAnomaly.full_report);
             
             const missingIds = new Set<string>();
             
@@ -477,7 +449,17 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
         return `https://www.flightradar24.com/data/flights/${callsignForUrl}#${localAnomaly.flight_id}`;
     }, [localAnomaly?.callsign, localAnomaly?.flight_id, localAnomaly?.flight_number, localAnomaly?.full_report?.summary?.flight_number]);
 
+    // Defined below the early return, so the handle calls it through a ref
+    const handleFeedbackRef = useRef<(isAnomaly: boolean) => void>(() => {});
 
+    useImperativeHandle(ref, () => ({
+        toggleRule: toggleRuleSelection,
+        submitFeedback: (isAnomaly: boolean) => {
+            if (feedbackStatus !== 'submitting') handleFeedbackRef.current(isAnomaly);
+        },
+        openReplay: () => setShowReplay(true),
+        isReplayOpen: () => showReplay,
+    }), [feedbackStatus, showReplay]);
 
     if (!localAnomaly) return null;
 
@@ -487,6 +469,15 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
         setTimeout(() => setCopied(false), 2000);
     };
 
+    const handleExport = (format: TrackExportFormat) => {
+        if (!localAnomaly || !flightPoints?.length) return;
+        downloadTrackExport(format, {
+            anomaly: localAnomaly,
+            track: { flight_id: localAnomaly.flight_id, points: flightPoints },
+            secondary: secondaryTrack,
+        });
+    };
+
     const handleReanalyze = async () => {
         if (!localAnomaly) return;
         setIsReanalyzing(true);
@@ -553,6 +544,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
             setFeedbackStatus('error');
         }
     };
+    handleFeedbackRef.current = handleFeedback;
 
     const report = localAnomaly.full_report || {};
     const summary = report.summary || {};
@@ -572,8 +564,8 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
         const layerTriggers = report.layer_1_rules?.triggers || [];
         if (layerTriggers.length > 0) return layerTriggers;
         // Priority 2: Extract from matched_rules objects
-        const matchedRules = report.layer_1_rules?.report?.matched_rules || report.matched_rules || [];
-        if (matchedRules.length > 0) return matchedRules.map((r: any) => r.name || `Rule ${r.id}`);
+        const matchedRules = getMatchedRules(report);
+        if (matchedRules.length > 0) return matchedRules.map(r => r.name || `Rule ${r.id}`);
         // Priority 3: Denormalized rule names from API (PostgreSQL columns)
         const dbRuleNames = localAnomaly.matched_rule_names;
         if (dbRuleNames && typeof dbRuleNames === 'string') {
@@ -598,29 +590,26 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
 
     // Extract secondary flight IDs for proximity rule (ID 4)
     const getSecondaryFlightIds = () => {
-        // Look in both the main report and layer 1 rules
-        const rules = localAnomaly.full_report?.matched_rules || 
-                     localAnomaly.full_report?.layer_1_rules?.report?.matched_rules || [];
-                     
-        const proximityRule = rules.find((r: any) => r.id === 4);
-        
+        const proximityRule = findMatchedRule(localAnomaly.full_report, 4);
+
         if (!proximityRule?.details?.events) return [];
         return proximityRule.details.events
-            .map((e: any) => e.other_flight)
-            .filter((id: string) => id && id !== localAnomaly.flight_id);
+            .map(e => e.other_flight)
+            .filter((id): id is string => !!id && id !== localAnomaly.flight_id);
     };
 
     const getReplayEvents = (): ReplayEvent[] => {
         const events: ReplayEvent[] = [];
-        const rules = localAnomaly.full_report?.matched_rules || 
-                     localAnomaly.full_report?.layer_1_rules?.report?.matched_rules || [];
+        const rules = getMatchedRules(localAnomaly.full_report);
 
-        rules.forEach((rule: any) => {
+        rules.forEach(rule => {
             if (rule.id === 4 && rule.details?.events) {
                 // Dangerous Proximity
-                rule.details.events.forEach((ev: any) => {
+                rule.details.events.forEach(ev => {
+                    const timestamp = ev.timestamp ?? ev.start_ts;
+                    if (timestamp === undefined) return;
                     events.push({
-                        timestamp: ev.timestamp,
+                        timestamp,
                         type: 'proximity',
                         description: `Conflict with ${ev.other_callsign || ev.other_flight}. Dist: ${ev.distance_nm} NM, Alt Diff: ${ev.altitude_diff_ft} ft`,
                         // Lat/Lon might not be in the event record for proximity, but timestamp is key
@@ -628,7 +617,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
                 });
             } else if (rule.id === 11 && rule.details?.deviations) {
                 // Path Deviation
-                rule.details.deviations.forEach((dev: any) => {
+                rule.details.deviations.forEach(dev => {
                     events.push({
                         timestamp: dev.timestamp,
                         type: 'deviation',
@@ -736,6 +725,36 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
                                                 <span className="font-medium">{isHebrew ? "נגן טיסה" : "Replay Flight"}</span>
                                             </button>
 
+                                            {flightPoints && flightPoints.length > 0 && (
+                                                <div className="border-t border-white/10 pt-1">
+                                                    <div className={clsx(
+                                                        "px-3 py-1 text-[10px] uppercase tracking-wide text-white/40",
+                                                        isHebrew ? "text-right" : "text-left"
+                                                    )}>
+                                                        {isHebrew ? "ייצוא מסלול" : "Export Track"}
+                                                    </div>
+                                                    {TRACK_EXPORT_FORMATS.map(format => (
+                                                        <button
+                                                            key={format.id}
+                                                            onClick={() => {
+                                                                handleExport(format.id);
+                                                                setShowActions(false);
+                                                            }}
+                                                            className={clsx(
+                                                                "flex items-center gap-3 w-full px-3 py-2 text-sm rounded-md transition-all duration-200 group",
+                                                                isHebrew ? "text-right flex-row-reverse" : "text-left",
+                                                                "text-white/80 hover:text-cyan-300 hover:bg-cyan-500/10"
+                                                            )}
+                                                        >
+                                                            <div className="p-1.5 rounded bg-white/5 group-hover:bg-cyan-500/20 transition-colors">
+                                                                <Download className="size-3.5 group-hover:scale-110 transition-transform" />
+                                                            </div>
+                                                            <span className="font-medium">{format.label}</span>
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            )}
+
                                             {mode === 'feedback' && (
                                                 <button
                                                     onClick={() => {
@@ -795,6 +814,33 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
                     </div>
                 )}
 
+                {/* Schema Warning - report was malformed or from an older pipeline version */}
+                {localAnomaly.schema_warnings && localAnomaly.schema_warnings.length > 0 && (
+                    <div className="bg-amber-500/10 rounded-lg p-3 border border-amber-500/30" dir={isHebrew ? "rtl" : "ltr"}>
+                        <div className="flex items-center gap-2">
+                            <AlertTriangle className="size-4 text-amber-400 shrink-0" />
+                            <p className="text-xs text-amber-300 font-bold uppercase">
+                                {isHebrew ? "אזהרת מבנה דוח" : "Report Schema Warning"}
+                            </p>
+                        </div>
+                        <p className="text-xs text-white/60 mt-1">
+                            {isHebrew
+                                ? "חלק מנתוני הדוח חסרים או בפורמט לא צפוי. ייתכן שחלק מהשכבות מוצגות באופן חלקי."
+                                : "Some report data is missing or in an unexpected format. Parts of the analysis may be incomplete."}
+                        </p>
+                        <details className="mt-2">
+                            <summary className="text-[10px] text-white/40 cursor-pointer hover:text-white/60">
+                                {isHebrew ? `פרטים (${localAnomaly.schema_warnings.length})` : `Details (${localAnomaly.schema_warnings.length})`}
+                            </summary>
+                            <ul className="mt-1 space-y-0.5" dir="ltr">
+                                {localAnomaly.schema_warnings.map((warning, idx) => (
+                                    <li key={idx} className="text-[10px] font-mono text-amber-200/70">{warning}</li>
+                                ))}
+                            </ul>
+                        </details>
+                    </div>
+                )}
+
                 {/* Overall Summary */}
                 <div className="bg-primary/10 rounded-lg p-3 border border-primary/20" dir={isHebrew ? "rtl" : "ltr"}>
                     <p className="text-xs text-primary font-bold uppercase mb-1">{isHebrew ? "פסיקת מערכת" : "System Verdict"}</p>
@@ -1475,5 +1521,6 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ anomaly, onClose, clas
         )}
         </>
     );
-};
+});
 
+ReportPanel.displayName = 'ReportPanel';
@@ -1,8 +1,46 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { X, RotateCcw, Moon, Sun, ChevronDown, Globe } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, RotateCcw, Moon, Sun, ChevronDown, Globe, Database, Download, Trash2, Upload, Map as MapIcon, Plus, Check, Keyboard } from 'lucide-react';
 import { applyTheme, DEFAULT_THEME, loadSavedTheme, PRESET_THEMES, ThemeConfig, ThemePreset } from '../theme';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTranslation } from 'react-i18next';
+import {
+    isFixtureBundle,
+    isFixtureRecordingEnabled,
+    isMockModeEnabled,
+    loadUserFixtures,
+    setFixtureRecordingEnabled,
+    setMockModeEnabled,
+    setUserFixtureBundle,
+} from '../mock/mockMode';
+import { clearRecordedFixtures, downloadRecordedFixtures, getRecordedFixtureCount } from '../mock/fixtureRecorder';
+import {
+    BASEMAP_CHANGE_EVENT,
+    getBasemaps,
+    getSelectedBasemap,
+    removeCustomBasemap,
+    saveCustomBasemap,
+    setSelectedBasemap,
+    type BasemapDefinition,
+    type BasemapSource,
+} from '../basemaps';
+import {
+    SHORTCUT_GROUPS,
+    normalizeShortcutKey,
+    resetShortcutBindings,
+    setShortcutBinding,
+    useShortcutBindings,
+    type ShortcutAction,
+} from '../keyboardShortcuts';
+import { useShortcutLabel } from './KeyboardShortcutsOverlay';
+
+type CustomBasemapType = 'style' | 'raster' | 'pmtiles';
+
+const buildCustomSource = (type: CustomBasemapType, url: string): BasemapSource => {
+    if (type === 'style') return { type, url };
+    if (type === 'pmtiles') return { type, url };
+    // XYZ templates contain {z}/{x}/{y}; anything else is treated as a TileJSON URL
+    return url.includes('{z}') ? { type, tiles: [url], tileSize: 256 } : { type, url };
+};
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -18,6 +56,61 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     const [lightExpanded, setLightExpanded] = useState(false);
     const { language, setLanguage, isHebrew, analystLanguageSetting, setAnalystLanguageSetting } = useLanguage();
     const { t } = useTranslation();
+    const [recording, setRecording] = useState(isFixtureRecordingEnabled);
+    const [recordedCount, setRecordedCount] = useState(0);
+    const [loadedFixtureCount, setLoadedFixtureCount] = useState(0);
+    const [fixtureError, setFixtureError] = useState<string | null>(null);
+    const fixtureInputRef = useRef<HTMLInputElement>(null);
+    const [basemaps, setBasemaps] = useState<BasemapDefinition[]>([]);
+    const [selectedBasemapId, setSelectedBasemapId] = useState('');
+    const [showCustomBasemap, setShowCustomBasemap] = useState(false);
+    const [customBasemapName, setCustomBasemapName] = useState('');
+    const [customBasemapType, setCustomBasemapType] = useState<CustomBasemapType>('style');
+    const [customBasemapUrl, setCustomBasemapUrl] = useState('');
+
+    const shortcutBindings = useShortcutBindings();
+    const getShortcutLabel = useShortcutLabel();
+    const [shortcutsExpanded, setShortcutsExpanded] = useState(false);
+    // Action waiting for its new key
+    const [rebindingAction, setRebindingAction] = useState<ShortcutAction | null>(null);
+
+    // Capture the next key press for the action being rebound; Escape cancels
+    useEffect(() => {
+        if (!rebindingAction) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key !== 'Escape') setShortcutBinding(rebindingAction, normalizeShortcutKey(e.key));
+            setRebindingAction(null);
+        };
+        document.addEventListener('keydown', handleKeyDown, true);
+        return () => document.removeEventListener('keydown', handleKeyDown, true);
+    }, [rebindingAction]);
+
+    useEffect(() => {
+        if (!isOpen) setRebindingAction(null);
+    }, [isOpen]);
+
+    // Keep the basemap list in sync with the registry while open
+    useEffect(() => {
+        if (!isOpen) return;
+        const refresh = () => {
+            setBasemaps(getBasemaps());
+            setSelectedBasemapId(getSelectedBasemap().id);
+        };
+        refresh();
+        window.addEventListener(BASEMAP_CHANGE_EVENT, refresh);
+        return () => window.removeEventListener(BASEMAP_CHANGE_EVENT, refresh);
+    }, [isOpen]);
+
+    // Refresh data source counters on open
+    useEffect(() => {
+        if (!isOpen) return;
+        setRecordedCount(getRecordedFixtureCount());
+        setLoadedFixtureCount(loadUserFixtures().length);
+        setFixtureError(null);
+    }, [isOpen]);
 
     // Hydrate with saved colors on open
     useEffect(() => {
@@ -38,6 +131,57 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
         applyTheme(DEFAULT_THEME);
     };
 
+    // Cached responses belong to the previous data source, so start over
+    const handleMockModeToggle = () => {
+        setMockModeEnabled(!isMockModeEnabled());
+        window.location.reload();
+    };
+
+    const handleRecordingToggle = () => {
+        setFixtureRecordingEnabled(!recording);
+        setRecording(!recording);
+    };
+
+    const handleClearRecorded = () => {
+        clearRecordedFixtures();
+        setRecordedCount(0);
+    };
+
+    const handleFixtureFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const bundle = JSON.parse(await file.text());
+            if (!isFixtureBundle(bundle)) throw new Error('Missing entries');
+            setUserFixtureBundle(bundle);
+            setLoadedFixtureCount(bundle.entries.length);
+            setFixtureError(null);
+            if (isMockModeEnabled()) window.location.reload();
+        } catch (error) {
+            console.warn('Failed to load fixture file', error);
+            setFixtureError(t('settings.invalidFixtures'));
+        }
+    };
+
+    const handleRemoveFixtures = () => {
+        setUserFixtureBundle(null);
+        setLoadedFixtureCount(0);
+        if (isMockModeEnabled()) window.location.reload();
+    };
+
+    const handleAddCustomBasemap = () => {
+        const name = customBasemapName.trim();
+        const url = customBasemapUrl.trim();
+        if (!name || !url) return;
+        const id = `custom-${Date.now()}`;
+        saveCustomBasemap({ id, name, description: url, source: buildCustomSource(customBasemapType, url) });
+        setSelectedBasemap(id);
+        setCustomBasemapName('');
+        setCustomBasemapUrl('');
+        setShowCustomBasemap(false);
+    };
+
     const { darkPresets, lightPresets } = useMemo(() => {
         const entries = Object.entries(PRESET_THEMES) as [string, ThemePreset][];
         return {
@@ -126,6 +270,222 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
                         </div>
                     </div>
 
+                    {/* Basemap Settings */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium text-white/80">{t('settings.basemap')}</label>
+                            <button
+                                onClick={() => setShowCustomBasemap(!showCustomBasemap)}
+                                className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-white/5 text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors"
+                            >
+                                <Plus className="size-3.5" />
+                                {t('settings.addBasemap')}
+                            </button>
+                        </div>
+                        <div className="space-y-1.5">
+                            {basemaps.map((basemap) => (
+                                <div
+                                    key={basemap.id}
+                                    onClick={() => setSelectedBasemap(basemap.id)}
+                                    className={`group flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-all ${
+                                        selectedBasemapId === basemap.id
+                                            ? "bg-primary/15 border-primary"
+                                            : "bg-white/5 border-white/10 hover:bg-white/10"
+                                    }`}
+                                >
+                                    <MapIcon className={`size-4 shrink-0 ${selectedBasemapId === basemap.id ? 'text-primary' : 'text-white/50'}`} />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium text-white truncate">{basemap.name}</p>
+                                        {basemap.description && (
+                                            <p className="text-[10px] text-white/40 truncate" dir="ltr">{basemap.description}</p>
+                                        )}
+                                    </div>
+                                    {basemap.source.type === 'offline' && (
+                                        <span className="px-1.5 py-0.5 rounded bg-green-500/15 text-green-400 text-[10px] font-semibold">{t('settings.offline')}</span>
+                                    )}
+                                    {selectedBasemapId === basemap.id && <Check className="size-4 text-primary shrink-0" />}
+                                    {basemap.custom && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); removeCustomBasemap(basemap.id); }}
+                                            className="text-white/40 hover:text-red-400 transition-colors"
+                                            title={t('settings.removeBasemap')}
+                                        >
+                                            <Trash2 className="size-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {showCustomBasemap && (
+                            <div className="rounded-lg border border-white/10 p-3 space-y-2 animate-in fade-in slide-in-from-top-2">
+                                <input
+                                    type="text"
+                                    value={customBasemapName}
+                                    onChange={(e) => setCustomBasemapName(e.target.value)}
+                                    placeholder={t('settings.basemapName')}
+                                    className="w-full bg-background-dark border border-white/10 rounded px-3 py-1.5 text-white text-sm"
+                                />
+                                <div className="flex gap-1">
+                                    {(['style', 'raster', 'pmtiles'] as CustomBasemapType[]).map((type) => (
+                                        <button
+                                            key={type}
+                                            onClick={() => setCustomBasemapType(type)}
+                                            className={`flex-1 py-1.5 rounded text-xs font-medium transition-all border ${
+                                                customBasemapType === type
+                                                    ? "bg-primary text-white border-primary"
+                                                    : "bg-white/5 text-white/60 border-white/10 hover:bg-white/10 hover:text-white"
+                                            }`}
+                                        >
+                                            {t(`settings.basemapType.${type}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <input
+                                    type="text"
+                                    value={customBasemapUrl}
+                                    onChange={(e) => setCustomBasemapUrl(e.target.value)}
+                                    placeholder={t(`settings.basemapUrlHint.${customBasemapType}`)}
+                                    className="w-full bg-background-dark border border-white/10 rounded px-3 py-1.5 text-white text-sm font-mono"
+                                    dir="ltr"
+                                />
+                                <button
+                                    onClick={handleAddCustomBasemap}
+                                    disabled={!customBasemapName.trim() || !customBasemapUrl.trim()}
+                                    className="w-full py-1.5 rounded bg-primary text-white text-sm font-medium hover:bg-primary/80 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                                >
+                                    {t('settings.saveBasemap')}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Data Source Settings */}
+                    <div className="space-y-3">
+                        <label className="text-sm font-medium text-white/80">{t('settings.dataSource')}</label>
+                        <button
+                            onClick={handleMockModeToggle}
+                            className={`w-full flex items-center justify-between gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-all border ${
+                                isMockModeEnabled()
+                                    ? "bg-primary/20 text-white border-primary"
+                                    : "bg-white/5 text-white/60 border-white/10 hover:bg-white/10 hover:text-white"
+                            }`}
+                        >
+                            <span className="flex items-center gap-2">
+                                <Database className="size-4" />
+                                {t('settings.mockMode')}
+                            </span>
+                            <span className={`h-4 w-8 rounded-full p-0.5 transition-colors ${isMockModeEnabled() ? 'bg-primary' : 'bg-white/20'}`}>
+                                <span className={`block size-3 rounded-full bg-white transition-transform ${isMockModeEnabled() ? 'translate-x-4 rtl:-translate-x-4' : ''}`} />
+                            </span>
+                        </button>
+                        <p className="text-[11px] text-white/40">{t('settings.mockModeHint')}</p>
+
+                        <div className="rounded-lg border border-white/10 p-3 space-y-2">
+                            <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={recording}
+                                    onChange={handleRecordingToggle}
+                                    disabled={isMockModeEnabled()}
+                                    className="accent-primary"
+                                />
+                                {t('settings.recordFixtures')}
+                            </label>
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs text-white/50">{t('settings.recordedCount', { count: recordedCount })}</span>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={downloadRecordedFixtures}
+                                        disabled={recordedCount === 0}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-white/5 text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                                    >
+                                        <Download className="size-3.5" />
+                                        {t('settings.downloadFixtures')}
+                                    </button>
+                                    <button
+                                        onClick={handleClearRecorded}
+                                        disabled={recordedCount === 0}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 rounded bg-white/5 text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                                    >
+                                        <Trash2 className="size-3.5" />
+                                        {t('settings.clearFixtures')}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <input ref={fixtureInputRef} type="file" accept="application/json,.json" onChange={handleFixtureFile} className="hidden" />
+                            <button
+                                onClick={() => fixtureInputRef.current?.click()}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors"
+                            >
+                                <Upload className="size-3.5" />
+                                {t('settings.loadFixtures')}
+                            </button>
+                            {loadedFixtureCount > 0 && (
+                                <button
+                                    onClick={handleRemoveFixtures}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors"
+                                >
+                                    <Trash2 className="size-3.5" />
+                                    {t('settings.removeFixtures')}
+                                </button>
+                            )}
+                        </div>
+                        {loadedFixtureCount > 0 && (
+                            <p className="text-[11px] text-white/40">{t('settings.loadedFixtures', { count: loadedFixtureCount })}</p>
+                        )}
+                        {fixtureError && <p className="text-[11px] text-red-400">{fixtureError}</p>}
+                    </div>
+
+                    {/* Keyboard Shortcuts */}
+                    <div className="rounded-lg border border-white/10 overflow-hidden">
+                        <button
+                            onClick={() => setShortcutsExpanded(!shortcutsExpanded)}
+                            className="w-full flex items-center justify-between gap-2 px-3 py-2.5 bg-white/5 hover:bg-white/10 transition-colors"
+                        >
+                            <span className="flex items-center gap-2 text-sm font-medium text-white/80">
+                                <Keyboard className="size-4" />
+                                {t('shortcuts.settingsTitle')}
+                            </span>
+                            <ChevronDown className={`size-4 text-white/50 transition-transform duration-200 ${shortcutsExpanded ? 'rotate-180' : ''}`} />
+                        </button>
+                        {shortcutsExpanded && (
+                            <div className="p-3 space-y-3">
+                                <p className="text-[11px] text-white/40">{t('shortcuts.settingsHint')}</p>
+                                {SHORTCUT_GROUPS.map(group => (
+                                    <div key={group.id} className="space-y-1">
+                                        <span className="text-xs font-semibold text-white/50 uppercase tracking-wider">{t(`shortcuts.groups.${group.id}`)}</span>
+                                        {group.actions.map(action => (
+                                            <div key={action} className="flex items-center justify-between gap-3 text-xs text-white/80">
+                                                <span className="truncate">{getShortcutLabel(action)}</span>
+                                                <button
+                                                    onClick={() => setRebindingAction(rebindingAction === action ? null : action)}
+                                                    className={`shrink-0 min-w-[4.5rem] px-2 py-1 rounded border font-mono transition-colors ${
+                                                        rebindingAction === action
+                                                            ? "border-primary bg-primary/20 text-white animate-pulse"
+                                                            : "border-white/20 bg-white/5 text-white hover:border-primary/60"
+                                                    }`}
+                                                >
+                                                    {rebindingAction === action ? t('shortcuts.pressKey') : shortcutBindings[action]}
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={resetShortcutBindings}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors"
+                                >
+                                    <RotateCcw className="size-3.5" />
+                                    {t('shortcuts.resetDefaults')}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
                     <div className="space-y-2">
                         <label className="text-sm font-medium text-white/80">{t('settings.primaryColor')}</label>
                         <div className="flex gap-3">
@@ -1,25 +1,79 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ChevronLeft, ChevronRight, Search, Radio, Filter, Beaker, Calendar, List, ArrowLeft, Plane, History, Sparkles } from 'lucide-react';
-import { fetchLiveAnomalies, fetchResearchAnomalies, fetchRules, fetchFlightsByRule, fetchFeedbackHistory as apiFetchFeedbackHistory, fetchTaggedFeedbackHistory } from '../api';
-import type { AnomalyReport } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Search, Radio, Filter, Beaker, Calendar, List, ArrowLeft, Plane, History, Sparkles, Pin, PinOff, Clock, Save, X, ChevronDown, Eye } from 'lucide-react';
+import { fetchLiveAnomalies, fetchResearchAnomalies, fetchRules, fetchFlightsByRule, fetchFeedbackHistory as apiFetchFeedbackHistory, fetchTaggedFeedbackHistory, fetchDataFlights, type TrackSource } from '../api';
+import type { AnomalyReport, DataFlight } from '../types';
+import { getMatchedRules } from '../utils/reportSchema';
+import { loadFilterPresets, saveFilterPresets, toPresetFilters, type FilterPreset, type SidebarFilters } from '../utils/sidebarFilters';
+import { MAX_RANGE_DAYS, dayRange, isRangeTooLong, formatDateParam, formatDateTimeParam, parseDateParam, presetRange, shiftRange, splitRangeByDay, type DateRange, type DateRangePreset } from '../utils/dateRange';
+import { createLiveAnomalyStream, type LiveAnomalyStream, type LiveConnectionState } from '../liveStream';
+import { ANOMALY_GROUP_BYS, ANOMALY_SORTS, UNGROUPED_KEY, groupAnomalies, sortAnomalies, type AnomalyGroupBy, type AnomalySort } from '../utils/anomalyGrouping';
+import { VirtualList } from './VirtualList';
+import { BulkTriageBar } from './BulkTriageBar';
+import { WatchlistModal } from './WatchlistModal';
+import { getVersionForTimestamp, isCurrentVersion, useModelVersions } from '../modelVersions';
+import { MAX_PINNED_FLIGHTS, pinFlight, unpinFlight, usePinnedFlights } from '../pinnedFlights';
 import clsx from 'clsx';
-import { ALERT_AUDIO_SRC, SOUND_COOLDOWN_MS } from '../constants';
+import { evaluateAlertRules, useAlertHistory, type AlertHistoryEntry } from '../alertRules';
+import { getReportIdentity, useWatchlist, useWatchlistMatcher } from '../watchlist';
 import { useTranslation } from 'react-i18next';
 import { useLanguage } from '../contexts/LanguageContext';
 
-export type SidebarMode = 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results';
+export type SidebarMode = 'historical' | 'realtime' | 'research' | 'rules' | 'feedback' | 'ai-results' | 'watchlist';
+
+/** Backend store the tracks listed in a sidebar mode are read from */
+export const trackSourceForMode = (mode: SidebarMode): TrackSource => {
+    switch (mode) {
+        case 'feedback': return 'feedback';
+        case 'rules':
+        case 'ai-results':
+        case 'watchlist': return 'unified';
+        case 'research': return 'research';
+        default: return 'live';
+    }
+};
 
 interface SidebarProps {
     onSelectAnomaly: (anomaly: AnomalyReport) => void;
     selectedAnomalyId?: string;
     mode: SidebarMode;
     setMode: (mode: SidebarMode) => void;
-    selectedDate: Date;
-    setSelectedDate: (date: Date) => void;
+    dateRange: DateRange;
+    setDateRange: (range: DateRange) => void;
+    filters: SidebarFilters;
+    setFilters: (filters: SidebarFilters) => void;
     className?: string;
     aiResultFlights?: AnomalyReport[];
+    /** Receives the list as currently filtered, e.g. for the map's day overview */
+    onFilteredAnomaliesChange?: (anomalies: AnomalyReport[]) => void;
+    /** Receives the flights in list order, one per flight, without those in collapsed groups */
+    onListedAnomaliesChange?: (anomalies: AnomalyReport[]) => void;
 }
 
+type SidebarListRow =
+    | { kind: 'group'; key: string; groupKey: string; label: string; count: number; collapsed: boolean }
+    | { kind: 'anomaly'; key: string; anomaly: AnomalyReport };
+
+// Most flights the feedback endpoints return per request
+const FEEDBACK_TAGGED_LIMIT = 200;
+const FEEDBACK_FALLBACK_LIMIT = 100;
+
+// Fixed row heights for the virtualized list (including the gap below each row)
+const CARD_ROW_HEIGHT = 100;
+const GROUP_ROW_HEIGHT = 36;
+const getRowHeight = (row: SidebarListRow) => row.kind === 'group' ? GROUP_ROW_HEIGHT : CARD_ROW_HEIGHT;
+const getRowKey = (row: SidebarListRow) => row.key;
+
+// Flights without an anomaly report are listed with an empty one
+const toFlightReport = (flight: DataFlight): AnomalyReport => ({
+    flight_id: flight.flight_id,
+    callsign: flight.callsign,
+    timestamp: flight.start_time,
+    is_anomaly: false,
+    severity_cnn: 0,
+    severity_dense: 0,
+    full_report: {},
+});
+
 const LoadingPlane: React.FC<{ message?: string }> = ({ message }) => {
     const { t } = useTranslation();
     return (
@@ -41,42 +95,99 @@ export const Sidebar: React.FC<SidebarProps> = ({
     selectedAnomalyId, 
     mode, 
     setMode, 
-    selectedDate, 
-    setSelectedDate, 
+    dateRange, 
+    setDateRange, 
+    filters,
+    setFilters,
     className,
-    aiResultFlights = []
+    aiResultFlights = [],
+    onFilteredAnomaliesChange,
+    onListedAnomaliesChange
 }) => {
     const { t } = useTranslation();
     const { isHebrew } = useLanguage();
     const [anomalies, setAnomalies] = useState<AnomalyReport[]>([]);
     const [loading, setLoading] = useState(false);
-    const [filter, setFilter] = useState('');
     
     // Rules State
     const [rules, setRules] = useState<{ id: number; name: string; description: string }[]>([]);
-    const [selectedRuleId, setSelectedRuleId] = useState<number | null>(null);
     
-    // Filters
-    const [minScore, setMinScore] = useState(0);
-    const [selectedTrigger, setSelectedTrigger] = useState('All');
-    const [selectedLayerCombo, setSelectedLayerCombo] = useState<string[]>([]);
-    const [selectedVersion, setSelectedVersion] = useState('All');
+    // Filters are owned by the app so they can be mirrored into the URL
+    const {
+        search: filter,
+        minScore,
+        trigger: selectedTrigger,
+        layerCombo: selectedLayerCombo,
+        version: selectedVersion,
+        showNormal: showNormalFeedback,
+        ruleId: selectedRuleId,
+    } = filters;
+    const updateFilters = (patch: Partial<SidebarFilters>) => setFilters({ ...filters, ...patch });
+    const setSelectedRuleId = (ruleId: number | null) => updateFilters({ ruleId });
     const [showFilters, setShowFilters] = useState(false);
-    
-    // Feedback Mode Specific Filters
-    const [showNormalFeedback, setShowNormalFeedback] = useState(false);
+    const [collapsedGroups, setCollapsedGroups] = useState<ReadonlySet<string>>(new Set());
+
+    // Flights checked for bulk triage, by flight id
+    const [checkedIds, setCheckedIds] = useState<ReadonlySet<string>>(new Set());
+    const lastCheckedIdRef = useRef<string | null>(null);
+    // A bulk triage run keeps its bar open even if the selection empties meanwhile
+    const [bulkRunning, setBulkRunning] = useState(false);
+
+    // Saved filter presets
+    const [presets, setPresets] = useState<FilterPreset[]>(loadFilterPresets);
+    const [presetName, setPresetName] = useState('');
+
+    // Days of a multi-day range fetched so far
+    const [rangeProgress, setRangeProgress] = useState<{ loaded: number; total: number } | null>(null);
+    // Feedback days that returned as many flights as a request may hold
+    const [truncatedDays, setTruncatedDays] = useState(0);
+    // Custom range being edited, applied with the Apply button
+    const [customDraft, setCustomDraft] = useState<{ from: string; to: string } | null>(null);
 
-    const audioRef = useRef<HTMLAudioElement | null>(null);
-    const lastSoundTimeRef = useRef(0);
 
     const triggerOptions = ['All', 'Combination', 'Rules', 'XGBoost', 'DeepDense', 'DeepCNN', 'Transformer', 'Hybrid'];
-    const versionOptions = ['All', 'v1', 'v2', 'v3', 'v4', 'vx'];
+    const modelVersions = useModelVersions();
+    const versionOptions = ['All', ...modelVersions.map(v => v.id)];
+    const [showVersionSummary, setShowVersionSummary] = useState(false);
 
     // Realtime tracking
-    const lastFetchTimeRef = useRef<number>(0);
-    const intervalRef = useRef<any>(null);
+    const liveStreamRef = useRef<LiveAnomalyStream | null>(null);
+    // Anomalies already listed in realtime mode, so re-delivered ones neither duplicate nor alert
+    const realtimeKeysRef = useRef(new Set<string>());
+    const [liveState, setLiveState] = useState<LiveConnectionState>('connecting');
+    const [lastLiveUpdate, setLastLiveUpdate] = useState<Date | null>(null);
     const searchAbortRef = useRef<AbortController | null>(null);
 
+    // Pinned flights tray
+    const pinnedFlights = usePinnedFlights();
+    const pinnedIds = new Set(pinnedFlights.map(p => p.flight_id));
+
+    // Latest alert fired for each flight, shown as a badge on its card
+    const alertHistory = useAlertHistory();
+    const alertByFlight = useMemo(() => {
+        const latest = new Map<string, AlertHistoryEntry>();
+        alertHistory.forEach(entry => {
+            if (!latest.has(entry.flightId)) latest.set(entry.flightId, entry);
+        });
+        return latest;
+    }, [alertHistory]);
+
+    // Watchlist: matching flights are highlighted in every mode
+    const watchlist = useWatchlist();
+    const matchWatchlist = useWatchlistMatcher();
+    const [showWatchlist, setShowWatchlist] = useState(false);
+
+    const togglePin = (anomaly: AnomalyReport) => {
+        if (pinnedIds.has(anomaly.flight_id)) {
+            unpinFlight(anomaly.flight_id);
+        } else {
+            pinFlight(
+                { flight_id: anomaly.flight_id, callsign: anomaly.callsign, source: trackSourceForMode(mode) },
+                anomaly.full_report
+            );
+        }
+    };
+
     const startNewSearch = () => {
         if (searchAbortRef.current) {
             searchAbortRef.current.abort();
@@ -95,9 +206,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
     // Effect for fetching anomalies based on mode
     useEffect(() => {
-        if (intervalRef.current) {
-            clearInterval(intervalRef.current);
-            intervalRef.current = null;
+        if (liveStreamRef.current) {
+            liveStreamRef.current.stop();
+            liveStreamRef.current = null;
         }
 
         if (searchAbortRef.current) {
@@ -106,6 +217,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
         }
 
         setAnomalies([]);
+        setRangeProgress(null);
+        setTruncatedDays(0);
+        realtimeKeysRef.current = new Set();
 
         if (mode === 'rules') {
             fetchRulesList();
@@ -114,21 +228,33 @@ export const Sidebar: React.FC<SidebarProps> = ({
         } else if (mode === 'ai-results') {
             // AI results are managed externally via props
             setLoading(false);
+        } else if (mode === 'watchlist') {
+            fetchWatchlistFlights();
         } else if (mode === 'historical' || mode === 'research') {
             fetchHistoricalOrResearch();
         } else {
-            fetchRealtimeInitial();
-            intervalRef.current = setInterval(fetchRealtimeUpdate, 5000);
+            const now = Math.floor(Date.now() / 1000);
+            fetchRealtimeInitial(now);
+            setLiveState('connecting');
+            setLastLiveUpdate(null);
+            liveStreamRef.current = createLiveAnomalyStream({
+                since: now,
+                onAnomalies: (newData) => addRealtimeAnomalies(newData, true),
+                onStateChange: setLiveState,
+            });
         }
 
         return () => {
-            if (intervalRef.current) clearInterval(intervalRef.current);
+            if (liveStreamRef.current) {
+                liveStreamRef.current.stop();
+                liveStreamRef.current = null;
+            }
             if (searchAbortRef.current) {
                 searchAbortRef.current.abort();
                 searchAbortRef.current = null;
             }
         };
-    }, [mode, selectedDate]);
+    }, [mode, dateRange]);
 
     // Effect for fetching flights when a rule is selected
     useEffect(() => {
@@ -154,7 +280,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
         setLoading(true);
         setAnomalies([]);
         try {
-            const data = await fetchFlightsByRule(ruleId, controller.signal);
+            const data = await fetchFlightsByRule(ruleId, { signal: controller.signal });
             if (controller.signal.aborted) return;
             setAnomalies(data);
         } catch (error: any) {
@@ -166,163 +292,144 @@ export const Sidebar: React.FC<SidebarProps> = ({
         }
     };
 
+    // Loads the range a day at a time, newest first, so results show up while older days load
     const fetchHistoricalOrResearch = async () => {
         const controller = startNewSearch();
         setLoading(true);
         setAnomalies([]);
+        const chunks = splitRangeByDay(dateRange);
+        setRangeProgress({ loaded: 0, total: chunks.length });
         try {
-            const start = new Date(selectedDate);
-            start.setHours(0, 0, 0, 0);
-            const end = new Date(selectedDate);
-            end.setHours(23, 59, 59, 999);
-
             // For research mode: use research anomalies endpoint
             // For historical mode: use live anomalies
             const apiFunc = mode === 'research' ? fetchResearchAnomalies : fetchLiveAnomalies;
 
-            const data = await apiFunc(
-                Math.floor(start.getTime() / 1000),
-                Math.floor(end.getTime() / 1000)
-            );
-            if (controller.signal.aborted) return;
-            setAnomalies(data);
+            for (const [i, chunk] of chunks.entries()) {
+                const data = await apiFunc(chunk.start, chunk.end, { signal: controller.signal });
+                if (controller.signal.aborted) return;
+                setAnomalies(prev => [...prev, ...data]);
+                setRangeProgress({ loaded: i + 1, total: chunks.length });
+            }
         } catch (error: any) {
             if (error?.name === 'AbortError') return;
+            // Days already loaded stay in the list
             console.error("Error fetching data:", error);
-            setAnomalies([]);
         } finally {
             finishSearch(controller);
         }
     };
 
-    const fetchFeedbackHistory = async () => {
+    // Every flight in the range, with its anomaly report where there is one. The
+    // watchlist is applied when filtering, so edits to it need no reload.
+    const fetchWatchlistFlights = async () => {
         const controller = startNewSearch();
         setLoading(true);
         setAnomalies([]);
+        const chunks = splitRangeByDay(dateRange);
+        setRangeProgress({ loaded: 0, total: chunks.length });
         try {
-            const start = new Date(selectedDate);
-            start.setHours(0, 0, 0, 0);
-            const end = new Date(selectedDate);
-            end.setHours(23, 59, 59, 999);
-
-            // Primary source: feedback_tagged.db (clean, well-structured data)
-            const taggedData = await fetchTaggedFeedbackHistory(
-                Math.floor(start.getTime() / 1000),
-                Math.floor(end.getTime() / 1000),
-                200
-            ).catch(() => []);
-            
-            if (controller.signal.aborted) return;
-            
-            // If we have tagged data, use it as primary source
-            if (taggedData.length > 0) {
-                setAnomalies(taggedData);
-                return;
+            for (const [i, chunk] of chunks.entries()) {
+                const [flights, reports] = await Promise.all([
+                    fetchDataFlights(chunk.start, chunk.end, { signal: controller.signal }),
+                    fetchLiveAnomalies(chunk.start, chunk.end, { signal: controller.signal }).catch(() => [] as AnomalyReport[]),
+                ]);
+                if (controller.signal.aborted) return;
+                const reported = new Set(reports.map(r => r.flight_id));
+                const unreported = flights.filter(f => !reported.has(f.flight_id)).map(toFlightReport);
+                setAnomalies(prev => [...prev, ...reports, ...unreported]);
+                setRangeProgress({ loaded: i + 1, total: chunks.length });
             }
-            
-            // Fallback to old databases if no tagged data found
-            const oldData = await apiFetchFeedbackHistory(
-                Math.floor(start.getTime() / 1000),
-                Math.floor(end.getTime() / 1000),
-                100
-            ).catch(() => []);
-            
-            if (controller.signal.aborted) return;
-            setAnomalies(oldData);
         } catch (error: any) {
             if (error?.name === 'AbortError') return;
-            console.error("Error fetching feedback history:", error);
-            setAnomalies([]);
+            console.error("Error fetching watchlist flights:", error);
         } finally {
             finishSearch(controller);
         }
     };
 
-    useEffect(() => {
-        const audio = new Audio(ALERT_AUDIO_SRC);
-        audio.preload = 'auto';
-        audioRef.current = audio;
-
-        return () => {
-            audio.pause();
-            audioRef.current = null;
+    // Loads a day at a time like the other range modes; each request is capped, so
+    // days that hit the cap are counted and reported as truncated
+    const fetchFeedbackHistory = async () => {
+        const controller = startNewSearch();
+        setLoading(true);
+        setAnomalies([]);
+        setTruncatedDays(0);
+        const chunks = splitRangeByDay(dateRange);
+        setRangeProgress({ loaded: 0, total: chunks.length });
+        // A failing source counts as empty, but an abort ends the search
+        const emptyOnError = (error: unknown): AnomalyReport[] => {
+            if ((error as Error)?.name === 'AbortError') throw error;
+            return [];
         };
-    }, []);
+        try {
+            for (const [i, chunk] of chunks.entries()) {
+                // Primary source: feedback_tagged.db (clean, well-structured data)
+                const taggedData = await fetchTaggedFeedbackHistory(
+                    chunk.start,
+                    chunk.end,
+                    FEEDBACK_TAGGED_LIMIT,
+                    true,
+                    { signal: controller.signal }
+                ).catch(emptyOnError);
+                if (controller.signal.aborted) return;
 
-    const triggerRealtimeAlert = () => {
-        const now = Date.now();
-        if (now - lastSoundTimeRef.current < SOUND_COOLDOWN_MS) {
-            return;
+                // Fallback to old databases for days without tagged data
+                const data = taggedData.length > 0
+                    ? taggedData
+                    : await apiFetchFeedbackHistory(chunk.start, chunk.end, FEEDBACK_FALLBACK_LIMIT, { signal: controller.signal }).catch(emptyOnError);
+                if (controller.signal.aborted) return;
+
+                const limit = taggedData.length > 0 ? FEEDBACK_TAGGED_LIMIT : FEEDBACK_FALLBACK_LIMIT;
+                if (data.length >= limit) setTruncatedDays(n => n + 1);
+                setAnomalies(prev => [...prev, ...data]);
+                setRangeProgress({ loaded: i + 1, total: chunks.length });
+            }
+        } catch (error: any) {
+            if (error?.name === 'AbortError') return;
+            // Days already loaded stay in the list
+            console.error("Error fetching feedback history:", error);
+        } finally {
+            finishSearch(controller);
         }
+    };
 
-        lastSoundTimeRef.current = now;
-        const audio = audioRef.current;
-        if (!audio) return;
+    // New live anomalies are checked against the alert rules; the initial load is not
+    const addRealtimeAnomalies = (newData: AnomalyReport[], alert: boolean) => {
+        if (newData.length === 0) return;
+        const seen = realtimeKeysRef.current;
+        const uniqueNew = newData.filter(a => {
+            const key = `${a.flight_id}-${a.timestamp}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        setLastLiveUpdate(new Date());
+        if (uniqueNew.length === 0) return;
 
-        try {
-            audio.pause();
-            audio.currentTime = 0;
-            void audio.play();
-        } catch (error) {
-            console.warn('Unable to play alert sound', error);
-        }
+        setAnomalies(prev => [...uniqueNew, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+        if (alert) evaluateAlertRules(uniqueNew);
     };
 
-    const fetchRealtimeInitial = async () => {
+    // Loads the last hour; anything newer arrives through the live stream
+    const fetchRealtimeInitial = async (now: number) => {
         const controller = startNewSearch();
         setLoading(true);
-        setAnomalies([]);
         try {
-            const now = Math.floor(Date.now() / 1000);
-            const start = now - 3600; 
-            
-            const data = await fetchLiveAnomalies(start, now);
+            const data = await fetchLiveAnomalies(now - 3600, now, { signal: controller.signal });
             if (controller.signal.aborted) return;
-            setAnomalies(data);
-            lastFetchTimeRef.current = now;
+            addRealtimeAnomalies(data, false);
         } catch (error: any) {
             if (error?.name === 'AbortError') return;
             console.error("Error fetching initial realtime data:", error);
-            setAnomalies([]);
         } finally {
             finishSearch(controller);
         }
     };
 
-    const fetchRealtimeUpdate = async () => {
-        try {
-            const now = Math.floor(Date.now() / 1000);
-            const start = lastFetchTimeRef.current;
-            
-            if (now <= start) return;
-
-            const newData = await fetchLiveAnomalies(start, now);
-            
-            if (newData.length > 0) {
-                let shouldPlayAlert = false;
-                setAnomalies(prev => {
-                    const existingIds = new Set(prev.map(a => `${a.flight_id}-${a.timestamp}`));
-                    const uniqueNew = newData.filter(a => !existingIds.has(`${a.flight_id}-${a.timestamp}`));
-                    if (uniqueNew.length > 0) {
-                        shouldPlayAlert = true;
-                    }
-                    return [...uniqueNew, ...prev].sort((a, b) => b.timestamp - a.timestamp);
-                });
-
-                if (shouldPlayAlert) {
-                    triggerRealtimeAlert();
-                }
-            }
-            lastFetchTimeRef.current = now;
-        } catch (error) {
-            console.error("Error polling realtime data:", error);
-        }
-    };
-
     // Use AI results when in ai-results mode, otherwise use fetched anomalies
     const sourceAnomalies = mode === 'ai-results' ? aiResultFlights : anomalies;
     
-    const filteredAnomalies = Array.from(
+    const filteredAnomalies = useMemo(() => Array.from(
         sourceAnomalies.reduce((map, a) => {
             if (!map.has(a.flight_id)) map.set(a.flight_id, a);
             return map;
@@ -342,26 +449,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     : selectedLayerCombo.every(layer => triggers.includes(layer)))
                 : triggers.includes(selectedTrigger);
 
-        const cutoffTimestampV2 = new Date('2025-07-08T20:00:00Z').getTime() / 1000;
-        const cutoffTimestampV3 = new Date('2025-07-17T00:00:00Z').getTime() / 1000;
-        const cutoffTimestampV4 = new Date('2025-10-21T00:00:00Z').getTime() / 1000;
-        const cutoffTimestampV5 = new Date('2025-11-09T00:00:00Z').getTime() / 1000;
-        const cutoffTimestampVx = new Date('2026-01-14T00:00:00Z').getTime() / 1000;
-        
-        let version = 'v1';
-        if (a.timestamp >= cutoffTimestampVx) {
-            version = 'vx';
-        } else if (a.timestamp >= cutoffTimestampV5) {
-            version = 'v5';
-        } else if (a.timestamp >= cutoffTimestampV4) {
-            version = 'v4';
-        } else if (a.timestamp >= cutoffTimestampV3) {
-            version = 'v3';
-        } else if (a.timestamp >= cutoffTimestampV2) {
-            version = 'v2';
-        }
-
-        const matchesVersion = selectedVersion === 'All' || version === selectedVersion;
+        const matchesVersion = selectedVersion === 'All'
+            || getVersionForTimestamp(a.timestamp, modelVersions)?.id === selectedVersion;
 
         const matchesScore = score >= minScore;
         
@@ -370,20 +459,177 @@ export const Sidebar: React.FC<SidebarProps> = ({
             ? (showNormalFeedback ? true : (a.user_label === 1 || a.user_label === undefined)) 
             : true;
 
-        return matchesSearch && matchesScore && matchesTrigger && matchesVersion && matchesFeedback;
+        const matchesWatchlist = mode !== 'watchlist' || !!matchWatchlist(getReportIdentity(a));
+
+        return matchesSearch && matchesScore && matchesTrigger && matchesVersion && matchesFeedback && matchesWatchlist;
+    }), [sourceAnomalies, filter, minScore, selectedTrigger, selectedLayerCombo, selectedVersion, showNormalFeedback, mode, modelVersions, matchWatchlist]);
+
+    useEffect(() => {
+        onFilteredAnomaliesChange?.(filteredAnomalies);
+    }, [filteredAnomalies, onFilteredAnomaliesChange]);
+
+    // Rows of the virtualized list: group headers followed by their (expanded) cards
+    const listRows = useMemo((): SidebarListRow[] => {
+        const sorted = sortAnomalies(filteredAnomalies, filters.sort);
+        const cardRow = (anomaly: AnomalyReport, groupKey = ''): SidebarListRow => ({
+            kind: 'anomaly',
+            key: `${groupKey}|${anomaly.flight_id}-${anomaly.timestamp}`,
+            anomaly,
+        });
+        if (filters.groupBy === 'none') return sorted.map(a => cardRow(a));
+
+        return groupAnomalies(sorted, filters.groupBy).flatMap(group => {
+            const collapsed = collapsedGroups.has(group.key);
+            const header: SidebarListRow = {
+                kind: 'group',
+                key: `group|${group.key}`,
+                groupKey: group.key,
+                label: group.key === UNGROUPED_KEY ? t(`sidebar.list.ungrouped.${filters.groupBy}`) : group.label,
+                count: group.anomalies.length,
+                collapsed,
+            };
+            return collapsed ? [header] : [header, ...group.anomalies.map(a => cardRow(a, group.key))];
+        });
+    }, [filteredAnomalies, filters.sort, filters.groupBy, collapsedGroups, t]);
+
+    // Drop checked flights the filters no longer list
+    useEffect(() => {
+        setCheckedIds(prev => {
+            if (prev.size === 0) return prev;
+            const listed = new Set(filteredAnomalies.map(a => a.flight_id));
+            const next = new Set(Array.from(prev).filter(id => listed.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [filteredAnomalies]);
+
+    // Flights in list order, one per flight, for shift-click ranges and keyboard navigation
+    // (collapsed groups are skipped)
+    const listedAnomalies = useMemo(() => {
+        const seen = new Set<string>();
+        return listRows.flatMap(row => {
+            if (row.kind !== 'anomaly' || seen.has(row.anomaly.flight_id)) return [];
+            seen.add(row.anomaly.flight_id);
+            return [row.anomaly];
+        });
+    }, [listRows]);
+    const listedFlightIds = useMemo(() => listedAnomalies.map(a => a.flight_id), [listedAnomalies]);
+
+    useEffect(() => {
+        onListedAnomaliesChange?.(listedAnomalies);
+    }, [listedAnomalies, onListedAnomaliesChange]);
+
+    const checkedAnomalies = useMemo(() => {
+        const seen = new Set<string>();
+        return filteredAnomalies.filter(a => {
+            if (!checkedIds.has(a.flight_id) || seen.has(a.flight_id)) return false;
+            seen.add(a.flight_id);
+            return true;
+        });
+    }, [filteredAnomalies, checkedIds]);
+
+    const allFilteredIds = new Set(filteredAnomalies.map(a => a.flight_id));
+    const allChecked = allFilteredIds.size > 0 && checkedAnomalies.length === allFilteredIds.size;
+
+    // Shift-click checks or unchecks everything between the last clicked flight and this one
+    const toggleChecked = (flightId: string, shiftKey: boolean) => {
+        const checked = !checkedIds.has(flightId);
+        const from = lastCheckedIdRef.current ? listedFlightIds.indexOf(lastCheckedIdRef.current) : -1;
+        const to = listedFlightIds.indexOf(flightId);
+        const range = shiftKey && from !== -1 && to !== -1
+            ? listedFlightIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+            : [flightId];
+        const next = new Set(checkedIds);
+        range.forEach(id => { if (checked) next.add(id); else next.delete(id); });
+        setCheckedIds(next);
+        lastCheckedIdRef.current = flightId;
+    };
+
+    const toggleAllChecked = () => {
+        setCheckedIds(allChecked ? new Set() : allFilteredIds);
+        lastCheckedIdRef.current = null;
+    };
+
+    // Saved flights leave the selection (failures stay checked for a retry) and show their new label
+    const handleBulkSubmitted = (flightIds: string[], isAnomaly: boolean) => {
+        const saved = new Set(flightIds);
+        setCheckedIds(prev => new Set(Array.from(prev).filter(id => !saved.has(id))));
+        setAnomalies(prev => prev.map(a => saved.has(a.flight_id) ? { ...a, user_label: isAnomaly ? 1 : 0 } : a));
+    };
+
+    const toggleGroup = (key: string) => {
+        setCollapsedGroups(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    // Anomalies per pipeline version in the loaded period, one per flight
+    const versionCounts = new Map<string, number>();
+    const countedFlights = new Set<string>();
+    sourceAnomalies.forEach(a => {
+        if (countedFlights.has(a.flight_id)) return;
+        countedFlights.add(a.flight_id);
+        const id = getVersionForTimestamp(a.timestamp, modelVersions)?.id;
+        if (id) versionCounts.set(id, (versionCounts.get(id) ?? 0) + 1);
     });
+    const currentVersionId = modelVersions.find(isCurrentVersion)?.id;
 
     // Count hidden normal flights for feedback mode
     const feedbackHiddenCount = mode === 'feedback' && !showNormalFeedback
         ? sourceAnomalies.filter(a => a.user_label === 0).length
         : 0;
 
-    const changeDate = (days: number) => {
-        const newDate = new Date(selectedDate);
-        newDate.setDate(newDate.getDate() + days);
-        setSelectedDate(newDate);
+    const updatePresets = (next: FilterPreset[]) => {
+        setPresets(next);
+        saveFilterPresets(next);
+    };
+
+    // Saving under an existing name replaces that preset
+    const saveCurrentPreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        updatePresets([...presets.filter(p => p.name !== name), { name, filters: toPresetFilters(filters) }]);
+        setPresetName('');
+    };
+
+    const currentPresetKey = JSON.stringify(toPresetFilters(filters));
+
+    const rangePresets: DateRangePreset[] = ['day', 'last6h', 'last24h', 'last7d', 'custom'];
+
+    const selectPreset = (preset: DateRangePreset) => {
+        if (preset === 'custom') {
+            setCustomDraft({ from: formatDateTimeParam(dateRange.from), to: formatDateTimeParam(dateRange.to) });
+            return;
+        }
+        setCustomDraft(null);
+        if (preset === 'day') {
+            if (dateRange.preset !== 'day') setDateRange(dayRange(dateRange.to));
+            return;
+        }
+        setDateRange(presetRange(preset));
+    };
+
+    const customFrom = customDraft ? parseDateParam(customDraft.from) : null;
+    const customTo = customDraft ? parseDateParam(customDraft.to) : null;
+    const customError = !customDraft
+        ? null
+        : !customFrom || !customTo || customFrom >= customTo
+            ? t('sidebar.range.invalid')
+            : isRangeTooLong(customFrom, customTo)
+                ? t('sidebar.range.tooLong', { count: MAX_RANGE_DAYS })
+                : null;
+
+    const applyCustomRange = () => {
+        if (!customFrom || !customTo || customError) return;
+        setDateRange({ from: customFrom, to: customTo, preset: 'custom' });
+        setCustomDraft(null);
     };
 
+    const formatRangeEnd = (date: Date) =>
+        date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
     const getConfidenceColor = (score: number) => {
         if (score > 85) return "bg-red-500";
         if (score > 70) return "bg-purple-500";
@@ -398,6 +644,130 @@ export const Sidebar: React.FC<SidebarProps> = ({
         return "Low (0-20)";
     };
 
+    const renderAnomalyCard = (anomaly: AnomalyReport) => {
+        // Determine severity color based on confidence score
+        // Use summary confidence if available, fallback to 100 if DB says anomaly
+        const score = anomaly.full_report?.summary?.confidence_score ?? (anomaly.is_anomaly ? 100 : 0);
+        const severityColor = getConfidenceColor(score);
+        
+        // Triggers list or type - prefer specific rule names over generic "Rules"
+        const layerTriggers = anomaly.full_report?.layer_1_rules?.triggers || [];
+        const matchedRuleNames = getMatchedRules(anomaly.full_report)
+            .map(r => r.name || `Rule ${r.id}`);
+        // Also try top-level matched_rule_names from API (PostgreSQL denormalized columns)
+        const dbRuleNames = anomaly.matched_rule_names 
+            ? anomaly.matched_rule_names.split(', ').filter(Boolean) 
+            : [];
+        const summaryTriggers = anomaly.full_report?.summary?.triggers || [];
+        // Priority: layer_1 triggers > matched rule objects > DB denormalized > summary triggers
+        const triggers = layerTriggers.length > 0 ? layerTriggers 
+            : matchedRuleNames.length > 0 ? matchedRuleNames 
+            : dbRuleNames.length > 0 ? dbRuleNames 
+            : summaryTriggers;
+        const type = triggers.length > 0 ? triggers.join(', ')
+            : anomaly.is_anomaly ? 'Unknown Anomaly'
+            : t('sidebar.watchlist.noAnomaly');
+        
+        // Display Title: Callsign > Flight ID
+        const displayTitle = anomaly.callsign || anomaly.flight_id;
+        const subTitle = anomaly.callsign ? `ID: ${anomaly.flight_id}` : '';
+
+        // Version Badge - the deployed version is highlighted, older ones marked OLD
+        const version = getVersionForTimestamp(anomaly.timestamp, modelVersions);
+        const isVersionX = !!version && isCurrentVersion(version);
+        const versionLabel = version ? (isVersionX ? version.label : `${version.label} OLD`) : null;
+        const versionStyle = isVersionX ? "badge-vx animate-shimmer-vx" : "bg-zinc-800 text-zinc-500 border-zinc-700";
+        const alert = alertByFlight.get(anomaly.flight_id);
+        const watched = matchWatchlist(getReportIdentity(anomaly));
+
+        return (
+           <div 
+               key={`${anomaly.flight_id}-${anomaly.timestamp}`}
+               onClick={() => onSelectAnomaly(anomaly)}
+               className={clsx(
+                   "flex flex-col gap-2 p-3 h-[92px] overflow-hidden rounded-lg cursor-pointer transition-colors border",
+                   selectedAnomalyId === anomaly.flight_id 
+                       ? "bg-primary/20 border-primary" 
+                       : checkedIds.has(anomaly.flight_id)
+                           ? "bg-white/5 border-primary/40"
+                       : watched
+                           ? "border-amber-400/40 hover:bg-white/5"
+                       : isVersionX
+                           ? "card-vx-glow hover:bg-white/5"
+                           : "hover:bg-white/5 border-transparent"
+               )}
+           >
+               <div className="flex justify-between items-center">
+                   <div className="flex items-center gap-2">
+                       <input
+                           type="checkbox"
+                           checked={checkedIds.has(anomaly.flight_id)}
+                           onClick={(e) => {
+                               e.stopPropagation();
+                               toggleChecked(anomaly.flight_id, e.shiftKey);
+                           }}
+                           readOnly
+                           className="accent-primary cursor-pointer"
+                           title={t('sidebar.bulk.check')}
+                       />
+                       <p className="text-sm font-bold text-white">{displayTitle}</p>
+                       {version && (
+                           <span
+                               className={clsx(
+                                   "text-[10px] font-bold px-1.5 py-0.5 rounded border select-none",
+                                   versionStyle
+                               )}
+                               title={[version.description, version.layers.join(', ')].filter(Boolean).join('\n')}
+                           >
+                               {versionLabel}
+                           </span>
+                       )}
+                   </div>
+                   <div className="flex items-center gap-2">
+                       {watched && (
+                           <span
+                               className="flex items-center gap-1 max-w-[90px] text-[10px] font-bold px-1.5 py-0.5 rounded border border-amber-400/60 bg-amber-400/10 text-amber-300"
+                               title={[t('sidebar.watchlist.matched', { pattern: watched.pattern }), watched.note].filter(Boolean).join('\n')}
+                           >
+                               <Eye className="size-3 shrink-0" />
+                               <span className="truncate">{watched.pattern}</span>
+                           </span>
+                       )}
+                       {alert && (
+                           <span
+                               className="max-w-[90px] truncate text-[10px] font-bold px-1.5 py-0.5 rounded border"
+                               style={{ color: alert.color, borderColor: alert.color, backgroundColor: `${alert.color}22` }}
+                               title={t('alerts.firedAt', { rule: alert.ruleName, time: new Date(alert.firedAt).toLocaleTimeString() })}
+                           >
+                               {alert.ruleName}
+                           </span>
+                       )}
+                       <button
+                           onClick={(e) => {
+                               e.stopPropagation();
+                               togglePin(anomaly);
+                           }}
+                           disabled={!pinnedIds.has(anomaly.flight_id) && pinnedFlights.length >= MAX_PINNED_FLIGHTS}
+                           className={clsx(
+                               "p-0.5 rounded transition-colors disabled:opacity-30",
+                               pinnedIds.has(anomaly.flight_id) ? "text-cyan-400 hover:text-cyan-300" : "text-white/30 hover:text-white/80"
+                           )}
+                           title={pinnedIds.has(anomaly.flight_id) ? t('sidebar.unpinFlight') : t('sidebar.pinFlight')}
+                       >
+                           {pinnedIds.has(anomaly.flight_id) ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                       </button>
+                       <span className={`h-2.5 w-2.5 rounded-full ${severityColor}`}></span>
+                   </div>
+               </div>
+               <p className="text-xs text-white/80 truncate">{type}</p>
+               <div className="flex justify-between items-center text-xs text-white/60">
+                   <span>{subTitle}</span>
+                   <span>{new Date(anomaly.timestamp * 1000).toLocaleTimeString()}</span>
+               </div>
+           </div>
+        );
+    };
+
     return (
         <aside className={clsx("flex flex-col gap-6 overflow-y-auto h-full pe-2", className || "col-span-3")}>
             
@@ -456,6 +826,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     <History className="size-4" />
                     {t('sidebar.feedback')}
                 </button>
+                <button 
+                    onClick={() => setMode('watchlist')}
+                    className={clsx(
+                        "flex-1 py-2 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-2",
+                        mode === 'watchlist' ? "bg-primary text-background-dark" : "text-white/60 hover:text-white"
+                    )}
+                >
+                    <Eye className="size-4" />
+                    {t('sidebar.watchlist.tab')}
+                </button>
                 {/* AI Results tab - only shown when there are results */}
                 {aiResultFlights.length > 0 && (
                     <button 
@@ -476,50 +856,152 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 )}
             </div>
 
-            {/* Date Filter (Only visible in Historical/Research/Feedback Mode) */}
-            {(mode === 'historical' || mode === 'research' || mode === 'feedback') && (
-                <div className="bg-surface rounded-xl p-4 flex flex-col gap-4 shrink-0 animate-in fade-in slide-in-from-top-2">
+            {/* Live Connection Status (Only visible in Realtime Mode) */}
+            {mode === 'realtime' && (
+                <div className="bg-surface rounded-xl px-4 py-3 flex items-center justify-between gap-3 shrink-0 -mt-4 animate-in fade-in slide-in-from-top-2">
+                    <div className="flex items-center gap-2">
+                        <span className="relative flex size-2.5">
+                            {liveState === 'live' && (
+                                <span className="absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75 animate-ping" />
+                            )}
+                            <span className={clsx(
+                                "relative inline-flex size-2.5 rounded-full",
+                                liveState === 'live' && "bg-green-500",
+                                (liveState === 'connecting' || liveState === 'reconnecting') && "bg-yellow-500 animate-pulse",
+                                liveState === 'polling' && "bg-blue-400",
+                                liveState === 'offline' && "bg-red-500"
+                            )} />
+                        </span>
+                        <span className="text-sm font-bold text-white">{t(`sidebar.liveStatus.${liveState}`)}</span>
+                    </div>
+                    {lastLiveUpdate && (
+                        <span className="text-xs text-white/50" title={t('sidebar.liveStatus.lastUpdate')}>
+                            {lastLiveUpdate.toLocaleTimeString()}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            {/* Date Range Filter (Only visible in Historical/Research/Feedback/Watchlist Mode) */}
+            {(mode === 'historical' || mode === 'research' || mode === 'feedback' || mode === 'watchlist') && (
+                <div className="bg-surface rounded-xl p-4 flex flex-col gap-3 shrink-0 animate-in fade-in slide-in-from-top-2">
                     <p className="text-white text-base font-bold leading-tight">{t('sidebar.filterDate')}</p>
-                    <div className="flex items-center p-1 justify-between">
-                        <button onClick={() => changeDate(-1)} className="text-white/80 hover:text-white p-1 rounded hover:bg-white/10 transition-colors">
-                            <ChevronLeft className="size-6" />
-                        </button>
-                        
-                        <div className="flex-1 flex items-center justify-center gap-2 relative group cursor-pointer py-1 rounded hover:bg-white/5 transition-colors" onClick={() => {
-                            // Programmatically trigger the date input
-                            const input = document.getElementById('date-picker');
-                            if (input && 'showPicker' in input) {
-                                (input as any).showPicker();
-                            }
-                        }}>
-                            <Calendar className="size-4 text-white/60 group-hover:text-white transition-colors" />
-                            <p className="text-white text-sm font-bold leading-tight text-center select-none">
-                                {selectedDate.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric' })}
-                            </p>
-                            <input 
-                                id="date-picker"
-                                type="date"
-                                className="absolute inset-0 opacity-0 cursor-pointer w-full h-full z-10 pointer-events-auto"
-                                value={selectedDate.toISOString().split('T')[0]}
-                                onChange={(e) => {
-                                    if (e.target.value) {
-                                        const parts = e.target.value.split('-');
-                                        // Create date using local time components to avoid timezone shifts
-                                        const newDate = new Date(
-                                            parseInt(parts[0]), 
-                                            parseInt(parts[1]) - 1, 
-                                            parseInt(parts[2])
-                                        );
-                                        setSelectedDate(newDate);
+
+                    {/* Presets */}
+                    <div className="flex gap-1 bg-background-dark rounded-lg p-1">
+                        {rangePresets.map(preset => {
+                            const active = customDraft ? preset === 'custom' : dateRange.preset === preset;
+                            return (
+                                <button
+                                    key={preset}
+                                    onClick={() => selectPreset(preset)}
+                                    className={clsx(
+                                        "flex-1 py-1 rounded-md text-xs font-bold transition-colors",
+                                        active ? "bg-primary text-background-dark" : "text-white/60 hover:text-white"
+                                    )}
+                                >
+                                    {t(`sidebar.range.${preset}`)}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {customDraft ? (
+                        /* Custom from-to editor */
+                        <div className="flex flex-col gap-2">
+                            {(['from', 'to'] as const).map(field => (
+                                <label key={field} className="flex items-center justify-between gap-2 text-xs text-white/60">
+                                    {t(`sidebar.range.${field}`)}
+                                    <input
+                                        type="datetime-local"
+                                        value={customDraft[field]}
+                                        onChange={(e) => setCustomDraft({ ...customDraft, [field]: e.target.value })}
+                                        className="bg-background-dark border border-white/10 rounded-md px-2 py-1 text-white text-xs [color-scheme:dark]"
+                                    />
+                                </label>
+                            ))}
+                            {customError && <p className="text-[11px] text-red-400">{customError}</p>}
+                            <div className="flex gap-2 justify-end">
+                                <button
+                                    onClick={() => setCustomDraft(null)}
+                                    className="px-3 py-1 rounded-md text-xs text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                                >
+                                    {t('sidebar.range.cancel')}
+                                </button>
+                                <button
+                                    onClick={applyCustomRange}
+                                    disabled={!!customError}
+                                    className="px-3 py-1 rounded-md text-xs font-bold bg-primary text-background-dark disabled:opacity-40 transition-colors"
+                                >
+                                    {t('sidebar.range.apply')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex items-center p-1 justify-between">
+                            <button onClick={() => setDateRange(shiftRange(dateRange, -1))} className="text-white/80 hover:text-white p-1 rounded hover:bg-white/10 transition-colors">
+                                <ChevronLeft className="size-6" />
+                            </button>
+
+                            {dateRange.preset === 'day' ? (
+                                <div className="flex-1 flex items-center justify-center gap-2 relative group cursor-pointer py-1 rounded hover:bg-white/5 transition-colors" onClick={() => {
+                                    // Programmatically trigger the date input
+                                    const input = document.getElementById('date-picker');
+                                    if (input && 'showPicker' in input) {
+                                        (input as any).showPicker();
                                     }
-                                }}
-                            />
+                                }}>
+                                    <Calendar className="size-4 text-white/60 group-hover:text-white transition-colors" />
+                                    <p className="text-white text-sm font-bold leading-tight text-center select-none">
+                                        {dateRange.from.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric' })}
+                                    </p>
+                                    <input 
+                                        id="date-picker"
+                                        type="date"
+                                        className="absolute inset-0 opacity-0 cursor-pointer w-full h-full z-10 pointer-events-auto"
+                                        value={formatDateParam(dateRange.from)}
+                                        onChange={(e) => {
+                                            const newDate = parseDateParam(e.target.value);
+                                            if (newDate) setDateRange(dayRange(newDate));
+                                        }}
+                                    />
+                                </div>
+                            ) : (
+                                <div className="flex-1 flex items-center justify-center gap-2 py-1">
+                                    <Clock className="size-4 text-white/60 shrink-0" />
+                                    <p className="text-white text-xs font-bold leading-tight text-center select-none" dir="ltr">
+                                        {formatRangeEnd(dateRange.from)} – {formatRangeEnd(dateRange.to)}
+                                    </p>
+                                </div>
+                            )}
+
+                            <button onClick={() => setDateRange(shiftRange(dateRange, 1))} className="text-white/80 hover:text-white p-1 rounded hover:bg-white/10 transition-colors">
+                                <ChevronRight className="size-6" />
+                            </button>
                         </div>
+                    )}
 
-                        <button onClick={() => changeDate(1)} className="text-white/80 hover:text-white p-1 rounded hover:bg-white/10 transition-colors">
-                            <ChevronRight className="size-6" />
-                        </button>
-                    </div>
+                    {/* Progressive loading of multi-day ranges */}
+                    {rangeProgress && rangeProgress.total > 1 && (
+                        <div className="flex flex-col gap-1">
+                            <div className="flex justify-between text-[11px] text-white/50">
+                                <span>{t('sidebar.range.progress', { loaded: rangeProgress.loaded, total: rangeProgress.total })}</span>
+                                <span>{t('sidebar.range.flights', { count: new Set(anomalies.map(a => a.flight_id)).size })}</span>
+                            </div>
+                            <div className="h-1 rounded bg-white/10 overflow-hidden">
+                                <div
+                                    className="h-full bg-primary transition-all"
+                                    style={{ width: `${(rangeProgress.loaded / rangeProgress.total) * 100}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {mode === 'feedback' && truncatedDays > 0 && (
+                        <p className="text-[11px] text-amber-300">
+                            {t('sidebar.range.truncated', { count: truncatedDays })}
+                        </p>
+                    )}
                 </div>
             )}
 
@@ -584,6 +1066,27 @@ export const Sidebar: React.FC<SidebarProps> = ({
                             </div>
                         )}
 
+                        {/* Header for Watchlist */}
+                        {mode === 'watchlist' && (
+                            <div className="flex items-center gap-2 border-b border-white/5 pb-2">
+                                <div className="p-1.5 rounded-lg bg-amber-400/10">
+                                    <Eye className="size-4 text-amber-400" />
+                                </div>
+                                <div>
+                                    <p className="text-sm font-bold text-white">{t('sidebar.watchlist.title')}</p>
+                                    <p className="text-[10px] text-white/40">
+                                        {t('sidebar.watchlist.entries', { count: watchlist.length })}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => setShowWatchlist(true)}
+                                    className="ms-auto px-2 py-1 rounded-md bg-white/5 text-xs text-white/80 hover:bg-white/10 transition-colors"
+                                >
+                                    {t('sidebar.watchlist.manage')}
+                                </button>
+                            </div>
+                        )}
+
                         {/* Search Bar with Filter Toggle */}
                         <div className="flex items-center gap-2">
                     <label className="flex flex-col w-full h-12 flex-1">
@@ -595,7 +1098,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                 className="flex w-full flex-1 bg-transparent text-white focus:outline-none px-4 placeholder:text-white/60 text-sm"
                                 placeholder={t('sidebar.searchPlaceholder')}
                                 value={filter}
-                                onChange={e => setFilter(e.target.value)}
+                                onChange={e => updateFilters({ search: e.target.value })}
                             />
                         </div>
                     </label>
@@ -613,6 +1116,59 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 {/* Advanced Filters */}
                 {showFilters && (
                     <div className="bg-background-dark rounded-lg p-3 animate-in slide-in-from-top-2 space-y-4">
+                        {/* Saved Presets */}
+                        <div>
+                            <p className="text-xs text-white/60 font-bold uppercase mb-2">{t('sidebar.presets.title')}</p>
+                            {presets.length > 0 ? (
+                                <div className="flex flex-wrap gap-2 mb-2">
+                                    {presets.map(preset => (
+                                        <div
+                                            key={preset.name}
+                                            className={clsx(
+                                                "flex items-center rounded-md text-xs font-medium transition-colors",
+                                                JSON.stringify(preset.filters) === currentPresetKey
+                                                    ? "bg-primary text-background-dark"
+                                                    : "bg-white/5 text-white/70 hover:bg-white/10"
+                                            )}
+                                        >
+                                            <button
+                                                onClick={() => setFilters({ ...preset.filters, ruleId: selectedRuleId })}
+                                                className="ps-2 pe-1 py-1.5"
+                                            >
+                                                {preset.name}
+                                            </button>
+                                            <button
+                                                onClick={() => updatePresets(presets.filter(p => p.name !== preset.name))}
+                                                className="pe-2 ps-1 py-1.5 opacity-60 hover:opacity-100"
+                                                title={t('sidebar.presets.delete')}
+                                            >
+                                                <X className="size-3" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-[10px] text-white/40 mb-2">{t('sidebar.presets.empty')}</p>
+                            )}
+                            <div className="flex gap-2">
+                                <input
+                                    value={presetName}
+                                    onChange={(e) => setPresetName(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') saveCurrentPreset(); }}
+                                    placeholder={t('sidebar.presets.namePlaceholder')}
+                                    className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs text-white placeholder:text-white/40 focus:outline-none focus:border-primary"
+                                />
+                                <button
+                                    onClick={saveCurrentPreset}
+                                    disabled={!presetName.trim()}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-bold bg-primary text-background-dark disabled:opacity-40"
+                                >
+                                    <Save className="size-3" />
+                                    {t('sidebar.presets.save')}
+                                </button>
+                            </div>
+                        </div>
+
                         {/* Feedback Mode Filters */}
                         {mode === 'feedback' && (
                             <div>
@@ -621,7 +1177,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                     <input 
                                         type="checkbox"
                                         checked={showNormalFeedback}
-                                        onChange={(e) => setShowNormalFeedback(e.target.checked)}
+                                        onChange={(e) => updateFilters({ showNormal: e.target.checked })}
                                         className="w-4 h-4 rounded border-white/20 bg-white/5 text-primary focus:ring-primary focus:ring-offset-background-dark"
                                     />
                                     <span className="text-sm text-white/80 group-hover:text-white transition-colors">
@@ -639,7 +1195,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                 min="0" 
                                 max="100" 
                                 value={minScore} 
-                                onChange={(e) => setMinScore(Number(e.target.value))}
+                                onChange={(e) => updateFilters({ minScore: Number(e.target.value) })}
                                 className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer accent-primary"
                             />
                             <div className="flex justify-between text-[10px] text-white/40 mt-1">
@@ -656,7 +1212,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                 {triggerOptions.map((option) => (
                                     <button
                                         key={option}
-                                        onClick={() => setSelectedTrigger(option)}
+                                        onClick={() => updateFilters({ trigger: option })}
                                         className={clsx(
                                             "px-2 py-1.5 rounded-md text-xs font-medium transition-colors",
                                             selectedTrigger === option
@@ -683,11 +1239,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                                     <button
                                                         key={layer}
                                                         onClick={() => {
-                                                            setSelectedLayerCombo(prev => {
-                                                                if (prev.includes(layer)) {
-                                                                    return prev.filter(l => l !== layer);
-                                                                }
-                                                                return [...prev, layer];
+                                                            updateFilters({
+                                                                layerCombo: isActive
+                                                                    ? selectedLayerCombo.filter(l => l !== layer)
+                                                                    : [...selectedLayerCombo, layer]
                                                             });
                                                         }}
                                                         className={clsx(
@@ -716,23 +1271,112 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                 {versionOptions.map((option) => (
                                     <button
                                         key={option}
-                                        onClick={() => setSelectedVersion(option)}
+                                        onClick={() => updateFilters({ version: option })}
                                         className={clsx(
                                             "px-2 py-1.5 rounded-md text-xs font-medium transition-colors",
                                             selectedVersion === option
-                                                ? option === 'vx' ? "badge-vx animate-shimmer-vx" : "bg-primary text-background-dark"
-                                                : option === 'vx' ? "bg-fuchsia-900/30 text-fuchsia-300 hover:bg-fuchsia-800/40 hover:text-fuchsia-200 border border-fuchsia-500/20" : "bg-white/5 text-white/60 hover:bg-white/10 hover:text-white"
+                                                ? option === currentVersionId ? "badge-vx animate-shimmer-vx" : "bg-primary text-background-dark"
+                                                : option === currentVersionId ? "bg-fuchsia-900/30 text-fuchsia-300 hover:bg-fuchsia-800/40 hover:text-fuchsia-200 border border-fuchsia-500/20" : "bg-white/5 text-white/60 hover:bg-white/10 hover:text-white"
                                         )}
+                                        title={modelVersions.find(v => v.id === option)?.description}
                                     >
                                         {option}
+                                        {option !== 'All' && <span className="opacity-60 ms-1">{versionCounts.get(option) ?? 0}</span>}
                                     </button>
                                 ))}
                             </div>
+
+                            {/* Compare versions over the loaded period */}
+                            <button
+                                onClick={() => setShowVersionSummary(!showVersionSummary)}
+                                className="text-[11px] text-primary hover:underline mt-2"
+                            >
+                                {t(showVersionSummary ? 'sidebar.versions.hideCompare' : 'sidebar.versions.compare')}
+                            </button>
+                            {showVersionSummary && (
+                                <div className="mt-2 space-y-2">
+                                    {modelVersions.map(version => {
+                                        const count = versionCounts.get(version.id) ?? 0;
+                                        const share = countedFlights.size > 0 ? count / countedFlights.size : 0;
+                                        return (
+                                            <div key={version.id} className={clsx(count === 0 && "opacity-40")}>
+                                                <div className="flex justify-between items-baseline text-xs">
+                                                    <span className="font-bold text-white">
+                                                        {version.label}
+                                                        <span className="font-normal text-white/50 ms-2">{version.description}</span>
+                                                    </span>
+                                                    <span className="font-mono text-white/80">
+                                                        {count} <span className="text-white/40">({Math.round(share * 100)}%)</span>
+                                                    </span>
+                                                </div>
+                                                <div className="h-1 rounded bg-white/10 overflow-hidden my-1">
+                                                    <div
+                                                        className={clsx("h-full", isCurrentVersion(version) ? "bg-fuchsia-400" : "bg-primary")}
+                                                        style={{ width: `${share * 100}%` }}
+                                                    />
+                                                </div>
+                                                <p className="text-[10px] text-white/40" dir="ltr">
+                                                    {version.deployedFrom ? new Date(version.deployedFrom * 1000).toLocaleDateString() : '…'}
+                                                    {' – '}
+                                                    {version.deployedTo ? new Date(version.deployedTo * 1000).toLocaleDateString() : t('sidebar.versions.now')}
+                                                    {version.layers.length > 0 && ` · ${version.layers.join(', ')}`}
+                                                </p>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
                         </div>
                     </div>
                 )}
 
-                <div className="flex flex-col gap-2 overflow-y-auto pe-2 -me-2 flex-1">
+                {/* Sort & Group */}
+                <div className="flex items-center gap-3 text-xs text-white/60 -mt-1">
+                    <input
+                        type="checkbox"
+                        checked={allChecked}
+                        onChange={toggleAllChecked}
+                        disabled={filteredAnomalies.length === 0}
+                        className="accent-primary cursor-pointer"
+                        title={t('sidebar.bulk.checkAll')}
+                    />
+                    <label className="flex items-center gap-1.5">
+                        {t('sidebar.list.sortBy')}
+                        <select
+                            value={filters.sort}
+                            onChange={(e) => updateFilters({ sort: e.target.value as AnomalySort })}
+                            className="bg-background-dark border border-white/10 rounded-md px-1.5 py-1 text-white text-xs focus:outline-none focus:border-primary"
+                        >
+                            {ANOMALY_SORTS.map(sort => (
+                                <option key={sort} value={sort}>{t(`sidebar.list.sort.${sort}`)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                        {t('sidebar.list.groupBy')}
+                        <select
+                            value={filters.groupBy}
+                            onChange={(e) => updateFilters({ groupBy: e.target.value as AnomalyGroupBy })}
+                            className="bg-background-dark border border-white/10 rounded-md px-1.5 py-1 text-white text-xs focus:outline-none focus:border-primary"
+                        >
+                            {ANOMALY_GROUP_BYS.map(groupBy => (
+                                <option key={groupBy} value={groupBy}>{t(`sidebar.list.group.${groupBy}`)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <span className="ms-auto text-white/40">{t('sidebar.range.flights', { count: filteredAnomalies.length })}</span>
+                </div>
+
+                {(checkedAnomalies.length > 0 || bulkRunning) && (
+                    <BulkTriageBar
+                        selected={checkedAnomalies}
+                        onClearSelection={() => setCheckedIds(new Set())}
+                        onSubmitted={handleBulkSubmitted}
+                        onRunningChange={setBulkRunning}
+                    />
+                )}
+
+                <div className="flex flex-col flex-1 min-h-0">
                     {loading && sourceAnomalies.length === 0 ? (
                         <LoadingPlane message={mode === 'realtime' ? "Scanning for live anomalies..." : undefined} />
                     ) : filteredAnomalies.length === 0 ? (
@@ -742,11 +1386,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                     ? t('sidebar.aiPrompt')
                                     : mode === 'realtime' 
                                         ? t('sidebar.noAnomalies')
+                                    : mode === 'watchlist' && watchlist.length === 0
+                                        ? t('sidebar.watchlist.emptyList')
                                         : t('sidebar.noFlights')}
                             </p>
                             {feedbackHiddenCount > 0 && (
                                 <button 
-                                    onClick={() => setShowNormalFeedback(true)}
+                                    onClick={() => updateFilters({ showNormal: true })}
                                     className="text-xs text-primary hover:underline"
                                 >
                                     Show {feedbackHiddenCount} hidden normal flights
@@ -754,98 +1400,32 @@ export const Sidebar: React.FC<SidebarProps> = ({
                             )}
                         </div>
                     ) : (
-                        filteredAnomalies.map((anomaly) => {
-                             // Determine severity color based on confidence score
-                             // Use summary confidence if available, fallback to 100 if DB says anomaly
-                             const score = anomaly.full_report?.summary?.confidence_score ?? (anomaly.is_anomaly ? 100 : 0);
-                             const severityColor = getConfidenceColor(score);
-                             
-                             // Triggers list or type - prefer specific rule names over generic "Rules"
-                             const layerTriggers = anomaly.full_report?.layer_1_rules?.triggers || [];
-                             const matchedRuleNames = (anomaly.full_report?.layer_1_rules?.report?.matched_rules || anomaly.full_report?.matched_rules || [])
-                                 .map((r: any) => r.name || `Rule ${r.id}`);
-                             // Also try top-level matched_rule_names from API (PostgreSQL denormalized columns)
-                             const dbRuleNames = anomaly.matched_rule_names 
-                                 ? anomaly.matched_rule_names.split(', ').filter(Boolean) 
-                                 : [];
-                             const summaryTriggers = anomaly.full_report?.summary?.triggers || [];
-                             // Priority: layer_1 triggers > matched rule objects > DB denormalized > summary triggers
-                             const triggers = layerTriggers.length > 0 ? layerTriggers 
-                                 : matchedRuleNames.length > 0 ? matchedRuleNames 
-                                 : dbRuleNames.length > 0 ? dbRuleNames 
-                                 : summaryTriggers;
-                             const type = triggers.length > 0 ? triggers.join(', ') : 'Unknown Anomaly';
-                             
-                             // Display Title: Callsign > Flight ID
-                             const displayTitle = anomaly.callsign || anomaly.flight_id;
-                             const subTitle = anomaly.callsign ? `ID: ${anomaly.flight_id}` : '';
-
-                             // Version Badge Logic
-                             const cutoffTimestampV2 = new Date('2025-07-08T20:00:00Z').getTime() / 1000;
-                             const cutoffTimestampV3 = new Date('2025-07-21T00:00:00Z').getTime() / 1000;
-                             const cutoffTimestampV4 = new Date('2025-10-21T00:00:00Z').getTime() / 1000;
-                             const cutoffTimestampV5 = new Date('2025-11-09T00:00:00Z').getTime() / 1000;
-                             const cutoffTimestampVx = new Date('2026-01-14T00:00:00Z').getTime() / 1000;
-                             
-                             let versionLabel = 'v1 OLD';
-                             let versionStyle = "bg-zinc-800 text-zinc-500 border-zinc-700";
-                             const isVersionX = anomaly.timestamp >= cutoffTimestampVx;
-
-                             if (isVersionX) {
-                                 versionLabel = 'vX';
-                                 versionStyle = "badge-vx animate-shimmer-vx";
-                             } else if (anomaly.timestamp >= cutoffTimestampV5) {
-                                 versionLabel = 'v5 OLD';
-                                 versionStyle = "bg-zinc-800 text-zinc-500 border-zinc-700";
-                             } else if (anomaly.timestamp >= cutoffTimestampV4) {
-                                 versionLabel = 'v4 OLD';
-                                 versionStyle = "bg-zinc-800 text-zinc-500 border-zinc-700";
-                             } else if (anomaly.timestamp >= cutoffTimestampV3) {
-                                 versionLabel = 'v3 OLD';
-                                 versionStyle = "bg-zinc-800 text-zinc-500 border-zinc-700";
-                             } else if (anomaly.timestamp >= cutoffTimestampV2) {
-                                 versionLabel = 'v2 OLD';
-                                 versionStyle = "bg-zinc-800 text-zinc-500 border-zinc-700";
-                             }
-
-                             return (
-                                <div 
-                                    key={`${anomaly.flight_id}-${anomaly.timestamp}`}
-                                    onClick={() => onSelectAnomaly(anomaly)}
-                                    className={clsx(
-                                        "flex flex-col gap-2 p-3 rounded-lg cursor-pointer transition-colors border",
-                                        selectedAnomalyId === anomaly.flight_id 
-                                            ? "bg-primary/20 border-primary" 
-                                            : isVersionX
-                                                ? "card-vx-glow hover:bg-white/5"
-                                                : "hover:bg-white/5 border-transparent"
-                                    )}
+                        <VirtualList
+                            items={listRows}
+                            itemHeight={getRowHeight}
+                            getKey={getRowKey}
+                            className="pe-2 -me-2 flex-1"
+                            scrollToKey={listRows.find(row => row.kind === 'anomaly' && row.anomaly.flight_id === selectedAnomalyId)?.key}
+                            renderItem={(row) => row.kind === 'group' ? (
+                                <button
+                                    onClick={() => toggleGroup(row.groupKey)}
+                                    className="w-full h-7 flex items-center gap-2 px-2 rounded-md bg-white/5 hover:bg-white/10 text-xs font-bold text-white/80 transition-colors"
                                 >
-                                    <div className="flex justify-between items-center">
-                                        <div className="flex items-center gap-2">
-                                            <p className="text-sm font-bold text-white">{displayTitle}</p>
-                                            <span className={clsx(
-                                                "text-[10px] font-bold px-1.5 py-0.5 rounded border select-none",
-                                                versionStyle
-                                            )}>
-                                                {versionLabel}
-                                            </span>
-                                        </div>
-                                        <span className={`h-2.5 w-2.5 rounded-full ${severityColor}`}></span>
-                                    </div>
-                                    <p className="text-xs text-white/80 truncate">{type}</p>
-                                    <div className="flex justify-between items-center text-xs text-white/60">
-                                        <span>{subTitle}</span>
-                                        <span>{new Date(anomaly.timestamp * 1000).toLocaleTimeString()}</span>
-                                    </div>
-                                </div>
-                             );
-                        })
+                                    {row.collapsed
+                                        ? <ChevronRight className="size-4 shrink-0 rtl:rotate-180" />
+                                        : <ChevronDown className="size-4 shrink-0" />}
+                                    <span className="truncate">{row.label}</span>
+                                    <span className="ms-auto px-1.5 rounded-full bg-white/10 text-[10px]">{row.count}</span>
+                                </button>
+                            ) : renderAnomalyCard(row.anomaly)}
+                        />
                     )}
                 </div>
                 </>
             )}
             </div>
+
+            {showWatchlist && <WatchlistModal onClose={() => setShowWatchlist(false)} />}
         </aside>
     );
 };
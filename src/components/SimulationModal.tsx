@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { 
     X, Play, Pause, SkipBack, SkipForward, 
@@ -50,8 +51,6 @@ interface SimulationModalProps {
 // Constants
 // ============================================================
 
-const MAP_STYLE = 'https://api.maptiler.com/maps/darkmatter/style.json?key=r7kaQpfNDVZdaVp23F1r';
-
 const FLIGHT_COLORS = [
     '#60a5fa', // blue
     '#f59e0b', // amber
@@ -411,10 +410,11 @@ export const SimulationModal: React.FC<SimulationModalProps> = ({
 
         map.current = new maplibregl.Map({
             container: mapContainer.current,
-            style: MAP_STYLE,
+            style: getBasemapStyle(),
             center: [origin.lon, origin.lat],
             zoom: 6,
         });
+        attachBasemap(map.current);
 
         popupRef.current = new maplibregl.Popup({
             closeButton: false,
@@ -0,0 +1,250 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Loader2, X } from 'lucide-react';
+import clsx from 'clsx';
+import type { FlightTrack } from '../types';
+import {
+    ACCEPTED_TRACK_FILES, MAPPING_FIELDS, buildLocalTrack, detectUnits, guessColumnMapping, listAircraftIds, readTrackFile,
+    type ParsedTrackFile, type TrackColumnMapping, type TrackFileFormat, type TrackUnits
+} from '../utils/trackImport';
+
+interface TrackFileImportProps {
+    /** Called with the converted track when the user confirms the mapping */
+    onLoad: (track: FlightTrack, source: { fileName: string; format: TrackFileFormat }) => void;
+    className?: string;
+}
+
+const FORMAT_LABELS: Record<TrackFileFormat, string> = {
+    csv: 'CSV',
+    geojson: 'GeoJSON',
+    kml: 'KML',
+    gpx: 'GPX',
+    adsb: 'ADS-B JSON',
+    json: 'JSON',
+    npy: 'NumPy',
+};
+
+const selectClass = "w-full px-2 py-1 bg-surface-highlight border border-white/10 rounded text-xs text-white focus:outline-none focus:border-primary";
+
+export const TrackFileImport: React.FC<TrackFileImportProps> = ({ onLoad, className }) => {
+    const [parsed, setParsed] = useState<ParsedTrackFile | null>(null);
+    const [mapping, setMapping] = useState<TrackColumnMapping | null>(null);
+    const [units, setUnits] = useState<TrackUnits | null>(null);
+    const [aircraftId, setAircraftId] = useState<string | undefined>(undefined);
+    const [reading, setReading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [dragging, setDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (file: File) => {
+        setReading(true);
+        setError(null);
+        try {
+            const result = await readTrackFile(file);
+            const guessed = guessColumnMapping(result.table.columns);
+            const ids = listAircraftIds(result.table, guessed);
+            setParsed(result);
+            setMapping(guessed);
+            setUnits(detectUnits(result.table, guessed, result.unitHints));
+            // Multi-aircraft dumps default to the aircraft with the most positions
+            setAircraftId(ids.length > 1 ? ids[0].id : undefined);
+        } catch (err) {
+            console.error('Failed to read track file', err);
+            setError(err instanceof Error ? err.message : 'Could not read file');
+            setParsed(null);
+        } finally {
+            setReading(false);
+        }
+    };
+
+    const aircraftIds = useMemo(
+        () => (parsed && mapping ? listAircraftIds(parsed.table, mapping) : []),
+        [parsed, mapping]
+    );
+
+    const track = useMemo(() => {
+        if (!parsed || !mapping || !units) return null;
+        if (mapping.lat < 0 || mapping.lon < 0 || mapping.timestamp < 0) return null;
+        return buildLocalTrack(parsed, mapping, units, aircraftIds.length > 1 ? aircraftId : undefined);
+    }, [parsed, mapping, units, aircraftId, aircraftIds.length]);
+
+    const handleMappingChange = (key: keyof TrackColumnMapping, index: number) => {
+        if (!parsed || !mapping) return;
+        const next = { ...mapping, [key]: index };
+        setMapping(next);
+        // Re-detect units for the newly mapped columns, keeping the format's own hints
+        try {
+            setUnits(detectUnits(parsed.table, next, parsed.unitHints));
+        } catch (err) {
+            console.error('Failed to detect units', err);
+            setError(err instanceof Error ? err.message : 'Could not detect units');
+        }
+        if (key === 'id') {
+            const ids = listAircraftIds(parsed.table, next);
+            setAircraftId(ids.length > 1 ? ids[0].id : undefined);
+        }
+    };
+
+    const reset = () => {
+        setParsed(null);
+        setMapping(null);
+        setUnits(null);
+        setAircraftId(undefined);
+        setError(null);
+    };
+
+    const first = track?.points[0];
+    const last = track?.points[track.points.length - 1];
+
+    return (
+        <div className={clsx("bg-surface rounded-xl p-4 border border-white/5", className)}>
+            <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-white/60">Local Track File</label>
+                {parsed && (
+                    <button onClick={reset} className="p-1 rounded text-white/40 hover:text-white hover:bg-white/5" title="Clear">
+                        <X className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {!parsed ? (
+                <div
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        setDragging(true);
+                    }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        setDragging(false);
+                        const file = e.dataTransfer.files[0];
+                        if (file) void handleFile(file);
+                    }}
+                    onClick={() => fileInputRef.current?.click()}
+                    className={clsx(
+                        "flex flex-col items-center gap-1 px-3 py-4 rounded-lg border border-dashed cursor-pointer transition-colors text-center",
+                        dragging ? "border-primary bg-primary/10" : "border-white/15 hover:border-white/30 hover:bg-white/5"
+                    )}
+                >
+                    {reading ? <Loader2 className="h-5 w-5 animate-spin text-white/60" /> : <FileUp className="h-5 w-5 text-white/60" />}
+                    <span className="text-sm text-white/80">Drop or choose a track file</span>
+                    <span className="text-[11px] text-white/40">CSV, GeoJSON, KML, GPX, ADS-B JSON, .npy</span>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="px-1.5 py-0.5 rounded bg-primary/20 text-primary font-medium">{FORMAT_LABELS[parsed.format]}</span>
+                        <span className="truncate text-white/80" title={parsed.fileName}>{parsed.fileName}</span>
+                        <span className="ms-auto text-white/40 shrink-0">{parsed.table.rows.length} rows</span>
+                    </div>
+
+                    {/* Column mapping */}
+                    {mapping && (
+                        <div className="grid grid-cols-2 gap-x-2 gap-y-1.5">
+                            {MAPPING_FIELDS.map(field => (
+                                <label key={field.key} className="text-[11px] text-white/50">
+                                    {field.label}{field.required && <span className="text-red-400"> *</span>}
+                                    <select
+                                        value={mapping[field.key]}
+                                        onChange={(e) => handleMappingChange(field.key, Number(e.target.value))}
+                                        className={selectClass}
+                                    >
+                                        <option value={-1}>—</option>
+                                        {parsed.table.columns.map((c, i) => (
+                                            <option key={i} value={i}>{c}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Units */}
+                    {units && (
+                        <div className="grid grid-cols-3 gap-2">
+                            <label className="text-[11px] text-white/50">
+                                Altitude
+                                <select
+                                    value={units.altitude}
+                                    onChange={(e) => setUnits({ ...units, altitude: e.target.value as TrackUnits['altitude'] })}
+                                    className={selectClass}
+                                >
+                                    <option value="ft">feet</option>
+                                    <option value="m">metres</option>
+                                </select>
+                            </label>
+                            <label className="text-[11px] text-white/50">
+                                Speed
+                                <select
+                                    value={units.speed}
+                                    onChange={(e) => setUnits({ ...units, speed: e.target.value as TrackUnits['speed'] })}
+                                    className={selectClass}
+                                >
+                                    <option value="kts">knots</option>
+                                    <option value="kmh">km/h</option>
+                                    <option value="ms">m/s</option>
+                                </select>
+                            </label>
+                            <label className="text-[11px] text-white/50">
+                                Time
+                                <select
+                                    value={units.time}
+                                    onChange={(e) => setUnits({ ...units, time: e.target.value as TrackUnits['time'] })}
+                                    className={selectClass}
+                                >
+                                    <option value="epoch_s">epoch s</option>
+                                    <option value="epoch_ms">epoch ms</option>
+                                    <option value="iso">ISO / text</option>
+                                </select>
+                            </label>
+                        </div>
+                    )}
+
+                    {/* Aircraft picker for multi-aircraft dumps */}
+                    {aircraftIds.length > 1 && (
+                        <label className="block text-[11px] text-white/50">
+                            Aircraft ({aircraftIds.length} in file)
+                            <select value={aircraftId} onChange={(e) => setAircraftId(e.target.value)} className={selectClass}>
+                                {aircraftIds.map(a => (
+                                    <option key={a.id} value={a.id}>{a.id} ({a.count} points)</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+
+                    <div className="text-xs text-white/60">
+                        {track && track.points.length > 0 && first && last ? (
+                            <>
+                                {track.points.length} valid points · {new Date(first.timestamp * 1000).toISOString().slice(0, 16).replace('T', ' ')}
+                                {' → '}{new Date(last.timestamp * 1000).toISOString().slice(11, 16)} UTC
+                            </>
+                        ) : (
+                            <span className="text-amber-400">No valid points with the current mapping</span>
+                        )}
+                    </div>
+
+                    <button
+                        onClick={() => track && onLoad(track, { fileName: parsed.fileName, format: parsed.format })}
+                        disabled={!track || track.points.length < 2}
+                        className="w-full px-4 py-2 bg-primary hover:bg-primary/80 disabled:bg-primary/40 disabled:cursor-not-allowed rounded-lg text-white text-sm font-medium transition-colors"
+                    >
+                        Load Track
+                    </button>
+                </div>
+            )}
+
+            {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_TRACK_FILES}
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleFile(file);
+                    e.target.value = '';
+                }}
+            />
+        </div>
+    );
+};
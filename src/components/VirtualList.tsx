@@ -0,0 +1,92 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import clsx from 'clsx';
+
+// ============================================================
+// Windowed list - only rows near the viewport are mounted
+// ============================================================
+
+interface VirtualListProps<T> {
+    items: T[];
+    /** Fixed height of a row in px, including any spacing below it */
+    itemHeight: (item: T) => number;
+    getKey: (item: T) => string;
+    renderItem: (item: T) => React.ReactNode;
+    /** Extra rows rendered above and below the viewport */
+    overscan?: number;
+    className?: string;
+    /** Key of a row to scroll into view when it changes (e.g. the selected one) */
+    scrollToKey?: string;
+}
+
+export function VirtualList<T>({ items, itemHeight, getKey, renderItem, overscan = 6, className, scrollToKey }: VirtualListProps<T>) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+        observer.observe(container);
+        setViewportHeight(container.clientHeight);
+        return () => observer.disconnect();
+    }, []);
+
+    // Top offset of every row, plus the total height at the end
+    const offsets = useMemo(() => {
+        const result = new Array<number>(items.length + 1);
+        result[0] = 0;
+        items.forEach((item, i) => { result[i + 1] = result[i] + itemHeight(item); });
+        return result;
+    }, [items, itemHeight]);
+
+    // Only reacts to a new key, so scrolling away from the row is not undone by list updates
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || !scrollToKey) return;
+        const index = items.findIndex(item => getKey(item) === scrollToKey);
+        if (index === -1) return;
+        if (offsets[index] < container.scrollTop) {
+            container.scrollTop = offsets[index];
+        } else if (offsets[index + 1] > container.scrollTop + container.clientHeight) {
+            container.scrollTop = offsets[index + 1] - container.clientHeight;
+        }
+    }, [scrollToKey]);
+
+    // Keep the scroll position valid when the list shrinks
+    const totalHeight = offsets[items.length];
+    const top = Math.min(scrollTop, Math.max(0, totalHeight - viewportHeight));
+
+    // First row ending below the top of the viewport
+    let lo = 0;
+    let hi = items.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (offsets[mid + 1] <= top) lo = mid + 1;
+        else hi = mid;
+    }
+    const start = Math.max(0, lo - overscan);
+    let end = lo;
+    while (end < items.length && offsets[end] < top + viewportHeight) end++;
+    end = Math.min(items.length, end + overscan);
+
+    return (
+        <div
+            ref={containerRef}
+            className={clsx("overflow-y-auto", className)}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+            <div className="relative" style={{ height: totalHeight }}>
+                {items.slice(start, end).map((item, i) => (
+                    <div
+                        key={getKey(item)}
+                        className="absolute inset-x-0"
+                        style={{ top: offsets[start + i], height: itemHeight(item) }}
+                    >
+                        {renderItem(item)}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
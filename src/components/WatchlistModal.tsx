@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { X, Eye, Plus, Trash2, Upload, Download } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+    WATCHLIST_KINDS,
+    addWatchlistEntry,
+    clearWatchlist,
+    downloadWatchlistCsv,
+    importWatchlistCsv,
+    removeWatchlistEntry,
+    updateWatchlistEntry,
+    useWatchlist,
+    type WatchlistKind,
+} from '../watchlist';
+import { useLanguage } from '../contexts/LanguageContext';
+
+interface WatchlistModalProps {
+    onClose: () => void;
+}
+
+const inputClass = "bg-background-dark border border-white/10 rounded-md px-2 py-1 text-white text-xs focus:outline-none focus:border-primary";
+
+export const WatchlistModal: React.FC<WatchlistModalProps> = ({ onClose }) => {
+    const { t } = useTranslation();
+    const { isHebrew } = useLanguage();
+    const entries = useWatchlist();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [kind, setKind] = useState<WatchlistKind>('callsign');
+    const [pattern, setPattern] = useState('');
+    const [note, setNote] = useState('');
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    const handleAdd = () => {
+        if (!pattern.trim()) return;
+        if (addWatchlistEntry(kind, pattern, note)) {
+            setPattern('');
+            setNote('');
+            setMessage(null);
+        } else {
+            setMessage({ text: t('watchlist.duplicate'), error: true });
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const result = importWatchlistCsv(await file.text());
+            setMessage({ text: t('watchlist.imported', { ...result }), error: result.added === 0 && result.invalid > 0 });
+        } catch (error) {
+            console.error('Failed to import watchlist', error);
+            setMessage({ text: t('watchlist.importFailed'), error: true });
+        }
+    };
+
+    const handleClear = () => {
+        if (window.confirm(t('watchlist.confirmClear'))) clearWatchlist();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+            <div
+                className="bg-surface border border-white/10 rounded-xl w-[640px] max-h-[85vh] shadow-2xl flex flex-col"
+                dir={isHebrew ? 'rtl' : 'ltr'}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center px-6 py-4 border-b border-white/10">
+                    <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+                        <Eye className="size-5 text-amber-400" />
+                        {t('watchlist.title')}
+                    </h2>
+                    <button onClick={onClose} className="text-white/60 hover:text-white transition-colors">
+                        <X className="size-5" />
+                    </button>
+                </div>
+
+                <div className="px-6 py-4 space-y-3 border-b border-white/10">
+                    <p className="text-xs text-white/50">{t('watchlist.hint')}</p>
+                    <p className="text-xs text-white/40">{t('watchlist.identityHint')}</p>
+                    <form
+                        className="flex items-center gap-2"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            handleAdd();
+                        }}
+                    >
+                        <select value={kind} onChange={(e) => setKind(e.target.value as WatchlistKind)} className={inputClass}>
+                            {WATCHLIST_KINDS.map(k => (
+                                <option key={k} value={k}>{t(`watchlist.kinds.${k}`)}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            value={pattern}
+                            onChange={(e) => setPattern(e.target.value)}
+                            placeholder={t(`watchlist.placeholders.${kind}`)}
+                            dir="ltr"
+                            className={`${inputClass} w-36 font-mono`}
+                        />
+                        <input
+                            type="text"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder={t('watchlist.note')}
+                            className={`${inputClass} flex-1 min-w-0`}
+                        />
+                        <button
+                            type="submit"
+                            disabled={!pattern.trim()}
+                            className="flex items-center gap-1 px-3 py-1 rounded-md bg-primary text-background-dark text-xs font-bold hover:bg-primary/90 disabled:opacity-40"
+                        >
+                            <Plus className="size-3.5" />
+                            {t('watchlist.add')}
+                        </button>
+                    </form>
+                    {message && (
+                        <p className={message.error ? "text-xs text-red-400" : "text-xs text-green-400"}>{message.text}</p>
+                    )}
+                </div>
+
+                <div className="flex-1 min-h-0 overflow-y-auto px-6 py-3">
+                    {entries.length === 0 ? (
+                        <p className="py-6 text-center text-sm text-white/40">{t('watchlist.empty')}</p>
+                    ) : (
+                        <ul className="space-y-1.5">
+                            {entries.map(entry => (
+                                <li key={entry.id} className="flex items-center gap-2">
+                                    <select
+                                        value={entry.kind}
+                                        onChange={(e) => updateWatchlistEntry(entry.id, { kind: e.target.value as WatchlistKind })}
+                                        className={inputClass}
+                                    >
+                                        {WATCHLIST_KINDS.map(k => (
+                                            <option key={k} value={k}>{t(`watchlist.kinds.${k}`)}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        // Remount after saving so the normalized pattern shows
+                                        key={entry.pattern}
+                                        type="text"
+                                        defaultValue={entry.pattern}
+                                        onBlur={(e) => {
+                                            if (e.target.value.trim()) updateWatchlistEntry(entry.id, { pattern: e.target.value });
+                                            else e.target.value = entry.pattern;
+                                        }}
+                                        dir="ltr"
+                                        className={`${inputClass} w-36 font-mono`}
+                                    />
+                                    <input
+                                        type="text"
+                                        defaultValue={entry.note}
+                                        onBlur={(e) => updateWatchlistEntry(entry.id, { note: e.target.value.trim() })}
+                                        placeholder={t('watchlist.note')}
+                                        className={`${inputClass} flex-1 min-w-0`}
+                                    />
+                                    <button
+                                        onClick={() => removeWatchlistEntry(entry.id)}
+                                        className="p-1 rounded text-white/40 hover:text-red-300 hover:bg-red-500/10"
+                                        title={t('watchlist.remove')}
+                                    >
+                                        <Trash2 className="size-3.5" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2 px-6 py-3 border-t border-white/10 text-xs">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv,.txt"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) void handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-white/80 hover:bg-white/10"
+                    >
+                        <Upload className="size-3.5" />
+                        {t('watchlist.import')}
+                    </button>
+                    <button
+                        onClick={downloadWatchlistCsv}
+                        disabled={entries.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-white/80 hover:bg-white/10 disabled:opacity-40"
+                    >
+                        <Download className="size-3.5" />
+                        {t('watchlist.export')}
+                    </button>
+                    {entries.length > 0 && (
+                        <button onClick={handleClear} className="ms-auto text-red-300 hover:text-red-200">
+                            {t('watchlist.clear')}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import type { BottleneckZone } from '../../api';
 
@@ -13,8 +14,6 @@ export function BottleneckMap({ zones, height = 400 }: BottleneckMapProps) {
   const map = useRef<maplibregl.Map | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   
-  const apiKey = 'r7kaQpfNDVZdaVp23F1r'; // Same key as main app
-
   // Color configuration for congestion levels
   const colors = {
     critical: { fill: 'rgba(239, 68, 68, 0.4)', stroke: 'rgba(239, 68, 68, 0.9)' },
@@ -29,13 +28,14 @@ export function BottleneckMap({ zones, height = 400 }: BottleneckMapProps) {
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: `https://api.maptiler.com/maps/dataviz-dark/style.json?key=${apiKey}`,
+      style: getBasemapStyle(),
       center: [35.0, 32.0], // Israel center
       zoom: 5,
       attributionControl: false,
       renderWorldCopies: false,
       maxBounds: [[-30, -10], [100, 60]]
     });
+    attachBasemap(map.current);
 
     map.current.addControl(
       new maplibregl.NavigationControl({ showCompass: false }),
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import type { GPSJammingClustersResponse, SignalLossClustersResponse } from '../../api';
 import type { SignalLossLocation } from '../../types';
@@ -37,8 +38,6 @@ export function CombinedSignalMap({ jammingClusters, signalLossClusters, signalL
   const [showJamming, setShowJamming] = useState(true);
   const [showSignalLoss, setShowSignalLoss] = useState(true);
   
-  const apiKey = 'r7kaQpfNDVZdaVp23F1r';
-
   // Calculate summary stats
   const jammingZoneCount = (jammingClusters?.clusters?.length || 0) + (jammingClusters?.singles?.length || 0);
   const jammingEventCount = jammingClusters?.total_points || 0;
@@ -55,13 +54,14 @@ export function CombinedSignalMap({ jammingClusters, signalLossClusters, signalL
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: `https://api.maptiler.com/maps/dataviz-dark/style.json?key=${apiKey}`,
+      style: getBasemapStyle(),
       center: [40.0, 30.0],
       zoom: 4,
       attributionControl: false,
       renderWorldCopies: false,
       maxBounds: [[-30, -10], [100, 60]]
     });
+    attachBasemap(map.current);
 
     map.current.addControl(
       new maplibregl.NavigationControl({ showCompass: false }),
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import type { CoverageGapZonesResponse, GPSJammingZonesResponse } from '../../api';
 
@@ -42,21 +43,20 @@ export function CoverageZonesMap({
   const map = useRef<maplibregl.Map | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   
-  const apiKey = 'r7kaQpfNDVZdaVp23F1r';
-
   // Initialize map
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: `https://api.maptiler.com/maps/dataviz-dark/style.json?key=${apiKey}`,
+      style: getBasemapStyle(),
       center: [35.0, 32.5],
       zoom: 5.5,
       attributionControl: false,
       renderWorldCopies: false,
       maxBounds: [[-30, -10], [100, 60]]
     });
+    attachBasemap(map.current);
 
     map.current.addControl(
       new maplibregl.NavigationControl({ showCompass: false }),
@@ -5,6 +5,7 @@ import { ChartCard } from './ChartCard';
 import { QuestionTooltip } from './QuestionTooltip';
 import { CombinedSignalMap } from './CombinedSignalMap';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { 
   fetchIntelligenceBatch,
@@ -242,10 +243,11 @@ export function IntelligenceTab({ startTs, endTs, cacheKey = 0, sharedData }: In
     if (!militaryMap.current) {
       militaryMap.current = new maplibregl.Map({
         container: militaryMapContainer.current,
-        style: 'https://api.maptiler.com/maps/dataviz-dark/style.json?key=r7kaQpfNDVZdaVp23F1r',
+        style: getBasemapStyle(),
         center: [35.0, 31.5],
         zoom: 5
       });
+      attachBasemap(militaryMap.current);
       militaryMap.current.addControl(new maplibregl.NavigationControl(), 'top-right');
     }
 
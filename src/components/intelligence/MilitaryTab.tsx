@@ -8,6 +8,7 @@ import { TableCard, type Column } from './TableCard';
 import { ChartCard } from './ChartCard';
 import { QuestionTooltip } from './QuestionTooltip';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { 
   fetchMilitaryBatch,
@@ -105,26 +106,11 @@ export function MilitaryTab({ startTs, endTs, cacheKey = 0 }: MilitaryTabProps)
 
     const map = new maplibregl.Map({
       container: ewMapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          'carto-dark': {
-            type: 'raster',
-            tiles: ['https://basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png'],
-            tileSize: 256,
-          },
-        },
-        layers: [
-          {
-            id: 'carto-dark-layer',
-            type: 'raster',
-            source: 'carto-dark',
-          },
-        ],
-      },
+      style: getBasemapStyle(),
       center: [35, 33],
       zoom: 5.5,
     });
+    attachBasemap(map);
 
     ewMapRef.current = map;
 
@@ -219,26 +205,11 @@ export function MilitaryTab({ startTs, endTs, cacheKey = 0 }: MilitaryTabProps)
 
     const map = new maplibregl.Map({
       container: tankerMapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          'carto-dark': {
-            type: 'raster',
-            tiles: ['https://basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png'],
-            tileSize: 256,
-          },
-        },
-        layers: [
-          {
-            id: 'carto-dark-layer',
-            type: 'raster',
-            source: 'carto-dark',
-          },
-        ],
-      },
+      style: getBasemapStyle(),
       center: [35, 33],
       zoom: 5,
     });
+    attachBasemap(map);
 
     tankerMapRef.current = map;
 
@@ -294,26 +265,11 @@ export function MilitaryTab({ startTs, endTs, cacheKey = 0 }: MilitaryTabProps)
 
     const map = new maplibregl.Map({
       container: isrMapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          'carto-dark': {
-            type: 'raster',
-            tiles: ['https://basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png'],
-            tileSize: 256,
-          },
-        },
-        layers: [
-          {
-            id: 'carto-dark-layer',
-            type: 'raster',
-            source: 'carto-dark',
-          },
-        ],
-      },
+      style: getBasemapStyle(),
       center: [35, 33],
       zoom: 5,
     });
+    attachBasemap(map);
 
     isrMapRef.current = map;
 
@@ -8,6 +8,7 @@ import type { AirspaceRisk, SafetyForecast } from '../../types';
 import type { TrajectoryPrediction } from '../../api';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 interface HostileIntentResult {
@@ -132,10 +133,11 @@ export function PredictTab() {
     if (!trajectoryMap.current) {
       trajectoryMap.current = new maplibregl.Map({
         container: trajectoryMapContainer.current,
-        style: 'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json',
+        style: getBasemapStyle(),
         center: [35.0, 31.5],
         zoom: 7
       });
+      attachBasemap(trajectoryMap.current);
       trajectoryMap.current.addControl(new maplibregl.NavigationControl(), 'top-right');
     }
     
@@ -15,6 +15,7 @@ import type { HoldingPatternAnalysis } from '../../types';
 import type { SharedDashboardData } from '../../IntelligencePage';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 interface SafetyTabProps {
@@ -69,11 +70,12 @@ function NearMissClusterMap({ clusters, nearMissLocations }: NearMissClusterMapP
 
     mapRef.current = new maplibregl.Map({
       container: mapContainerRef.current,
-      style: 'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json',
+      style: getBasemapStyle(),
       center: [35.0, 31.5],
       zoom: 5,
       attributionControl: false,
     });
+    attachBasemap(mapRef.current);
     
     mapRef.current.addControl(new maplibregl.NavigationControl(), 'top-right');
     
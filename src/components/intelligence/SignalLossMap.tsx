@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useMemo } from 'react';
 import maplibregl from 'maplibre-gl';
+import { attachBasemap, getBasemapStyle } from '../../basemaps';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import type { SignalLossLocation } from '../../types';
 import type { GPSJammingClustersResponse, SignalLossClustersResponse } from '../../api';
@@ -146,8 +147,6 @@ export function SignalLossMap({
   const markersRef = useRef<maplibregl.Marker[]>([]);
   const [mapLoaded, setMapLoaded] = useState(false);
   
-  const apiKey = 'r7kaQpfNDVZdaVp23F1r'; // Same key as main app
-  
   // Define cluster type with optional polygon and circle buffer
   type ClusterWithPolygon = {
     points: { lat: number; lon: number; count: number; avgDuration?: number }[];
@@ -212,13 +211,14 @@ export function SignalLossMap({
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: `https://api.maptiler.com/maps/dataviz-dark/style.json?key=${apiKey}`,
+      style: getBasemapStyle(),
       center: [35.0, 32.0], // Israel center
       zoom: 5,
       attributionControl: false,
       renderWorldCopies: false,  // Prevent world wrapping
       maxBounds: [[-30, -10], [100, 60]]  // Limit to Europe/Middle East/Africa region
     });
+    attachBasemap(map.current);
 
     map.current.addControl(
       new maplibregl.NavigationControl({ showCompass: false }),
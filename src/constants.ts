@@ -1,3 +1,23 @@
 export const ALERT_AUDIO_SRC = '/plane_ring.mp3';
 export const SOUND_COOLDOWN_MS = 3000;
 
+// Airports list from rule_config.json
+export const RULE_AIRPORTS = [
+    { code: "LLBG", name: "Ben Gurion Intl", lat: 32.011389, lon: 34.886667, elevation_ft: 135 },
+    { code: "LLER", name: "Ramon Intl", lat: 29.723704, lon: 35.01145, elevation_ft: 648 },
+    { code: "LLHA", name: "Haifa", lat: 32.809444, lon: 35.043056, elevation_ft: 28 },
+    { code: "LLBS", name: "Beersheba", lat: 31.287, lon: 34.723, elevation_ft: 886 },
+    { code: "LLOV", name: "Ovda", lat: 29.940, lon: 34.935, elevation_ft: 1492 },
+    { code: "LLNV", name: "Nevatim AFB", lat: 31.207, lon: 35.012, elevation_ft: 1312 },
+    { code: "LLMG", name: "Megiddo", lat: 32.597, lon: 35.228, elevation_ft: 217 },
+    { code: "LLHZ", name: "Herzliya", lat: 32.186, lon: 34.835, elevation_ft: 121 },
+    { code: "LCRA", name: "RAF Akrotiri", lat: 34.5900, lon: 32.9870, elevation_ft: 76 },
+    { code: "OLBA", name: "Beirut Rafic Hariri Intl", lat: 33.820889, lon: 35.488389, elevation_ft: 89 },
+    { code: "OLKA", name: "Rayak Air Base", lat: 33.850, lon: 35.987, elevation_ft: 2953 },
+    { code: "OJAI", name: "Queen Alia Intl (Amman)", lat: 31.722556, lon: 35.993214, elevation_ft: 2395 },
+    { code: "OJAM", name: "Amman Civil Airport (Marka)", lat: 31.9697, lon: 35.9917, elevation_ft: 2555 },
+    { code: "OJAQ", name: "King Hussein Intl (Aqaba)", lat: 29.611, lon: 35.018, elevation_ft: 170 },
+    { code: "OJMF", name: "Mafraq", lat: 32.356, lon: 36.259, elevation_ft: 2240 },
+    { code: "HEGR", name: "El Gora Airport", lat: 31.0686, lon: 34.1296, elevation_ft: 295 },
+    { code: "OSDI", name: "Damascus Intl", lat: 33.411, lon: 36.516, elevation_ft: 2020 }
+];
@@ -0,0 +1,133 @@
+import { useSyncExternalStore } from 'react';
+import { TAGGING_RULES, type TaggingRule } from './utils/taggingRules';
+
+// ============================================================
+// Keyboard shortcuts for triaging flights on the main page
+// ============================================================
+//
+// Bindings are single keys without modifiers, stored by their
+// KeyboardEvent.key value (letters lower-cased, the space bar as "Space").
+// Only keys changed in settings are kept in localStorage, so new actions pick
+// up their defaults.
+
+export const SHORTCUT_ACTIONS = [
+    'nextFlight', 'prevFlight',
+    'rule1', 'rule2', 'rule3', 'rule4', 'rule5', 'rule6', 'rule7', 'rule8', 'rule9',
+    'tagAnomaly', 'tagNormal',
+    'openReplay', 'playPause', 'fitTrack', 'showHelp',
+] as const;
+
+export type ShortcutAction = typeof SHORTCUT_ACTIONS[number];
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+/** Sections of the help overlay and the settings list */
+export const SHORTCUT_GROUPS: { id: 'navigation' | 'tagging' | 'replay'; actions: ShortcutAction[] }[] = [
+    { id: 'navigation', actions: ['nextFlight', 'prevFlight', 'fitTrack', 'showHelp'] },
+    { id: 'tagging', actions: ['rule1', 'rule2', 'rule3', 'rule4', 'rule5', 'rule6', 'rule7', 'rule8', 'rule9', 'tagAnomaly', 'tagNormal'] },
+    { id: 'replay', actions: ['openReplay', 'playPause'] },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+    nextFlight: 'j',
+    prevFlight: 'k',
+    rule1: '1',
+    rule2: '2',
+    rule3: '3',
+    rule4: '4',
+    rule5: '5',
+    rule6: '6',
+    rule7: '7',
+    rule8: '8',
+    rule9: '9',
+    tagAnomaly: 'a',
+    tagNormal: 'n',
+    openReplay: 'r',
+    playPause: 'Space',
+    fitTrack: 'f',
+    showHelp: '?',
+};
+
+export const SHORTCUTS_CHANGE_EVENT = 'keyboard-shortcuts-change';
+
+const SHORTCUTS_STORAGE_KEY = 'app-keyboard-shortcuts';
+
+/** Tagging rule toggled by a rule action: rule1 is the first rule in the tagging list */
+export const getShortcutRule = (action: ShortcutAction): TaggingRule | undefined => {
+    const match = action.match(/^rule(\d)$/);
+    return match ? TAGGING_RULES[Number(match[1]) - 1] : undefined;
+};
+
+/** Binding value for a pressed key */
+export const normalizeShortcutKey = (key: string): string =>
+    key === ' ' ? 'Space' : key.length === 1 ? key.toLowerCase() : key;
+
+let cached: ShortcutBindings | null = null;
+
+const loadBindings = (): ShortcutBindings => {
+    try {
+        const saved = localStorage.getItem(SHORTCUTS_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : {};
+        const bindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+        SHORTCUT_ACTIONS.forEach(action => {
+            if (typeof parsed?.[action] === 'string' && parsed[action]) bindings[action] = parsed[action];
+        });
+        return bindings;
+    } catch {
+        return { ...DEFAULT_SHORTCUT_BINDINGS };
+    }
+};
+
+const saveBindings = (bindings: ShortcutBindings) => {
+    cached = bindings;
+    const changed = Object.fromEntries(
+        SHORTCUT_ACTIONS.filter(action => bindings[action] !== DEFAULT_SHORTCUT_BINDINGS[action])
+            .map(action => [action, bindings[action]])
+    );
+    localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(changed));
+    window.dispatchEvent(new CustomEvent(SHORTCUTS_CHANGE_EVENT));
+};
+
+export const getShortcutBindings = (): ShortcutBindings => {
+    if (!cached) cached = loadBindings();
+    return cached;
+};
+
+/**
+ * Bind a key to an action. An action already using the key takes over this
+ * action's previous key, so every key stays bound at most once.
+ */
+export const setShortcutBinding = (action: ShortcutAction, key: string) => {
+    const bindings = { ...getShortcutBindings() };
+    const previous = bindings[action];
+    const owner = SHORTCUT_ACTIONS.find(a => a !== action && bindings[a] === key);
+    if (owner) bindings[owner] = previous;
+    bindings[action] = key;
+    saveBindings(bindings);
+};
+
+export const resetShortcutBindings = () => saveBindings({ ...DEFAULT_SHORTCUT_BINDINGS });
+
+/** Typing in a form field never triggers shortcuts */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable) return true;
+    if (target instanceof HTMLInputElement) return !['checkbox', 'radio', 'button', 'range'].includes(target.type);
+    return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+};
+
+/**
+ * Action bound to a keydown event, or null for unbound keys, key combinations
+ * with Ctrl/Alt/Meta, and keys typed into form fields.
+ */
+export const getShortcutAction = (event: KeyboardEvent, bindings: ShortcutBindings): ShortcutAction | null => {
+    if (event.ctrlKey || event.altKey || event.metaKey || isEditableTarget(event.target)) return null;
+    const key = normalizeShortcutKey(event.key);
+    return SHORTCUT_ACTIONS.find(action => bindings[action] === key) ?? null;
+};
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener(SHORTCUTS_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(SHORTCUTS_CHANGE_EVENT, onChange);
+};
+
+export const useShortcutBindings = (): ShortcutBindings => useSyncExternalStore(subscribe, getShortcutBindings);
@@ -0,0 +1,168 @@
+import { fetchLiveAnomalies, openLiveAnomalyStream, parseLiveAnomalyEvent, isAbortError } from './api';
+import { isMockModeEnabled } from './mock/mockMode';
+import type { AnomalyReport } from './types';
+
+// ============================================================
+// Live anomaly feed - SSE with backfill and polling fallback
+// ============================================================
+//
+// - New anomalies are pushed over /live/stream (Server-Sent Events)
+// - After a disconnect the stream resumes from the last event id and the
+//   gap is backfilled from /live/anomalies, so nothing is lost
+// - If the stream keeps failing, /live/anomalies is polled instead and the
+//   stream is retried periodically
+
+export type LiveConnectionState = 'connecting' | 'live' | 'reconnecting' | 'polling' | 'offline';
+
+export interface LiveAnomalyStreamOptions {
+    /** Unix seconds - anomalies up to this time are already loaded */
+    since: number;
+    onAnomalies: (anomalies: AnomalyReport[]) => void;
+    onStateChange?: (state: LiveConnectionState) => void;
+}
+
+export interface LiveAnomalyStream {
+    stop: () => void;
+}
+
+export const POLL_INTERVAL_MS = 5_000;
+
+// Consecutive stream failures before switching to polling
+const MAX_STREAM_FAILURES = 3;
+const RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 15_000;
+// How often the stream is retried while polling
+const STREAM_RETRY_MS = 60_000;
+// Backfill windows start slightly earlier to absorb clock skew; duplicates are dropped by the caller
+const BACKFILL_OVERLAP_S = 30;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Start receiving live anomalies. Call stop() to close the connection.
+ */
+export const createLiveAnomalyStream = (options: LiveAnomalyStreamOptions): LiveAnomalyStream => {
+    const { onAnomalies, onStateChange } = options;
+    const controller = new AbortController();
+
+    // Last moment we know every anomaly was received
+    let syncedUntil = options.since;
+    let lastEventId: string | undefined;
+    let failures = 0;
+    let state: LiveConnectionState | null = null;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let catchingUp = false;
+
+    const setState = (next: LiveConnectionState) => {
+        if (next === state || controller.signal.aborted) return;
+        state = next;
+        onStateChange?.(next);
+    };
+
+    /**
+     * Fetch everything since the last sync point. The cursor only moves
+     * forward on success, so a failed request is covered by the next one.
+     */
+    const catchUp = async (): Promise<boolean> => {
+        if (catchingUp) return true;
+        catchingUp = true;
+        const until = nowSeconds();
+        try {
+            const missed = await fetchLiveAnomalies(syncedUntil - BACKFILL_OVERLAP_S, until, { signal: controller.signal, retries: 0 });
+            if (controller.signal.aborted) return false;
+            if (missed.length > 0) onAnomalies(missed);
+            syncedUntil = Math.max(syncedUntil, until);
+            return true;
+        } catch (error) {
+            if (!isAbortError(error)) console.warn('Live anomaly backfill failed', error);
+            return false;
+        } finally {
+            catchingUp = false;
+        }
+    };
+
+    const stopPolling = () => {
+        clearInterval(pollTimer);
+        pollTimer = undefined;
+    };
+
+    const poll = async () => {
+        const ok = await catchUp();
+        if (state === 'polling' || state === 'offline') setState(ok ? 'polling' : 'offline');
+    };
+
+    const startPolling = () => {
+        if (pollTimer) return;
+        setState('polling');
+        void poll();
+        pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const closeSource = () => {
+        source?.close();
+        source = null;
+    };
+
+    const connect = () => {
+        if (controller.signal.aborted) return;
+        if (!pollTimer) setState(failures > 0 ? 'reconnecting' : 'connecting');
+
+        const stream = openLiveAnomalyStream(lastEventId);
+        source = stream;
+
+        stream.onopen = () => {
+            failures = 0;
+            stopPolling();
+            setState('live');
+            // Covers the disconnected period when the backend cannot replay from lastEventId
+            void catchUp();
+        };
+
+        stream.addEventListener('anomaly', (event) => {
+            const message = event as MessageEvent<string>;
+            if (message.lastEventId) lastEventId = message.lastEventId;
+            try {
+                onAnomalies([parseLiveAnomalyEvent(message.data)]);
+                if (!catchingUp) syncedUntil = Math.max(syncedUntil, nowSeconds());
+            } catch (error) {
+                console.warn('Ignoring malformed live anomaly event', error);
+            }
+        });
+
+        // EventSource would retry on its own; close it so reconnects go through
+        // resume + backfill and repeated failures can fall back to polling
+        stream.onerror = () => {
+            if (source !== stream) return;
+            closeSource();
+            failures++;
+
+            if (failures >= MAX_STREAM_FAILURES) {
+                startPolling();
+                retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+                return;
+            }
+
+            setState('reconnecting');
+            const delay = Math.min(RECONNECT_DELAY_MS * 2 ** (failures - 1), MAX_RECONNECT_DELAY_MS);
+            retryTimer = setTimeout(connect, delay);
+        };
+    };
+
+    // The mock backend only answers fetch() requests
+    if (isMockModeEnabled() || typeof EventSource === 'undefined') {
+        startPolling();
+    } else {
+        connect();
+    }
+
+    return {
+        stop: () => {
+            controller.abort();
+            clearTimeout(retryTimer);
+            stopPolling();
+            closeSource();
+        },
+    };
+};
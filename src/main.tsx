@@ -4,10 +4,20 @@ import App from './App'
 import './index.css'
 import './i18n'
 import { ensureThemeInitialized } from './theme'
+import { loadBasemapConfig } from './basemaps'
+import { loadAirspaceConfig } from './airspaceOverlays'
+import { loadModelVersions } from './modelVersions'
 
 // Initialize stored theme before the app renders to avoid color flashes
 ensureThemeInitialized()
 
+// Deployment-specific basemaps; maps pick them up when the file arrives
+void loadBasemapConfig()
+void loadAirspaceConfig()
+
+// Pipeline version ranges from the backend; the bundled list is used until they arrive
+void loadModelVersions()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
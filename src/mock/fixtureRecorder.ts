@@ -0,0 +1,56 @@
+import { parseApiUrl, type FixtureBundle, type FixtureEntry } from './mockMode';
+
+// ============================================================
+// Fixture recorder - captures real backend responses
+// ============================================================
+
+// Recorded entries keyed by "METHOD path?query" so repeated calls overwrite each other
+const recorded = new Map<string, FixtureEntry>();
+
+const entryKey = (entry: Pick<FixtureEntry, 'method' | 'path' | 'query'>) =>
+    `${entry.method} ${entry.path}?${new URLSearchParams(entry.query).toString()}`;
+
+/**
+ * Store a successful JSON response. Reads from a clone so the caller's body is untouched.
+ */
+export const recordResponse = async (url: string, method: string, response: Response) => {
+    if (!response.headers.get('Content-Type')?.includes('application/json')) return;
+    try {
+        const body = await response.clone().json();
+        const { path, query } = parseApiUrl(url);
+        const entry: FixtureEntry = {
+            method,
+            path,
+            ...(Object.keys(query).length > 0 ? { query } : {}),
+            status: response.status,
+            body,
+        };
+        recorded.set(entryKey(entry), entry);
+    } catch (error) {
+        console.warn('Failed to record fixture', url, error);
+    }
+};
+
+export const getRecordedFixtureCount = () => recorded.size;
+
+export const clearRecordedFixtures = () => recorded.clear();
+
+export const buildRecordedBundle = (): FixtureBundle => ({
+    version: 1,
+    description: `Recorded ${new Date().toISOString()}`,
+    entries: Array.from(recorded.values()),
+});
+
+/**
+ * Download everything recorded so far as a fixture bundle.
+ * Drop the file into src/mock/fixtures/ or load it from Settings.
+ */
+export const downloadRecordedFixtures = () => {
+    const blob = new Blob([JSON.stringify(buildRecordedBundle(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fixtures-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
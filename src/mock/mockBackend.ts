@@ -0,0 +1,116 @@
+import type { FixtureBundle, FixtureEntry } from './mockMode';
+import { loadUserFixtures, parseApiUrl } from './mockMode';
+
+// ============================================================
+// Mock backend - answers api.ts requests from fixture bundles
+// ============================================================
+//
+// Resolution order for a request:
+//   1. Same method + path + query
+//   2. Same method + path (any query)
+//   3. Same resource under a sibling endpoint family (tracks, metadata)
+//   4. Built-in handlers for writes (feedback, re-analyze)
+//   5. 404 with a detail naming the missing fixture
+
+// Simulated network latency so loading states are visible in demos
+const MOCK_LATENCY_MS = 150;
+
+const bundledFixtures = import.meta.glob<FixtureBundle>('./fixtures/*.json', { import: 'default' });
+
+// Endpoint families that serve the same resource for a flight id
+const TRACK_PATHS = [/^\/live\/track\/(.+)$/, /^\/research\/track\/(.+)$/, /^\/track\/unified\/(.+)$/, /^\/feedback\/track\/(.+)$/, /^\/feedback\/tagged\/track\/(.+)$/];
+const METADATA_PATHS = [/^\/feedback\/tagged\/metadata\/(.+)$/, /^\/research\/metadata\/(.+)$/];
+
+let entriesPromise: Promise<FixtureEntry[]> | null = null;
+
+const loadEntries = (): Promise<FixtureEntry[]> => {
+    if (!entriesPromise) {
+        entriesPromise = Promise.all(Object.values(bundledFixtures).map(load => load()))
+            // User-provided entries come first so they override the bundled ones
+            .then(bundles => [...loadUserFixtures(), ...bundles.flatMap(bundle => bundle.entries)]);
+    }
+    return entriesPromise;
+};
+
+const sameQuery = (a: Record<string, string> = {}, b: Record<string, string> = {}) => {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+const matchFamily = (path: string, family: RegExp[]): string | null => {
+    for (const pattern of family) {
+        const match = path.match(pattern);
+        if (match) return match[1];
+    }
+    return null;
+};
+
+const findFamilyEntry = (entries: FixtureEntry[], family: RegExp[], id: string) =>
+    entries.find(entry => entry.method === 'GET' && matchFamily(entry.path, family) === id);
+
+const findAnomaly = (entries: FixtureEntry[], flightId: string): unknown => {
+    for (const entry of entries) {
+        const candidates = Array.isArray(entry.body) ? entry.body : [entry.body];
+        const found = candidates.find(item => (item as { flight_id?: string })?.flight_id === flightId && 'full_report' in (item as object));
+        if (found) return found;
+    }
+    return undefined;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'X-Mock-Backend': 'true' },
+    });
+
+const resolve = (entries: FixtureEntry[], method: string, path: string, query: Record<string, string>): Response => {
+    const samePath = entries.filter(entry => entry.method === method && entry.path === path);
+    const exact = samePath.find(entry => sameQuery(entry.query, query)) ?? samePath[0];
+    if (exact) return jsonResponse(exact.body, exact.status);
+
+    if (method === 'GET') {
+        const trackId = matchFamily(path, TRACK_PATHS);
+        const trackEntry = trackId && findFamilyEntry(entries, TRACK_PATHS, trackId);
+        if (trackEntry) return jsonResponse(trackEntry.body, trackEntry.status);
+
+        const metadataId = matchFamily(path, METADATA_PATHS);
+        const metadataEntry = metadataId && findFamilyEntry(entries, METADATA_PATHS, metadataId);
+        if (metadataEntry) return jsonResponse(metadataEntry.body, metadataEntry.status);
+    }
+
+    // Writes succeed without changing the fixtures
+    if (method === 'POST' && path === '/feedback') return jsonResponse({ status: 'ok' });
+    if (method === 'PUT' && /^\/feedback\/\d+$/.test(path)) return jsonResponse({ status: 'ok' });
+
+    const reanalyzeMatch = path.match(/^\/feedback\/reanalyze\/(.+)$/);
+    if (method === 'POST' && reanalyzeMatch) {
+        const anomaly = findAnomaly(entries, reanalyzeMatch[1]);
+        if (anomaly) return jsonResponse(anomaly);
+    }
+
+    return jsonResponse({ detail: `No mock fixture for ${method} ${path}` }, 404);
+};
+
+/**
+ * Drop-in replacement for fetch() used by apiFetch in mock mode
+ */
+export const mockFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method || 'GET').toUpperCase();
+    const { path, query } = parseApiUrl(url);
+    const entries = await loadEntries();
+
+    await new Promise<void>((done, fail) => {
+        const signal = init.signal;
+        if (signal?.aborted) {
+            fail(signal.reason);
+            return;
+        }
+        const timer = setTimeout(done, MOCK_LATENCY_MS);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            fail(signal.reason);
+        }, { once: true });
+    });
+
+    return resolve(entries, method, path, query);
+};
@@ -0,0 +1,97 @@
+// ============================================================
+// Mock backend / fixture recorder switches
+// ============================================================
+//
+// Mock mode serves recorded JSON fixtures instead of calling VITE_API_URL.
+// Enable with VITE_MOCK_API=true at build time or from Settings at runtime.
+// Recording captures real backend responses so they can be saved as fixtures.
+
+export const MOCK_MODE_STORAGE_KEY = 'mockApiMode';
+export const RECORD_FIXTURES_STORAGE_KEY = 'recordApiFixtures';
+export const USER_FIXTURES_STORAGE_KEY = 'mockApiFixtures';
+
+/**
+ * One recorded request/response pair
+ */
+export interface FixtureEntry {
+    method: string;
+    /** Path relative to the API base, e.g. "/live/track/3c6f1a2b" */
+    path: string;
+    /** Query parameters - when present, an exact query match is preferred */
+    query?: Record<string, string>;
+    status: number;
+    body: unknown;
+}
+
+export interface FixtureBundle {
+    version: 1;
+    description?: string;
+    entries: FixtureEntry[];
+}
+
+const readFlag = (key: string): boolean | null => {
+    try {
+        const value = localStorage.getItem(key);
+        return value === null ? null : value === 'true';
+    } catch {
+        return null;
+    }
+};
+
+const writeFlag = (key: string, enabled: boolean) => {
+    try {
+        localStorage.setItem(key, String(enabled));
+    } catch (error) {
+        console.warn('Unable to persist setting', key, error);
+    }
+};
+
+/** The runtime setting wins over the env var so demos can switch without a rebuild */
+export const isMockModeEnabled = (): boolean =>
+    readFlag(MOCK_MODE_STORAGE_KEY) ?? import.meta.env.VITE_MOCK_API === 'true';
+
+export const setMockModeEnabled = (enabled: boolean) => writeFlag(MOCK_MODE_STORAGE_KEY, enabled);
+
+export const isFixtureRecordingEnabled = (): boolean =>
+    readFlag(RECORD_FIXTURES_STORAGE_KEY) ?? import.meta.env.VITE_RECORD_FIXTURES === 'true';
+
+export const setFixtureRecordingEnabled = (enabled: boolean) => writeFlag(RECORD_FIXTURES_STORAGE_KEY, enabled);
+
+/**
+ * Entries from the fixture bundle loaded in Settings. They take priority over
+ * the bundled fixtures; the mock backend reads them once per page load.
+ */
+export const loadUserFixtures = (): FixtureEntry[] => {
+    try {
+        const saved = localStorage.getItem(USER_FIXTURES_STORAGE_KEY);
+        return saved ? (JSON.parse(saved) as FixtureBundle).entries || [] : [];
+    } catch (error) {
+        console.warn('Ignoring invalid user fixture bundle', error);
+        return [];
+    }
+};
+
+/**
+ * Replace the user fixture bundle (e.g. one downloaded from the recorder).
+ * Pass null to remove it.
+ */
+export const setUserFixtureBundle = (bundle: FixtureBundle | null) => {
+    if (bundle) {
+        localStorage.setItem(USER_FIXTURES_STORAGE_KEY, JSON.stringify(bundle));
+    } else {
+        localStorage.removeItem(USER_FIXTURES_STORAGE_KEY);
+    }
+};
+
+export const isFixtureBundle = (value: unknown): value is FixtureBundle =>
+    typeof value === 'object' && value !== null && Array.isArray((value as FixtureBundle).entries);
+
+/**
+ * Split a full request URL into the API-relative path and query.
+ * `${VITE_API_URL}/api/live/track/abc?x=1` -> { path: '/live/track/abc', query: { x: '1' } }
+ */
+export const parseApiUrl = (url: string): { path: string; query: Record<string, string> } => {
+    const parsed = new URL(url, window.location.origin);
+    const path = parsed.pathname.replace(/^.*?\/api(?=\/)/, '');
+    return { path, query: Object.fromEntries(parsed.searchParams.entries()) };
+};
@@ -0,0 +1,84 @@
+import { useSyncExternalStore } from 'react';
+import { fetchModelVersions, type ModelVersionConfig } from './api';
+import bundledConfig from './modelVersions.json';
+
+// ============================================================
+// Pipeline version registry
+// ============================================================
+//
+// Which anomaly-detection pipeline produced a report is inferred from its
+// timestamp and the deploy ranges below. The backend's /model-versions is
+// authoritative; modelVersions.json ships with the app as the fallback and is
+// used until the backend answers.
+
+export interface ModelVersion {
+    id: string;
+    /** Shown on badges, defaults to the id */
+    label: string;
+    /** Unix seconds; null for the first version */
+    deployedFrom: number | null;
+    /** Unix seconds, exclusive; null while the version is deployed */
+    deployedTo: number | null;
+    description: string;
+    /** Detection layers enabled, by trigger name (Rules, XGBoost, ...) */
+    layers: string[];
+}
+
+export const MODEL_VERSIONS_CHANGE_EVENT = 'model-versions-change';
+
+const toUnixSeconds = (value: string | number | null | undefined): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (!value) return null;
+    const ms = new Date(value).getTime();
+    return Number.isNaN(ms) ? null : ms / 1000;
+};
+
+/** Validate config entries and order them oldest first */
+const parseModelVersions = (entries: ModelVersionConfig[] | undefined): ModelVersion[] =>
+    (Array.isArray(entries) ? entries : [])
+        .filter(v => v && typeof v.id === 'string' && v.id)
+        .map(v => ({
+            id: v.id,
+            label: v.label || v.id,
+            deployedFrom: toUnixSeconds(v.deployedFrom),
+            deployedTo: toUnixSeconds(v.deployedTo),
+            description: v.description || '',
+            layers: Array.isArray(v.layers) ? v.layers.filter(l => typeof l === 'string') : [],
+        }))
+        .sort((a, b) => (a.deployedFrom ?? -Infinity) - (b.deployedFrom ?? -Infinity));
+
+let versions: ModelVersion[] = parseModelVersions(bundledConfig.versions);
+
+export const getModelVersions = (): ModelVersion[] => versions;
+
+/**
+ * Version whose deploy range contains `timestamp` (unix seconds). Timestamps
+ * before the first range fall back to the oldest version.
+ */
+export const getVersionForTimestamp = (timestamp: number, list: ModelVersion[] = versions): ModelVersion | undefined =>
+    list.find(v => (v.deployedFrom === null || timestamp >= v.deployedFrom) && (v.deployedTo === null || timestamp < v.deployedTo))
+    ?? list[0];
+
+/** The version still deployed, i.e. the one without an end */
+export const isCurrentVersion = (version: ModelVersion): boolean => version.deployedTo === null;
+
+/**
+ * Replace the bundled registry with the backend's, if it provides one.
+ */
+export const loadModelVersions = async () => {
+    try {
+        const remote = parseModelVersions(await fetchModelVersions({ retries: 0 }));
+        if (remote.length === 0) return;
+        versions = remote;
+        window.dispatchEvent(new CustomEvent(MODEL_VERSIONS_CHANGE_EVENT));
+    } catch (error) {
+        console.warn('Using the bundled model version list', error);
+    }
+};
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener(MODEL_VERSIONS_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(MODEL_VERSIONS_CHANGE_EVENT, onChange);
+};
+
+export const useModelVersions = (): ModelVersion[] => useSyncExternalStore(subscribe, getModelVersions);
@@ -0,0 +1,164 @@
+import { useSyncExternalStore } from 'react';
+import type { TrackSource } from './api';
+import type { FullReport } from './types';
+
+// ============================================================
+// Pinned flights - extra tracks overlaid on the main map
+// ============================================================
+//
+// The pinned set lives in localStorage so pins made on other pages
+// (e.g. polygon search) show up on the main map, and is mirrored into the
+// `pinned` URL parameter so a view can be shared. Each entry in the
+// parameter is `flightId:source`, with `:h` appended when hidden and `:n`
+// when anomaly markers are off.
+
+export interface PinnedFlight {
+    flight_id: string;
+    callsign?: string;
+    source: TrackSource;
+    color: string;
+    visible: boolean;
+    showAnomalies: boolean;
+}
+
+export const MAX_PINNED_FLIGHTS = 10;
+export const PINNED_URL_PARAM = 'pinned';
+export const PINNED_FLIGHTS_CHANGE_EVENT = 'pinned-flights-change';
+
+const PINNED_FLIGHTS_STORAGE_KEY = 'app-pinned-flights';
+const TRACK_SOURCES: TrackSource[] = ['live', 'research', 'unified', 'feedback'];
+
+// Distinct from the primary (blue/red) and proximity (orange) tracks
+const PIN_COLORS = [
+    '#22d3ee', '#a3e635', '#e879f9', '#facc15', '#2dd4bf',
+    '#f472b6', '#818cf8', '#4ade80', '#fb7185', '#c084fc',
+];
+
+// Reports seen when a flight was pinned; kept in memory only
+const pinnedReports = new Map<string, FullReport>();
+
+let cached: PinnedFlight[] | null = null;
+
+const loadPinnedFlights = (): PinnedFlight[] => {
+    try {
+        const saved = localStorage.getItem(PINNED_FLIGHTS_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed.filter(p => p && typeof p.flight_id === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+const savePinnedFlights = (pins: PinnedFlight[]) => {
+    cached = pins;
+    localStorage.setItem(PINNED_FLIGHTS_STORAGE_KEY, JSON.stringify(pins));
+    window.dispatchEvent(new CustomEvent(PINNED_FLIGHTS_CHANGE_EVENT));
+};
+
+export const getPinnedFlights = (): PinnedFlight[] => {
+    if (!cached) cached = loadPinnedFlights();
+    return cached;
+};
+
+const nextColor = (pins: PinnedFlight[]): string =>
+    PIN_COLORS.find(c => !pins.some(p => p.color === c)) ?? PIN_COLORS[pins.length % PIN_COLORS.length];
+
+export const isFlightPinned = (flightId: string): boolean =>
+    getPinnedFlights().some(p => p.flight_id === flightId);
+
+/**
+ * Pin a flight. Returns false when the tray is full.
+ */
+export const pinFlight = (
+    flight: { flight_id: string; callsign?: string; source: TrackSource },
+    report?: FullReport
+): boolean => {
+    const pins = getPinnedFlights();
+    if (report) pinnedReports.set(flight.flight_id, report);
+    if (pins.some(p => p.flight_id === flight.flight_id)) return true;
+    if (pins.length >= MAX_PINNED_FLIGHTS) return false;
+
+    savePinnedFlights([...pins, {
+        flight_id: flight.flight_id,
+        callsign: flight.callsign,
+        source: flight.source,
+        color: nextColor(pins),
+        visible: true,
+        showAnomalies: true,
+    }]);
+    return true;
+};
+
+export const unpinFlight = (flightId: string) => {
+    pinnedReports.delete(flightId);
+    savePinnedFlights(getPinnedFlights().filter(p => p.flight_id !== flightId));
+};
+
+export const updatePinnedFlight = (flightId: string, patch: Partial<Omit<PinnedFlight, 'flight_id'>>) => {
+    savePinnedFlights(getPinnedFlights().map(p => p.flight_id === flightId ? { ...p, ...patch } : p));
+};
+
+export const clearPinnedFlights = () => {
+    pinnedReports.clear();
+    savePinnedFlights([]);
+};
+
+export const getPinnedReport = (flightId: string): FullReport | undefined => pinnedReports.get(flightId);
+
+export const setPinnedReport = (flightId: string, report: FullReport) => {
+    pinnedReports.set(flightId, report);
+};
+
+export const serializePinnedParam = (pins: PinnedFlight[]): string =>
+    pins.map(p => [
+        p.flight_id,
+        p.source,
+        ...(p.visible ? [] : ['h']),
+        ...(p.showAnomalies ? [] : ['n']),
+    ].join(':')).join(',');
+
+/**
+ * Replace the pinned set with the one encoded in a shared URL.
+ * Callsigns already known locally are kept.
+ */
+export const applyPinnedParam = (param: string) => {
+    const previous = getPinnedFlights();
+    const pins: PinnedFlight[] = [];
+
+    param.split(',').forEach(entry => {
+        const [flightId, source, ...flags] = entry.split(':');
+        if (!flightId || pins.length >= MAX_PINNED_FLIGHTS || pins.some(p => p.flight_id === flightId)) return;
+        pins.push({
+            flight_id: flightId,
+            callsign: previous.find(p => p.flight_id === flightId)?.callsign,
+            source: TRACK_SOURCES.includes(source as TrackSource) ? source as TrackSource : 'unified',
+            color: nextColor(pins),
+            visible: !flags.includes('h'),
+            showAnomalies: !flags.includes('n'),
+        });
+    });
+
+    if (serializePinnedParam(pins) !== serializePinnedParam(previous)) {
+        savePinnedFlights(pins);
+    }
+};
+
+const subscribe = (onChange: () => void) => {
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== PINNED_FLIGHTS_STORAGE_KEY) return;
+        cached = null;
+        onChange();
+    };
+    window.addEventListener(PINNED_FLIGHTS_CHANGE_EVENT, onChange);
+    // Pins made in another tab
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        window.removeEventListener(PINNED_FLIGHTS_CHANGE_EVENT, onChange);
+        window.removeEventListener('storage', handleStorage);
+    };
+};
+
+/**
+ * Current pinned set, re-rendering when it changes anywhere in the app.
+ */
+export const usePinnedFlights = (): PinnedFlight[] => useSyncExternalStore(subscribe, getPinnedFlights);
@@ -0,0 +1,123 @@
+// ============================================================
+// Client-side query cache shared by api.ts endpoints
+// ============================================================
+//
+// - Requests with the same key share one in-flight promise
+// - Fresh data is served from memory without hitting the backend
+// - Stale data is served instantly and revalidated in the background
+// - Invalidated data is always refetched before being served again
+
+export type QueryKey = readonly unknown[];
+
+export interface CachedQueryOptions {
+    /** Caller's signal - aborting it rejects this call only, not the shared request */
+    signal?: AbortSignal;
+    /** How long data is considered fresh (no background refetch) */
+    staleTimeMs?: number;
+    /** Ignore cached data and refetch */
+    force?: boolean;
+}
+
+interface CacheEntry<T = unknown> {
+    key: QueryKey;
+    data?: T;
+    updatedAt: number;
+    invalidated: boolean;
+    promise?: Promise<T>;
+    gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_STALE_TIME_MS = 60_000;
+
+// Unused entries are dropped after this long to keep memory bounded
+const CACHE_TIME_MS = 10 * 60_000;
+
+const cache = new Map<string, CacheEntry>();
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+const keyStartsWith = (key: QueryKey, prefix: QueryKey) =>
+    prefix.every((part, idx) => JSON.stringify(part) === JSON.stringify(key[idx]));
+
+const scheduleGc = (hash: string, entry: CacheEntry) => {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+        if (!entry.promise) cache.delete(hash);
+    }, CACHE_TIME_MS);
+};
+
+const withAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+const revalidate = <T>(entry: CacheEntry<T>, fetcher: () => Promise<T>): Promise<T> => {
+    // Collapse concurrent requests for the same key
+    if (entry.promise) return entry.promise;
+
+    const promise = fetcher()
+        .then(data => {
+            entry.data = data;
+            entry.updatedAt = Date.now();
+            entry.invalidated = false;
+            return data;
+        })
+        .finally(() => {
+            if (entry.promise === promise) entry.promise = undefined;
+        });
+    entry.promise = promise;
+    return promise;
+};
+
+/**
+ * Run `fetcher` through the cache under `key`.
+ * The fetcher is called without the caller's signal since its result may be shared.
+ */
+export const cachedQuery = <T>(
+    key: QueryKey,
+    fetcher: () => Promise<T>,
+    options: CachedQueryOptions = {}
+): Promise<T> => {
+    const { signal, staleTimeMs = DEFAULT_STALE_TIME_MS, force = false } = options;
+    const hash = hashKey(key);
+
+    let entry = cache.get(hash) as CacheEntry<T> | undefined;
+    if (!entry) {
+        entry = { key, updatedAt: 0, invalidated: false };
+        cache.set(hash, entry);
+    }
+    scheduleGc(hash, entry);
+
+    const hasData = entry.updatedAt > 0;
+    if (hasData && !force && !entry.invalidated) {
+        if (Date.now() - entry.updatedAt > staleTimeMs) {
+            revalidate(entry, fetcher).catch(error => {
+                console.warn('Background revalidation failed', key, error);
+            });
+        }
+        return Promise.resolve(entry.data as T);
+    }
+
+    return withAbort(revalidate(entry, fetcher), signal);
+};
+
+/**
+ * Mark all queries whose key starts with `prefix` as invalid.
+ * Their next read waits for fresh data. Pass no prefix to invalidate everything.
+ */
+export const invalidateQueries = (prefix: QueryKey = []) => {
+    cache.forEach(entry => {
+        if (keyStartsWith(entry.key, prefix)) entry.invalidated = true;
+    });
+};
+
+/**
+ * Read cached data without triggering a request
+ */
+export const getCachedData = <T>(key: QueryKey): T | undefined =>
+    cache.get(hashKey(key))?.data as T | undefined;
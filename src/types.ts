@@ -22,7 +22,92 @@ export interface AnomalyPoint {
     point_score: number;
 }
 
-// Layer result with optional anomaly points
+// ============================================================
+// Full Report Schema (AnomalyReport.full_report)
+// ============================================================
+
+// Single event inside a rule's details.events (proximity, holding, go-around, ...)
+export interface RuleEvent {
+    timestamp?: number;
+    start_ts?: number;
+    end_ts?: number;
+    lat?: number;
+    lon?: number;
+    // Proximity (rule 4) specific
+    other_flight?: string;
+    other_callsign?: string;
+    distance_nm?: number;
+    altitude_diff_ft?: number;
+    [key: string]: unknown;
+}
+
+// Signal loss gap (rule details.gaps)
+export interface SignalGap {
+    start_ts: number;
+    end_ts: number;
+    duration_s?: number;
+    lat?: number;
+    lon?: number;
+    [key: string]: unknown;
+}
+
+// Path learning (rule 11) off-course sample
+export interface PathDeviation {
+    timestamp: number;
+    lat: number;
+    lon: number;
+    alt?: number;
+    dist_nm?: number;
+}
+
+export interface PathSegmentMatch {
+    match_found: boolean;
+    flow_id?: string;
+    layer?: string;
+    dist_nm?: number;
+    closest_loose_dist_nm?: number;
+}
+
+export type PathSegmentSkip = 'skipped_phase' | 'skipped_short' | 'skipped_resample';
+
+export type PathSegmentResult = PathSegmentMatch | PathSegmentSkip;
+
+export interface RuleDetails {
+    events?: RuleEvent[];
+    gaps?: SignalGap[];
+    // Return to field (rule 7)
+    takeoff_ts?: number;
+    landing_ts?: number;
+    // Path learning (rule 11)
+    off_course_timestamps?: number[];
+    deviations?: PathDeviation[];
+    segments?: Record<string, PathSegmentResult>;
+    [key: string]: unknown;
+}
+
+export interface MatchedRule {
+    id: number;
+    name?: string;
+    summary?: string;
+    category?: string;
+    description?: string;
+    details?: RuleDetails;
+}
+
+export interface RuleEngineReport {
+    matched_rules: MatchedRule[];
+    [key: string]: unknown;
+}
+
+// Layer 1 (rule engine) result
+export interface RuleLayerResult {
+    status?: string;  // 'ANOMALY' | 'NORMAL' | 'ERROR'
+    triggers?: string[];
+    report?: RuleEngineReport;
+    error?: string;
+}
+
+// Layers 2-6 (ML models) result with optional anomaly points
 export interface LayerResult {
     is_anomaly?: boolean;
     status?: string;
@@ -32,7 +117,34 @@ export interface LayerResult {
     error?: string;
     anomaly_points?: AnomalyPoint[];
     triggers?: string[];
-    report?: any;
+}
+
+export interface ReportSummary {
+    is_anomaly?: boolean;
+    confidence_score?: number;
+    triggers?: string[];
+    flight_number?: string;
+    [key: string]: unknown;
+}
+
+export type ModelLayerKey =
+    | 'layer_2_xgboost'
+    | 'layer_3_deep_dense'
+    | 'layer_4_deep_cnn'
+    | 'layer_5_transformer'
+    | 'layer_6_hybrid';
+
+export interface FullReport {
+    summary?: ReportSummary;
+    layer_1_rules?: RuleLayerResult;
+    layer_2_xgboost?: LayerResult;
+    layer_3_deep_dense?: LayerResult;
+    layer_4_deep_cnn?: LayerResult;
+    layer_5_transformer?: LayerResult;
+    layer_6_hybrid?: LayerResult;
+    // Legacy (pre-v2) reports stored matched rules at the top level
+    matched_rules?: MatchedRule[];
+    [key: string]: unknown;
 }
 
 export interface AnomalyReport {
@@ -43,7 +155,8 @@ export interface AnomalyReport {
     is_anomaly: boolean;
     severity_cnn: number;
     severity_dense: number;
-    full_report: any;
+    full_report: FullReport;
+    schema_warnings?: string[];  // Problems found while normalizing full_report
     matched_rule_ids?: string;    // Denormalized from DB (comma-separated)
     matched_rule_names?: string;  // Denormalized from DB (comma-separated)
     feedback_id?: number;  // For history mode
@@ -59,7 +172,7 @@ export interface AnalysisResult {
     is_anomaly: boolean;
     severity_cnn?: number;
     severity_dense?: number;
-    full_report?: any;
+    full_report?: FullReport;
 }
 
 export interface DataFlight {
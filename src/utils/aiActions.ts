@@ -162,6 +162,8 @@ export interface ProcessedActions {
     highlightedPoint: { lat: number; lon: number; label?: string } | null;
     highlightedSegment: { startIndex: number; endIndex: number } | null;
     zoomBounds: { north: number; south: number; east: number; west: number } | null;
+    /** Track point index for focus_time, shown by moving the timeline scrubber */
+    focusIndex: number | null;
 }
 
 /**
@@ -175,7 +177,8 @@ export function processActions(
     const result: ProcessedActions = {
         highlightedPoint: null,
         highlightedSegment: null,
-        zoomBounds: null
+        zoomBounds: null,
+        focusIndex: null
     };
     
     for (const action of actions) {
@@ -198,10 +201,7 @@ export function processActions(
             case 'focus_time': {
                 const found = findPointByTimestamp(flightPoints, action.timestamp);
                 if (found) {
-                    result.highlightedPoint = {
-                        lat: found.point.lat,
-                        lon: found.point.lon
-                    };
+                    result.focusIndex = found.index;
                 }
                 break;
             }
@@ -218,6 +218,7 @@ export function processActions(
             case 'clear_highlights':
                 result.highlightedPoint = null;
                 result.highlightedSegment = null;
+                result.focusIndex = null;
                 break;
         }
     }
@@ -231,6 +232,9 @@ export function processActions(
 export function stripActionsFromText(responseText: string): string {
     // Remove ```json ... ``` blocks
     let cleaned = responseText.replace(/```json\s*[\s\S]*?```/gi, '');
+
+    // Remove a block that is still being streamed (or was cut off)
+    cleaned = cleaned.replace(/```json[\s\S]*$/i, '');
     
     // Clean up extra whitespace
     cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
@@ -0,0 +1,73 @@
+import { ALERT_AUDIO_SRC } from '../constants';
+
+// ============================================================
+// Alert sounds - the bundled ring plus short synthesized tones
+// ============================================================
+
+export type AlertSound = 'ring' | 'chime' | 'beep' | 'siren' | 'none';
+
+export const ALERT_SOUNDS: AlertSound[] = ['ring', 'chime', 'beep', 'siren', 'none'];
+
+// Frequencies (Hz) and durations (s) of each synthesized tone, played in sequence
+const TONES: Record<Exclude<AlertSound, 'ring' | 'none'>, { freq: number; duration: number; type: OscillatorType }[]> = {
+    chime: [
+        { freq: 880, duration: 0.15, type: 'sine' },
+        { freq: 1320, duration: 0.3, type: 'sine' },
+    ],
+    beep: [
+        { freq: 1000, duration: 0.12, type: 'square' },
+        { freq: 0, duration: 0.08, type: 'square' },
+        { freq: 1000, duration: 0.12, type: 'square' },
+    ],
+    siren: [
+        { freq: 660, duration: 0.25, type: 'sawtooth' },
+        { freq: 990, duration: 0.25, type: 'sawtooth' },
+        { freq: 660, duration: 0.25, type: 'sawtooth' },
+        { freq: 990, duration: 0.25, type: 'sawtooth' },
+    ],
+};
+
+let ringAudio: HTMLAudioElement | null = null;
+let audioContext: AudioContext | null = null;
+
+const playTones = (sound: keyof typeof TONES) => {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    void ctx.resume();
+    let start = ctx.currentTime;
+    TONES[sound].forEach(({ freq, duration, type }) => {
+        if (freq > 0) {
+            const oscillator = ctx.createOscillator();
+            const gain = ctx.createGain();
+            oscillator.type = type;
+            oscillator.frequency.value = freq;
+            // Short fade out avoids clicks between tones
+            gain.gain.setValueAtTime(0.15, start);
+            gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+            oscillator.connect(gain).connect(ctx.destination);
+            oscillator.start(start);
+            oscillator.stop(start + duration);
+        }
+        start += duration;
+    });
+};
+
+/**
+ * Play an alert sound. Browsers block audio until the page has been
+ * interacted with; such failures are only logged.
+ */
+export const playAlertSound = (sound: AlertSound) => {
+    try {
+        if (sound === 'none') return;
+        if (sound === 'ring') {
+            ringAudio ??= new Audio(ALERT_AUDIO_SRC);
+            ringAudio.pause();
+            ringAudio.currentTime = 0;
+            void ringAudio.play().catch(error => console.warn('Unable to play alert sound', error));
+            return;
+        }
+        playTones(sound);
+    } catch (error) {
+        console.warn('Unable to play alert sound', error);
+    }
+};
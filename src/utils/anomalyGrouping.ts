@@ -0,0 +1,103 @@
+import type { AnomalyReport } from '../types';
+import { getMatchedRules } from './reportSchema';
+
+// ============================================================
+// Sorting and grouping of the sidebar anomaly list
+// ============================================================
+
+export type AnomalySort = 'time' | 'score' | 'callsign';
+export type AnomalyGroupBy = 'none' | 'airline' | 'rule' | 'layer' | 'hour';
+
+export const ANOMALY_SORTS: AnomalySort[] = ['time', 'score', 'callsign'];
+export const ANOMALY_GROUP_BYS: AnomalyGroupBy[] = ['none', 'airline', 'rule', 'layer', 'hour'];
+
+export interface AnomalyGroup {
+    key: string;
+    label: string;
+    anomalies: AnomalyReport[];
+}
+
+/** Group key for anomalies without a value for the grouping (no callsign, no rule, ...) */
+export const UNGROUPED_KEY = '__none__';
+
+const getScore = (a: AnomalyReport) => a.full_report?.summary?.confidence_score ?? (a.is_anomaly ? 100 : 0);
+
+/** Newest first, highest score first, or callsign A-Z (flights without one last) */
+export const sortAnomalies = (anomalies: AnomalyReport[], sort: AnomalySort): AnomalyReport[] => {
+    const sorted = [...anomalies];
+    if (sort === 'score') {
+        sorted.sort((a, b) => getScore(b) - getScore(a) || b.timestamp - a.timestamp);
+    } else if (sort === 'callsign') {
+        sorted.sort((a, b) => {
+            if (!a.callsign || !b.callsign) return a.callsign ? -1 : b.callsign ? 1 : b.timestamp - a.timestamp;
+            return a.callsign.localeCompare(b.callsign, undefined, { numeric: true }) || b.timestamp - a.timestamp;
+        });
+    } else {
+        sorted.sort((a, b) => b.timestamp - a.timestamp);
+    }
+    return sorted;
+};
+
+/** ICAO airline designator: the three letters before the flight number */
+const getAirlinePrefix = (a: AnomalyReport): string | null =>
+    a.callsign?.trim().toUpperCase().match(/^([A-Z]{3})\d/)?.[1] ?? null;
+
+const getRuleNames = (a: AnomalyReport): string[] => {
+    const matched = getMatchedRules(a.full_report).map(r => r.name || `Rule ${r.id}`);
+    if (matched.length > 0) return matched;
+    return a.matched_rule_names ? a.matched_rule_names.split(', ').filter(Boolean) : [];
+};
+
+/** Start of the local hour, so multi-day ranges keep their days apart */
+const getHourStart = (a: AnomalyReport): number => {
+    const date = new Date(a.timestamp * 1000);
+    date.setMinutes(0, 0, 0);
+    return date.getTime();
+};
+
+const groupKeys = (a: AnomalyReport, groupBy: AnomalyGroupBy): string[] => {
+    switch (groupBy) {
+        case 'airline': return [getAirlinePrefix(a) ?? UNGROUPED_KEY];
+        case 'rule': {
+            const rules = getRuleNames(a);
+            return rules.length > 0 ? rules : [UNGROUPED_KEY];
+        }
+        case 'layer': {
+            const layers = a.full_report?.summary?.triggers || [];
+            return layers.length > 0 ? layers : [UNGROUPED_KEY];
+        }
+        case 'hour': return [String(getHourStart(a))];
+        default: return [UNGROUPED_KEY];
+    }
+};
+
+/**
+ * Split an already sorted list into groups, keeping the order within each.
+ * Rules and layers are multi-valued: a flight is listed under each of its own.
+ * Hours are ordered newest first, other groups largest first, with the
+ * "ungrouped" bucket last.
+ */
+export const groupAnomalies = (anomalies: AnomalyReport[], groupBy: AnomalyGroupBy): AnomalyGroup[] => {
+    const groups = new Map<string, AnomalyReport[]>();
+    anomalies.forEach(a => {
+        groupKeys(a, groupBy).forEach(key => {
+            const group = groups.get(key);
+            if (group) group.push(a);
+            else groups.set(key, [a]);
+        });
+    });
+
+    const result = Array.from(groups, ([key, list]) => ({
+        key,
+        label: groupBy === 'hour' && key !== UNGROUPED_KEY
+            ? new Date(Number(key)).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+            : key,
+        anomalies: list,
+    }));
+
+    return result.sort((a, b) => {
+        if (a.key === UNGROUPED_KEY || b.key === UNGROUPED_KEY) return a.key === UNGROUPED_KEY ? 1 : -1;
+        if (groupBy === 'hour') return Number(b.key) - Number(a.key);
+        return b.anomalies.length - a.anomalies.length || a.label.localeCompare(b.label);
+    });
+};
@@ -0,0 +1,151 @@
+import type { TrackPoint } from '../types';
+import { distanceNm } from './trackMetrics';
+
+// ============================================================
+// Closest point of approach (CPA) between two tracks
+// ============================================================
+
+/** Separation minima used for proximity alerts */
+export const CPA_HORIZONTAL_NM = 5;
+export const CPA_VERTICAL_FT = 2000;
+
+/** Positions are not interpolated across gaps longer than this */
+const MAX_INTERPOLATION_GAP_S = 120;
+/** Analysis window either side of the reported event */
+const EVENT_WINDOW_S = 15 * 60;
+const MAX_SAMPLES = 2000;
+/** Closure rate is averaged over this long before the CPA */
+const CLOSURE_WINDOW_S = 60;
+
+export interface InterpolatedPosition {
+    lat: number;
+    lon: number;
+    alt: number;
+}
+
+export interface SeparationSample {
+    timestamp: number;
+    horizontalNm: number;
+    verticalFt: number;
+}
+
+export interface CpaAnalysis {
+    samples: SeparationSample[];
+    cpa: {
+        timestamp: number;
+        horizontalNm: number;
+        verticalFt: number;
+        primary: InterpolatedPosition;
+        other: InterpolatedPosition;
+    };
+    /** Seconds with horizontal separation below CPA_HORIZONTAL_NM */
+    belowHorizontalS: number;
+    /** Seconds with vertical separation below CPA_VERTICAL_FT */
+    belowVerticalS: number;
+    /** Seconds with both minima infringed at once */
+    lossOfSeparationS: number;
+    /** Rate the horizontal distance shrank over the minute before the CPA, in knots */
+    closureRateKts: number | null;
+}
+
+/**
+ * Linearly interpolated position at `timestamp`, or null outside the track or
+ * inside a signal gap. Points must be ordered by timestamp.
+ */
+export const interpolatePosition = (points: TrackPoint[], timestamp: number): InterpolatedPosition | null => {
+    if (points.length === 0 || timestamp < points[0].timestamp || timestamp > points[points.length - 1].timestamp) {
+        return null;
+    }
+    let lo = 0;
+    let hi = points.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (points[mid].timestamp <= timestamp) lo = mid;
+        else hi = mid;
+    }
+    const a = points[lo];
+    const b = points[hi];
+    const dt = b.timestamp - a.timestamp;
+    if (dt <= 0) return { lat: a.lat, lon: a.lon, alt: a.alt };
+    if (dt > MAX_INTERPOLATION_GAP_S) return null;
+    const f = (timestamp - a.timestamp) / dt;
+    return {
+        lat: a.lat + (b.lat - a.lat) * f,
+        lon: a.lon + (b.lon - a.lon) * f,
+        alt: a.alt + (b.alt - a.alt) * f,
+    };
+};
+
+const separationAt = (primary: TrackPoint[], other: TrackPoint[], timestamp: number) => {
+    const p = interpolatePosition(primary, timestamp);
+    const o = interpolatePosition(other, timestamp);
+    if (!p || !o) return null;
+    return {
+        p,
+        o,
+        sample: {
+            timestamp,
+            horizontalNm: distanceNm(p.lat, p.lon, o.lat, o.lon),
+            verticalFt: Math.abs(p.alt - o.alt),
+        },
+    };
+};
+
+/**
+ * Time-align two tracks and find their closest point of approach. With
+ * `eventTimestamp` the analysis is limited to a window around that event, so
+ * several encounters with the same aircraft are analysed separately.
+ * Returns null when the tracks never overlap in time.
+ */
+export const computeCpa = (primary: TrackPoint[], other: TrackPoint[], eventTimestamp?: number): CpaAnalysis | null => {
+    if (primary.length < 2 || other.length < 2) return null;
+
+    let start = Math.max(primary[0].timestamp, other[0].timestamp);
+    let end = Math.min(primary[primary.length - 1].timestamp, other[other.length - 1].timestamp);
+    if (eventTimestamp !== undefined) {
+        start = Math.max(start, eventTimestamp - EVENT_WINDOW_S);
+        end = Math.min(end, eventTimestamp + EVENT_WINDOW_S);
+    }
+    if (end <= start) return null;
+
+    const step = Math.max(1, Math.ceil((end - start) / MAX_SAMPLES));
+    const samples: SeparationSample[] = [];
+    let best: { p: InterpolatedPosition; o: InterpolatedPosition; sample: SeparationSample } | null = null;
+    let belowHorizontalS = 0;
+    let belowVerticalS = 0;
+    let lossOfSeparationS = 0;
+
+    for (let t = start; t <= end; t += step) {
+        const sep = separationAt(primary, other, t);
+        if (!sep) continue;
+        samples.push(sep.sample);
+        const horizontal = sep.sample.horizontalNm < CPA_HORIZONTAL_NM;
+        const vertical = sep.sample.verticalFt < CPA_VERTICAL_FT;
+        if (horizontal) belowHorizontalS += step;
+        if (vertical) belowVerticalS += step;
+        if (horizontal && vertical) lossOfSeparationS += step;
+        if (!best || sep.sample.horizontalNm < best.sample.horizontalNm) best = sep;
+    }
+    if (!best) return null;
+
+    // Refine the minimum between the neighbouring samples
+    const coarse = best.sample.timestamp;
+    for (let t = coarse - step; t <= coarse + step; t += step / 20) {
+        const sep = separationAt(primary, other, t);
+        if (sep && sep.sample.horizontalNm < best.sample.horizontalNm) best = sep;
+    }
+
+    const before = separationAt(primary, other, best.sample.timestamp - CLOSURE_WINDOW_S);
+    const closureRateKts = before
+        ? ((before.sample.horizontalNm - best.sample.horizontalNm) / CLOSURE_WINDOW_S) * 3600
+        : null;
+
+    return {
+        samples,
+        cpa: { ...best.sample, primary: best.p, other: best.o },
+        belowHorizontalS,
+        belowVerticalS,
+        lossOfSeparationS,
+        closureRateKts,
+    };
+};
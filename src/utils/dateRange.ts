@@ -0,0 +1,116 @@
+// ============================================================
+// Time range browsed in the historical, research and feedback lists
+// ============================================================
+
+export type DateRangePreset = 'day' | 'last6h' | 'last24h' | 'last7d' | 'custom';
+
+export interface DateRange {
+    from: Date;
+    to: Date;
+    /** How the range was picked; 'day' ranges step by calendar day */
+    preset: DateRangePreset;
+}
+
+/** Ranges longer than this are refused by the picker and in links */
+export const MAX_RANGE_DAYS = 31;
+
+const HOUR_MS = 3600 * 1000;
+
+export const isRangeTooLong = (from: Date, to: Date) => to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * HOUR_MS;
+
+/** The whole local calendar day containing `date` */
+export const dayRange = (date: Date): DateRange => {
+    const from = new Date(date);
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(date);
+    to.setHours(23, 59, 59, 999);
+    return { from, to, preset: 'day' };
+};
+
+/** A relative range ending now */
+export const presetRange = (preset: 'last6h' | 'last24h' | 'last7d', now = new Date()): DateRange => {
+    const hours = preset === 'last6h' ? 6 : preset === 'last24h' ? 24 : 24 * 7;
+    return { from: new Date(now.getTime() - hours * HOUR_MS), to: new Date(now), preset };
+};
+
+/**
+ * Move a range by its own length: a day range to the previous/next day, any
+ * other range by its duration. Relative presets become custom once shifted.
+ */
+export const shiftRange = (range: DateRange, direction: -1 | 1): DateRange => {
+    if (range.preset === 'day') {
+        const date = new Date(range.from);
+        date.setDate(date.getDate() + direction);
+        return dayRange(date);
+    }
+    const span = range.to.getTime() - range.from.getTime();
+    return {
+        from: new Date(range.from.getTime() + direction * span),
+        to: new Date(range.to.getTime() + direction * span),
+        preset: 'custom',
+    };
+};
+
+/**
+ * Split a range at local midnights into [start, end] unix-second chunks,
+ * newest first, so long ranges can be fetched and shown a day at a time.
+ */
+export const splitRangeByDay = (range: DateRange): { start: number; end: number }[] => {
+    const chunks: { start: number; end: number }[] = [];
+    let cursor = new Date(range.from);
+    while (cursor < range.to) {
+        const dayEnd = new Date(cursor);
+        dayEnd.setHours(23, 59, 59, 999);
+        const end = dayEnd < range.to ? dayEnd : range.to;
+        chunks.push({ start: Math.floor(cursor.getTime() / 1000), end: Math.floor(end.getTime() / 1000) });
+        cursor = new Date(dayEnd.getTime() + 1);
+    }
+    return chunks.reverse();
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local `YYYY-MM-DD` */
+export const formatDateParam = (date: Date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Local `YYYY-MM-DDTHH:mm`, the format of datetime-local inputs and the URL */
+export const formatDateTimeParam = (date: Date) =>
+    `${formatDateParam(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/** Parse `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm` as local time */
+export const parseDateParam = (value: string | null): Date | null => {
+    const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/);
+    if (!match) return null;
+    const [, y, mo, d, h = '0', mi = '0'] = match;
+    const date = new Date(parseInt(y), parseInt(mo) - 1, parseInt(d), parseInt(h), parseInt(mi));
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/** from 00:00 to 23:59 of the same day, as written to the URL for a day range */
+const isWholeDay = (from: Date, to: Date) =>
+    formatDateParam(from) === formatDateParam(to)
+    && from.getHours() === 0 && from.getMinutes() === 0
+    && to.getHours() === 23 && to.getMinutes() === 59;
+
+/**
+ * Read the range from `?from=&to=`. Links with the older `?date=` open that
+ * day; a range over MAX_RANGE_DAYS opens its last day; anything else falls
+ * back to today.
+ */
+export const parseRangeParams = (params: URLSearchParams): DateRange => {
+    const from = parseDateParam(params.get('from'));
+    const to = parseDateParam(params.get('to'));
+    if (from && to && from < to) {
+        if (isRangeTooLong(from, to)) return dayRange(to);
+        return isWholeDay(from, to) ? dayRange(from) : { from, to, preset: 'custom' };
+    }
+    return dayRange(parseDateParam(params.get('date')) ?? new Date());
+};
+
+/** Replace `date` (or an earlier range) with the `from`/`to` pair */
+export const writeRangeParams = (params: URLSearchParams, range: DateRange) => {
+    params.delete('date');
+    params.set('from', formatDateTimeParam(range.from));
+    params.set('to', formatDateTimeParam(range.to));
+};
@@ -0,0 +1,90 @@
+import type { AnomalyReport } from '../types';
+import { getAnomalyLocation } from './reportSchema';
+
+// ============================================================
+// Day overview - every listed anomaly of the selected day on the map
+// ============================================================
+
+export type DayOverviewTrigger =
+    | 'Rules'
+    | 'XGBoost'
+    | 'DeepDense'
+    | 'DeepCNN'
+    | 'Transformer'
+    | 'Hybrid'
+    | 'Combination'
+    | 'Other';
+
+/**
+ * Marker colours per trigger. ML layers reuse the colours of the ML anomaly markers.
+ */
+export const DAY_OVERVIEW_TRIGGERS: { id: DayOverviewTrigger; label: string; color: string }[] = [
+    { id: 'Rules', label: 'Rules', color: '#ef4444' },
+    { id: 'XGBoost', label: 'XGBoost', color: '#22c55e' },
+    { id: 'DeepDense', label: 'Deep Dense', color: '#8b5cf6' },
+    { id: 'DeepCNN', label: 'Deep CNN', color: '#f97316' },
+    { id: 'Transformer', label: 'Transformer', color: '#06b6d4' },
+    { id: 'Hybrid', label: 'Hybrid', color: '#ec4899' },
+    { id: 'Combination', label: 'Combination', color: '#eab308' },
+    { id: 'Other', label: 'Other', color: '#9ca3af' },
+];
+
+const DAY_OVERVIEW_STORAGE_KEY = 'map-day-overview';
+
+export const loadDayOverviewEnabled = (): boolean => localStorage.getItem(DAY_OVERVIEW_STORAGE_KEY) === 'true';
+
+export const saveDayOverviewEnabled = (enabled: boolean) => {
+    localStorage.setItem(DAY_OVERVIEW_STORAGE_KEY, String(enabled));
+};
+
+/**
+ * Single trigger used to colour an anomaly: its summary trigger, or
+ * "Combination" when more than one layer fired.
+ */
+export const getDayOverviewTrigger = (anomaly: AnomalyReport): DayOverviewTrigger => {
+    const triggers = anomaly.full_report?.summary?.triggers || [];
+    if (triggers.length > 1) return 'Combination';
+    const known = DAY_OVERVIEW_TRIGGERS.find(t => t.id === triggers[0]);
+    if (known) return known.id;
+    // Older reports only carry the rule layer
+    return anomaly.full_report?.layer_1_rules?.status === 'ANOMALY' || anomaly.matched_rule_ids ? 'Rules' : 'Other';
+};
+
+export interface DayOverviewFeatureProps {
+    flight_id: string;
+    callsign: string;
+    trigger: DayOverviewTrigger;
+    score: number;
+}
+
+/**
+ * Point features for the anomalies that can be placed on the map. Anomalies
+ * whose report has no coordinates are counted in `unlocated` instead.
+ */
+export const buildDayOverviewData = (anomalies: AnomalyReport[]): {
+    data: GeoJSON.FeatureCollection<GeoJSON.Point, DayOverviewFeatureProps>;
+    unlocated: number;
+} => {
+    const features: GeoJSON.Feature<GeoJSON.Point, DayOverviewFeatureProps>[] = [];
+    let unlocated = 0;
+
+    anomalies.forEach(anomaly => {
+        const location = getAnomalyLocation(anomaly.full_report);
+        if (!location) {
+            unlocated++;
+            return;
+        }
+        features.push({
+            type: 'Feature',
+            properties: {
+                flight_id: anomaly.flight_id,
+                callsign: anomaly.callsign || '',
+                trigger: getDayOverviewTrigger(anomaly),
+                score: anomaly.full_report?.summary?.confidence_score ?? (anomaly.is_anomaly ? 100 : 0),
+            },
+            geometry: { type: 'Point', coordinates: [location.lon, location.lat] },
+        });
+    });
+
+    return { data: { type: 'FeatureCollection', features }, unlocated };
+};
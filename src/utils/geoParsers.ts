@@ -0,0 +1,279 @@
+// ============================================================
+// GeoJSON / KML / WKT parsing for user map overlays
+// ============================================================
+
+type Position = GeoJSON.Position;
+
+const featureCollection = (features: GeoJSON.Feature[]): GeoJSON.FeatureCollection => ({
+    type: 'FeatureCollection',
+    features,
+});
+
+const closeRing = (ring: Position[]): Position[] => {
+    if (ring.length === 0) return ring;
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+};
+
+// ------------------------------------------------------------
+// GeoJSON
+// ------------------------------------------------------------
+
+export const parseGeoJSON = (text: string): GeoJSON.FeatureCollection => {
+    const data = JSON.parse(text);
+    switch (data?.type) {
+        case 'FeatureCollection':
+            return featureCollection((data.features || []).filter((f: GeoJSON.Feature) => f?.geometry));
+        case 'Feature':
+            return featureCollection(data.geometry ? [data] : []);
+        case 'Point':
+        case 'MultiPoint':
+        case 'LineString':
+        case 'MultiLineString':
+        case 'Polygon':
+        case 'MultiPolygon':
+        case 'GeometryCollection':
+            return featureCollection([{ type: 'Feature', properties: {}, geometry: data }]);
+        default:
+            throw new Error('Not a GeoJSON object');
+    }
+};
+
+// ------------------------------------------------------------
+// KML
+// ------------------------------------------------------------
+
+const parseKmlCoordinates = (text: string | null | undefined): Position[] =>
+    (text || '')
+        .trim()
+        .split(/\s+/)
+        .map(tuple => tuple.split(',').map(Number))
+        .filter(c => c.length >= 2 && isFinite(c[0]) && isFinite(c[1]))
+        .map(([lon, lat]) => [lon, lat]);
+
+const childElements = (el: Element, name: string): Element[] =>
+    Array.from(el.children).filter(c => c.localName === name);
+
+const kmlGeometry = (el: Element): GeoJSON.Geometry | null => {
+    const coordsOf = (g: Element) => parseKmlCoordinates(g.getElementsByTagName('coordinates')[0]?.textContent);
+
+    switch (el.localName) {
+        case 'Point': {
+            const [coord] = coordsOf(el);
+            return coord ? { type: 'Point', coordinates: coord } : null;
+        }
+        case 'LineString': {
+            const coords = coordsOf(el);
+            return coords.length >= 2 ? { type: 'LineString', coordinates: coords } : null;
+        }
+        case 'Polygon': {
+            const ringOf = (boundary: Element | undefined) =>
+                boundary ? closeRing(coordsOf(boundary)) : [];
+            const outer = ringOf(childElements(el, 'outerBoundaryIs')[0]);
+            if (outer.length < 4) return null;
+            const inner = childElements(el, 'innerBoundaryIs').map(ringOf).filter(r => r.length >= 4);
+            return { type: 'Polygon', coordinates: [outer, ...inner] };
+        }
+        case 'MultiGeometry': {
+            const geometries = Array.from(el.children)
+                .map(kmlGeometry)
+                .filter((g): g is GeoJSON.Geometry => g !== null);
+            return geometries.length > 0 ? { type: 'GeometryCollection', geometries } : null;
+        }
+        default:
+            return null;
+    }
+};
+
+const GEOMETRY_TAGS = ['Point', 'LineString', 'Polygon', 'MultiGeometry'];
+
+export const parseKML = (text: string): GeoJSON.FeatureCollection => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Invalid KML document');
+    }
+
+    const features: GeoJSON.Feature[] = [];
+    Array.from(doc.getElementsByTagName('Placemark')).forEach(placemark => {
+        const geometryEl = Array.from(placemark.children).find(c => GEOMETRY_TAGS.includes(c.localName));
+        const geometry = geometryEl ? kmlGeometry(geometryEl) : null;
+        if (!geometry) return;
+
+        const properties: Record<string, string> = {};
+        const name = childElements(placemark, 'name')[0]?.textContent?.trim();
+        const description = childElements(placemark, 'description')[0]?.textContent?.trim();
+        if (name) properties.name = name;
+        if (description) properties.description = description;
+        // <ExtendedData><Data name="..."><value>...</value></Data>
+        Array.from(placemark.getElementsByTagName('Data')).forEach(d => {
+            const key = d.getAttribute('name');
+            const value = d.getElementsByTagName('value')[0]?.textContent?.trim();
+            if (key && value) properties[key] = value;
+        });
+
+        features.push({ type: 'Feature', properties, geometry });
+    });
+
+    return featureCollection(features);
+};
+
+// ------------------------------------------------------------
+// WKT
+// ------------------------------------------------------------
+
+/**
+ * Minimal recursive-descent WKT reader. Supports POINT, LINESTRING, POLYGON,
+ * their MULTI variants and GEOMETRYCOLLECTION, with optional Z/M values
+ * (which are dropped) and an optional SRID=...; prefix.
+ */
+class WktReader {
+    private pos = 0;
+    private readonly text: string;
+
+    constructor(text: string) {
+        this.text = text.replace(/^\s*SRID=\d+;/i, '');
+    }
+
+    private skipSpace() {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+    }
+
+    private peek(): string {
+        this.skipSpace();
+        return this.text[this.pos] ?? '';
+    }
+
+    private expect(char: string) {
+        if (this.peek() !== char) throw new Error(`Expected "${char}" at position ${this.pos}`);
+        this.pos++;
+    }
+
+    private word(): string {
+        this.skipSpace();
+        const match = /^[A-Za-z]+/.exec(this.text.slice(this.pos));
+        if (!match) throw new Error(`Expected geometry type at position ${this.pos}`);
+        this.pos += match[0].length;
+        return match[0].toUpperCase();
+    }
+
+    private isEmpty(): boolean {
+        this.skipSpace();
+        if (/^EMPTY/i.test(this.text.slice(this.pos))) {
+            this.pos += 5;
+            return true;
+        }
+        return false;
+    }
+
+    private coordinate(): Position {
+        this.skipSpace();
+        const match = /^[-+]?[\d.]+(?:[eE][-+]?\d+)?(?:\s+[-+]?[\d.]+(?:[eE][-+]?\d+)?)+/.exec(this.text.slice(this.pos));
+        if (!match) throw new Error(`Expected coordinate at position ${this.pos}`);
+        this.pos += match[0].length;
+        const [x, y] = match[0].trim().split(/\s+/).map(Number);
+        return [x, y];
+    }
+
+    // ( coord, coord, ... ) - MULTIPOINT may also wrap each coordinate in parentheses
+    private coordinateList(): Position[] {
+        this.expect('(');
+        const coords: Position[] = [];
+        do {
+            if (this.peek() === '(') {
+                this.pos++;
+                coords.push(this.coordinate());
+                this.expect(')');
+            } else {
+                coords.push(this.coordinate());
+            }
+        } while (this.peek() === ',' && ++this.pos);
+        this.expect(')');
+        return coords;
+    }
+
+    private listOf<T>(item: () => T): T[] {
+        this.expect('(');
+        const items: T[] = [];
+        do {
+            items.push(item());
+        } while (this.peek() === ',' && ++this.pos);
+        this.expect(')');
+        return items;
+    }
+
+    geometry(): GeoJSON.Geometry | null {
+        const type = this.word();
+        // Dimension markers: POINT Z, POLYGON ZM, ...
+        this.skipSpace();
+        const dims = /^(ZM|Z|M)\b/i.exec(this.text.slice(this.pos));
+        if (dims) this.pos += dims[0].length;
+        if (this.isEmpty()) return null;
+
+        switch (type) {
+            case 'POINT':
+                return { type: 'Point', coordinates: this.coordinateList()[0] };
+            case 'LINESTRING':
+                return { type: 'LineString', coordinates: this.coordinateList() };
+            case 'POLYGON':
+                return { type: 'Polygon', coordinates: this.listOf(() => closeRing(this.coordinateList())) };
+            case 'MULTIPOINT':
+                return { type: 'MultiPoint', coordinates: this.coordinateList() };
+            case 'MULTILINESTRING':
+                return { type: 'MultiLineString', coordinates: this.listOf(() => this.coordinateList()) };
+            case 'MULTIPOLYGON':
+                return {
+                    type: 'MultiPolygon',
+                    coordinates: this.listOf(() => this.listOf(() => closeRing(this.coordinateList()))),
+                };
+            case 'GEOMETRYCOLLECTION':
+                return {
+                    type: 'GeometryCollection',
+                    geometries: this.listOf(() => this.geometry()).filter((g): g is GeoJSON.Geometry => g !== null),
+                };
+            default:
+                throw new Error(`Unsupported WKT geometry: ${type}`);
+        }
+    }
+
+    atEnd(): boolean {
+        this.skipSpace();
+        return this.pos >= this.text.length;
+    }
+}
+
+export const parseWKTGeometry = (wkt: string): GeoJSON.Geometry | null => {
+    const reader = new WktReader(wkt);
+    const geometry = reader.geometry();
+    if (!reader.atEnd()) throw new Error('Unexpected text after WKT geometry');
+    return geometry;
+};
+
+/**
+ * Parse a WKT file: one geometry per non-empty line (lines starting with # are skipped).
+ */
+export const parseWKT = (text: string): GeoJSON.FeatureCollection => {
+    const features: GeoJSON.Feature[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        const geometry = parseWKTGeometry(trimmed);
+        if (geometry) features.push({ type: 'Feature', properties: { line: i + 1 }, geometry });
+    });
+    return featureCollection(features);
+};
+
+// ------------------------------------------------------------
+// File detection
+// ------------------------------------------------------------
+
+/**
+ * Parse an overlay file by extension, falling back to sniffing the content.
+ */
+export const parseOverlayFile = (fileName: string, text: string): GeoJSON.FeatureCollection => {
+    const ext = fileName.toLowerCase().split('.').pop();
+    const trimmed = text.trimStart();
+
+    if (ext === 'kml' || trimmed.startsWith('<')) return parseKML(text);
+    if (ext === 'geojson' || ext === 'json' || trimmed.startsWith('{')) return parseGeoJSON(text);
+    return parseWKT(text);
+};
@@ -150,7 +150,7 @@ export function renderMarkdown(text: string): React.ReactNode {
     return <>{elements}</>;
 }
 
-function extractThinkingBlocks(raw: string): { cleanText: string; thinkingBlocks: string[] } {
+function extractThinkingBlocks(raw: string, isStreaming = false): { cleanText: string; thinkingBlocks: string[] } {
     const thinkingBlocks: string[] = [];
     
     // Match all variations: <thinking>, <thoughts>, <think> tags (case insensitive)
@@ -179,17 +179,29 @@ function extractThinkingBlocks(raw: string): { cleanText: string; thinkingBlocks
     }
 
     // Remove all types of thinking tags from the text
-    const cleanText = raw
+    let cleanText = raw
         .replace(thinkingRe, '')
         .replace(thoughtsRe, '')
-        .replace(thinkRe, '')
-        .replace(/\n{3,}/g, '\n\n')
-        .trim();
+        .replace(thinkRe, '');
+
+    if (isStreaming) {
+        // A block whose closing tag has not arrived yet streams into the disclosure
+        const openMatch = cleanText.match(/<(thinking|thoughts|think)>([\s\S]*)$/i);
+        if (openMatch && openMatch.index !== undefined) {
+            const block = openMatch[2].trim();
+            if (block) thinkingBlocks.push(block);
+            cleanText = cleanText.slice(0, openMatch.index);
+        }
+        // Hide a tag that is only partially received, e.g. "<thin"
+        cleanText = cleanText.replace(/<\/?[a-z]*$/i, '');
+    }
+
+    cleanText = cleanText.replace(/\n{3,}/g, '\n\n').trim();
 
     return { cleanText, thinkingBlocks };
 }
 
-const ThinkingDisclosure: React.FC<{ blocks: string[] }> = ({ blocks }) => {
+const ThinkingDisclosure: React.FC<{ blocks: string[]; isStreaming?: boolean }> = ({ blocks, isStreaming }) => {
     const [open, setOpen] = React.useState(false);
     const [revealedLines, setRevealedLines] = React.useState(0);
 
@@ -220,7 +232,7 @@ const ThinkingDisclosure: React.FC<{ blocks: string[] }> = ({ blocks }) => {
                 className="flex items-center gap-2 text-xs text-white/60 hover:text-white/80 transition-colors"
             >
                 {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
-                <span className="font-medium">Thinking</span>
+                <span className={isStreaming ? "font-medium animate-pulse" : "font-medium"}>Thinking{isStreaming ? '...' : ''}</span>
                 {!open && <span className="text-white/35">(hidden)</span>}
             </button>
 
@@ -352,15 +364,17 @@ function renderInlineMarkdown(text: string): React.ReactNode {
 interface TypewriterMarkdownProps {
     text: string;
     shouldAnimate: boolean;
+    /** Text is still arriving from the backend - render it as-is, no typewriter */
+    isStreaming?: boolean;
 }
 
-export const TypewriterMarkdown: React.FC<TypewriterMarkdownProps> = ({ text, shouldAnimate }) => {
-    const { cleanText, thinkingBlocks } = React.useMemo(() => extractThinkingBlocks(text), [text]);
-    const [displayedText, setDisplayedText] = React.useState(shouldAnimate ? '' : cleanText);
+export const TypewriterMarkdown: React.FC<TypewriterMarkdownProps> = ({ text, shouldAnimate, isStreaming = false }) => {
+    const { cleanText, thinkingBlocks } = React.useMemo(() => extractThinkingBlocks(text, isStreaming), [text, isStreaming]);
+    const [displayedText, setDisplayedText] = React.useState(shouldAnimate && !isStreaming ? '' : cleanText);
     const hasAnimatedRef = React.useRef(false);
 
     React.useEffect(() => {
-        if (!shouldAnimate) {
+        if (!shouldAnimate || isStreaming) {
             setDisplayedText(cleanText);
             return;
         }
@@ -379,12 +393,12 @@ export const TypewriterMarkdown: React.FC<TypewriterMarkdownProps> = ({ text, sh
         }, 10); // Slightly faster for better UX
 
         return () => clearInterval(timer);
-    }, [cleanText, shouldAnimate]);
+    }, [cleanText, shouldAnimate, isStreaming]);
 
     return (
         <div>
             <div className="markdown-content">{renderMarkdown(displayedText)}</div>
-            {thinkingBlocks.length > 0 && <ThinkingDisclosure blocks={thinkingBlocks} />}
+            {thinkingBlocks.length > 0 && <ThinkingDisclosure blocks={thinkingBlocks} isStreaming={isStreaming} />}
         </div>
     );
 };
@@ -1 +1,152 @@
+// ============================================================
+// NumPy .npy reader
+// ============================================================
+//
+// Reads format versions 1.0-3.0 with numeric and boolean dtypes in either
+// byte order, plus structured dtypes whose fields are all numeric
+// (e.g. np.save of a record array with lat/lon/alt/timestamp fields).
+// Object arrays and strings are not supported.
 
+export interface NpyField {
+    name: string;
+    dtype: string;
+    offset: number;
+}
+
+export interface NpyArray {
+    shape: number[];
+    /** Raw dtype descriptor, e.g. "<f8" (structured arrays report "structured") */
+    dtype: string;
+    fortranOrder: boolean;
+    /** Present for structured dtypes */
+    fields?: NpyField[];
+    /** Element values in C order; structured arrays hold one row per record, fields in order */
+    data: number[] | number[][];
+}
+
+const MAGIC = '\x93NUMPY';
+
+// Map a dtype like "<f8" to its element size and a DataView reader
+const scalarReader = (dtype: string): { size: number; read: (view: DataView, offset: number) => number } => {
+    const order = dtype[0];
+    const littleEndian = order === '<' || order === '|' || order === '=';
+    if (order === '>' && !/^>[fiub]\d+$/.test(dtype)) throw new Error(`Unsupported dtype ${dtype}`);
+    const kind = dtype[1];
+    const size = Number(dtype.slice(2));
+
+    switch (`${kind}${size}`) {
+        case 'f4': return { size, read: (v, o) => v.getFloat32(o, littleEndian) };
+        case 'f8': return { size, read: (v, o) => v.getFloat64(o, littleEndian) };
+        case 'i1': return { size, read: (v, o) => v.getInt8(o) };
+        case 'i2': return { size, read: (v, o) => v.getInt16(o, littleEndian) };
+        case 'i4': return { size, read: (v, o) => v.getInt32(o, littleEndian) };
+        case 'i8': return { size, read: (v, o) => Number(v.getBigInt64(o, littleEndian)) };
+        case 'u1': return { size, read: (v, o) => v.getUint8(o) };
+        case 'u2': return { size, read: (v, o) => v.getUint16(o, littleEndian) };
+        case 'u4': return { size, read: (v, o) => v.getUint32(o, littleEndian) };
+        case 'u8': return { size, read: (v, o) => Number(v.getBigUint64(o, littleEndian)) };
+        case 'b1': return { size, read: (v, o) => v.getUint8(o) };
+        default: throw new Error(`Unsupported dtype ${dtype}`);
+    }
+};
+
+interface NpyHeader {
+    descr: string | [string, string, ...unknown[]][];
+    fortran_order: boolean;
+    shape: number[];
+}
+
+/**
+ * Parse the header dict, which is a Python literal such as
+ * {'descr': '<f8', 'fortran_order': False, 'shape': (120, 4), }
+ */
+const parseHeader = (text: string): NpyHeader => {
+    const json = text
+        .trim()
+        .replace(/'/g, '"')
+        .replace(/\bTrue\b/g, 'true')
+        .replace(/\bFalse\b/g, 'false')
+        .replace(/\(/g, '[')
+        .replace(/\)/g, ']')
+        .replace(/,\s*([}\]])/g, '$1');
+    try {
+        return JSON.parse(json);
+    } catch {
+        throw new Error('Invalid .npy header');
+    }
+};
+
+export const parseNpy = (buffer: ArrayBuffer): NpyArray => {
+    const bytes = new Uint8Array(buffer);
+    const magic = String.fromCharCode(...bytes.slice(0, 6));
+    if (magic !== MAGIC) throw new Error('Not a .npy file');
+
+    const view = new DataView(buffer);
+    const major = bytes[6];
+    const headerLenSize = major === 1 ? 2 : 4;
+    const headerLen = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+    const headerStart = 8 + headerLenSize;
+    const headerText = new TextDecoder(major === 3 ? 'utf-8' : 'latin1')
+        .decode(bytes.slice(headerStart, headerStart + headerLen));
+    const header = parseHeader(headerText);
+    const dataStart = headerStart + headerLen;
+    const count = header.shape.reduce((n, d) => n * d, 1);
+
+    if (typeof header.descr === 'string') {
+        const { size, read } = scalarReader(header.descr);
+        if (dataStart + count * size > buffer.byteLength) throw new Error('Truncated .npy file');
+
+        const raw: number[] = new Array(count);
+        for (let i = 0; i < count; i++) raw[i] = read(view, dataStart + i * size);
+
+        // Normalise 2-D Fortran-ordered arrays to row-major
+        let data = raw;
+        if (header.fortran_order && header.shape.length === 2) {
+            const [rows, cols] = header.shape;
+            data = new Array(count);
+            for (let r = 0; r < rows; r++) {
+                for (let c = 0; c < cols; c++) data[r * cols + c] = raw[c * rows + r];
+            }
+        }
+        return { shape: header.shape, dtype: header.descr, fortranOrder: header.fortran_order, data };
+    }
+
+    // Structured dtype: [('lat', '<f8'), ('lon', '<f8'), ...]
+    let recordSize = 0;
+    const fields = header.descr.map(([name, dtype, ...subShape]) => {
+        if (subShape.length > 0 || typeof dtype !== 'string') throw new Error(`Unsupported field ${name} in structured dtype`);
+        const field = { name, dtype, offset: recordSize, ...scalarReader(dtype) };
+        recordSize += field.size;
+        return field;
+    });
+    if (dataStart + count * recordSize > buffer.byteLength) throw new Error('Truncated .npy file');
+
+    const records: number[][] = new Array(count);
+    for (let i = 0; i < count; i++) {
+        const base = dataStart + i * recordSize;
+        records[i] = fields.map(f => f.read(view, base + f.offset));
+    }
+    return {
+        shape: header.shape,
+        dtype: 'structured',
+        fortranOrder: header.fortran_order,
+        fields: fields.map(({ name, dtype, offset }) => ({ name, dtype, offset })),
+        data: records,
+    };
+};
+
+/**
+ * Rows of a 2-D numeric array or a 1-D structured array, with column names
+ * (field names for structured arrays, col0..colN otherwise).
+ */
+export const npyToRows = (array: NpyArray): { columns: string[]; rows: number[][] } => {
+    if (array.fields) {
+        return { columns: array.fields.map(f => f.name), rows: array.data as number[][] };
+    }
+    const data = array.data as number[];
+    if (array.shape.length !== 2) throw new Error(`Expected a 2-D array, got shape (${array.shape.join(', ')})`);
+    const [rowCount, colCount] = array.shape;
+    const rows: number[][] = [];
+    for (let r = 0; r < rowCount; r++) rows.push(data.slice(r * colCount, (r + 1) * colCount));
+    return { columns: Array.from({ length: colCount }, (_, i) => `col${i}`), rows };
+};
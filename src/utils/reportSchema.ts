@@ -0,0 +1,403 @@
+import type {
+    AnomalyPoint, FullReport, LayerResult, MatchedRule, ModelLayerKey, PathDeviation,
+    PathSegmentResult, ReportSummary, RuleDetails, RuleEvent, RuleLayerResult, SignalGap, TrackPoint
+} from '../types';
+
+/**
+ * Model layers in pipeline order, with the display names used on the map and in the report.
+ */
+export const MODEL_LAYERS: { key: ModelLayerKey; name: string }[] = [
+    { key: 'layer_2_xgboost', name: 'XGBoost' },
+    { key: 'layer_3_deep_dense', name: 'Deep Dense' },
+    { key: 'layer_4_deep_cnn', name: 'Deep CNN' },
+    { key: 'layer_5_transformer', name: 'Transformer' },
+    { key: 'layer_6_hybrid', name: 'Hybrid' },
+];
+
+const SEGMENT_SKIPS = ['skipped_phase', 'skipped_short', 'skipped_resample'];
+
+/**
+ * Result of normalizing a raw full_report payload
+ */
+export interface NormalizedReport {
+    report: FullReport;
+    warnings: string[];
+}
+
+// ============================================================
+// Primitive coercion helpers
+// ============================================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    return undefined;
+};
+
+const toBoolean = (value: unknown): boolean | undefined => {
+    if (typeof value === 'boolean') return value;
+    if (value === 1 || value === 'true') return true;
+    if (value === 0 || value === 'false') return false;
+    return undefined;
+};
+
+const toString = (value: unknown): string | undefined => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    return undefined;
+};
+
+const toStringArray = (value: unknown): string[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value.map(toString).filter((v): v is string => v !== undefined);
+};
+
+/**
+ * Normalize a list, dropping entries the item normalizer rejects.
+ * A single warning is recorded per list so large reports do not flood the UI.
+ */
+function normalizeList<T>(
+    value: unknown,
+    path: string,
+    warnings: string[],
+    normalizeItem: (item: unknown) => T | null
+): T[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) {
+        warnings.push(`${path} is not a list`);
+        return undefined;
+    }
+    const items = value.map(normalizeItem).filter((item): item is T => item !== null);
+    const dropped = value.length - items.length;
+    if (dropped > 0) {
+        warnings.push(`${path}: dropped ${dropped} malformed entr${dropped === 1 ? 'y' : 'ies'}`);
+    }
+    return items;
+}
+
+// ============================================================
+// Rule (Layer 1) normalization
+// ============================================================
+
+const normalizeRuleEvent = (raw: unknown): RuleEvent | null => {
+    if (!isObject(raw)) return null;
+    const event: RuleEvent = { ...raw };
+    event.timestamp = toNumber(raw.timestamp);
+    event.start_ts = toNumber(raw.start_ts);
+    event.end_ts = toNumber(raw.end_ts);
+    event.lat = toNumber(raw.lat);
+    event.lon = toNumber(raw.lon);
+    event.other_flight = toString(raw.other_flight);
+    event.other_callsign = toString(raw.other_callsign);
+    event.distance_nm = toNumber(raw.distance_nm);
+    event.altitude_diff_ft = toNumber(raw.altitude_diff_ft);
+    // An event needs at least one time reference to be placed on the track
+    if (event.timestamp === undefined && (event.start_ts === undefined || event.end_ts === undefined)) {
+        return null;
+    }
+    return event;
+};
+
+const normalizeGap = (raw: unknown): SignalGap | null => {
+    if (!isObject(raw)) return null;
+    const start = toNumber(raw.start_ts);
+    const end = toNumber(raw.end_ts);
+    if (start === undefined || end === undefined) return null;
+    return {
+        ...raw,
+        start_ts: start,
+        end_ts: end,
+        duration_s: toNumber(raw.duration_s),
+        lat: toNumber(raw.lat),
+        lon: toNumber(raw.lon),
+    };
+};
+
+const normalizeDeviation = (raw: unknown): PathDeviation | null => {
+    if (!isObject(raw)) return null;
+    const timestamp = toNumber(raw.timestamp);
+    const lat = toNumber(raw.lat);
+    const lon = toNumber(raw.lon);
+    if (timestamp === undefined || lat === undefined || lon === undefined) return null;
+    return { timestamp, lat, lon, alt: toNumber(raw.alt), dist_nm: toNumber(raw.dist_nm) };
+};
+
+const normalizeSegments = (value: unknown, path: string, warnings: string[]): Record<string, PathSegmentResult> | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+        warnings.push(`${path} is not an object`);
+        return undefined;
+    }
+    const segments: Record<string, PathSegmentResult> = {};
+    for (const [phase, raw] of Object.entries(value)) {
+        if (typeof raw === 'string' && SEGMENT_SKIPS.includes(raw)) {
+            segments[phase] = raw as PathSegmentResult;
+        } else if (isObject(raw)) {
+            segments[phase] = {
+                match_found: toBoolean(raw.match_found) ?? false,
+                flow_id: toString(raw.flow_id),
+                layer: toString(raw.layer),
+                dist_nm: toNumber(raw.dist_nm),
+                closest_loose_dist_nm: toNumber(raw.closest_loose_dist_nm),
+            };
+        } else {
+            warnings.push(`${path}.${phase} has an unknown format`);
+        }
+    }
+    return segments;
+};
+
+const normalizeRuleDetails = (value: unknown, path: string, warnings: string[]): RuleDetails | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+        warnings.push(`${path} is not an object`);
+        return undefined;
+    }
+    const details: RuleDetails = { ...value };
+    details.events = normalizeList(value.events, `${path}.events`, warnings, normalizeRuleEvent);
+    details.gaps = normalizeList(value.gaps, `${path}.gaps`, warnings, normalizeGap);
+    details.takeoff_ts = toNumber(value.takeoff_ts);
+    details.landing_ts = toNumber(value.landing_ts);
+    details.off_course_timestamps = normalizeList(
+        value.off_course_timestamps, `${path}.off_course_timestamps`, warnings,
+        (ts) => toNumber(ts) ?? null
+    );
+    details.deviations = normalizeList(value.deviations, `${path}.deviations`, warnings, normalizeDeviation);
+    details.segments = normalizeSegments(value.segments, `${path}.segments`, warnings);
+    return details;
+};
+
+const normalizeMatchedRules = (value: unknown, path: string, warnings: string[]): MatchedRule[] | undefined =>
+    normalizeList(value, path, warnings, (raw) => {
+        if (!isObject(raw)) return null;
+        const id = toNumber(raw.id);
+        if (id === undefined) return null;
+        return {
+            id,
+            name: toString(raw.name) ?? toString(raw.rule_name),
+            summary: toString(raw.summary),
+            category: toString(raw.category),
+            description: toString(raw.description),
+            details: normalizeRuleDetails(raw.details, `${path}[${id}].details`, warnings),
+        };
+    });
+
+const normalizeRuleLayer = (value: unknown, warnings: string[]): RuleLayerResult | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+        warnings.push('layer_1_rules is not an object');
+        return undefined;
+    }
+    const layer: RuleLayerResult = {
+        status: toString(value.status),
+        triggers: toStringArray(value.triggers),
+        error: toString(value.error),
+    };
+    if (isObject(value.report)) {
+        layer.report = {
+            ...value.report,
+            matched_rules: normalizeMatchedRules(value.report.matched_rules, 'layer_1_rules.report.matched_rules', warnings) ?? [],
+        };
+    } else if (value.report !== undefined && value.report !== null) {
+        warnings.push('layer_1_rules.report is not an object');
+    }
+    return layer;
+};
+
+// ============================================================
+// Model (Layers 2-6) normalization
+// ============================================================
+
+const normalizeAnomalyPoint = (raw: unknown): AnomalyPoint | null => {
+    if (!isObject(raw)) return null;
+    const lat = toNumber(raw.lat);
+    const lon = toNumber(raw.lon);
+    const timestamp = toNumber(raw.timestamp);
+    if (lat === undefined || lon === undefined || timestamp === undefined) return null;
+    return { lat, lon, timestamp, point_score: toNumber(raw.point_score) ?? 0 };
+};
+
+const normalizeModelLayer = (value: unknown, key: ModelLayerKey, warnings: string[]): LayerResult | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+        warnings.push(`${key} is not an object`);
+        return undefined;
+    }
+    return {
+        is_anomaly: toBoolean(value.is_anomaly),
+        status: toString(value.status),
+        score: toNumber(value.score),
+        threshold: toNumber(value.threshold),
+        severity: toNumber(value.severity),
+        error: toString(value.error),
+        anomaly_points: normalizeList(value.anomaly_points, `${key}.anomaly_points`, warnings, normalizeAnomalyPoint),
+        triggers: toStringArray(value.triggers),
+    };
+};
+
+const normalizeSummary = (value: unknown, warnings: string[]): ReportSummary | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) {
+        warnings.push('summary is not an object');
+        return undefined;
+    }
+    const summary: ReportSummary = { ...value };
+    summary.is_anomaly = toBoolean(value.is_anomaly);
+    summary.confidence_score = toNumber(value.confidence_score);
+    summary.triggers = toStringArray(value.triggers);
+    summary.flight_number = toString(value.flight_number);
+    if (value.confidence_score !== undefined && summary.confidence_score === undefined) {
+        warnings.push('summary.confidence_score is not a number');
+    }
+    return summary;
+};
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Validate and normalize a raw full_report payload (object or JSON string).
+ * Never throws: malformed sections are dropped and described in `warnings`
+ * so the UI can flag the report instead of rendering blanks.
+ */
+export function normalizeFullReport(raw: unknown): NormalizedReport {
+    const warnings: string[] = [];
+    let value = raw;
+
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            return { report: {}, warnings: ['full_report is not valid JSON'] };
+        }
+    }
+
+    if (value === undefined || value === null) {
+        return { report: {}, warnings: ['full_report is missing'] };
+    }
+    if (!isObject(value)) {
+        return { report: {}, warnings: ['full_report is not an object'] };
+    }
+
+    const report: FullReport = { ...value };
+    report.summary = normalizeSummary(value.summary, warnings);
+    report.layer_1_rules = normalizeRuleLayer(value.layer_1_rules, warnings);
+    for (const { key } of MODEL_LAYERS) {
+        report[key] = normalizeModelLayer(value[key], key, warnings);
+    }
+
+    // Older report versions kept matched rules at the top level - lift them into layer 1
+    const legacyRules = normalizeMatchedRules(value.matched_rules, 'matched_rules', warnings);
+    report.matched_rules = legacyRules;
+    if (legacyRules && legacyRules.length > 0 && !report.layer_1_rules?.report) {
+        report.layer_1_rules = {
+            ...report.layer_1_rules,
+            status: report.layer_1_rules?.status ?? 'ANOMALY',
+            report: { matched_rules: legacyRules },
+        };
+    }
+
+    if (!report.summary && !report.layer_1_rules && MODEL_LAYERS.every(({ key }) => !report[key])) {
+        warnings.push('full_report has no summary or pipeline layers');
+    }
+
+    return { report, warnings };
+}
+
+/**
+ * Matched rules for a report, regardless of report version.
+ */
+export function getMatchedRules(report: FullReport | null | undefined): MatchedRule[] {
+    return report?.layer_1_rules?.report?.matched_rules || report?.matched_rules || [];
+}
+
+/**
+ * Find a matched rule by id (e.g. 4 for proximity).
+ */
+export function findMatchedRule(report: FullReport | null | undefined, ruleId: number): MatchedRule | undefined {
+    return getMatchedRules(report).find(rule => rule.id === ruleId);
+}
+
+/**
+ * Timestamps of track points flagged by the rule engine. Event ranges
+ * (holding patterns, return to field) are expanded to every point inside them.
+ */
+export function getAnomalyTimestamps(report: FullReport, points: TrackPoint[]): number[] {
+    const timestamps = new Set<number>();
+
+    getMatchedRules(report).forEach(rule => {
+        const details = rule.details;
+
+        // 1. Events Array
+        details?.events?.forEach(event => {
+            if (event.timestamp) timestamps.add(event.timestamp);
+
+            // Ranges (e.g. holding pattern)
+            const { start_ts, end_ts } = event;
+            if (start_ts && end_ts) {
+                points.forEach(p => {
+                    if (p.timestamp >= start_ts && p.timestamp <= end_ts) {
+                        timestamps.add(p.timestamp);
+                    }
+                });
+            }
+        });
+
+        // 2. Gaps (Signal Loss)
+        details?.gaps?.forEach(gap => {
+            if (gap.start_ts) timestamps.add(gap.start_ts);
+            if (gap.end_ts) timestamps.add(gap.end_ts);
+        });
+
+        // 3. Special Rule Details (e.g. Return to Field)
+        const takeoffTs = details?.takeoff_ts;
+        const landingTs = details?.landing_ts;
+        if (rule.id === 7 && takeoffTs && landingTs) {
+            points.forEach(p => {
+                if (p.timestamp >= takeoffTs && p.timestamp <= landingTs) {
+                    timestamps.add(p.timestamp);
+                }
+            });
+        }
+
+        // 4. Path Learning (Rule 11) - Off Course Points
+        if (rule.id === 11) {
+            details?.off_course_timestamps?.forEach(ts => timestamps.add(ts));
+        }
+    });
+
+    return Array.from(timestamps);
+}
+
+/**
+ * Representative position of an anomaly: the first located rule event, gap or
+ * off-course sample, otherwise the highest scoring ML anomaly point. Null when
+ * the report carries no coordinates (the track has to be fetched to place it).
+ */
+export function getAnomalyLocation(report: FullReport | null | undefined): { lat: number; lon: number } | null {
+    const isLocated = <T extends { lat?: number; lon?: number }>(p: T): p is T & { lat: number; lon: number } =>
+        Number.isFinite(p.lat) && Number.isFinite(p.lon);
+
+    for (const rule of getMatchedRules(report)) {
+        const details = rule.details;
+        const located = details?.events?.find(isLocated)
+            ?? details?.gaps?.find(isLocated)
+            ?? details?.deviations?.find(isLocated);
+        if (located) return { lat: located.lat, lon: located.lon };
+    }
+
+    let best: AnomalyPoint | null = null;
+    for (const { key } of MODEL_LAYERS) {
+        for (const point of report?.[key]?.anomaly_points ?? []) {
+            if (isLocated(point) && (!best || point.point_score > best.point_score)) best = point;
+        }
+    }
+    return best ? { lat: best.lat, lon: best.lon } : null;
+}
@@ -0,0 +1,113 @@
+import { ANOMALY_GROUP_BYS, ANOMALY_SORTS, type AnomalyGroupBy, type AnomalySort } from './anomalyGrouping';
+
+// ============================================================
+// Sidebar list filters - URL encoding and saved presets
+// ============================================================
+//
+// Every filter is mirrored into the URL so a link reproduces the list a
+// colleague is looking at. Parameters left at their default are omitted.
+
+export interface SidebarFilters {
+    /** Free text matched against flight id, callsign and triggers */
+    search: string;
+    minScore: number;
+    trigger: string;
+    /** Layers that must all fire when `trigger` is Combination */
+    layerCombo: string[];
+    version: string;
+    /** Feedback mode: include flights tagged as normal */
+    showNormal: boolean;
+    /** Rules mode: rule whose flights are listed */
+    ruleId: number | null;
+    sort: AnomalySort;
+    groupBy: AnomalyGroupBy;
+}
+
+/** Filters saved under a name; the rule is tied to rules mode and not saved */
+export interface FilterPreset {
+    name: string;
+    filters: Omit<SidebarFilters, 'ruleId'>;
+}
+
+export const DEFAULT_SIDEBAR_FILTERS: SidebarFilters = {
+    search: '',
+    minScore: 0,
+    trigger: 'All',
+    layerCombo: [],
+    version: 'All',
+    showNormal: false,
+    ruleId: null,
+    sort: 'time',
+    groupBy: 'none',
+};
+
+export const SELECTED_FLIGHT_URL_PARAM = 'flight';
+
+const FILTER_PRESETS_STORAGE_KEY = 'sidebar-filter-presets';
+
+const PARAMS = {
+    search: 'q',
+    minScore: 'minScore',
+    trigger: 'trigger',
+    layerCombo: 'layers',
+    version: 'version',
+    showNormal: 'normal',
+    ruleId: 'rule',
+    sort: 'sort',
+    groupBy: 'group',
+} as const;
+
+export const readFilterParams = (params: URLSearchParams): SidebarFilters => {
+    const minScore = Number(params.get(PARAMS.minScore));
+    const ruleId = Number(params.get(PARAMS.ruleId));
+    const sort = params.get(PARAMS.sort) as AnomalySort;
+    const groupBy = params.get(PARAMS.groupBy) as AnomalyGroupBy;
+    return {
+        search: params.get(PARAMS.search) ?? '',
+        minScore: Number.isFinite(minScore) ? Math.min(100, Math.max(0, minScore)) : 0,
+        trigger: params.get(PARAMS.trigger) || DEFAULT_SIDEBAR_FILTERS.trigger,
+        layerCombo: params.get(PARAMS.layerCombo)?.split(',').filter(Boolean) ?? [],
+        version: params.get(PARAMS.version) || DEFAULT_SIDEBAR_FILTERS.version,
+        showNormal: params.get(PARAMS.showNormal) === '1',
+        ruleId: params.has(PARAMS.ruleId) && Number.isInteger(ruleId) ? ruleId : null,
+        sort: ANOMALY_SORTS.includes(sort) ? sort : DEFAULT_SIDEBAR_FILTERS.sort,
+        groupBy: ANOMALY_GROUP_BYS.includes(groupBy) ? groupBy : DEFAULT_SIDEBAR_FILTERS.groupBy,
+    };
+};
+
+export const writeFilterParams = (params: URLSearchParams, filters: SidebarFilters) => {
+    const set = (key: string, value: string | null) => {
+        if (value) params.set(key, value);
+        else params.delete(key);
+    };
+    set(PARAMS.search, filters.search);
+    set(PARAMS.minScore, filters.minScore > 0 ? String(filters.minScore) : null);
+    set(PARAMS.trigger, filters.trigger !== DEFAULT_SIDEBAR_FILTERS.trigger ? filters.trigger : null);
+    set(PARAMS.layerCombo, filters.trigger === 'Combination' ? filters.layerCombo.join(',') : null);
+    set(PARAMS.version, filters.version !== DEFAULT_SIDEBAR_FILTERS.version ? filters.version : null);
+    set(PARAMS.showNormal, filters.showNormal ? '1' : null);
+    set(PARAMS.ruleId, filters.ruleId !== null ? String(filters.ruleId) : null);
+    set(PARAMS.sort, filters.sort !== DEFAULT_SIDEBAR_FILTERS.sort ? filters.sort : null);
+    set(PARAMS.groupBy, filters.groupBy !== DEFAULT_SIDEBAR_FILTERS.groupBy ? filters.groupBy : null);
+};
+
+/** The filters a preset stores, taken from the current ones */
+export const toPresetFilters = ({ ruleId: _ruleId, ...filters }: SidebarFilters): FilterPreset['filters'] => filters;
+
+export const loadFilterPresets = (): FilterPreset[] => {
+    try {
+        const saved = localStorage.getItem(FILTER_PRESETS_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed)
+            ? parsed
+                .filter(p => p && typeof p.name === 'string' && p.filters)
+                .map(p => ({ name: p.name, filters: toPresetFilters({ ...DEFAULT_SIDEBAR_FILTERS, ...p.filters }) }))
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+    localStorage.setItem(FILTER_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
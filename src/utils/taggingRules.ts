@@ -0,0 +1,45 @@
+// ============================================================
+// Rules an analyst can attach when tagging a flight as an anomaly
+// ============================================================
+//
+// Ids are the feedback rule ids stored with each tag (FeedbackParams.ruleIds).
+
+export interface TaggingRule {
+    id: number;
+    name: string;
+    nameHe: string;
+    description: string;
+    category: 'emergency' | 'flight_ops' | 'technical' | 'military' | 'other';
+    color: string;
+}
+
+export const TAGGING_RULES: TaggingRule[] = [
+    // Emergency & Safety (Red)
+    { id: 1, name: 'Emergency Squawks', nameHe: 'קודי חירום', description: 'Aircraft transmitting emergency squawk codes (7500, 7600, 7700)', category: 'emergency', color: 'red' },
+    { id: 2, name: 'Crash', nameHe: 'התרסקות', description: 'Aircraft crash or suspected crash event', category: 'emergency', color: 'red' },
+    { id: 3, name: 'Proximity Alert', nameHe: 'התראת קרבה', description: 'Dangerous proximity between aircraft', category: 'emergency', color: 'red' },
+    
+    // Flight Operations (Blue)
+    { id: 4, name: 'Holding Pattern', nameHe: 'דפוס המתנה', description: 'Aircraft in holding pattern', category: 'flight_ops', color: 'blue' },
+    { id: 5, name: 'Go Around', nameHe: 'גו-אראונד', description: 'Aborted landing and go-around maneuver', category: 'flight_ops', color: 'blue' },
+    { id: 6, name: 'Return to Land', nameHe: 'חזרה לנחיתה', description: 'Aircraft returning to departure airport', category: 'flight_ops', color: 'blue' },
+    { id: 7, name: 'Unplanned Landing', nameHe: 'נחיתה לא מתוכננת', description: 'Landing at unplanned airport', category: 'flight_ops', color: 'blue' },
+    
+    // Technical (Purple)
+    { id: 8, name: 'Signal Loss', nameHe: 'אובדן אות', description: 'Loss of ADS-B signal', category: 'technical', color: 'purple' },
+    { id: 9, name: 'Off Course', nameHe: 'סטייה ממסלול', description: 'Significant deviation from expected flight path', category: 'technical', color: 'purple' },
+    { id: 18, name: 'GPS Jamming', nameHe: 'שיבוש GPS', description: 'GPS jamming indicators detected (altitude oscillation, spoofed values, MLAT-only)', category: 'technical', color: 'purple' },
+    
+    // Military (Green)
+    { id: 10, name: 'Military Flight', nameHe: 'טיסה צבאית', description: 'Identified military aircraft', category: 'military', color: 'green' },
+    { id: 11, name: 'Operational Military Flight', nameHe: 'טיסה צבאית מבצעית', description: 'Military aircraft on operational mission', category: 'military', color: 'green' },
+    { id: 12, name: 'Suspicious Behavior', nameHe: 'התנהגות חשודה', description: 'Unusual or suspicious flight behavior', category: 'military', color: 'green' },
+    { id: 13, name: 'Flight Academy', nameHe: 'בית ספר לטיסה', description: 'Training flight from flight school', category: 'military', color: 'green' },
+    { id: 14, name: 'Circular Surveillance', nameHe: 'טיסה מעגלית חשודה', description: 'Non-commercial off-route circular flight pattern', category: 'military', color: 'green' },
+    { id: 15, name: 'Distance Trend Diversion', nameHe: 'הסטה מיעד', description: 'Consistent distancing from planned destination', category: 'flight_ops', color: 'blue' },
+    { id: 16, name: 'Performance Mismatch', nameHe: 'אי-התאמת ביצועים', description: 'Turn rate exceeds physical limits for declared aircraft type', category: 'military', color: 'green' },
+    { id: 17, name: 'Identity Spoofing', nameHe: 'התחזות זהות', description: 'Speed/climb rate exceeds physical envelope of declared aircraft', category: 'military', color: 'green' },
+    { id: 19, name: 'Endurance Breach', nameHe: 'חריגת סיבולת זמן', description: 'Flight duration exceeds 120% of aircraft type max endurance', category: 'military', color: 'green' },
+    { id: 20, name: 'Signal Dropout', nameHe: 'ניתוק אות טקטי', description: 'Suspicious in-flight signal discontinuity with stable conditions', category: 'technical', color: 'purple' },
+    { id: 21, name: 'Military Airport Usage', nameHe: 'שימוש בשדה צבאי', description: 'Commercial aircraft at military-only airport', category: 'military', color: 'green' },
+];
@@ -0,0 +1,215 @@
+import type { TrackPoint } from '../types';
+import type { MLAnomalyPoint } from '../components/MapComponent';
+import { nearestPointIndex, verticalRate } from './trackMetrics';
+
+// ============================================================
+// Track colouring modes for the flight map
+// ============================================================
+
+export type TrackColorMode = 'anomaly' | 'altitude' | 'speed' | 'vrate' | 'elapsed' | 'gaps' | 'mlScore';
+
+export const TRACK_COLOR_MODES: { id: TrackColorMode; label: string }[] = [
+    { id: 'anomaly', label: 'Anomalies' },
+    { id: 'altitude', label: 'Altitude' },
+    { id: 'speed', label: 'Ground Speed' },
+    { id: 'vrate', label: 'Vertical Rate' },
+    { id: 'elapsed', label: 'Time Elapsed' },
+    { id: 'gaps', label: 'Data Gaps' },
+    { id: 'mlScore', label: 'ML Score' },
+];
+
+const TRACK_COLOR_MODE_STORAGE_KEY = 'map-track-color-mode';
+
+export const loadTrackColorMode = (): TrackColorMode => {
+    const saved = localStorage.getItem(TRACK_COLOR_MODE_STORAGE_KEY);
+    return TRACK_COLOR_MODES.some(m => m.id === saved) ? saved as TrackColorMode : 'anomaly';
+};
+
+export const saveTrackColorMode = (mode: TrackColorMode) => {
+    localStorage.setItem(TRACK_COLOR_MODE_STORAGE_KEY, mode);
+};
+
+const ANOMALY_SEGMENT_COLOR = '#ef4444';
+const NORMAL_SEGMENT_COLOR = '#3b82f6';
+// Segments with no value in the current mode (e.g. missing ground speed)
+const NO_DATA_COLOR = '#6b7280';
+
+// Sample intervals at or above this are drawn as signal loss
+export const GAP_THRESHOLD_S = 60;
+
+const RAMPS: Record<Exclude<TrackColorMode, 'anomaly'>, string[]> = {
+    altitude: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+    speed: ['#0d0887', '#7e03a8', '#cc4778', '#f89540', '#f0f921'],
+    vrate: ['#2563eb', '#93c5fd', '#f3f4f6', '#fca5a5', '#dc2626'],
+    elapsed: ['#1e3a8a', '#0891b2', '#10b981', '#facc15', '#f97316'],
+    gaps: ['#22c55e', '#eab308', '#ef4444'],
+    mlScore: ['#1e40af', '#7c3aed', '#f59e0b', '#ef4444'],
+};
+
+export interface TrackColorLegend {
+    mode: TrackColorMode;
+    min: number;
+    max: number;
+    unit: string;
+    /** CSS gradient matching the line colours */
+    gradient: string;
+}
+
+export interface TrackColoring {
+    /** One colour per segment of the primary track */
+    primary: string[];
+    /** One colour per segment of the secondary track, undefined keeps its default style */
+    secondary?: string[];
+    legend: TrackColorLegend | null;
+}
+
+interface TrackColoringContext {
+    anomalyTimestamps: number[];
+    mlAnomalyPoints: MLAnomalyPoint[];
+}
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    const n = parseInt(hex.slice(1), 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const interpolateRamp = (ramp: string[], t: number): string => {
+    const clamped = Math.min(1, Math.max(0, t));
+    const pos = clamped * (ramp.length - 1);
+    const i = Math.min(ramp.length - 2, Math.floor(pos));
+    const f = pos - i;
+    const a = hexToRgb(ramp[i]);
+    const b = hexToRgb(ramp[i + 1]);
+    const rgb = a.map((c, k) => Math.round(c + (b[k] - c) * f));
+    return `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const mean = (a: number | null, b: number | null): number | null =>
+    a === null || b === null ? (a ?? b) : (a + b) / 2;
+
+/**
+ * Per-segment values for a continuous mode. `origin` is the timestamp
+ * elapsed time is measured from, so both tracks share a clock.
+ */
+const segmentValues = (
+    points: TrackPoint[],
+    mode: Exclude<TrackColorMode, 'anomaly'>,
+    origin: number,
+    mlScores?: Map<number, number>
+): (number | null)[] => {
+    const values: (number | null)[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+        const p1 = points[i];
+        const p2 = points[i + 1];
+        switch (mode) {
+            case 'altitude':
+                values.push((p1.alt + p2.alt) / 2);
+                break;
+            case 'speed':
+                values.push(mean(p1.gspeed ?? null, p2.gspeed ?? null));
+                break;
+            case 'vrate':
+                values.push(mean(verticalRate(points, i), verticalRate(points, i + 1)));
+                break;
+            case 'elapsed':
+                values.push((p1.timestamp - origin) / 60);
+                break;
+            case 'gaps':
+                values.push(p2.timestamp - p1.timestamp);
+                break;
+            case 'mlScore':
+                values.push(mlScores ? Math.max(mlScores.get(i) ?? 0, mlScores.get(i + 1) ?? 0) : null);
+                break;
+        }
+    }
+    return values;
+};
+
+// Highest ML point score per primary track index
+const mlScoresByIndex = (points: TrackPoint[], mlPoints: MLAnomalyPoint[]): Map<number, number> => {
+    const scores = new Map<number, number>();
+    mlPoints.forEach(pt => {
+        const index = nearestPointIndex(points, pt.timestamp);
+        if (index < 0) return;
+        scores.set(index, Math.max(scores.get(index) ?? 0, pt.point_score));
+    });
+    return scores;
+};
+
+const domainFor = (mode: Exclude<TrackColorMode, 'anomaly'>, values: (number | null)[]): [number, number] => {
+    const present = values.filter((v): v is number => v !== null);
+    if (mode === 'gaps') return [0, GAP_THRESHOLD_S];
+    if (present.length === 0) return [0, 1];
+
+    let min = Infinity;
+    let max = -Infinity;
+    present.forEach(v => {
+        if (v < min) min = v;
+        if (v > max) max = v;
+    });
+
+    if (mode === 'vrate') {
+        // Symmetric around level flight; clamp so a single spike does not wash out the ramp
+        const bound = Math.min(Math.max(Math.abs(min), Math.abs(max), 500), 4000);
+        return [-bound, bound];
+    }
+    if (mode === 'mlScore') return [0, max > 0 ? max : 1];
+    return min === max ? [min, min + 1] : [min, max];
+};
+
+const UNITS: Record<Exclude<TrackColorMode, 'anomaly'>, string> = {
+    altitude: 'ft',
+    speed: 'kts',
+    vrate: 'ft/min',
+    elapsed: 'min',
+    gaps: 's',
+    mlScore: 'score',
+};
+
+/**
+ * Colour both tracks for the selected mode. Continuous modes share one
+ * domain across the primary and secondary track so the legend covers both.
+ */
+export const buildTrackColoring = (
+    mode: TrackColorMode,
+    points: TrackPoint[],
+    secondaryPoints: TrackPoint[],
+    { anomalyTimestamps, mlAnomalyPoints }: TrackColoringContext
+): TrackColoring => {
+    if (mode === 'anomaly') {
+        const anomalySet = new Set(anomalyTimestamps);
+        const primary: string[] = [];
+        for (let i = 0; i < points.length - 1; i++) {
+            // A segment is anomalous if either end is
+            const isAnomaly = anomalySet.has(points[i].timestamp) || anomalySet.has(points[i + 1].timestamp);
+            primary.push(isAnomaly ? ANOMALY_SEGMENT_COLOR : NORMAL_SEGMENT_COLOR);
+        }
+        return { primary, legend: null };
+    }
+
+    const origin = Math.min(
+        points[0]?.timestamp ?? Infinity,
+        secondaryPoints[0]?.timestamp ?? Infinity
+    );
+    // ML scores only exist for the flight the report was generated for
+    const mlScores = mode === 'mlScore' ? mlScoresByIndex(points, mlAnomalyPoints) : undefined;
+    const primaryValues = segmentValues(points, mode, origin, mlScores);
+    const secondaryValues = segmentValues(secondaryPoints, mode, origin);
+
+    const [min, max] = domainFor(mode, [...primaryValues, ...secondaryValues]);
+    const ramp = RAMPS[mode];
+    const toColor = (v: number | null) =>
+        v === null ? NO_DATA_COLOR : interpolateRamp(ramp, (v - min) / (max - min));
+
+    return {
+        primary: primaryValues.map(toColor),
+        secondary: secondaryPoints.length > 1 ? secondaryValues.map(toColor) : undefined,
+        legend: {
+            mode,
+            min,
+            max,
+            unit: UNITS[mode],
+            gradient: `linear-gradient(to right, ${ramp.join(', ')})`,
+        },
+    };
+};
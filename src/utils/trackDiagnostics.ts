@@ -0,0 +1,165 @@
+import type { TrackPoint } from '../types';
+import { GAP_THRESHOLD_S } from './trackColoring';
+import { bearingDeg, distanceNm } from './trackMetrics';
+
+// ============================================================
+// Track data-quality diagnostics
+// ============================================================
+//
+// Flags sensor and feed glitches in a track so analysts can tell them apart
+// from real anomalies before tagging feedback. Thresholds are deliberately
+// loose: a flagged point is implausible for any aircraft, not merely unusual.
+
+export type TrackIssueKind =
+    | 'gap'
+    | 'teleport'
+    | 'alt_spike'
+    | 'alt_freeze'
+    | 'duplicate_ts'
+    | 'out_of_order'
+    | 'heading_mismatch';
+
+export const TRACK_ISSUE_KINDS: { id: TrackIssueKind; label: string; color: string }[] = [
+    { id: 'gap', label: 'Time gap', color: '#6b7280' },
+    { id: 'teleport', label: 'Position jump', color: '#ef4444' },
+    { id: 'alt_spike', label: 'Altitude spike', color: '#f97316' },
+    { id: 'alt_freeze', label: 'Altitude freeze', color: '#eab308' },
+    { id: 'duplicate_ts', label: 'Duplicate timestamp', color: '#a855f7' },
+    { id: 'out_of_order', label: 'Out-of-order point', color: '#ec4899' },
+    { id: 'heading_mismatch', label: 'Heading mismatch', color: '#06b6d4' },
+];
+
+/** Implied ground speed above this is a position jump */
+const MAX_SPEED_KTS = 1000;
+/** Jumps shorter than this are position noise, not teleports */
+const MIN_JUMP_NM = 1;
+/** A single point this far above or below both neighbours is a spike */
+const ALT_SPIKE_FT = 1000;
+/** ...when reaching it would need a vertical rate above this */
+const MAX_VRATE_FPM = 10000;
+/** Airborne altitude that stays identical for this long */
+const ALT_FREEZE_S = 300;
+/** Reported track further than this from the flown bearing */
+const HEADING_MISMATCH_DEG = 60;
+/** Bearings between closer points are dominated by position noise */
+const MIN_BEARING_NM = 0.5;
+
+export interface TrackIssue {
+    kind: TrackIssueKind;
+    /** First affected point */
+    index: number;
+    /** Last affected point, for issues spanning several points */
+    endIndex: number;
+    timestamp: number;
+    lat: number;
+    lon: number;
+    /** Short English description with the measured value */
+    detail: string;
+}
+
+export interface TrackDiagnostics {
+    issues: TrackIssue[];
+    counts: Record<TrackIssueKind, number>;
+    /** Share of points not touched by any issue, 0-1 */
+    cleanRatio: number;
+}
+
+const angleDiff = (a: number, b: number) => {
+    const d = Math.abs(a - b) % 360;
+    return d > 180 ? 360 - d : d;
+};
+
+/**
+ * Scan a track, in the order given, for data-quality problems.
+ */
+export const diagnoseTrack = (points: TrackPoint[]): TrackDiagnostics => {
+    const issues: TrackIssue[] = [];
+    const add = (kind: TrackIssueKind, index: number, endIndex: number, detail: string) => {
+        const p = points[index];
+        issues.push({ kind, index, endIndex, timestamp: p.timestamp, lat: p.lat, lon: p.lon, detail });
+    };
+
+    let mismatchStart = -1;
+    const closeMismatch = (end: number) => {
+        if (mismatchStart < 0) return;
+        const count = end - mismatchStart + 1;
+        add('heading_mismatch', mismatchStart, end, count > 1 ? `${count} points` : '1 point');
+        mismatchStart = -1;
+    };
+
+    for (let i = 1; i < points.length; i++) {
+        const prev = points[i - 1];
+        const p = points[i];
+        const dt = p.timestamp - prev.timestamp;
+
+        if (dt < 0) {
+            add('out_of_order', i, i, `${Math.round(-dt)}s before previous point`);
+            continue;
+        }
+        if (dt === 0) {
+            add('duplicate_ts', i, i, prev.lat === p.lat && prev.lon === p.lon ? 'same position' : 'different position');
+            continue;
+        }
+        if (dt >= GAP_THRESHOLD_S) {
+            add('gap', i - 1, i, `${Math.round(dt)}s without data`);
+        }
+
+        const dist = distanceNm(prev.lat, prev.lon, p.lat, p.lon);
+        const speed = dist / (dt / 3600);
+        const teleport = dist >= MIN_JUMP_NM && speed > MAX_SPEED_KTS;
+        if (teleport) {
+            add('teleport', i, i, `${dist.toFixed(1)} NM in ${Math.round(dt)}s (${Math.round(speed)} kts)`);
+        }
+
+        // Reported track against the bearing actually flown (meaningless across a jump)
+        const mismatch = !teleport && typeof p.track === 'number' && dist >= MIN_BEARING_NM
+            && angleDiff(p.track, bearingDeg(prev.lat, prev.lon, p.lat, p.lon)) > HEADING_MISMATCH_DEG;
+        if (mismatch && mismatchStart < 0) mismatchStart = i;
+        if (!mismatch) closeMismatch(i - 1);
+    }
+    closeMismatch(points.length - 1);
+
+    // Altitude spikes: a single point far from both neighbours
+    for (let i = 1; i < points.length - 1; i++) {
+        const prev = points[i - 1];
+        const p = points[i];
+        const next = points[i + 1];
+        const up = p.alt - prev.alt;
+        const down = p.alt - next.alt;
+        if (Math.sign(up) !== Math.sign(down) || Math.min(Math.abs(up), Math.abs(down)) < ALT_SPIKE_FT) continue;
+        const dt = Math.min(p.timestamp - prev.timestamp, next.timestamp - p.timestamp);
+        const rate = dt > 0 ? Math.min(Math.abs(up), Math.abs(down)) / (dt / 60) : Infinity;
+        if (rate > MAX_VRATE_FPM) {
+            add('alt_spike', i, i, `${up > 0 ? '+' : '−'}${Math.round(Math.min(Math.abs(up), Math.abs(down)))} ft`);
+        }
+    }
+
+    // Altitude freezes: identical airborne altitude off the 100 ft levels aircraft are assigned
+    let runStart = 0;
+    for (let i = 1; i <= points.length; i++) {
+        if (i < points.length && points[i].alt === points[runStart].alt) continue;
+        const alt = points[runStart].alt;
+        const duration = points[i - 1].timestamp - points[runStart].timestamp;
+        if (alt > 0 && alt % 100 !== 0 && duration >= ALT_FREEZE_S) {
+            add('alt_freeze', runStart, i - 1, `${Math.round(alt)} ft for ${Math.round(duration / 60)} min`);
+        }
+        runStart = i;
+    }
+
+    issues.sort((a, b) => a.index - b.index);
+
+    const counts = Object.fromEntries(TRACK_ISSUE_KINDS.map(k => [k.id, 0])) as Record<TrackIssueKind, number>;
+    const affected = new Set<number>();
+    issues.forEach(issue => {
+        counts[issue.kind]++;
+        // Gaps are missing data rather than bad points
+        if (issue.kind === 'gap') return;
+        for (let i = issue.index; i <= issue.endIndex; i++) affected.add(i);
+    });
+
+    return {
+        issues,
+        counts,
+        cleanRatio: points.length > 0 ? 1 - affected.size / points.length : 1,
+    };
+};
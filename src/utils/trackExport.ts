@@ -0,0 +1,410 @@
+import type { AnomalyReport, FlightTrack, TrackPoint } from '../types';
+import { csvCell } from './csv';
+import { MODEL_LAYERS, getAnomalyTimestamps, getMatchedRules } from './reportSchema';
+import { nearestPointIndex } from './trackMetrics';
+
+// ============================================================
+// Track export (GeoJSON / KML / GPX / CSV)
+// ============================================================
+//
+// Every format carries the same per-point annotations: which matched rules
+// flag the point and the score of any ML anomaly point that snaps to it.
+// Altitudes stay in feet except in KML and GPX, which require metres.
+
+export type TrackExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export const TRACK_EXPORT_FORMATS: { id: TrackExportFormat; label: string }[] = [
+    { id: 'geojson', label: 'GeoJSON' },
+    { id: 'kml', label: 'KML (Google Earth)' },
+    { id: 'gpx', label: 'GPX' },
+    { id: 'csv', label: 'CSV' },
+];
+
+export interface TrackExportInput {
+    anomaly: AnomalyReport;
+    track: FlightTrack;
+    /** The other aircraft of a proximity event */
+    secondary?: FlightTrack | null;
+}
+
+const FT_TO_M = 0.3048;
+
+const MIME_TYPES: Record<TrackExportFormat, string> = {
+    geojson: 'application/geo+json',
+    kml: 'application/vnd.google-earth.kml+xml',
+    gpx: 'application/gpx+xml',
+    csv: 'text/csv;charset=utf-8',
+};
+
+type TrackRole = 'primary' | 'secondary';
+
+interface AnnotatedPoint extends TrackPoint {
+    role: TrackRole;
+    /** Ids of matched rules that flag this point */
+    rule_ids: number[];
+    /** ML layer name -> anomaly point score */
+    ml_scores: Record<string, number>;
+}
+
+interface AnomalyMarker {
+    kind: 'rule' | 'ml';
+    label: string;
+    lat: number;
+    lon: number;
+    timestamp: number;
+    properties: Record<string, string | number>;
+}
+
+const isoTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+/**
+ * Report-level metadata written into every format.
+ */
+const buildMetadata = (anomaly: AnomalyReport, secondary?: FlightTrack | null) => {
+    const report = anomaly.full_report;
+    const mlLayers: Record<string, { score?: number; threshold?: number; is_anomaly?: boolean }> = {};
+    MODEL_LAYERS.forEach(({ key, name }) => {
+        const layer = report?.[key];
+        if (layer) mlLayers[name] = { score: layer.score, threshold: layer.threshold, is_anomaly: layer.is_anomaly };
+    });
+
+    return {
+        flight_id: anomaly.flight_id,
+        callsign: anomaly.callsign,
+        flight_number: anomaly.flight_number || report?.summary?.flight_number,
+        report_time: isoTime(anomaly.timestamp),
+        is_anomaly: anomaly.is_anomaly,
+        confidence_score: report?.summary?.confidence_score,
+        severity_cnn: anomaly.severity_cnn,
+        severity_dense: anomaly.severity_dense,
+        matched_rules: getMatchedRules(report).map(r => ({ id: r.id, name: r.name })),
+        ml_layers: mlLayers,
+        secondary_flight_id: secondary?.flight_id,
+        exported_at: new Date().toISOString(),
+    };
+};
+
+type ExportMetadata = ReturnType<typeof buildMetadata>;
+
+const annotatePoints = (anomaly: AnomalyReport, track: FlightTrack, role: TrackRole): AnnotatedPoint[] => {
+    const annotated: AnnotatedPoint[] = track.points.map(p => ({ ...p, role, rule_ids: [], ml_scores: {} }));
+    // Rule results and ML points describe the primary flight only
+    if (role === 'secondary') return annotated;
+
+    getMatchedRules(anomaly.full_report).forEach(rule => {
+        const flagged = new Set(getAnomalyTimestamps({ matched_rules: [rule] }, track.points));
+        annotated.forEach(p => {
+            if (flagged.has(p.timestamp)) p.rule_ids.push(rule.id);
+        });
+    });
+
+    MODEL_LAYERS.forEach(({ key, name }) => {
+        anomaly.full_report?.[key]?.anomaly_points?.forEach(pt => {
+            const index = nearestPointIndex(track.points, pt.timestamp);
+            if (index < 0) return;
+            const scores = annotated[index].ml_scores;
+            scores[name] = Math.max(scores[name] ?? 0, pt.point_score);
+        });
+    });
+
+    return annotated;
+};
+
+const buildMarkers = (anomaly: AnomalyReport): AnomalyMarker[] => {
+    const markers: AnomalyMarker[] = [];
+
+    getMatchedRules(anomaly.full_report).forEach(rule => {
+        rule.details?.events?.forEach(event => {
+            const timestamp = event.timestamp ?? event.start_ts;
+            if (event.lat === undefined || event.lon === undefined || timestamp === undefined) return;
+            const properties: Record<string, string | number> = { rule_id: rule.id };
+            if (rule.name) properties.rule_name = rule.name;
+            if (event.other_flight) properties.other_flight = event.other_flight;
+            if (event.other_callsign) properties.other_callsign = event.other_callsign;
+            if (event.distance_nm !== undefined) properties.distance_nm = event.distance_nm;
+            if (event.altitude_diff_ft !== undefined) properties.altitude_diff_ft = event.altitude_diff_ft;
+            markers.push({
+                kind: 'rule',
+                label: rule.name || `Rule ${rule.id}`,
+                lat: event.lat,
+                lon: event.lon,
+                timestamp,
+                properties,
+            });
+        });
+    });
+
+    MODEL_LAYERS.forEach(({ key, name }) => {
+        anomaly.full_report?.[key]?.anomaly_points?.forEach(pt => {
+            markers.push({
+                kind: 'ml',
+                label: `${name} anomaly`,
+                lat: pt.lat,
+                lon: pt.lon,
+                timestamp: pt.timestamp,
+                properties: { layer: name, point_score: pt.point_score },
+            });
+        });
+    });
+
+    return markers;
+};
+
+interface PreparedExport {
+    metadata: ExportMetadata;
+    tracks: { role: TrackRole; track: FlightTrack; points: AnnotatedPoint[]; callsign?: string }[];
+    markers: AnomalyMarker[];
+}
+
+const prepare = ({ anomaly, track, secondary }: TrackExportInput): PreparedExport => {
+    const tracks: PreparedExport['tracks'] = [{
+        role: 'primary',
+        track,
+        points: annotatePoints(anomaly, track, 'primary'),
+        callsign: anomaly.callsign,
+    }];
+    if (secondary && secondary.points.length > 0) {
+        tracks.push({
+            role: 'secondary',
+            track: secondary,
+            points: annotatePoints(anomaly, secondary, 'secondary'),
+            callsign: secondary.points.find(p => p.callsign)?.callsign,
+        });
+    }
+    return { metadata: buildMetadata(anomaly, secondary), tracks, markers: buildMarkers(anomaly) };
+};
+
+const trackName = (t: PreparedExport['tracks'][number]) =>
+    `${t.callsign || t.track.flight_id}${t.role === 'secondary' ? ' (proximity)' : ''}`;
+
+// ============================================================
+// GeoJSON
+// ============================================================
+
+export const buildTrackGeoJSON = (input: TrackExportInput): string => {
+    const { metadata, tracks, markers } = prepare(input);
+    const features: GeoJSON.Feature[] = [];
+
+    tracks.forEach(t => {
+        features.push({
+            type: 'Feature',
+            properties: {
+                feature_type: 'track',
+                role: t.role,
+                flight_id: t.track.flight_id,
+                callsign: t.callsign,
+                start_time: t.points[0] ? isoTime(t.points[0].timestamp) : undefined,
+                end_time: t.points.length ? isoTime(t.points[t.points.length - 1].timestamp) : undefined,
+                point_count: t.points.length,
+            },
+            geometry: { type: 'LineString', coordinates: t.points.map(p => [p.lon, p.lat, p.alt]) },
+        });
+        t.points.forEach(({ lat, lon, alt, rule_ids, ml_scores, ...rest }) => {
+            features.push({
+                type: 'Feature',
+                properties: {
+                    feature_type: 'point',
+                    ...rest,
+                    flight_id: rest.flight_id ?? t.track.flight_id,
+                    alt,
+                    time: isoTime(rest.timestamp),
+                    is_anomaly: rule_ids.length > 0 || Object.keys(ml_scores).length > 0,
+                    rule_ids,
+                    ml_scores,
+                },
+                geometry: { type: 'Point', coordinates: [lon, lat, alt] },
+            });
+        });
+    });
+
+    markers.forEach(m => {
+        features.push({
+            type: 'Feature',
+            properties: {
+                feature_type: m.kind === 'rule' ? 'rule_event' : 'ml_anomaly',
+                label: m.label,
+                timestamp: m.timestamp,
+                time: isoTime(m.timestamp),
+                ...m.properties,
+            },
+            geometry: { type: 'Point', coordinates: [m.lon, m.lat] },
+        });
+    });
+
+    // `metadata` is a GeoJSON foreign member; readers that don't know it ignore it
+    return JSON.stringify({ type: 'FeatureCollection', metadata, features }, null, 2);
+};
+
+// ============================================================
+// KML
+// ============================================================
+
+const escapeXml = (value: unknown) =>
+    String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+const kmlExtendedData = (data: Record<string, unknown>) =>
+    `<ExtendedData>${Object.entries(data)
+        .filter(([, v]) => v !== undefined && v !== null)
+        .map(([k, v]) => `<Data name="${escapeXml(k)}"><value>${escapeXml(typeof v === 'object' ? JSON.stringify(v) : v)}</value></Data>`)
+        .join('')}</ExtendedData>`;
+
+// KML colours are aabbggrr
+const KML_STYLES = `
+    <Style id="primary"><LineStyle><color>fff68238</color><width>3</width></LineStyle></Style>
+    <Style id="secondary"><LineStyle><color>ff3c92fb</color><width>3</width></LineStyle></Style>
+    <Style id="rule"><IconStyle><color>ff4444ef</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/caution.png</href></Icon></IconStyle></Style>
+    <Style id="ml"><IconStyle><color>ffed3a7c</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>`;
+
+export const buildTrackKML = (input: TrackExportInput): string => {
+    const { metadata, tracks, markers } = prepare(input);
+
+    const trackPlacemarks = tracks.map(t => `
+    <Placemark>
+      <name>${escapeXml(trackName(t))}</name>
+      <styleUrl>#${t.role}</styleUrl>
+      ${kmlExtendedData({ role: t.role, flight_id: t.track.flight_id, callsign: t.callsign })}
+      <gx:Track>
+        <altitudeMode>absolute</altitudeMode>
+        ${t.points.map(p => `<when>${isoTime(p.timestamp)}</when>`).join('\n        ')}
+        ${t.points.map(p => `<gx:coord>${p.lon} ${p.lat} ${(p.alt * FT_TO_M).toFixed(1)}</gx:coord>`).join('\n        ')}
+        <ExtendedData>
+          <SchemaData schemaUrl="#trackPoint">
+            <gx:SimpleArrayData name="alt_ft">${t.points.map(p => `<gx:value>${p.alt}</gx:value>`).join('')}</gx:SimpleArrayData>
+            <gx:SimpleArrayData name="gspeed">${t.points.map(p => `<gx:value>${p.gspeed ?? ''}</gx:value>`).join('')}</gx:SimpleArrayData>
+            <gx:SimpleArrayData name="track">${t.points.map(p => `<gx:value>${p.track ?? ''}</gx:value>`).join('')}</gx:SimpleArrayData>
+            <gx:SimpleArrayData name="rule_ids">${t.points.map(p => `<gx:value>${p.rule_ids.join(' ')}</gx:value>`).join('')}</gx:SimpleArrayData>
+          </SchemaData>
+        </ExtendedData>
+      </gx:Track>
+    </Placemark>`).join('');
+
+    const markerPlacemarks = markers.map(m => `
+      <Placemark>
+        <name>${escapeXml(m.label)}</name>
+        <styleUrl>#${m.kind}</styleUrl>
+        <TimeStamp><when>${isoTime(m.timestamp)}</when></TimeStamp>
+        ${kmlExtendedData(m.properties)}
+        <Point><coordinates>${m.lon},${m.lat}</coordinates></Point>
+      </Placemark>`).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+  <Document>
+    <name>${escapeXml(trackName(tracks[0]))}</name>
+    ${kmlExtendedData(metadata)}
+    <Schema id="trackPoint">
+      <gx:SimpleArrayField name="alt_ft" type="float"><displayName>Altitude (ft)</displayName></gx:SimpleArrayField>
+      <gx:SimpleArrayField name="gspeed" type="float"><displayName>Ground speed (kts)</displayName></gx:SimpleArrayField>
+      <gx:SimpleArrayField name="track" type="float"><displayName>Track (deg)</displayName></gx:SimpleArrayField>
+      <gx:SimpleArrayField name="rule_ids" type="string"><displayName>Rules</displayName></gx:SimpleArrayField>
+    </Schema>${KML_STYLES}${trackPlacemarks}
+    <Folder>
+      <name>Anomalies</name>${markerPlacemarks}
+    </Folder>
+  </Document>
+</kml>
+`;
+};
+
+// ============================================================
+// GPX
+// ============================================================
+
+export const buildTrackGPX = (input: TrackExportInput): string => {
+    const { metadata, tracks, markers } = prepare(input);
+
+    const waypoints = markers.map(m => `
+  <wpt lat="${m.lat}" lon="${m.lon}">
+    <time>${isoTime(m.timestamp)}</time>
+    <name>${escapeXml(m.label)}</name>
+    <desc>${escapeXml(Object.entries(m.properties).map(([k, v]) => `${k}=${v}`).join('; '))}</desc>
+    <type>${m.kind === 'rule' ? 'rule_event' : 'ml_anomaly'}</type>
+  </wpt>`).join('');
+
+    const trackElements = tracks.map(t => `
+  <trk>
+    <name>${escapeXml(trackName(t))}</name>
+    <type>${t.role}</type>
+    <trkseg>${t.points.map(p => `
+      <trkpt lat="${p.lat}" lon="${p.lon}"><ele>${(p.alt * FT_TO_M).toFixed(1)}</ele><time>${isoTime(p.timestamp)}</time>${
+          p.rule_ids.length ? `<desc>rules ${p.rule_ids.join(',')}</desc>` : ''
+      }</trkpt>`).join('')}
+    </trkseg>
+  </trk>`).join('');
+
+    const rules = metadata.matched_rules.map(r => r.name || `Rule ${r.id}`).join(', ');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Onyx Anomaly Explorer" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(trackName(tracks[0]))}</name>
+    <desc>${escapeXml(JSON.stringify(metadata))}</desc>
+    <time>${metadata.exported_at}</time>
+    ${rules ? `<keywords>${escapeXml(rules)}</keywords>` : ''}
+  </metadata>${waypoints}${trackElements}
+</gpx>
+`;
+};
+
+// ============================================================
+// CSV
+// ============================================================
+
+export const buildTrackCSV = (input: TrackExportInput): string => {
+    const { metadata, tracks } = prepare(input);
+    const layerNames = MODEL_LAYERS.map(l => l.name);
+    const ruleNames = new Map(metadata.matched_rules.map(r => [r.id, r.name || `Rule ${r.id}`]));
+
+    const headers = [
+        'role', 'flight_id', 'callsign', 'timestamp', 'time_utc', 'lat', 'lon', 'alt_ft', 'gspeed_kts', 'track_deg',
+        'is_anomaly', 'rules', ...layerNames.map(n => `ml_${n.toLowerCase().replace(/\s+/g, '_')}_score`),
+    ];
+
+    const rows = tracks.flatMap(t => t.points.map(p => [
+        p.role,
+        p.flight_id ?? t.track.flight_id,
+        p.callsign ?? t.callsign,
+        p.timestamp,
+        isoTime(p.timestamp),
+        p.lat,
+        p.lon,
+        p.alt,
+        p.gspeed,
+        p.track,
+        p.rule_ids.length > 0 || Object.keys(p.ml_scores).length > 0 ? 1 : 0,
+        p.rule_ids.map(id => ruleNames.get(id)).join('; '),
+        ...layerNames.map(n => p.ml_scores[n]),
+    ].map(csvCell).join(',')));
+
+    return [headers.join(','), ...rows].join('\n');
+};
+
+// ============================================================
+// Download
+// ============================================================
+
+const BUILDERS: Record<TrackExportFormat, (input: TrackExportInput) => string> = {
+    geojson: buildTrackGeoJSON,
+    kml: buildTrackKML,
+    gpx: buildTrackGPX,
+    csv: buildTrackCSV,
+};
+
+/**
+ * Build the export and hand it to the browser as a file download.
+ */
+export const downloadTrackExport = (format: TrackExportFormat, input: TrackExportInput) => {
+    const blob = new Blob([BUILDERS[format](input)], { type: MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const name = (input.anomaly.callsign || 'flight').replace(/[^\w-]+/g, '_');
+    link.href = url;
+    link.download = `${name}_${input.track.flight_id}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,533 @@
+import type { FlightTrack, TrackPoint } from '../types';
+import { parseCsvRows } from './csv';
+import { npyToRows, parseNpy } from './npy';
+
+// ============================================================
+// Local track files -> TrackPoint[]
+// ============================================================
+//
+// Every input format is first flattened into a table of named columns. The
+// user (or guessColumnMapping) then maps columns to TrackPoint fields and
+// picks units, and buildTrackPoints converts rows into a sorted track.
+//
+// Supported inputs: CSV/TSV, GeoJSON (Point features or LineStrings with
+// coordTimes), KML (gx:Track or time-stamped Points), GPX, ADS-B JSON
+// (readsb/dump1090 aircraft.json snapshots, tar1090 traces, OpenSky state
+// vectors, arrays of point objects) and NumPy .npy arrays.
+
+export type TrackFileFormat = 'csv' | 'geojson' | 'kml' | 'gpx' | 'adsb' | 'json' | 'npy';
+
+export type CellValue = string | number | null;
+
+export interface TrackTable {
+    columns: string[];
+    rows: CellValue[][];
+}
+
+export type AltitudeUnit = 'ft' | 'm';
+export type SpeedUnit = 'kts' | 'kmh' | 'ms';
+export type TimeUnit = 'epoch_s' | 'epoch_ms' | 'iso';
+
+export interface TrackUnits {
+    altitude: AltitudeUnit;
+    speed: SpeedUnit;
+    time: TimeUnit;
+}
+
+export interface ParsedTrackFile {
+    fileName: string;
+    format: TrackFileFormat;
+    table: TrackTable;
+    /** Units implied by the format (e.g. KML/GPX elevations are metres) */
+    unitHints: Partial<TrackUnits>;
+}
+
+/** Column index for each TrackPoint field; -1 when not mapped */
+export interface TrackColumnMapping {
+    lat: number;
+    lon: number;
+    timestamp: number;
+    alt: number;
+    gspeed: number;
+    track: number;
+    callsign: number;
+    /** Aircraft identifier, used to pick one aircraft out of multi-aircraft dumps */
+    id: number;
+}
+
+export const MAPPING_FIELDS: { key: keyof TrackColumnMapping; label: string; required?: boolean }[] = [
+    { key: 'lat', label: 'Latitude', required: true },
+    { key: 'lon', label: 'Longitude', required: true },
+    { key: 'timestamp', label: 'Time', required: true },
+    { key: 'alt', label: 'Altitude' },
+    { key: 'gspeed', label: 'Ground speed' },
+    { key: 'track', label: 'Track / heading' },
+    { key: 'callsign', label: 'Callsign' },
+    { key: 'id', label: 'Aircraft ID' },
+];
+
+export const ACCEPTED_TRACK_FILES = '.csv,.tsv,.txt,.json,.jsonl,.geojson,.kml,.gpx,.npy';
+
+const FT_PER_M = 1 / 0.3048;
+const KTS_PER_KMH = 1 / 1.852;
+const KTS_PER_MS = 3600 / 1852;
+
+// ------------------------------------------------------------
+// Table helpers
+// ------------------------------------------------------------
+
+const tableFromObjects = (objects: Record<string, unknown>[]): TrackTable => {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    objects.forEach(obj => Object.keys(obj).forEach(k => {
+        if (!seen.has(k)) {
+            seen.add(k);
+            columns.push(k);
+        }
+    }));
+    const rows = objects.map(obj => columns.map(c => toCell(obj[c])));
+    return { columns, rows };
+};
+
+const toCell = (value: unknown): CellValue => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number' || typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return JSON.stringify(value);
+};
+
+// ------------------------------------------------------------
+// CSV
+// ------------------------------------------------------------
+
+const detectDelimiter = (firstLine: string): string => {
+    const counts = [',', ';', '\t', '|'].map(d => [d, firstLine.split(d).length] as const);
+    return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+};
+
+const parseCsvCell = (raw: string): CellValue => {
+    const value = raw.trim();
+    if (value === '') return null;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : value;
+};
+
+const parseCsv = (text: string): TrackTable => {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/).find(l => l.trim() && !l.startsWith('#'));
+    if (firstLine === undefined) throw new Error('The file is empty');
+    // Comment lines are dropped after parsing so quoted cells may span lines
+    const rows = parseCsvRows(content, detectDelimiter(firstLine)).filter(r => !r[0].startsWith('#'));
+
+    // A header row has at least one non-numeric cell
+    const hasHeader = rows[0].some(c => c.trim() !== '' && !Number.isFinite(Number(c)));
+    const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    const columns = hasHeader
+        ? rows[0].map((c, i) => c.trim() || `col${i}`)
+        : Array.from({ length: width }, (_, i) => `col${i}`);
+    return {
+        columns,
+        rows: (hasHeader ? rows.slice(1) : rows).map(r => columns.map((_, i) => parseCsvCell(r[i] ?? ''))),
+    };
+};
+
+// ------------------------------------------------------------
+// GeoJSON
+// ------------------------------------------------------------
+
+const geojsonTable = (data: GeoJSON.FeatureCollection | GeoJSON.Feature): TrackTable => {
+    const features = data.type === 'FeatureCollection' ? data.features : [data];
+    const objects: Record<string, unknown>[] = [];
+
+    features.forEach(feature => {
+        const geometry = feature.geometry;
+        const props = feature.properties ?? {};
+        // Anomaly markers in our own exports are not track points
+        if (!geometry || (props.feature_type && props.feature_type !== 'point')) return;
+
+        if (geometry.type === 'Point') {
+            const [lon, lat, alt] = geometry.coordinates;
+            objects.push({ ...props, lon, lat, ...(alt !== undefined && props.alt === undefined ? { alt } : {}) });
+            return;
+        }
+
+        // LineStrings carry per-vertex times in coordTimes (togeojson) or times
+        const lines = geometry.type === 'LineString' ? [geometry.coordinates]
+            : geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+        const rawTimes = props.coordTimes ?? props.times;
+        const times: unknown[] = Array.isArray(rawTimes) ? rawTimes.flat() : [];
+        let vertex = 0;
+        lines.forEach(line => line.forEach(([lon, lat, alt]) => {
+            objects.push({ lon, lat, alt, time: times[vertex++] ?? null });
+        }));
+    });
+
+    if (objects.length === 0) throw new Error('No points or time-stamped lines found in the GeoJSON');
+    return tableFromObjects(objects);
+};
+
+// ------------------------------------------------------------
+// KML / GPX
+// ------------------------------------------------------------
+
+const parseXml = (text: string, kind: string): Document => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`Invalid ${kind} document`);
+    return doc;
+};
+
+const elementsByLocalName = (root: Document | Element, name: string): Element[] =>
+    Array.from(root.getElementsByTagName('*')).filter(el => el.localName === name);
+
+const kmlTable = (text: string): TrackTable => {
+    const doc = parseXml(text, 'KML');
+    const objects: Record<string, unknown>[] = [];
+
+    // gx:Track: parallel <when> and <gx:coord> lists
+    elementsByLocalName(doc, 'Track').forEach(track => {
+        const whens = Array.from(track.children).filter(c => c.localName === 'when');
+        const coords = Array.from(track.children).filter(c => c.localName === 'coord');
+        coords.forEach((coord, i) => {
+            const [lon, lat, alt] = (coord.textContent || '').trim().split(/\s+/).map(Number);
+            objects.push({ time: whens[i]?.textContent?.trim() ?? null, lon, lat, alt: alt ?? null });
+        });
+    });
+
+    // Otherwise, Points with a TimeStamp
+    if (objects.length === 0) {
+        elementsByLocalName(doc, 'Placemark').forEach(placemark => {
+            const when = elementsByLocalName(placemark, 'when')[0]?.textContent?.trim();
+            const point = elementsByLocalName(placemark, 'Point')[0];
+            const coords = point && elementsByLocalName(point, 'coordinates')[0]?.textContent?.trim();
+            if (!when || !coords) return;
+            const [lon, lat, alt] = coords.split(',').map(Number);
+            objects.push({ time: when, lon, lat, alt: alt ?? null });
+        });
+    }
+
+    if (objects.length === 0) throw new Error('No time-stamped positions found in the KML (expected gx:Track or Points with TimeStamp)');
+    return tableFromObjects(objects);
+};
+
+const gpxTable = (text: string): TrackTable => {
+    const doc = parseXml(text, 'GPX');
+    const objects = ['trkpt', 'rtept']
+        .flatMap(name => elementsByLocalName(doc, name))
+        .map(pt => ({
+            time: elementsByLocalName(pt, 'time')[0]?.textContent?.trim() ?? null,
+            lat: Number(pt.getAttribute('lat')),
+            lon: Number(pt.getAttribute('lon')),
+            ele: elementsByLocalName(pt, 'ele')[0]?.textContent?.trim() ?? null,
+        }));
+    if (objects.length === 0) throw new Error('No track points found in the GPX');
+    return tableFromObjects(objects);
+};
+
+// ------------------------------------------------------------
+// JSON (ADS-B dumps and point arrays)
+// ------------------------------------------------------------
+
+// OpenSky /states/all column order
+const OPENSKY_COLUMNS = [
+    'icao24', 'callsign', 'origin_country', 'time_position', 'last_contact', 'longitude', 'latitude',
+    'baro_altitude', 'on_ground', 'velocity', 'true_track', 'vertical_rate', 'sensors', 'geo_altitude',
+    'squawk', 'spi', 'position_source',
+];
+
+// tar1090 trace entry: [seconds after timestamp, lat, lon, alt ft | "ground", gs kts, track, ...]
+const tar1090Rows = (trace: { icao?: string; timestamp: number; trace: unknown[][] }) =>
+    trace.trace.map(entry => ({
+        hex: trace.icao ?? null,
+        time: trace.timestamp + Number(entry[0]),
+        lat: entry[1],
+        lon: entry[2],
+        alt: entry[3] === 'ground' ? 0 : entry[3],
+        gs: entry[4],
+        track: entry[5],
+    }));
+
+// readsb / dump1090 aircraft.json snapshot: { now, aircraft: [{ hex, flight, lat, lon, alt_baro, gs, track, seen_pos }] }
+const snapshotRows = (snapshot: { now: number; aircraft: Record<string, unknown>[] }) =>
+    snapshot.aircraft
+        .filter(a => typeof a.lat === 'number' && typeof a.lon === 'number')
+        .map(a => ({
+            ...a,
+            alt_baro: a.alt_baro === 'ground' ? 0 : a.alt_baro,
+            flight: typeof a.flight === 'string' ? a.flight.trim() : a.flight,
+            time: snapshot.now - (typeof a.seen_pos === 'number' ? a.seen_pos : 0),
+        }));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const jsonTable = (values: unknown[]): { table: TrackTable; format: TrackFileFormat; unitHints: Partial<TrackUnits> } => {
+    const objects: Record<string, unknown>[] = [];
+    let format: TrackFileFormat = 'json';
+    let unitHints: Partial<TrackUnits> = {};
+
+    values.forEach(value => {
+        if (isRecord(value) && Array.isArray(value.aircraft) && typeof value.now === 'number') {
+            format = 'adsb';
+            objects.push(...snapshotRows(value as { now: number; aircraft: Record<string, unknown>[] }));
+        } else if (isRecord(value) && Array.isArray(value.trace) && typeof value.timestamp === 'number') {
+            format = 'adsb';
+            objects.push(...tar1090Rows(value as { icao?: string; timestamp: number; trace: unknown[][] }));
+        } else if (isRecord(value) && Array.isArray(value.states)) {
+            format = 'adsb';
+            // OpenSky reports metres and m/s
+            unitHints = { altitude: 'm', speed: 'ms', time: 'epoch_s' };
+            (value.states as unknown[][]).forEach(state => {
+                objects.push(Object.fromEntries(OPENSKY_COLUMNS.map((c, i) => [c, typeof state[i] === 'string' ? (state[i] as string).trim() : state[i]])));
+            });
+        } else if (isRecord(value) && Array.isArray(value.points)) {
+            // FlightTrack shape, as served by the API
+            objects.push(...(value.points as Record<string, unknown>[]).map(p => ({ flight_id: value.flight_id, ...p })));
+        } else if (Array.isArray(value) && value.every(isRecord)) {
+            objects.push(...value);
+        } else if (Array.isArray(value) && value.every(Array.isArray)) {
+            (value as unknown[][]).forEach(row => objects.push(Object.fromEntries(row.map((v, i) => [`col${i}`, v]))));
+        } else if (isRecord(value)) {
+            objects.push(value);
+        }
+    });
+
+    if (objects.length === 0) throw new Error('No track points found in the JSON');
+    return { table: tableFromObjects(objects), format, unitHints };
+};
+
+const parseJsonText = (text: string): unknown[] => {
+    try {
+        return [JSON.parse(text)];
+    } catch {
+        // JSON Lines: one object (e.g. one aircraft.json snapshot) per line
+        return text.split(/\r?\n/).filter(l => l.trim()).map((line, i) => {
+            try {
+                return JSON.parse(line);
+            } catch {
+                throw new Error(`Invalid JSON on line ${i + 1}`);
+            }
+        });
+    }
+};
+
+// ------------------------------------------------------------
+// File entry point
+// ------------------------------------------------------------
+
+/**
+ * Read a local file into a column table. Format is picked by extension,
+ * falling back to content sniffing.
+ */
+export const readTrackFile = async (file: File): Promise<ParsedTrackFile> => {
+    const ext = file.name.toLowerCase().split('.').pop() ?? '';
+    const base = { fileName: file.name, unitHints: {} as Partial<TrackUnits> };
+
+    if (ext === 'npy') {
+        const { columns, rows } = npyToRows(parseNpy(await file.arrayBuffer()));
+        return { ...base, format: 'npy', table: { columns, rows } };
+    }
+
+    const text = await file.text();
+    const trimmed = text.trimStart();
+
+    if (ext === 'kml' || (trimmed.startsWith('<') && /<kml[\s>]/.test(trimmed.slice(0, 500)))) {
+        return { ...base, format: 'kml', table: kmlTable(text), unitHints: { altitude: 'm', time: 'iso' } };
+    }
+    if (ext === 'gpx' || (trimmed.startsWith('<') && /<gpx[\s>]/.test(trimmed.slice(0, 500)))) {
+        return { ...base, format: 'gpx', table: gpxTable(text), unitHints: { altitude: 'm', time: 'iso' } };
+    }
+    if (ext === 'json' || ext === 'jsonl' || ext === 'geojson' || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const values = parseJsonText(text);
+        const first = values[0];
+        if (isRecord(first) && (first.type === 'FeatureCollection' || first.type === 'Feature')) {
+            return { ...base, format: 'geojson', table: geojsonTable(first as unknown as GeoJSON.FeatureCollection) };
+        }
+        return { ...base, ...jsonTable(values) };
+    }
+    return { ...base, format: 'csv', table: parseCsv(text) };
+};
+
+// ------------------------------------------------------------
+// Column mapping and units
+// ------------------------------------------------------------
+
+// Candidate column names per field, best match first
+const COLUMN_PATTERNS: Record<keyof TrackColumnMapping, RegExp[]> = {
+    lat: [/^lat(itude)?(_deg)?$/i, /^y$/i, /lat/i],
+    lon: [/^(lon|lng|long)(gitude)?(_deg)?$/i, /^longitude$/i, /^x$/i, /lon/i],
+    timestamp: [/^(timestamp|ts|epoch)$/i, /^(time|time_utc|datetime|date_time|utc|when)$/i, /^(time_position|seen_time|t)$/i, /time/i],
+    alt: [/^alt(itude)?(_ft|_m)?$/i, /^alt_baro$/i, /^baro_altitude$/i, /^(alt_geom|geo_altitude|ele|elevation|height|z)$/i, /alt/i],
+    gspeed: [/^(gspeed|gs)(_kts)?$/i, /^(ground_?speed|speed|spd)(_kts|_kmh|_ms)?$/i, /^velocity$/i, /speed/i],
+    track: [/^(track|heading|hdg|course|true_track)(_deg)?$/i],
+    callsign: [/^(callsign|call_sign|flight|ident)$/i],
+    id: [/^(flight_id|hex|icao|icao24|aircraft_id|id)$/i],
+};
+
+export const guessColumnMapping = (columns: string[]): TrackColumnMapping => {
+    const used = new Set<number>();
+    const find = (key: keyof TrackColumnMapping): number => {
+        for (const pattern of COLUMN_PATTERNS[key]) {
+            const index = columns.findIndex((c, i) => !used.has(i) && pattern.test(c.trim()));
+            if (index >= 0) {
+                used.add(index);
+                return index;
+            }
+        }
+        return -1;
+    };
+    // Order matters: specific fields claim their columns before the loose /time/ and /alt/ patterns run
+    const lat = find('lat');
+    const lon = find('lon');
+    const id = find('id');
+    const callsign = find('callsign');
+    const track = find('track');
+    const gspeed = find('gspeed');
+    const alt = find('alt');
+    const timestamp = find('timestamp');
+    return { lat, lon, timestamp, alt, gspeed, track, callsign, id };
+};
+
+const numericColumn = (table: TrackTable, index: number): number[] =>
+    index < 0 ? [] : table.rows.map(r => toNumber(r[index])).filter((v): v is number => v !== null);
+
+const toNumber = (value: CellValue): number | null => {
+    if (value === null || value === '') return null;
+    const n = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(n) ? n : null;
+};
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Math.max(...values) overflows the call stack on columns of ~130k values
+const maxOf = (values: number[]): number => values.reduce((max, v) => Math.max(max, v), -Infinity);
+
+/**
+ * Guess units from column names, falling back to value ranges.
+ * Format hints (e.g. KML elevations in metres) win over both.
+ */
+export const detectUnits = (
+    table: TrackTable,
+    mapping: TrackColumnMapping,
+    hints: Partial<TrackUnits> = {}
+): TrackUnits => {
+    const name = (index: number) => (index >= 0 ? table.columns[index].toLowerCase() : '');
+
+    // Time: ISO strings, or epoch seconds vs milliseconds by magnitude
+    let time: TimeUnit = 'epoch_s';
+    const firstTime = table.rows.map(r => r[mapping.timestamp]).find(v => v !== null && v !== undefined);
+    if (typeof firstTime === 'string' && toNumber(firstTime) === null) time = 'iso';
+    else if ((toNumber(firstTime ?? null) ?? 0) > 1e11) time = 'epoch_ms';
+
+    // Speed: name hints, then magnitude (no aircraft ground speed exceeds ~750 kts)
+    const speedName = name(mapping.gspeed);
+    const speeds = numericColumn(table, mapping.gspeed);
+    let speed: SpeedUnit = 'kts';
+    if (/kmh|km_h|kph/.test(speedName)) speed = 'kmh';
+    else if (/mps|m_s|_ms$|velocity/.test(speedName)) speed = 'ms';
+    else if (!/kt|knot/.test(speedName) && speeds.length > 0 && maxOf(speeds) > 750) speed = 'kmh';
+
+    // Altitude: name hints, then a jet-speed track that never passes ~14,000 is cruising in metres
+    const altName = name(mapping.alt);
+    const alts = numericColumn(table, mapping.alt);
+    let altitude: AltitudeUnit = 'ft';
+    if (/(_m$|meter|metre|^ele|elevation|geo_altitude|baro_altitude)/.test(altName)) altitude = 'm';
+    else if (!/ft|feet/.test(altName) && alts.length > 0) {
+        const cruiseSpeedKts = median(speeds.filter(s => s > 0)) * (speed === 'kmh' ? KTS_PER_KMH : speed === 'ms' ? KTS_PER_MS : 1);
+        if (maxOf(alts) < 14000 && cruiseSpeedKts > 300) altitude = 'm';
+    }
+
+    return { altitude, speed, time, ...hints };
+};
+
+/**
+ * Distinct aircraft IDs in the mapped ID column, most points first.
+ */
+export const listAircraftIds = (table: TrackTable, mapping: TrackColumnMapping): { id: string; count: number }[] => {
+    if (mapping.id < 0) return [];
+    const counts = new Map<string, number>();
+    table.rows.forEach(r => {
+        const id = r[mapping.id];
+        if (id === null || id === '') return;
+        counts.set(String(id), (counts.get(String(id)) ?? 0) + 1);
+    });
+    return Array.from(counts, ([id, count]) => ({ id, count })).sort((a, b) => b.count - a.count);
+};
+
+const parseTime = (value: CellValue, unit: TimeUnit): number | null => {
+    if (value === null) return null;
+    if (unit === 'iso') {
+        const text = String(value).trim();
+        // Space-separated datetimes without a zone are read as UTC
+        const normalised = /^\d{4}-\d{2}-\d{2} \d/.test(text) && !/[zZ]|[+-]\d{2}:?\d{2}$/.test(text)
+            ? `${text.replace(' ', 'T')}Z`
+            : text;
+        const ms = Date.parse(normalised);
+        return Number.isNaN(ms) ? null : ms / 1000;
+    }
+    const n = toNumber(value);
+    if (n === null) return null;
+    return unit === 'epoch_ms' ? n / 1000 : n;
+};
+
+/**
+ * Convert mapped rows into a time-ordered track. Rows without a valid
+ * position or time are skipped; duplicate timestamps keep the first row.
+ */
+export const buildTrackPoints = (
+    table: TrackTable,
+    mapping: TrackColumnMapping,
+    units: TrackUnits,
+    aircraftId?: string
+): TrackPoint[] => {
+    const altFactor = units.altitude === 'm' ? FT_PER_M : 1;
+    const speedFactor = units.speed === 'kmh' ? KTS_PER_KMH : units.speed === 'ms' ? KTS_PER_MS : 1;
+    const cell = (row: CellValue[], index: number) => (index >= 0 ? row[index] ?? null : null);
+
+    const points: TrackPoint[] = [];
+    table.rows.forEach(row => {
+        if (aircraftId !== undefined && String(cell(row, mapping.id)) !== aircraftId) return;
+        const lat = toNumber(cell(row, mapping.lat));
+        const lon = toNumber(cell(row, mapping.lon));
+        const timestamp = parseTime(cell(row, mapping.timestamp), units.time);
+        if (lat === null || lon === null || timestamp === null) return;
+        if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return;
+
+        const alt = toNumber(cell(row, mapping.alt));
+        const gspeed = toNumber(cell(row, mapping.gspeed));
+        const track = toNumber(cell(row, mapping.track));
+        const callsign = cell(row, mapping.callsign);
+        points.push({
+            lat,
+            lon,
+            alt: alt === null ? 0 : Math.round(alt * altFactor),
+            timestamp: Math.round(timestamp),
+            ...(gspeed !== null ? { gspeed: Math.round(gspeed * speedFactor * 10) / 10 } : {}),
+            ...(track !== null ? { track } : {}),
+            ...(callsign !== null && callsign !== '' ? { callsign: String(callsign).trim() } : {}),
+        });
+    });
+
+    points.sort((a, b) => a.timestamp - b.timestamp);
+    return points.filter((p, i) => i === 0 || p.timestamp !== points[i - 1].timestamp);
+};
+
+/**
+ * Identifier for a track that does not exist in any database.
+ */
+export const localFlightId = (fileName: string, aircraftId?: string) =>
+    `local-${(aircraftId || fileName.replace(/\.[^.]+$/, '')).replace(/[^\w-]+/g, '_')}`;
+
+export const buildLocalTrack = (
+    file: ParsedTrackFile,
+    mapping: TrackColumnMapping,
+    units: TrackUnits,
+    aircraftId?: string
+): FlightTrack => {
+    const flightId = localFlightId(file.fileName, aircraftId);
+    const points = buildTrackPoints(file.table, mapping, units, aircraftId).map(p => ({ ...p, flight_id: flightId }));
+    return { flight_id: flightId, points };
+};
@@ -0,0 +1,57 @@
+import type { TrackPoint } from '../types';
+
+/**
+ * Index of the track point closest in time to `timestamp`.
+ * Points must be ordered by timestamp; returns -1 for an empty track.
+ */
+export const nearestPointIndex = (points: TrackPoint[], timestamp: number): number => {
+    if (points.length === 0) return -1;
+    let lo = 0;
+    let hi = points.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (points[mid].timestamp < timestamp) lo = mid + 1;
+        else hi = mid;
+    }
+    if (lo > 0 && Math.abs(points[lo - 1].timestamp - timestamp) < Math.abs(points[lo].timestamp - timestamp)) {
+        return lo - 1;
+    }
+    return lo;
+};
+
+/**
+ * Vertical rate at point `i` in ft/min, as a centred difference over the
+ * neighbouring points. Null when the neighbours share a timestamp.
+ */
+export const verticalRate = (points: TrackPoint[], i: number): number | null => {
+    const prev = points[Math.max(0, i - 1)];
+    const next = points[Math.min(points.length - 1, i + 1)];
+    const dt = next.timestamp - prev.timestamp;
+    if (dt <= 0) return null;
+    return Math.round(((next.alt - prev.alt) / dt) * 60);
+};
+
+const EARTH_RADIUS_NM = 3440.065;
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+/**
+ * Great-circle distance in nautical miles.
+ */
+export const distanceNm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return EARTH_RADIUS_NM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Initial true bearing from the first position to the second, 0-360 degrees.
+ */
+export const bearingDeg = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const dLon = toRad(lon2 - lon1);
+    const y = Math.sin(dLon) * Math.cos(toRad(lat2));
+    const x = Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+        Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLon);
+    return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
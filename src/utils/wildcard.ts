@@ -0,0 +1,15 @@
+// ============================================================
+// Wildcard patterns (callsigns, registrations, ...)
+// ============================================================
+//
+// * matches any run of characters and ? a single one; everything else is
+// literal. Matching is case-insensitive.
+
+/** Compile a pattern once; `prefix` lets it match the start of a value only */
+export const wildcardToRegExp = (pattern: string, prefix = false): RegExp => {
+    const source = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${source}${prefix ? '' : '$'}`, 'i');
+};
@@ -0,0 +1,212 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import type { AnomalyReport } from './types';
+import { csvCell, parseCsvRows } from './utils/csv';
+import { wildcardToRegExp } from './utils/wildcard';
+
+// ============================================================
+// Watchlist - aircraft and operators of interest
+// ============================================================
+//
+// Entries match a callsign, a registration, an ICAO 24-bit address (hex) or
+// an airline prefix, case-insensitively. Patterns may use * (any run of
+// characters) and ? (one character); airline prefixes match the start of the
+// callsign (ICAO code) or flight number (IATA code). Most flight lists only
+// carry a callsign, so registration and hex entries match where the report
+// summary includes them.
+
+export type WatchlistKind = 'callsign' | 'registration' | 'icao' | 'airline';
+
+export const WATCHLIST_KINDS: WatchlistKind[] = ['callsign', 'registration', 'icao', 'airline'];
+
+export interface WatchlistEntry {
+    id: string;
+    kind: WatchlistKind;
+    pattern: string;
+    note: string;
+}
+
+/** Identifiers of a flight that watchlist entries are matched against */
+export interface WatchedIdentity {
+    callsign?: string | null;
+    flightNumber?: string | null;
+    registration?: string | null;
+    icaoHex?: string | null;
+}
+
+export type WatchlistMatcher = (identity: WatchedIdentity) => WatchlistEntry | undefined;
+
+export const WATCHLIST_CHANGE_EVENT = 'watchlist-change';
+
+const WATCHLIST_STORAGE_KEY = 'app-watchlist';
+const CSV_COLUMNS = ['type', 'pattern', 'note'] as const;
+
+let cached: WatchlistEntry[] | null = null;
+
+const isWatchlistKind = (value: unknown): value is WatchlistKind =>
+    WATCHLIST_KINDS.includes(value as WatchlistKind);
+
+const normalizePattern = (pattern: string) => pattern.trim().toUpperCase();
+
+const loadWatchlist = (): WatchlistEntry[] => {
+    try {
+        const saved = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed)
+            ? parsed.filter(e => e && typeof e.id === 'string' && isWatchlistKind(e.kind) && typeof e.pattern === 'string')
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+const saveWatchlist = (entries: WatchlistEntry[]) => {
+    cached = entries;
+    localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(entries));
+    window.dispatchEvent(new CustomEvent(WATCHLIST_CHANGE_EVENT));
+};
+
+export const getWatchlist = (): WatchlistEntry[] => {
+    if (!cached) cached = loadWatchlist();
+    return cached;
+};
+
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const isDuplicate = (entries: WatchlistEntry[], kind: WatchlistKind, pattern: string) =>
+    entries.some(e => e.kind === kind && e.pattern === pattern);
+
+/**
+ * Add an entry. Returns false for an empty pattern or one already on the list.
+ */
+export const addWatchlistEntry = (kind: WatchlistKind, pattern: string, note = ''): boolean => {
+    const normalized = normalizePattern(pattern);
+    const entries = getWatchlist();
+    if (!normalized || isDuplicate(entries, kind, normalized)) return false;
+    saveWatchlist([...entries, { id: newId(), kind, pattern: normalized, note: note.trim() }]);
+    return true;
+};
+
+export const updateWatchlistEntry = (id: string, patch: Partial<Omit<WatchlistEntry, 'id'>>) => {
+    saveWatchlist(getWatchlist().map(e => e.id === id ? {
+        ...e,
+        ...patch,
+        pattern: patch.pattern !== undefined ? normalizePattern(patch.pattern) : e.pattern,
+    } : e));
+};
+
+export const removeWatchlistEntry = (id: string) => saveWatchlist(getWatchlist().filter(e => e.id !== id));
+
+export const clearWatchlist = () => saveWatchlist([]);
+
+// ------------------------------------------------------------
+// Matching
+// ------------------------------------------------------------
+
+/**
+ * Build a matcher for a set of entries. Patterns are compiled once, so the
+ * matcher can run over long flight lists.
+ */
+export const createWatchlistMatcher = (entries: WatchlistEntry[]): WatchlistMatcher => {
+    // Registrations are compared without the dash (4X-EKA = 4XEKA)
+    const compiled = entries.map(entry => ({
+        entry,
+        regex: wildcardToRegExp(entry.kind === 'registration' ? entry.pattern.replace(/-/g, '') : entry.pattern, entry.kind === 'airline'),
+    }));
+    return (identity) => {
+        const values: Record<WatchlistKind, (string | null | undefined)[]> = {
+            callsign: [identity.callsign],
+            registration: [identity.registration?.replace(/-/g, '')],
+            icao: [identity.icaoHex],
+            airline: [identity.callsign, identity.flightNumber],
+        };
+        return compiled.find(({ entry, regex }) =>
+            values[entry.kind].some(value => !!value && regex.test(value.trim()))
+        )?.entry;
+    };
+};
+
+const summaryString = (summary: Record<string, unknown> | undefined, keys: string[]): string | undefined => {
+    for (const key of keys) {
+        const value = summary?.[key];
+        if (typeof value === 'string' && value) return value;
+    }
+    return undefined;
+};
+
+export const getReportIdentity = (report: AnomalyReport): WatchedIdentity => {
+    const summary = report.full_report?.summary;
+    return {
+        callsign: report.callsign ?? summaryString(summary, ['callsign']),
+        flightNumber: report.flight_number ?? summary?.flight_number,
+        registration: summaryString(summary, ['aircraft_registration', 'registration']),
+        icaoHex: summaryString(summary, ['icao24', 'icao_hex', 'hex']),
+    };
+};
+
+// ------------------------------------------------------------
+// CSV import / export
+// ------------------------------------------------------------
+
+export const buildWatchlistCsv = (entries: WatchlistEntry[]): string =>
+    [CSV_COLUMNS.join(','), ...entries.map(e => [e.kind, e.pattern, e.note].map(csvCell).join(','))].join('\n') + '\n';
+
+export const downloadWatchlistCsv = () => {
+    const blob = new Blob([buildWatchlistCsv(getWatchlist())], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `watchlist_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export interface WatchlistImportResult {
+    added: number;
+    duplicates: number;
+    /** Rows with an unknown type or no pattern */
+    invalid: number;
+}
+
+/**
+ * Merge entries from a CSV with `type,pattern,note` columns into the list.
+ * The header row is optional; without it the columns are taken in that order.
+ */
+export const importWatchlistCsv = (text: string): WatchlistImportResult => {
+    const clean = text.replace(/^\uFEFF/, '');
+    const firstLine = clean.split(/\r?\n/, 1)[0];
+    const rows = parseCsvRows(clean, firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',');
+    const header = rows[0]?.map(c => c.trim().toLowerCase()) ?? [];
+    const hasHeader = header.includes('type') && header.includes('pattern');
+    const column = (name: typeof CSV_COLUMNS[number]) => hasHeader ? header.indexOf(name) : CSV_COLUMNS.indexOf(name);
+
+    const entries = [...getWatchlist()];
+    const result: WatchlistImportResult = { added: 0, duplicates: 0, invalid: 0 };
+    rows.slice(hasHeader ? 1 : 0).forEach(row => {
+        const kind = row[column('type')]?.trim().toLowerCase();
+        const pattern = normalizePattern(row[column('pattern')] ?? '');
+        if (!isWatchlistKind(kind) || !pattern) {
+            result.invalid++;
+            return;
+        }
+        if (isDuplicate(entries, kind, pattern)) {
+            result.duplicates++;
+            return;
+        }
+        entries.push({ id: newId(), kind, pattern, note: row[column('note')]?.trim() ?? '' });
+        result.added++;
+    });
+    if (result.added > 0) saveWatchlist(entries);
+    return result;
+};
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener(WATCHLIST_CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(WATCHLIST_CHANGE_EVENT, onChange);
+};
+
+export const useWatchlist = (): WatchlistEntry[] => useSyncExternalStore(subscribe, getWatchlist);
+
+export const useWatchlistMatcher = (): WatchlistMatcher => {
+    const entries = useWatchlist();
+    return useMemo(() => createWatchlistMatcher(entries), [entries]);
+};